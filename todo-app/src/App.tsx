@@ -1,207 +1,1005 @@
-import { useState, useEffect } from 'react'
-import { Plus, Trash2, ListTodo, LogOut } from 'lucide-react'
+import { useState, useEffect, useCallback, useRef } from 'react'
+import {
+  Plus,
+  Trash2,
+  ListTodo,
+  LogOut,
+  HardDrive,
+  List,
+  Columns3,
+  Bell,
+  Users,
+  Eye,
+  ArrowDownUp,
+  Keyboard,
+  Settings,
+  ChartColumn,
+  ListChecks,
+} from 'lucide-react'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
-import { Checkbox } from '@/components/ui/checkbox'
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card'
-import {
-  Select,
-  SelectContent,
-  SelectItem,
-  SelectTrigger,
-  SelectValue,
-} from '@/components/ui/select'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Label } from '@/components/ui/label'
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs'
 import { cn } from '@/lib/utils'
 import { AuthProvider, useAuth } from './contexts/AuthContext'
+import { AuthCallback } from './components/auth/AuthCallback'
 import { AuthModal } from './components/auth/AuthModal'
-import { supabase, hasSupabaseConfig } from './lib/supabase'
-import type { Todo as TodoType } from './types/database'
+import { ReauthDialog } from './components/auth/ReauthDialog'
+import { CommandPalette, type Command } from './components/keyboard/CommandPalette'
+import { Key } from './components/keyboard/Key'
+import { ShortcutHelp } from './components/keyboard/ShortcutHelp'
+import { SettingsPage } from './components/settings/SettingsPage'
+import { ListSharing } from './components/lists/ListSharing'
+import { ListSidebar } from './components/lists/ListSidebar'
+import { PresenceAvatars } from './components/lists/PresenceAvatars'
+import { TagFilter } from './components/tags/TagFilter'
+import { TagManager } from './components/tags/TagManager'
+import { BulkActionBar } from './components/todos/BulkActionBar'
+import { ImportExportPanel } from './components/todos/ImportExportPanel'
+import { QuickAddPreview } from './components/todos/QuickAddPreview'
+import { StatusSelect } from './components/todos/StatusSelect'
+import { SyncStatus } from './components/todos/SyncStatus'
+import { ConflictPrompt, type ConflictChoice } from './components/todos/ConflictPrompt'
+import { TodoBoard } from './components/todos/TodoBoard'
+import { TodoDetail } from './components/todos/TodoDetail'
+import { TodoFilterBar } from './components/todos/TodoFilterBar'
+import { TodoList } from './components/todos/TodoList'
+import { TodoStats } from './components/todos/TodoStats'
+import { UndoToast } from './components/todos/UndoToast'
+import { useDebouncedValue } from './hooks/useDebouncedValue'
+import { useKeyboardShortcuts } from './hooks/useKeyboardShortcuts'
+import { useLists } from './hooks/useLists'
+import { useOutbox } from './hooks/useOutbox'
+import { usePersistentState } from './hooks/usePersistentState'
+import { usePresence } from './hooks/usePresence'
+import { useReminders } from './hooks/useReminders'
+import { useRoute } from './hooks/useRoute'
+import { useTags } from './hooks/useTags'
+import { useTodoFilter } from './hooks/useTodoFilter'
+import { useUndoHistory } from './hooks/useUndoHistory'
+import { isLocalMode, LOCAL_USER_ID } from './lib/repository'
+import { todoRepository, type ListProgress } from './lib/todoRepository'
+import {
+  affectedIds,
+  applyMutation,
+  applyPending,
+  groupConflicts,
+  isRedundant,
+  listEntries,
+  withStatusTimes,
+  withVersions,
+  type OutboxMutation,
+  type UpdateMutation,
+} from './lib/outbox'
+import { fromLocalInputValue } from './lib/dueDates'
+import { invertMutations, revertEntry } from './lib/history'
+import { focusAwayFrom, focusedTodoId, modKey, shownTodoIds } from './lib/keyboard'
+import { parseQuickAdd } from './lib/quickAdd'
+import { nextOccurrence, occurrenceId, parseRule } from './lib/recurrence'
+import { currentPath, navigate, paths, rememberReturnTo, returnTo, type Route } from './lib/routes'
+import { canEdit } from './lib/sharing'
+import { matchesTags, tagIdsByTodo } from './lib/tags'
+import { isFiltered, matchesFilter } from './lib/todoFilter'
+import { buildTree, positionBetween, subtreeIds } from './lib/todos'
+import { getPriorityLabel, priorityOptions, type TodoPriority } from './lib/todoPriority'
+import { compareTodos, sortOptions, type TodoSort } from './lib/todoSort'
+import { getStatusLabel, statusOptions, type TodoStatus } from './lib/todoStatus'
+import type { Todo as TodoType, TodoUpdate } from './types/database'
 
-type TodoStatus = 'todo' | 'in-progress' | 'done'
+type TodoView = 'list' | 'board' | 'stats'
 
-const statusOptions: { value: TodoStatus; label: string; color: string }[] = [
-  { value: 'todo', label: 'To Do', color: 'bg-gray-500' },
-  { value: 'in-progress', label: 'In Progress', color: 'bg-blue-500' },
-  { value: 'done', label: 'Done', color: 'bg-green-500' },
-]
+interface TodoAppProps {
+  route: Route
+}
 
-function TodoApp() {
-  const { user, signOut } = useAuth()
+function TodoApp({ route }: TodoAppProps) {
+  const { user, session, expired, signOut, verifySession } = useAuth()
   const [todos, setTodos] = useState<TodoType[]>([])
   const [newTodo, setNewTodo] = useState('')
   const [newTodoStatus, setNewTodoStatus] = useState<TodoStatus>('todo')
+  const [newTodoDue, setNewTodoDue] = useState('')
   const [loading, setLoading] = useState(true)
+  const [sharingOpen, setSharingOpen] = useState(false)
+  const [managingTags, setManagingTags] = useState(false)
+  const [transferOpen, setTransferOpen] = useState(false)
+  // The palette acts on the todo that had focus when it opened
+  const [palette, setPalette] = useState<{ todoId: string | null } | null>(null)
+  const [helpOpen, setHelpOpen] = useState(false)
+  const [todoLinkError, setTodoLinkError] = useState<string | null>(null)
+  const [rollbackError, setRollbackError] = useState<string | null>(null)
+  // Select mode puts a checkbox on every todo for the bulk action bar
+  const [selecting, setSelecting] = useState(false)
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set())
+  // The todo clicked last, where a shift-click range starts
+  const selectAnchor = useRef<string | null>(null)
+  const newTodoInput = useRef<HTMLInputElement>(null)
+
+  // In local mode there is no auth; everything belongs to one local user
+  const userId = user?.id ?? (isLocalMode ? LOCAL_USER_ID : undefined)
+
+  const [view, setView] = usePersistentState<TodoView>(`todo-app:view:${userId}`, 'list')
+  const [sort, setSort] = usePersistentState<TodoSort>(`todo-app:sort:${userId}`, 'manual')
+  const [autoCompleteParents, setAutoCompleteParents] = usePersistentState(
+    `todo-app:auto-complete:${userId}`,
+    true
+  )
 
-  // Fetch todos from Supabase
+  const {
+    lists,
+    roles,
+    loading: listsLoading,
+    createList,
+    renameList,
+    moveList,
+    deleteList,
+    refresh: refreshLists,
+  } = useLists(userId)
+  const [selectedListId, setSelectedListId] = usePersistentState<string | null>(
+    `todo-app:list:${userId}`,
+    null
+  )
+  // A /list/:id link picks the list; otherwise it's the one last opened
   useEffect(() => {
-    if (!user) return
+    if (route.name === 'list') setSelectedListId(route.id)
+  }, [route])
+  const openList = (id: string) => navigate(paths.list(id))
 
-    const fetchTodos = async () => {
-      const { data, error } = await supabase
-        .from('todos')
-        .select('*')
-        .order('created_at', { ascending: false })
+  // Fall back to the first list if the remembered one was deleted
+  const listId = lists.some((l) => l.id === selectedListId) ? selectedListId! : lists[0]?.id
+  const selectedList = lists.find((l) => l.id === listId)
+  // Viewers get a read-only list; the server enforces the same through RLS
+  const role = listId ? roles[listId] : undefined
+  const editable = canEdit(role)
 
-      if (error) {
-        console.error('Error fetching todos:', error)
-      } else {
-        setTodos(data || [])
-      }
-      setLoading(false)
+  const viewers = usePresence(listId, user)
+
+  const tagState = useTags(listId)
+  const { tags, links } = tagState
+  const tagIds = tagIdsByTodo(links)
+  const tagUsage = new Map(
+    tags.map((tag) => [tag.id, links.filter((link) => link.tag_id === tag.id).length])
+  )
+
+  const { filter: urlFilter, setFilter, clearFilter } = useTodoFilter()
+  // Ignore selected tags that were deleted or belong to another list
+  const filter = {
+    ...urlFilter,
+    tags: urlFilter.tags.filter((id) => tags.some((tag) => tag.id === id)),
+  }
+  const filtered = isFiltered(filter)
+  // Search, status and date filters are applied by the server, so `todos`
+  // only holds part of the list; tags are filtered here
+  const partial = isFiltered({ ...filter, tags: [] })
+  const fetchFilter = useDebouncedValue(urlFilter, 250)
+  const filterRef = useRef(urlFilter)
+  useEffect(() => {
+    filterRef.current = urlFilter
+  }, [urlFilter])
+
+  // The server has the final say, but the client check keeps the view in step
+  // while typing and with changes that haven't been refetched. Sorting here
+  // rather than on fetch puts realtime inserts in their place too.
+  const visibleTodos = todos
+    .filter(
+      (todo) =>
+        matchesFilter(todo, filter) && matchesTags(tagIds.get(todo.id), filter.tags, filter.match)
+    )
+    .sort(compareTodos(sort))
+
+  const [progress, setProgress] = useState<Record<string, ListProgress>>({})
+
+  // Edits queued with rollback that the server turned down are dropped, so
+  // the server's copy comes back. Edits refused because the todo changed
+  // elsewhere wait in the conflict prompt, with the list showing the other
+  // version meanwhile. An unauthenticated response checks whether the
+  // session is still good, which brings up the sign-in prompt if it isn't.
+  const outbox = useOutbox(userId, {
+    onRollback: (entry, error) => {
+      const ids = affectedIds(entry.mutation)
+      const what = ids.length === 1 ? describe(ids[0]) : `${ids.length} tasks`
+      setRollbackError(`Couldn't save your change to ${what}, so it was undone: ${error}`)
+      fetchTodos()
+    },
+    onConflict: () => fetchTodos(),
+    onAuthFailure: verifySession,
+  })
+  const { entriesRef, enqueue, takeConflicts } = outbox
+
+  const reminders = useReminders(userId, todos)
+
+  // Responses to earlier filters can arrive after later ones while typing
+  const fetchSeq = useRef(0)
+
+  const fetchTodos = useCallback(async () => {
+    if (!userId || !listId) return
+
+    const seq = ++fetchSeq.current
+    const { data, error } = await todoRepository.list(listId, fetchFilter)
+    if (seq !== fetchSeq.current) return
+
+    if (error) {
+      console.error('Error fetching todos:', error)
+    } else {
+      // Keep changes that haven't reached the server yet on top of its data
+      const queued = await listEntries(userId).catch(() => entriesRef.current)
+      setTodos(applyPending(data || [], queued, listId))
     }
+    setLoading(false)
+  }, [userId, listId, fetchFilter, entriesRef])
 
+  // Fetch the selected list's todos, again whenever the filter settles
+  useEffect(() => {
     fetchTodos()
+  }, [fetchTodos])
 
-    // Subscribe to real-time updates
-    const channel = supabase
-      .channel('todos-changes')
-      .on(
-        'postgres_changes',
-        {
-          event: '*',
-          schema: 'public',
-          table: 'todos',
-          filter: `user_id=eq.${user.id}`,
-        },
-        (payload) => {
-          if (payload.eventType === 'INSERT') {
-            setTodos((current) => {
-              // Check if todo already exists (from optimistic update)
-              const exists = current.some((todo) => todo.id === payload.new.id)
-              if (exists) return current
-              return [payload.new as TodoType, ...current]
-            })
-          } else if (payload.eventType === 'UPDATE') {
-            setTodos((current) =>
-              current.map((todo) =>
-                todo.id === payload.new.id ? (payload.new as TodoType) : todo
-              )
-            )
-          } else if (payload.eventType === 'DELETE') {
-            setTodos((current) =>
-              current.filter((todo) => todo.id !== payload.old.id)
-            )
-          }
-        }
-      )
-      .subscribe()
+  // The session's access token. It follows the session as it's refreshed or
+  // replaced, but not to null: while an expired session is being renewed,
+  // the todos on screen stay as they are.
+  const [channelToken, setChannelToken] = useState(session?.access_token)
+  useEffect(() => {
+    if (session?.access_token) setChannelToken(session.access_token)
+  }, [session?.access_token])
+
+  // With a new token, catch up on anything missed while the old one was
+  // failing and send the changes that queued up behind it
+  const previousToken = useRef(channelToken)
+  useEffect(() => {
+    if (previousToken.current === channelToken) return
+    previousToken.current = channelToken
+    fetchTodos()
+    outbox.flush()
+  }, [channelToken])
+
+  useEffect(() => {
+    if (listId) setLoading(true)
+  }, [listId])
+
+  // A selection belongs to one list
+  useEffect(() => {
+    setSelectedIds(new Set())
+    selectAnchor.current = null
+  }, [listId])
+
+  // Subscribe to changes made elsewhere, keeping only todos that match the
+  // active filter. The channel stays joined when the session rotates; the
+  // new token is handed to realtime in AuthContext.
+  useEffect(() => {
+    if (!listId) return
+
+    return todoRepository.subscribe(listId, (change) => {
+      if (change.type === 'INSERT') {
+        if (!matchesFilter(change.row, filterRef.current)) return
+        setTodos((current) => {
+          // Check if todo already exists (from optimistic update)
+          const exists = current.some((todo) => todo.id === change.row.id)
+          if (exists) return current
+          return [change.row, ...current]
+        })
+      } else if (change.type === 'UPDATE') {
+        // An edit can move a todo into or out of the filtered view
+        const matches = matchesFilter(change.row, filterRef.current)
+        setTodos((current) => {
+          // Events can arrive out of order; one older than the copy we have
+          // is stale
+          const existing = current.find((todo) => todo.id === change.row.id)
+          if (existing && change.row.version < existing.version) return current
+
+          const others = current.filter((todo) => todo.id !== change.row.id)
+          const exists = others.length < current.length
+          if (!matches) return others
+          const next = exists
+            ? current.map((todo) => (todo.id === change.row.id ? change.row : todo))
+            : [change.row, ...current]
+          return applyPending(next, entriesRef.current, listId)
+        })
+      } else if (change.type === 'DELETE') {
+        setTodos((current) => current.filter((todo) => todo.id !== change.id))
+      }
+    })
+  }, [listId, entriesRef])
+
+  // Counts for the other lists in the sidebar; the selected one is live below
+  useEffect(() => {
+    if (lists.length === 0) return
 
-    return () => {
-      supabase.removeChannel(channel)
+    todoRepository.progress().then(({ data, error }) => {
+      if (error) {
+        console.error('Error fetching list progress:', error)
+      } else if (data) {
+        setProgress(data)
+      }
+    })
+  }, [lists, listId])
+
+  // Every change is applied locally first and then queued in the outbox,
+  // which replays it against the repository now or once we're back online.
+  // Todos moved to another list leave this one.
+  const mutate = (mutation: OutboxMutation, rollback = false) => {
+    setTodos((current) =>
+      applyMutation(current, mutation).filter((todo) => todo.list_id === listId)
+    )
+    enqueue(mutation, rollback).catch((error) => {
+      console.error('Error queueing change:', error)
+      fetchTodos()
+    })
+  }
+
+  // Undo and redo are ordinary changes too, worked out against the todos as
+  // they are now so edits from other devices in between aren't overwritten
+  const history = useUndoHistory(listId, (entry) => {
+    if (!userId) return null
+    const next = revertEntry(todos, entry, { userId, tagIds })
+    if (next) withVersions(todos, next.applied).forEach((mutation) => mutate(mutation))
+    return next
+  })
+
+  // Apply a user action as one undoable step. With `rollback`, a change the
+  // server rejects is undone rather than left for a retry. Updates are sent
+  // against the version of the todo they were made on; history keeps them
+  // unversioned, since undo and redo happen against later versions. Status
+  // times are stamped first, so undoing a completion clears its time too.
+  const commit = (label: string, changes: OutboxMutation[], notify = false, rollback = false) => {
+    if (changes.length === 0 || !userId) return
+    const mutations = withStatusTimes(todos, changes)
+    const revert = invertMutations(todos, mutations, { userId, tagIds })
+    history.record({ label, applied: mutations, revert }, notify)
+    withVersions(todos, mutations).forEach((mutation) => mutate(mutation, rollback))
+  }
+
+  const tree = buildTree(todos)
+  const describe = (id: string) => `“${todos.find((t) => t.id === id)?.text ?? 'task'}”`
+
+  // Dates, #tags and @status typed into the add row win over its other fields
+  const quickAdd = parseQuickAdd(newTodo)
+
+  const addTodo = () => {
+    if (quickAdd.text === '' || !userId || !listId) return
+    const id = crypto.randomUUID()
+
+    commit(`Added “${quickAdd.text}”`, [{
+      type: 'insert',
+      row: {
+        id,
+        user_id: userId,
+        list_id: listId,
+        text: quickAdd.text,
+        completed: false,
+        status: quickAdd.status ?? newTodoStatus,
+        priority: quickAdd.priority ?? 'none',
+        due_at: quickAdd.dueAt ?? fromLocalInputValue(newTodoDue),
+        recurrence: quickAdd.recurrence,
+        // New todos go on top
+        position: positionBetween(undefined, tree.roots[0]),
+        created_at: new Date().toISOString(),
+      },
+    }])
+    if (quickAdd.tags.length > 0) {
+      pendingTags.current.set(id, { names: quickAdd.tags, queued: false })
     }
-  }, [user])
+    setNewTodo('')
+    setNewTodoStatus('todo')
+    setNewTodoDue('')
+  }
 
-  const addTodo = async () => {
-    if (newTodo.trim() === '' || !user) return
+  const addSubtask = (parentId: string, text: string) => {
+    const parent = todos.find((t) => t.id === parentId)
+    if (!parent || !userId) return
+    const siblings = tree.children.get(parent.id) ?? []
 
-    const { data, error } = await supabase
-      .from('todos')
-      .insert({
-        user_id: user.id,
-        text: newTodo.trim(),
+    commit(`Added subtask “${text}”`, [{
+      type: 'insert',
+      row: {
+        id: crypto.randomUUID(),
+        user_id: userId,
+        list_id: parent.list_id,
+        parent_id: parent.id,
+        text,
         completed: false,
-        status: newTodoStatus,
-      })
-      .select()
-      .single()
+        status: 'todo',
+        // Subtasks are added below their siblings
+        position: positionBetween(siblings[siblings.length - 1], undefined),
+        created_at: new Date().toISOString(),
+      },
+    }])
+  }
 
-    if (error) {
-      console.error('Error adding todo:', error)
-    } else {
-      // Optimistically add to UI immediately
-      setTodos((current) => [data, ...current])
-      setNewTodo('')
-      setNewTodoStatus('todo')
+  // The todo that follows a recurring one once it's done, placed right after
+  // it and shifted by one step of its rule (the reminder too). Its id comes
+  // from the finished todo's, so two devices completing the same todo insert
+  // the same row and the second insert is a no-op. It belongs to whoever
+  // finished it, since RLS only lets editors insert todos as themselves.
+  const occurrenceAfter = (id: string): OutboxMutation[] => {
+    const todo = todos.find((t) => t.id === id)
+    const rule = todo?.recurrence ? parseRule(todo.recurrence) : null
+    if (!todo || !rule || !userId) return []
+    const nextId = occurrenceId(todo.id)
+    if (todos.some((t) => t.id === nextId)) return []
+
+    const due = todo.due_at ? new Date(todo.due_at) : new Date()
+    const next = nextOccurrence(rule, due)
+    if (!next) return []
+    const shift = (iso: string | null) =>
+      iso && new Date(new Date(iso).getTime() + next.getTime() - due.getTime()).toISOString()
+
+    const siblings = todo.parent_id ? tree.children.get(todo.parent_id) ?? [] : tree.roots
+    const after = siblings[siblings.findIndex((t) => t.id === todo.id) + 1]
+    const tagNames = tags.filter((tag) => tagIds.get(todo.id)?.has(tag.id)).map((tag) => tag.name)
+    if (tagNames.length > 0) {
+      pendingTags.current.set(nextId, { names: tagNames, queued: false })
     }
+
+    return [{
+      type: 'insert',
+      row: {
+        id: nextId,
+        user_id: userId,
+        list_id: todo.list_id,
+        parent_id: todo.parent_id,
+        text: todo.text,
+        completed: false,
+        status: 'todo',
+        priority: todo.priority,
+        due_at: next.toISOString(),
+        remind_at: shift(todo.remind_at),
+        recurrence: todo.recurrence,
+        position: positionBetween(todo, after),
+        created_at: new Date().toISOString(),
+      },
+    }]
   }
 
-  const toggleTodo = async (id: string, completed: boolean) => {
-    // Optimistically update UI
-    setTodos((current) =>
-      current.map((todo) =>
-        todo.id === id ? { ...todo, completed: !completed } : todo
-      )
-    )
+  const updateTodoText = (id: string, text: string) => {
+    commit(`Renamed ${describe(id)}`, [{ type: 'update', id, changes: { text } }], false, true)
+  }
+
+  const updateTodoNotes = (id: string, notes: string | null) => {
+    commit(`Edited notes on ${describe(id)}`, [{ type: 'update', id, changes: { notes } }], false, true)
+  }
+
+  const toggleTodo = (id: string, completed: boolean) => {
+    // Parents completed along the way are undone together with the todo
+    const mutations: OutboxMutation[] = [{ type: 'update', id, changes: { completed: !completed } }]
+    const label = `${completed ? 'Reopened' : 'Completed'} ${describe(id)}`
+    if (!completed) mutations.push(...occurrenceAfter(id))
+    // With a server-side filter we can't see every sibling, so don't guess
+    if (completed || !autoCompleteParents || partial) {
+      commit(label, mutations)
+      return
+    }
 
-    const { error } = await supabase
-      .from('todos')
-      .update({ completed: !completed })
-      .eq('id', id)
+    // Completing the last open subtask completes the parent, and so on up
+    const done = new Set([id])
+    let todo = todos.find((t) => t.id === id)
+    while (todo?.parent_id) {
+      const parent = todos.find((t) => t.id === todo!.parent_id)
+      if (!parent || parent.completed) break
+      const siblings = tree.children.get(parent.id) ?? []
+      if (!siblings.every((child) => child.completed || done.has(child.id))) break
 
-    if (error) {
-      console.error('Error toggling todo:', error)
-      // Revert on error
-      setTodos((current) =>
-        current.map((todo) =>
-          todo.id === id ? { ...todo, completed } : todo
-        )
-      )
+      mutations.push({ type: 'update', id: parent.id, changes: { completed: true } })
+      mutations.push(...occurrenceAfter(parent.id))
+      done.add(parent.id)
+      todo = parent
     }
+    commit(label, mutations)
   }
 
-  const updateTodoStatus = async (id: string, status: TodoStatus) => {
-    // Store old status for rollback
-    const oldStatus = todos.find((t) => t.id === id)?.status
+  const updateTodoStatus = (id: string, status: TodoStatus) => {
+    const mutations: OutboxMutation[] = [{ type: 'update', id, changes: { status } }]
+    const todo = todos.find((t) => t.id === id)
+    if (status === 'done' && todo?.status !== 'done') mutations.push(...occurrenceAfter(id))
+    commit(`Moved ${describe(id)} to ${getStatusLabel(status)}`, mutations)
+  }
 
-    // Optimistically update UI
-    setTodos((current) =>
-      current.map((todo) =>
-        todo.id === id ? { ...todo, status } : todo
-      )
-    )
+  const updateTodoPriority = (id: string, priority: TodoPriority) => {
+    commit(`Set ${describe(id)} to ${getPriorityLabel(priority)}`, [
+      { type: 'update', id, changes: { priority } },
+    ])
+  }
 
-    const { error } = await supabase
-      .from('todos')
-      .update({ status })
-      .eq('id', id)
+  const updateTodoDates = (
+    id: string,
+    changes: Pick<TodoUpdate, 'due_at' | 'remind_at' | 'recurrence'>
+  ) => {
+    // Ask while we still have the user gesture that set the reminder
+    if (changes.remind_at) reminders.requestPermission()
+    commit(`Changed dates of ${describe(id)}`, [{ type: 'update', id, changes }])
+  }
 
-    if (error) {
-      console.error('Error updating todo status:', error)
-      // Revert on error
-      if (oldStatus) {
-        setTodos((current) =>
-          current.map((todo) =>
-            todo.id === id ? { ...todo, status: oldStatus } : todo
-          )
-        )
-      }
+  // Skipping moves the todo itself on to its next date instead of creating a
+  // new one; at the end of the series there is nothing left to skip to, so
+  // the todo is completed
+  const skipOccurrence = (id: string) => {
+    const todo = todos.find((t) => t.id === id)
+    const rule = todo?.recurrence ? parseRule(todo.recurrence) : null
+    if (!todo || !rule) return
+    const due = todo.due_at ? new Date(todo.due_at) : new Date()
+    const next = nextOccurrence(rule, due)
+    if (!next) {
+      commit(`Completed ${describe(id)}`, [{ type: 'update', id, changes: { completed: true } }])
+      return
     }
+
+    const remindAt = todo.remind_at &&
+      new Date(new Date(todo.remind_at).getTime() + next.getTime() - due.getTime()).toISOString()
+    commit(`Skipped ${describe(id)} to ${next.toLocaleDateString()}`, [
+      { type: 'update', id, changes: { due_at: next.toISOString(), remind_at: remindAt } },
+    ], true)
   }
 
-  const deleteTodo = async (id: string) => {
-    // Store for rollback
-    const deletedTodo = todos.find((t) => t.id === id)
+  // Only the moved todo is written; its neighbours keep their keys
+  const reorderTodo = (id: string, position: string) => {
+    commit(`Moved ${describe(id)}`, [{ type: 'update', id, changes: { position } }])
+  }
 
-    // Optimistically remove from UI
-    setTodos((current) => current.filter((todo) => todo.id !== id))
+  // Deleting a todo deletes its subtasks. All ids go into one outbox entry so
+  // the whole subtree is removed, queued and restored together.
+  const deleteTodo = (id: string) => {
+    const ids = subtreeIds(tree, id)
+    const subtasks =
+      ids.length > 1 ? ` and ${ids.length - 1} ${ids.length === 2 ? 'subtask' : 'subtasks'}` : ''
+    commit(`Deleted ${describe(id)}${subtasks}`, [{ type: 'delete', ids }], true)
+  }
 
-    const { error } = await supabase.from('todos').delete().eq('id', id)
+  // Completed todos whose subtasks are all done too; clearing never takes
+  // unfinished subtasks down with their parent
+  const completedIds = new Set(todos.filter((t) => t.completed).map((t) => t.id))
+  const clearableIds = [
+    ...new Set(
+      [...completedIds]
+        .map((id) => subtreeIds(tree, id))
+        .filter((ids) => ids.every((id) => completedIds.has(id)))
+        .flat()
+    ),
+  ]
 
-    if (error) {
-      console.error('Error deleting todo:', error)
-      // Revert on error
-      if (deletedTodo) {
-        setTodos((current) => [deletedTodo, ...current])
-      }
+  const clearCompleted = () => {
+    if (clearableIds.length === 0) return
+
+    commit(
+      `Cleared ${clearableIds.length} completed ${clearableIds.length === 1 ? 'task' : 'tasks'}`,
+      [{ type: 'delete', ids: clearableIds }],
+      true
+    )
+  }
+
+  // Bulk actions work on the selected todos that are still on screen. Each is
+  // sent as one request that the server saves or refuses as a whole, so a
+  // refusal rolls back every todo in it, and is one step to undo. The next
+  // occurrences of recurring todos follow as inserts of their own.
+  const selectedTodos = visibleTodos.filter((todo) => selectedIds.has(todo.id))
+  const taskCount = (n: number) => `${n} ${n === 1 ? 'task' : 'tasks'}`
+
+  const selectTodo = (id: string, selected: boolean, range: boolean) => {
+    const shown = shownTodoIds()
+    const from = range && selectAnchor.current ? shown.indexOf(selectAnchor.current) : -1
+    const to = shown.indexOf(id)
+    const ids =
+      from >= 0 && to >= 0 ? shown.slice(Math.min(from, to), Math.max(from, to) + 1) : [id]
+    setSelectedIds((current) => {
+      const next = new Set(current)
+      ids.forEach((i) => (selected ? next.add(i) : next.delete(i)))
+      return next
+    })
+    selectAnchor.current = id
+  }
+
+  const selectAll = () => setSelectedIds(new Set(visibleTodos.map((todo) => todo.id)))
+
+  const stopSelecting = () => {
+    setSelecting(false)
+    setSelectedIds(new Set())
+    selectAnchor.current = null
+  }
+
+  // Only todos that aren't that way already are changed
+  const updateSelected = (
+    label: string,
+    changing: TodoType[],
+    changes: TodoUpdate,
+    occurrences: boolean
+  ) => {
+    if (changing.length === 0) return
+    const updates = changing.map((todo): UpdateMutation => ({ type: 'update', id: todo.id, changes }))
+    const next = occurrences ? changing.flatMap((todo) => occurrenceAfter(todo.id)) : []
+    commit(label, [{ type: 'batch', updates }, ...next], true, true)
+  }
+
+  const setSelectedStatus = (status: TodoStatus) => {
+    const changing = selectedTodos.filter((todo) => todo.status !== status)
+    updateSelected(
+      `Moved ${taskCount(changing.length)} to ${getStatusLabel(status)}`,
+      changing,
+      { status },
+      status === 'done'
+    )
+  }
+
+  const setSelectedCompleted = (completed: boolean) => {
+    const changing = selectedTodos.filter((todo) => todo.completed !== completed)
+    updateSelected(
+      `${completed ? 'Completed' : 'Reopened'} ${taskCount(changing.length)}`,
+      changing,
+      { completed },
+      completed
+    )
+  }
+
+  // Subtasks go with their parents, as when deleting one todo
+  const deleteSelected = () => {
+    const ids = [...new Set(selectedTodos.flatMap((todo) => subtreeIds(tree, todo.id)))]
+    if (ids.length === 0) return
+    commit(`Deleted ${taskCount(ids.length)}`, [{ type: 'delete', ids }], true, true)
+  }
+
+  // Subtasks move along, parents first since a subtask has to be in its
+  // parent's list; a selected subtask whose parent stays behind becomes a
+  // top-level todo. Moves aren't undoable: the todos are gone from this list,
+  // so there'd be nothing here to undo them on. With a server-side filter we
+  // can't see every subtask, so moving waits until the filter is cleared.
+  const moveSelected = (targetId: string) => {
+    const moving = new Set(selectedTodos.map((todo) => todo.id))
+    const underMoving = (todo: TodoType): boolean => {
+      const parent = todos.find((t) => t.id === todo.parent_id)
+      return !!parent && (moving.has(parent.id) || underMoving(parent))
     }
+    const roots = selectedTodos.filter((todo) => !underMoving(todo))
+    if (roots.length === 0) return
+
+    const updates = roots.flatMap((root) =>
+      subtreeIds(tree, root.id).map((id): UpdateMutation => {
+        const changes: TodoUpdate = { list_id: targetId }
+        if (id === root.id && root.parent_id) changes.parent_id = null
+        return { type: 'update', id, changes }
+      })
+    )
+    withVersions(todos, [{ type: 'batch', updates }]).forEach((mutation) => mutate(mutation, true))
   }
 
-  const clearCompleted = async () => {
-    const completedTodos = todos.filter((t) => t.completed)
-    const completedIds = completedTodos.map((t) => t.id)
+  // Tags every selected todo has; tagging is sent straight to the server
+  // rather than queued, like tagging a single todo
+  const onEverySelected = (tagId: string) =>
+    selectedTodos.length > 0 && selectedTodos.every((todo) => tagIds.get(todo.id)?.has(tagId))
+  const selectedTagIds = new Set(tags.map((tag) => tag.id).filter(onEverySelected))
 
-    // Optimistically remove from UI
-    setTodos((current) => current.filter((t) => !t.completed))
+  const tagSelected = (tagId: string, tagged: boolean) => {
+    const ids = selectedTodos.map((todo) => todo.id)
+    if (tagged) tagState.addTagToMany(ids, tagId)
+    else tagState.removeTagFromMany(ids, tagId)
+  }
 
-    const { error } = await supabase.from('todos').delete().in('id', completedIds)
+  const selection =
+    selecting && editable && view !== 'stats'
+      ? { selected: selectedIds, onSelect: selectTodo }
+      : undefined
 
-    if (error) {
-      console.error('Error clearing completed todos:', error)
-      // Revert on error
-      setTodos((current) => [...completedTodos, ...current])
+  // Dropping rejected changes means the server copy wins again
+  const discardFailed = async () => {
+    await outbox.discardFailed()
+    fetchTodos()
+  }
+
+  // A conflict where the other device already made the same change settles
+  // itself; the rest wait for the user
+  const conflicts = groupConflicts(outbox.conflicts)
+  const openConflicts = conflicts.filter((c) => !c.theirs || !isRedundant(c.changes, c.theirs))
+
+  useEffect(() => {
+    conflicts
+      .filter((conflict) => !openConflicts.includes(conflict))
+      .forEach((conflict) => takeConflicts(conflict.id))
+  }, [outbox.conflicts])
+
+  // Keeping mine sends the refused edits again, this time against the
+  // version we have now; using theirs drops them
+  const resolveConflict = async (id: string, keep: ConflictChoice) => {
+    const conflict = conflicts.find((c) => c.id === id)
+    await takeConflicts(id)
+    if (keep === 'mine' && conflict) {
+      const version = todos.find((todo) => todo.id === id)?.version ?? conflict.theirs?.version
+      mutate({ type: 'update', id, changes: conflict.changes, version }, conflict.rollback)
+    } else {
+      fetchTodos()
     }
   }
 
+  const changeTodoTag = (id: string, tagId: string, tagged: boolean) => {
+    if (tagged) tagState.addTag(id, tagId)
+    else tagState.removeTag(id, tagId)
+  }
+
+  const createTodoTag = async (id: string, name: string) => {
+    const tag = await tagState.createTag(name)
+    if (tag) tagState.addTag(id, tag.id)
+  }
+
+  // #tags from the add row are linked once the new todo has synced, since the
+  // server won't accept a link to a todo it hasn't seen yet
+  const pendingTags = useRef(new Map<string, { names: string[]; queued: boolean }>())
+
+  useEffect(() => {
+    for (const [id, pending] of pendingTags.current) {
+      if (outbox.syncStates.has(id)) {
+        pending.queued = true
+      } else if (pending.queued) {
+        pendingTags.current.delete(id)
+        if (todos.some((todo) => todo.id === id)) {
+          pending.names.forEach((name) => createTodoTag(id, name))
+        }
+      }
+    }
+  }, [outbox.syncStates])
+
+  const settingsOpen = route.name === 'settings'
+  const detailId = route.name === 'todo' ? route.id : null
+  const openDetails = (id: string) => navigate(paths.todo(id))
+  const backToList = () => navigate(listId ? paths.list(listId) : paths.home)
+
+  // Closes by itself if the todo is deleted or filtered out
+  const detailTodo = todos.find((todo) => todo.id === detailId)
+
+  // A /todo/:id link can point at a todo in another list, or one the filter
+  // hides. Each link is looked up once, so the filter can be set again after.
+  const lookedUp = useRef<string | null>(null)
+  useEffect(() => {
+    if (!detailId || loading || detailId === lookedUp.current) return
+    lookedUp.current = detailId
+    setTodoLinkError(null)
+    if (todos.some((todo) => todo.id === detailId)) return
+
+    todoRepository.get(detailId).then(({ data, error }) => {
+      if (error) {
+        console.error('Error fetching todo:', error)
+        setTodoLinkError(`Couldn't open that task: ${error}`)
+      } else if (!data) {
+        setTodoLinkError("That task doesn't exist or isn't shared with you")
+      } else if (data.list_id !== listId) {
+        setSelectedListId(data.list_id)
+      } else {
+        clearFilter()
+      }
+    })
+  }, [detailId, loading])
+
+  const linkError =
+    route.name === 'list' && !lists.some((list) => list.id === route.id)
+      ? "That list doesn't exist or isn't shared with you"
+      : route.name === 'todo'
+        ? todoLinkError
+        : null
+
+  useKeyboardShortcuts(
+    {
+      onPalette: () => setPalette({ todoId: focusedTodoId() }),
+      onHelp: () => setHelpOpen(true),
+      onSearch: () => document.getElementById('todo-search')?.focus(),
+      onNewTodo: () => newTodoInput.current?.focus(),
+    },
+    !palette && !helpOpen && !detailTodo && !expired && !settingsOpen
+  )
+
+  // Everything the app can do, for the command palette
+  const paletteTodo = todos.find((todo) => todo.id === palette?.todoId)
+  const commands: Command[] = [
+    ...(editable
+      ? [
+          {
+            id: 'new-task',
+            label: 'New task',
+            section: 'Tasks',
+            keywords: ['add', 'create'],
+            shortcut: ['n'],
+            run: () => newTodoInput.current?.focus(),
+          },
+        ]
+      : []),
+    {
+      id: 'search',
+      label: 'Search tasks',
+      section: 'Tasks',
+      keywords: ['find'],
+      shortcut: ['/'],
+      run: () => document.getElementById('todo-search')?.focus(),
+    },
+    ...(editable && clearableIds.length > 0
+      ? [
+          {
+            id: 'clear-completed',
+            label: 'Clear completed tasks',
+            section: 'Tasks',
+            run: clearCompleted,
+          },
+        ]
+      : []),
+    ...(editable && view !== 'stats'
+      ? [
+          {
+            id: 'select',
+            label: selecting ? 'Stop selecting tasks' : 'Select tasks',
+            section: 'Tasks',
+            keywords: ['multi-select', 'bulk', 'batch'],
+            run: () => (selecting ? stopSelecting() : setSelecting(true)),
+          },
+        ]
+      : []),
+    ...(selection
+      ? [
+          {
+            id: 'select-all',
+            label: `Select all ${taskCount(visibleTodos.length)}`,
+            section: 'Tasks',
+            run: selectAll,
+          },
+        ]
+      : []),
+    { id: 'undo', label: 'Undo', section: 'Tasks', shortcut: [modKey, 'Z'], run: history.undo },
+    {
+      id: 'redo',
+      label: 'Redo',
+      section: 'Tasks',
+      shortcut: [modKey, 'Shift', 'Z'],
+      run: history.redo,
+    },
+    ...(paletteTodo
+      ? [
+          {
+            id: 'todo-details',
+            label: 'Open task details',
+            section: 'Focused task',
+            keywords: ['notes'],
+            run: () => openDetails(paletteTodo.id),
+          },
+        ]
+      : []),
+    ...(paletteTodo && editable
+      ? [
+          {
+            id: 'todo-toggle',
+            label: paletteTodo.completed ? 'Reopen task' : 'Complete task',
+            section: 'Focused task',
+            keywords: ['done', 'check'],
+            shortcut: ['x'],
+            run: () => toggleTodo(paletteTodo.id, paletteTodo.completed),
+          },
+          ...statusOptions
+            .filter((option) => option.value !== paletteTodo.status)
+            .map((option) => ({
+              id: `todo-status-${option.value}`,
+              label: `Move task to ${option.label}`,
+              section: 'Focused task',
+              keywords: ['status'],
+              shortcut: [String(statusOptions.indexOf(option) + 1)],
+              run: () => updateTodoStatus(paletteTodo.id, option.value),
+            })),
+          ...priorityOptions
+            .filter((option) => option.value !== paletteTodo.priority)
+            .map((option) => ({
+              id: `todo-priority-${option.value}`,
+              label: `Set priority to ${option.label}`,
+              section: 'Focused task',
+              run: () => updateTodoPriority(paletteTodo.id, option.value),
+            })),
+          {
+            id: 'todo-delete',
+            label: 'Delete task',
+            section: 'Focused task',
+            keywords: ['remove'],
+            shortcut: ['Delete'],
+            run: () => {
+              const row = document.querySelector<HTMLElement>(`[data-todo-id="${paletteTodo.id}"]`)
+              if (row) focusAwayFrom(row)
+              deleteTodo(paletteTodo.id)
+            },
+          },
+        ]
+      : []),
+    ...statusOptions.map((option) => ({
+      id: `filter-status-${option.value}`,
+      label: `Show ${option.label} tasks`,
+      section: 'Filter',
+      keywords: ['status', 'filter'],
+      run: () => setFilter({ status: option.value }),
+    })),
+    ...(filtered
+      ? [
+          {
+            id: 'clear-filters',
+            label: 'Clear filters',
+            section: 'Filter',
+            keywords: ['all'],
+            run: clearFilter,
+          },
+        ]
+      : []),
+    ...sortOptions.map((option) => ({
+      id: `sort-${option.value}`,
+      label: `Sort by ${option.label}`,
+      section: 'View',
+      keywords: ['order'],
+      run: () => setSort(option.value),
+    })),
+    { id: 'view-list', label: 'List view', section: 'View', run: () => setView('list') },
+    {
+      id: 'view-board',
+      label: 'Board view',
+      section: 'View',
+      keywords: ['kanban'],
+      run: () => setView('board'),
+    },
+    {
+      id: 'view-stats',
+      label: 'Statistics',
+      section: 'View',
+      keywords: ['stats', 'chart', 'streak', 'burndown', 'cycle time'],
+      run: () => setView('stats'),
+    },
+    ...lists
+      .filter((list) => list.id !== listId)
+      .map((list) => ({
+        id: `list-${list.id}`,
+        label: `Go to ${list.name}`,
+        section: 'Lists',
+        keywords: ['switch', 'open'],
+        run: () => openList(list.id),
+      })),
+    {
+      id: 'import-export',
+      label: 'Import & export',
+      section: 'Lists',
+      keywords: ['download', 'upload', 'csv', 'json'],
+      run: () => setTransferOpen(true),
+    },
+    ...(!isLocalMode
+      ? [
+          {
+            id: 'sharing',
+            label: 'Sharing',
+            section: 'Lists',
+            keywords: ['invite', 'members'],
+            run: () => setSharingOpen(true),
+          },
+        ]
+      : []),
+    ...(editable
+      ? [
+          {
+            id: 'manage-tags',
+            label: 'Manage tags',
+            section: 'Lists',
+            keywords: ['labels'],
+            run: () => setManagingTags(true),
+          },
+        ]
+      : []),
+    {
+      id: 'shortcuts',
+      label: 'Keyboard shortcuts',
+      section: 'Help',
+      shortcut: ['?'],
+      run: () => setHelpOpen(true),
+    },
+    ...(!isLocalMode
+      ? [
+          {
+            id: 'settings',
+            label: 'Open settings',
+            section: 'Account',
+            keywords: ['account', 'email', 'password', 'export', 'delete'],
+            run: () => navigate(paths.settings),
+          },
+          {
+            id: 'sign-out',
+            label: 'Sign out',
+            section: 'Account',
+            keywords: ['log out', 'logout'],
+            run: signOut,
+          },
+        ]
+      : []),
+  ]
+
   const handleKeyPress = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter') {
       addTodo()
@@ -211,15 +1009,13 @@ function TodoApp() {
   const completedCount = todos.filter((t) => t.completed).length
   const totalCount = todos.length
 
-  const getStatusColor = (status: TodoStatus) => {
-    return statusOptions.find((opt) => opt.value === status)?.color || 'bg-gray-500'
-  }
-
-  const getStatusLabel = (status: TodoStatus) => {
-    return statusOptions.find((opt) => opt.value === status)?.label || status
-  }
+  // Counts in the sidebar, with the selected list kept live from `todos`
+  // unless a filter means `todos` isn't the whole list
+  const sidebarProgress = listId && !partial
+    ? { ...progress, [listId]: { total: totalCount, completed: completedCount } }
+    : progress
 
-  if (loading) {
+  if (listsLoading) {
     return (
       <div className="min-h-screen bg-background flex items-center justify-center">
         <p className="text-muted-foreground">Loading...</p>
@@ -227,9 +1023,13 @@ function TodoApp() {
     )
   }
 
+  if (settingsOpen) {
+    return <SettingsPage onBack={backToList} />
+  }
+
   return (
     <div className="min-h-screen bg-background">
-      <div className="container mx-auto px-4 py-12 max-w-2xl">
+      <div className={cn("container mx-auto px-4 py-12", view === 'board' ? "max-w-6xl" : "max-w-4xl")}>
         {/* Header */}
         <div className="text-center mb-10">
           <div className="inline-flex items-center gap-3 mb-3">
@@ -244,173 +1044,429 @@ function TodoApp() {
             Stay organized and get things done
           </p>
           <div className="mt-4">
-            <Button
-              variant="outline"
-              size="sm"
-              onClick={signOut}
-              className="gap-2"
-            >
-              <LogOut className="w-4 h-4" />
-              Log Out
-            </Button>
+            {isLocalMode ? (
+              <p className="inline-flex items-center gap-2 text-xs text-muted-foreground bg-secondary px-3 py-1.5 rounded-md">
+                <HardDrive className="w-3.5 h-3.5" />
+                Local mode · todos are saved in this browser only
+              </p>
+            ) : (
+              <div className="inline-flex gap-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => navigate(paths.settings)}
+                  className="gap-2"
+                >
+                  <Settings className="w-4 h-4" />
+                  Settings
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={signOut}
+                  className="gap-2"
+                >
+                  <LogOut className="w-4 h-4" />
+                  Log Out
+                </Button>
+              </div>
+            )}
           </div>
         </div>
 
-        {/* Main Card */}
-        <Card>
-          <CardHeader className="pb-4">
-            <div className="flex items-center justify-between">
-              <div>
-                <CardTitle className="text-xl">Your Tasks</CardTitle>
-                <CardDescription>
-                  {totalCount === 0
-                    ? "No tasks yet. Add one below!"
-                    : `${completedCount} of ${totalCount} completed`}
-                </CardDescription>
+        <div className="flex flex-col md:flex-row gap-6 items-start">
+          {/* Lists */}
+          <Card className="w-full md:w-60 shrink-0 py-4">
+            <CardContent className="px-3">
+              <ListSidebar
+                lists={lists}
+                selectedId={listId}
+                roles={roles}
+                progress={sidebarProgress}
+                onSelect={openList}
+                onCreate={async (name) => {
+                  const list = await createList(name)
+                  if (list) openList(list.id)
+                }}
+                onRename={renameList}
+                onMove={moveList}
+                onDelete={deleteList}
+              />
+            </CardContent>
+          </Card>
+
+          {/* Main Card */}
+          <Card className="flex-1 min-w-0 w-full">
+            <CardHeader className="pb-4">
+              <div className="flex items-center justify-between">
+                <div>
+                  <CardTitle className="text-xl">{selectedList?.name ?? 'Your Tasks'}</CardTitle>
+                  <CardDescription>
+                    {filtered
+                      ? `${visibleTodos.length} matching ${visibleTodos.length === 1 ? 'task' : 'tasks'}`
+                      : totalCount === 0
+                        ? "No tasks yet. Add one below!"
+                        : `${completedCount} of ${totalCount} completed`}
+                  </CardDescription>
+                </div>
+                <div className="flex items-center gap-4">
+                  <PresenceAvatars viewers={viewers} currentUserId={userId} />
+                  {totalCount > 0 && !filtered && (
+                    <div className="flex items-center gap-2">
+                      <div className="h-2 w-24 bg-secondary rounded-full overflow-hidden">
+                        <div
+                          className="h-full bg-primary transition-all duration-500 ease-out"
+                          style={{ width: `${(completedCount / totalCount) * 100}%` }}
+                        />
+                      </div>
+                      <span className="text-xs text-muted-foreground font-medium">
+                        {Math.round((completedCount / totalCount) * 100)}%
+                      </span>
+                    </div>
+                  )}
+                  <Tabs value={view} onValueChange={(value) => setView(value as TodoView)}>
+                    <TabsList>
+                      <TabsTrigger value="list" aria-label="List view">
+                        <List className="w-4 h-4" />
+                      </TabsTrigger>
+                      <TabsTrigger value="board" aria-label="Board view">
+                        <Columns3 className="w-4 h-4" />
+                      </TabsTrigger>
+                      <TabsTrigger value="stats" aria-label="Statistics">
+                        <ChartColumn className="w-4 h-4" />
+                      </TabsTrigger>
+                    </TabsList>
+                  </Tabs>
+                  {editable && view !== 'stats' && (
+                    <Button
+                      variant={selecting ? 'secondary' : 'ghost'}
+                      size="icon"
+                      aria-label="Select tasks"
+                      aria-pressed={selecting}
+                      onClick={() => (selecting ? stopSelecting() : setSelecting(true))}
+                    >
+                      <ListChecks className="w-4 h-4" />
+                    </Button>
+                  )}
+                  <Button
+                    variant={transferOpen ? 'secondary' : 'ghost'}
+                    size="icon"
+                    aria-label="Import and export"
+                    aria-expanded={transferOpen}
+                    onClick={() => setTransferOpen(!transferOpen)}
+                  >
+                    <ArrowDownUp className="w-4 h-4" />
+                  </Button>
+                  {!isLocalMode && (
+                    <Button
+                      variant={sharingOpen ? 'secondary' : 'ghost'}
+                      size="icon"
+                      aria-label="Sharing"
+                      aria-expanded={sharingOpen}
+                      onClick={() => setSharingOpen(!sharingOpen)}
+                    >
+                      <Users className="w-4 h-4" />
+                    </Button>
+                  )}
+                </div>
               </div>
-              {totalCount > 0 && (
-                <div className="flex items-center gap-2">
-                  <div className="h-2 w-24 bg-secondary rounded-full overflow-hidden">
-                    <div
-                      className="h-full bg-primary transition-all duration-500 ease-out"
-                      style={{ width: `${(completedCount / totalCount) * 100}%` }}
+            </CardHeader>
+
+            <CardContent className="space-y-4">
+              {sharingOpen && !isLocalMode && listId && userId && (
+                <ListSharing
+                  listId={listId}
+                  role={role}
+                  currentUserId={userId}
+                  onLeave={() => {
+                    setSharingOpen(false)
+                    refreshLists()
+                  }}
+                />
+              )}
+
+              {transferOpen && listId && userId && (
+                <ImportExportPanel
+                  listId={listId}
+                  userId={userId}
+                  lists={lists}
+                  canImport={editable}
+                  onImported={fetchTodos}
+                />
+              )}
+
+              {/* Add Todo Input */}
+              {editable ? (
+                <div className="space-y-2">
+                  <div className="flex flex-wrap gap-3">
+                    <Input
+                      ref={newTodoInput}
+                      placeholder="What needs to be done? Try “Pay rent tomorrow 9am #finance”"
+                      aria-label="New task"
+                      value={newTodo}
+                      onChange={(e) => setNewTodo(e.target.value)}
+                      onKeyPress={handleKeyPress}
+                      className="flex-1 min-w-[200px]"
                     />
+                    <Input
+                      type="datetime-local"
+                      aria-label="Due date"
+                      value={newTodoDue}
+                      onChange={(e) => setNewTodoDue(e.target.value)}
+                      disabled={!!quickAdd.dueAt}
+                      className="w-[200px]"
+                    />
+                    <StatusSelect value={quickAdd.status ?? newTodoStatus} onChange={setNewTodoStatus} />
+                    <Button onClick={addTodo} disabled={!quickAdd.text}>
+                      <Plus className="w-4 h-4" />
+                      Add
+                    </Button>
                   </div>
-                  <span className="text-xs text-muted-foreground font-medium">
-                    {Math.round((completedCount / totalCount) * 100)}%
-                  </span>
+                  <QuickAddPreview input={newTodo} result={quickAdd} tags={tags} />
                 </div>
+              ) : (
+                <p className="flex items-center gap-2 text-sm text-muted-foreground bg-secondary p-3 rounded-md">
+                  <Eye className="w-4 h-4 shrink-0" />
+                  You can view this list but not change it
+                </p>
               )}
-            </div>
-          </CardHeader>
-
-          <CardContent className="space-y-4">
-            {/* Add Todo Input */}
-            <div className="flex gap-3">
-              <Input
-                placeholder="What needs to be done?"
-                value={newTodo}
-                onChange={(e) => setNewTodo(e.target.value)}
-                onKeyPress={handleKeyPress}
-                className="flex-1"
+
+              {reminders.permission === 'default' && todos.some((t) => t.remind_at && !t.completed) && (
+                <div className="flex items-center gap-3 text-sm text-muted-foreground bg-secondary p-3 rounded-md">
+                  <Bell className="w-4 h-4 shrink-0" />
+                  <span className="flex-1">Allow notifications to get your reminders</span>
+                  <Button variant="ghost" size="sm" onClick={reminders.requestPermission}>
+                    Enable
+                  </Button>
+                </div>
+              )}
+
+              <SyncStatus
+                online={outbox.online}
+                pendingCount={outbox.pendingCount}
+                failedCount={outbox.failedCount}
+                onRetry={outbox.retryFailed}
+                onDiscard={discardFailed}
+              />
+
+              <ConflictPrompt conflicts={openConflicts} describe={describe} onResolve={resolveConflict} />
+
+              {rollbackError && (
+                <div className="flex items-center gap-3 text-sm text-red-500 bg-red-50 p-3 rounded-md">
+                  <span className="flex-1">{rollbackError}</span>
+                  <Button variant="ghost" size="sm" onClick={() => setRollbackError(null)}>
+                    Dismiss
+                  </Button>
+                </div>
+              )}
+
+              {linkError && (
+                <div className="flex items-center gap-3 text-sm text-red-500 bg-red-50 p-3 rounded-md">
+                  <span className="flex-1">{linkError}</span>
+                  <Button variant="ghost" size="sm" onClick={backToList}>
+                    Dismiss
+                  </Button>
+                </div>
+              )}
+
+              <TodoFilterBar
+                filter={filter}
+                onChange={setFilter}
+                onClear={clearFilter}
+                sort={sort}
+                onSortChange={setSort}
               />
-              <Select value={newTodoStatus} onValueChange={(value) => setNewTodoStatus(value as TodoStatus)}>
-                <SelectTrigger className="w-[140px]">
-                  <div className="flex items-center gap-2">
-                    <div className={cn("w-2 h-2 rounded-full", getStatusColor(newTodoStatus))} />
-                    <SelectValue>{getStatusLabel(newTodoStatus)}</SelectValue>
-                  </div>
-                </SelectTrigger>
-                <SelectContent>
-                  {statusOptions.map((option) => (
-                    <SelectItem key={option.value} value={option.value}>
-                      <div className="flex items-center gap-2">
-                        <div className={cn("w-2 h-2 rounded-full", option.color)} />
-                        {option.label}
-                      </div>
-                    </SelectItem>
-                  ))}
-                </SelectContent>
-              </Select>
-              <Button onClick={addTodo} disabled={!newTodo.trim()}>
-                <Plus className="w-4 h-4" />
-                Add
-              </Button>
-            </div>
 
-            {/* Todo List */}
-            <div className="space-y-2 mt-6">
-              {todos.length === 0 ? (
-                <div className="text-center py-12 text-muted-foreground">
+              {tags.length > 0 && (
+                <TagFilter
+                  tags={tags}
+                  selectedIds={filter.tags}
+                  match={filter.match}
+                  onSelectedChange={(ids) => setFilter({ tags: ids })}
+                  onMatchChange={(match) => setFilter({ match })}
+                  managing={managingTags}
+                  onManagingChange={editable ? setManagingTags : undefined}
+                />
+              )}
+
+              {managingTags && editable && (
+                <TagManager
+                  tags={tags}
+                  usage={tagUsage}
+                  onCreate={tagState.createTag}
+                  onUpdate={tagState.updateTag}
+                  onDelete={tagState.deleteTag}
+                />
+              )}
+
+              {selection && (
+                <BulkActionBar
+                  count={selectedTodos.length}
+                  total={visibleTodos.length}
+                  lists={
+                    partial
+                      ? []
+                      : lists.filter((list) => list.id !== listId && canEdit(roles[list.id]))
+                  }
+                  tags={tags}
+                  tagIds={selectedTagIds}
+                  onSelectAll={selectAll}
+                  onClear={() => setSelectedIds(new Set())}
+                  onStatusChange={setSelectedStatus}
+                  onCompletedChange={setSelectedCompleted}
+                  onMove={moveSelected}
+                  onTagChange={tagSelected}
+                  onDelete={deleteSelected}
+                  onClose={stopSelecting}
+                />
+              )}
+
+              {/* Todo List */}
+              {loading ? (
+                <p className="text-center py-12 mt-6 text-muted-foreground">Loading...</p>
+              ) : view === 'stats' ? (
+                <TodoStats listId={listId} todos={visibleTodos} filtered={filtered} />
+              ) : todos.length === 0 && !filtered ? (
+                <div className="text-center py-12 mt-6 text-muted-foreground">
                   <ListTodo className="w-12 h-12 mx-auto mb-3 opacity-20" />
                   <p>Your todo list is empty</p>
                   <p className="text-sm">Add a task to get started</p>
                 </div>
+              ) : visibleTodos.length === 0 ? (
+                <div className="text-center py-12 mt-6 text-muted-foreground">
+                  <p>No tasks match the current filters</p>
+                  <Button variant="link" size="sm" onClick={clearFilter}>
+                    Clear filters
+                  </Button>
+                </div>
+              ) : view === 'board' ? (
+                <TodoBoard
+                  todos={visibleTodos}
+                  syncStates={outbox.syncStates}
+                  tags={tags}
+                  tagIds={tagIds}
+                  onToggle={toggleTodo}
+                  onStatusChange={updateTodoStatus}
+                  onOpenDetails={openDetails}
+                  selection={selection}
+                  readOnly={!editable}
+                />
               ) : (
-                todos.map((todo) => (
-                  <div
-                    key={todo.id}
-                    className={cn(
-                      "group flex items-center gap-3 p-4 rounded-lg border bg-card hover:bg-accent/50 transition-colors duration-200",
-                      todo.completed && "opacity-60"
-                    )}
-                  >
-                    <Checkbox
-                      checked={todo.completed}
-                      onCheckedChange={() => toggleTodo(todo.id, todo.completed)}
-                      className="shrink-0"
-                    />
-                    
-                    <span
-                      className={cn(
-                        "flex-1 text-foreground transition-all duration-200",
-                        todo.completed && "line-through text-muted-foreground"
-                      )}
-                    >
-                      {todo.text}
-                    </span>
-
-                    <Select 
-                      value={todo.status} 
-                      onValueChange={(value) => updateTodoStatus(todo.id, value as TodoStatus)}
-                    >
-                      <SelectTrigger className="w-[140px]">
-                        <div className="flex items-center gap-2">
-                          <div className={cn("w-2 h-2 rounded-full", getStatusColor(todo.status))} />
-                          <SelectValue>{getStatusLabel(todo.status)}</SelectValue>
-                        </div>
-                      </SelectTrigger>
-                      <SelectContent>
-                        {statusOptions.map((option) => (
-                          <SelectItem key={option.value} value={option.value}>
-                            <div className="flex items-center gap-2">
-                              <div className={cn("w-2 h-2 rounded-full", option.color)} />
-                              {option.label}
-                            </div>
-                          </SelectItem>
-                        ))}
-                      </SelectContent>
-                    </Select>
+                <TodoList
+                  todos={visibleTodos}
+                  sort={sort}
+                  syncStates={outbox.syncStates}
+                  tags={tags}
+                  tagIds={tagIds}
+                  onTextChange={updateTodoText}
+                  onOpenDetails={openDetails}
+                  onToggle={toggleTodo}
+                  onStatusChange={updateTodoStatus}
+                  onPriorityChange={updateTodoPriority}
+                  onDatesChange={updateTodoDates}
+                  onSkipOccurrence={skipOccurrence}
+                  onReorder={reorderTodo}
+                  onDelete={deleteTodo}
+                  onAddSubtask={addSubtask}
+                  onTagChange={changeTodoTag}
+                  onCreateTag={createTodoTag}
+                  selection={selection}
+                  readOnly={!editable}
+                />
+              )}
 
+              {/* Clear completed button */}
+              {(clearableIds.length > 0 || tree.children.size > 0) && editable && (
+                <div className="flex flex-wrap items-center justify-between gap-3 pt-4 border-t">
+                  {clearableIds.length > 0 ? (
                     <Button
                       variant="ghost"
-                      size="icon"
-                      onClick={() => deleteTodo(todo.id)}
-                      className="opacity-0 group-hover:opacity-100 transition-opacity text-muted-foreground hover:text-destructive hover:bg-destructive/10"
+                      size="sm"
+                      onClick={clearCompleted}
+                      className="text-muted-foreground hover:text-destructive"
                     >
-                      <Trash2 className="w-4 h-4" />
+                      <Trash2 className="w-4 h-4 mr-2" />
+                      Clear {clearableIds.length} completed {clearableIds.length === 1 ? 'task' : 'tasks'}
                     </Button>
-                  </div>
-                ))
+                  ) : (
+                    <div />
+                  )}
+                  {tree.children.size > 0 && (
+                    <div className="flex items-center gap-2">
+                      <Checkbox
+                        id="auto-complete-parents"
+                        checked={autoCompleteParents}
+                        onCheckedChange={(checked) => setAutoCompleteParents(checked === true)}
+                      />
+                      <Label htmlFor="auto-complete-parents" className="text-sm text-muted-foreground font-normal">
+                        Complete a task when all its subtasks are done
+                      </Label>
+                    </div>
+                  )}
+                </div>
               )}
-            </div>
-
-            {/* Clear completed button */}
-            {completedCount > 0 && (
-              <div className="pt-4 border-t">
-                <Button
-                  variant="ghost"
-                  size="sm"
-                  onClick={clearCompleted}
-                  className="text-muted-foreground hover:text-destructive"
-                >
-                  <Trash2 className="w-4 h-4 mr-2" />
-                  Clear {completedCount} completed {completedCount === 1 ? 'task' : 'tasks'}
-                </Button>
-              </div>
-            )}
-          </CardContent>
-        </Card>
+            </CardContent>
+          </Card>
+        </div>
 
         {/* Footer */}
         <p className="text-center text-xs text-muted-foreground mt-8">
           Built with React, Tailwind CSS & shadcn/ui
+          {' · '}
+          <button
+            type="button"
+            onClick={() => setHelpOpen(true)}
+            className="inline-flex items-center gap-1 hover:text-foreground"
+          >
+            <Keyboard className="w-3.5 h-3.5" />
+            Shortcuts <Key>?</Key>
+          </button>
         </p>
       </div>
+
+      {palette && <CommandPalette commands={commands} onClose={() => setPalette(null)} />}
+      {helpOpen && <ShortcutHelp onClose={() => setHelpOpen(false)} />}
+      {detailTodo && (
+        <TodoDetail
+          todo={detailTodo}
+          currentUserId={userId}
+          readOnly={!editable}
+          onNotesChange={updateTodoNotes}
+          onClose={backToList}
+        />
+      )}
+
+      <UndoToast
+        toast={history.toast}
+        onUndo={history.undo}
+        onRedo={history.redo}
+        onDismiss={history.dismissToast}
+      />
     </div>
   )
 }
 
+// Replaces the current history entry, so Back doesn't land on the redirect
+function Redirect({ to }: { to: string }) {
+  useEffect(() => navigate(to, { replace: true }), [to])
+  return null
+}
+
+// Signed in on /login or /auth/callback: on to the page they came for
+function ContinueToApp() {
+  const [to] = useState(returnTo)
+  useEffect(() => {
+    rememberReturnTo(null)
+    navigate(to, { replace: true })
+  }, [to])
+  return null
+}
+
+function LoginPage({ next }: { next: string | null }) {
+  useEffect(() => rememberReturnTo(next), [next])
+  return <AuthModal />
+}
+
 function App() {
   return (
     <AuthProvider>
@@ -420,33 +1476,15 @@ function App() {
 }
 
 function AppContent() {
-  const { user, loading } = useAuth()
+  const { user, loading, recovering, expired } = useAuth()
+  const route = useRoute()
 
-  if (!hasSupabaseConfig) {
-    return (
-      <div className="min-h-screen bg-background flex items-center justify-center p-4">
-        <Card className="max-w-md w-full">
-          <CardHeader>
-            <CardTitle className="text-destructive">Configuration Error</CardTitle>
-            <CardDescription>
-              Supabase environment variables are not configured.
-            </CardDescription>
-          </CardHeader>
-          <CardContent>
-            <p className="text-sm text-muted-foreground mb-4">
-              Please set the following environment variables in your deployment platform:
-            </p>
-            <ul className="list-disc list-inside text-sm text-muted-foreground space-y-2 mb-4">
-              <li><code className="bg-secondary px-2 py-1 rounded">VITE_SUPABASE_URL</code></li>
-              <li><code className="bg-secondary px-2 py-1 rounded">VITE_SUPABASE_ANON_KEY</code></li>
-            </ul>
-            <p className="text-xs text-muted-foreground">
-              Get these values from your Supabase project settings → API
-            </p>
-          </CardContent>
-        </Card>
-      </div>
-    )
+  // Without Supabase there is nothing to sign in to, and no settings
+  if (isLocalMode) {
+    if (route.name !== 'home' && route.name !== 'list' && route.name !== 'todo') {
+      return <Redirect to={paths.home} />
+    }
+    return <TodoApp route={route} />
   }
 
   if (loading) {
@@ -457,11 +1495,33 @@ function AppContent() {
     )
   }
 
-  if (!user) {
+  // A password reset link signs the user in, but they pick a new password
+  // before getting to their todos
+  if (recovering) {
     return <AuthModal />
   }
 
-  return <TodoApp />
+  switch (route.name) {
+    case 'login':
+      return user ? <ContinueToApp /> : <LoginPage next={route.next} />
+    case 'callback':
+      return user ? <ContinueToApp /> : <AuthCallback />
+    case 'notFound':
+      return <Redirect to={paths.home} />
+  }
+
+  if (!user) {
+    return <Redirect to={paths.login(currentPath())} />
+  }
+
+  // Keyed by user, so switching accounts starts afresh while renewing an
+  // expired session leaves everything in place
+  return (
+    <>
+      <TodoApp key={user.id} route={route} />
+      {expired && <ReauthDialog />}
+    </>
+  )
 }
 
 export default App
@@ -0,0 +1,30 @@
+import { Button } from '../ui/button'
+import { navigate, paths } from '@/lib/routes'
+
+// supabase-js reads the session out of the URL and then tidies it away, so
+// an error the provider sent back is picked up as soon as the app loads
+function readCallbackError() {
+  const params = new URLSearchParams(window.location.search)
+  const hash = new URLSearchParams(window.location.hash.slice(1))
+  return params.get('error_description') ?? hash.get('error_description')
+}
+
+const callbackError = readCallbackError()
+
+// Where magic links, OAuth and password reset links land. With a session the
+// app moves on by itself; this only shows when there isn't one.
+export function AuthCallback() {
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 px-4">
+      <div className="w-full max-w-md bg-white rounded-lg shadow-lg p-8 space-y-4 text-center">
+        <h1 className="text-2xl font-bold">Couldn't sign you in</h1>
+        <p className="text-sm text-muted-foreground">
+          {callbackError ?? 'This link is invalid or has expired. Links only work once.'}
+        </p>
+        <Button className="w-full" onClick={() => navigate(paths.login(), { replace: true })}>
+          Back to Log In
+        </Button>
+      </div>
+    </div>
+  )
+}
@@ -1,28 +1,57 @@
+import { useState } from 'react'
+import { useAuth } from '../../contexts/AuthContext'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '../ui/tabs'
+import { ForgotPasswordForm } from './ForgotPasswordForm'
 import { LoginForm } from './LoginForm'
+import { MagicLinkForm } from './MagicLinkForm'
+import { OAuthButtons } from './OAuthButtons'
 import { SignupForm } from './SignupForm'
+import { UpdatePasswordForm } from './UpdatePasswordForm'
+
+// "forgot" has no tab of its own; it's reached from the log in form
+type AuthView = 'login' | 'signup' | 'magic' | 'forgot'
 
 export function AuthModal() {
+  const { recovering } = useAuth()
+  const [view, setView] = useState<AuthView>('login')
+
   return (
     <div className="min-h-screen flex items-center justify-center bg-gray-50 px-4">
       <div className="w-full max-w-md">
         <div className="bg-white rounded-lg shadow-lg p-8">
           <h1 className="text-2xl font-bold text-center mb-6">Todo App</h1>
 
-          <Tabs defaultValue="login" className="w-full">
-            <TabsList className="grid w-full grid-cols-2">
-              <TabsTrigger value="login">Log In</TabsTrigger>
-              <TabsTrigger value="signup">Sign Up</TabsTrigger>
-            </TabsList>
+          {recovering ? (
+            <UpdatePasswordForm />
+          ) : (
+            <>
+              <Tabs value={view} onValueChange={(value) => setView(value as AuthView)} className="w-full">
+                <TabsList className="grid w-full grid-cols-3">
+                  <TabsTrigger value="login">Log In</TabsTrigger>
+                  <TabsTrigger value="signup">Sign Up</TabsTrigger>
+                  <TabsTrigger value="magic">Magic Link</TabsTrigger>
+                </TabsList>
+
+                <TabsContent value="login" className="mt-6">
+                  <LoginForm onForgotPassword={() => setView('forgot')} />
+                </TabsContent>
+
+                <TabsContent value="signup" className="mt-6">
+                  <SignupForm />
+                </TabsContent>
+
+                <TabsContent value="magic" className="mt-6">
+                  <MagicLinkForm />
+                </TabsContent>
 
-            <TabsContent value="login" className="mt-6">
-              <LoginForm />
-            </TabsContent>
+                <TabsContent value="forgot" className="mt-6">
+                  <ForgotPasswordForm onBack={() => setView('login')} />
+                </TabsContent>
+              </Tabs>
 
-            <TabsContent value="signup" className="mt-6">
-              <SignupForm />
-            </TabsContent>
-          </Tabs>
+              <OAuthButtons />
+            </>
+          )}
         </div>
       </div>
     </div>
@@ -0,0 +1,75 @@
+import { useState } from 'react'
+import { useAuth } from '../../contexts/AuthContext'
+import { Button } from '../ui/button'
+import { Input } from '../ui/input'
+import { Label } from '../ui/label'
+
+interface ForgotPasswordFormProps {
+  onBack: () => void
+}
+
+export function ForgotPasswordForm({ onBack }: ForgotPasswordFormProps) {
+  const [email, setEmail] = useState('')
+  const [error, setError] = useState<string | null>(null)
+  const [success, setSuccess] = useState(false)
+  const [loading, setLoading] = useState(false)
+  const { resetPassword } = useAuth()
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError(null)
+    setSuccess(false)
+    setLoading(true)
+
+    const { error } = await resetPassword(email)
+
+    if (error) {
+      setError(error.message)
+    } else {
+      setSuccess(true)
+    }
+
+    setLoading(false)
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <p className="text-sm text-muted-foreground">
+        Enter the email you signed up with and we'll send you a link to choose a new password.
+      </p>
+
+      <div className="space-y-2">
+        <Label htmlFor="reset-email">Email</Label>
+        <Input
+          id="reset-email"
+          type="email"
+          placeholder="you@example.com"
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+          required
+        />
+      </div>
+
+      {error && (
+        <div className="text-sm text-red-500 bg-red-50 p-3 rounded-md">
+          {error}
+        </div>
+      )}
+
+      {/* Worded the same whether or not the address has an account */}
+      {success && (
+        <div className="text-sm text-green-600 bg-green-50 p-3 rounded-md">
+          If there's an account for {email}, a reset link is on its way.
+        </div>
+      )}
+
+      <Button type="submit" className="w-full" disabled={loading}>
+        {loading ? 'Sending link...' : 'Send Reset Link'}
+      </Button>
+
+      <Button type="button" variant="ghost" className="w-full" onClick={onBack}>
+        Back to Log In
+      </Button>
+    </form>
+  )
+}
@@ -4,7 +4,11 @@ import { Button } from '../ui/button'
 import { Input } from '../ui/input'
 import { Label } from '../ui/label'
 
-export function LoginForm() {
+interface LoginFormProps {
+  onForgotPassword: () => void
+}
+
+export function LoginForm({ onForgotPassword }: LoginFormProps) {
   const [email, setEmail] = useState('')
   const [password, setPassword] = useState('')
   const [error, setError] = useState<string | null>(null)
@@ -40,7 +44,12 @@ export function LoginForm() {
       </div>
 
       <div className="space-y-2">
-        <Label htmlFor="password">Password</Label>
+        <div className="flex items-center justify-between">
+          <Label htmlFor="password">Password</Label>
+          <Button type="button" variant="link" size="sm" className="h-auto p-0" onClick={onForgotPassword}>
+            Forgot password?
+          </Button>
+        </div>
         <Input
           id="password"
           type="password"
@@ -0,0 +1,66 @@
+import { useState } from 'react'
+import { useAuth } from '../../contexts/AuthContext'
+import { Button } from '../ui/button'
+import { Input } from '../ui/input'
+import { Label } from '../ui/label'
+
+export function MagicLinkForm() {
+  const [email, setEmail] = useState('')
+  const [error, setError] = useState<string | null>(null)
+  const [sentTo, setSentTo] = useState<string | null>(null)
+  const [loading, setLoading] = useState(false)
+  const { signInWithMagicLink } = useAuth()
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError(null)
+    setSentTo(null)
+    setLoading(true)
+
+    const { error } = await signInWithMagicLink(email)
+
+    if (error) {
+      setError(error.message)
+    } else {
+      setSentTo(email)
+    }
+
+    setLoading(false)
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor="magic-email">Email</Label>
+        <Input
+          id="magic-email"
+          type="email"
+          placeholder="you@example.com"
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+          required
+        />
+      </div>
+
+      <p className="text-sm text-muted-foreground">
+        We'll email you a link that signs you in, no password needed.
+      </p>
+
+      {error && (
+        <div className="text-sm text-red-500 bg-red-50 p-3 rounded-md">
+          {error}
+        </div>
+      )}
+
+      {sentTo && (
+        <div className="text-sm text-green-600 bg-green-50 p-3 rounded-md">
+          Check {sentTo} for your sign-in link. You can close this tab once you've opened it.
+        </div>
+      )}
+
+      <Button type="submit" className="w-full" disabled={loading}>
+        {loading ? 'Sending link...' : 'Email Me a Link'}
+      </Button>
+    </form>
+  )
+}
@@ -0,0 +1,57 @@
+import { useState } from 'react'
+import { useAuth } from '../../contexts/AuthContext'
+import { Button } from '../ui/button'
+import { getProviderLabel, oauthProviders, type OAuthProvider } from '@/lib/authProviders'
+
+// One button per provider in VITE_AUTH_PROVIDERS; nothing when none are set
+export function OAuthButtons() {
+  const [error, setError] = useState<string | null>(null)
+  const [pending, setPending] = useState<OAuthProvider | null>(null)
+  const { signInWithOAuth } = useAuth()
+
+  if (oauthProviders.length === 0) return null
+
+  // On success the browser leaves for the provider, so only errors come back
+  const handleClick = async (provider: OAuthProvider) => {
+    setError(null)
+    setPending(provider)
+
+    const { error } = await signInWithOAuth(provider)
+
+    if (error) {
+      setError(error.message)
+      setPending(null)
+    }
+  }
+
+  return (
+    <div className="mt-6 space-y-4">
+      <div className="flex items-center gap-3 text-xs text-muted-foreground">
+        <span className="h-px flex-1 bg-border" />
+        or continue with
+        <span className="h-px flex-1 bg-border" />
+      </div>
+
+      <div className="grid gap-2">
+        {oauthProviders.map((provider) => (
+          <Button
+            key={provider}
+            type="button"
+            variant="outline"
+            className="w-full"
+            disabled={pending !== null}
+            onClick={() => handleClick(provider)}
+          >
+            {pending === provider ? 'Redirecting...' : getProviderLabel(provider)}
+          </Button>
+        ))}
+      </div>
+
+      {error && (
+        <div className="text-sm text-red-500 bg-red-50 p-3 rounded-md">
+          {error}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,103 @@
+import { useEffect, useState } from 'react'
+import { useAuth } from '../../contexts/AuthContext'
+import { Button } from '../ui/button'
+import { Input } from '../ui/input'
+import { Label } from '../ui/label'
+import { OAuthButtons } from './OAuthButtons'
+
+// Shown over the app when the session ends by itself. The app stays mounted
+// underneath, so drafts and typed-in text survive signing back in, and queued
+// changes go out once there's a session again. Signing in as someone else
+// opens their todos instead.
+export function ReauthDialog() {
+  const { user, signIn, signOut } = useAuth()
+  const [email, setEmail] = useState(user?.email ?? '')
+  const [password, setPassword] = useState('')
+  const [error, setError] = useState<string | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [returnFocus] = useState(() => document.activeElement as HTMLElement | null)
+
+  useEffect(() => {
+    return () => {
+      if (returnFocus?.isConnected) returnFocus.focus()
+    }
+  }, [returnFocus])
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError(null)
+    setLoading(true)
+
+    const { error } = await signIn(email, password)
+
+    // On success the session comes back and this dialog closes
+    if (error) {
+      setError(error.message)
+      setLoading(false)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40 p-4">
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="reauth-title"
+        className="w-full max-w-sm rounded-lg border bg-card p-6 shadow-lg space-y-4"
+      >
+        <div className="space-y-1">
+          <h2 id="reauth-title" className="text-lg font-semibold">
+            Your session has expired
+          </h2>
+          <p className="text-sm text-muted-foreground">
+            Sign in again to keep working. Nothing you've typed is lost, and changes made
+            meanwhile will sync once you're back.
+          </p>
+        </div>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="reauth-email">Email</Label>
+            <Input
+              id="reauth-email"
+              type="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              required
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="reauth-password">Password</Label>
+            <Input
+              id="reauth-password"
+              type="password"
+              placeholder="••••••••"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              required
+              autoFocus
+            />
+          </div>
+
+          {error && (
+            <div className="text-sm text-red-500 bg-red-50 p-3 rounded-md">
+              {error}
+            </div>
+          )}
+
+          <Button type="submit" className="w-full" disabled={loading}>
+            {loading ? 'Logging in...' : 'Log In'}
+          </Button>
+        </form>
+
+        {/* These leave the page, so only queued changes make it through */}
+        <OAuthButtons />
+
+        <Button variant="ghost" className="w-full" onClick={signOut}>
+          Sign Out
+        </Button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,85 @@
+import { useState } from 'react'
+import { useAuth } from '../../contexts/AuthContext'
+import { Button } from '../ui/button'
+import { Input } from '../ui/input'
+import { Label } from '../ui/label'
+
+// Shown after following a password reset link: the user is signed in but
+// has to pick a new password first
+export function UpdatePasswordForm() {
+  const [password, setPassword] = useState('')
+  const [confirm, setConfirm] = useState('')
+  const [error, setError] = useState<string | null>(null)
+  const [loading, setLoading] = useState(false)
+  const { user, updatePassword, signOut } = useAuth()
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError(null)
+
+    if (password !== confirm) {
+      setError("The passwords don't match")
+      return
+    }
+
+    setLoading(true)
+
+    const { error } = await updatePassword(password)
+
+    // On success the app opens, so there's nothing more to show here
+    if (error) {
+      setError(error.message)
+      setLoading(false)
+    }
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <p className="text-sm text-muted-foreground">
+        Choose a new password for {user?.email ?? 'your account'}.
+      </p>
+
+      <div className="space-y-2">
+        <Label htmlFor="new-password">New password</Label>
+        <Input
+          id="new-password"
+          type="password"
+          placeholder="••••••••"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          required
+          minLength={6}
+          autoComplete="new-password"
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="confirm-password">Confirm password</Label>
+        <Input
+          id="confirm-password"
+          type="password"
+          placeholder="••••••••"
+          value={confirm}
+          onChange={(e) => setConfirm(e.target.value)}
+          required
+          minLength={6}
+          autoComplete="new-password"
+        />
+      </div>
+
+      {error && (
+        <div className="text-sm text-red-500 bg-red-50 p-3 rounded-md">
+          {error}
+        </div>
+      )}
+
+      <Button type="submit" className="w-full" disabled={loading}>
+        {loading ? 'Saving...' : 'Set Password'}
+      </Button>
+
+      <Button type="button" variant="ghost" className="w-full" onClick={signOut}>
+        Sign Out Instead
+      </Button>
+    </form>
+  )
+}
@@ -0,0 +1,171 @@
+import { useEffect, useRef, useState } from 'react'
+import { Search } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import { fuzzyMatch } from '@/lib/fuzzy'
+import { Key } from './Key'
+
+export interface Command {
+  id: string
+  label: string
+  section: string
+  // Other words it should be found by, e.g. "logout" for Sign out
+  keywords?: string[]
+  shortcut?: string[]
+  run: () => void
+}
+
+interface CommandPaletteProps {
+  commands: Command[]
+  onClose: () => void
+}
+
+function Highlighted({ text, indexes }: { text: string; indexes: number[] }) {
+  if (indexes.length === 0) return <>{text}</>
+  const marked = new Set(indexes)
+  return (
+    <>
+      {text.split('').map((char, i) =>
+        marked.has(i) ? (
+          <mark key={i} className="bg-transparent text-inherit font-semibold">
+            {char}
+          </mark>
+        ) : (
+          char
+        )
+      )}
+    </>
+  )
+}
+
+// Best matches first; with no query, commands keep their given order. A
+// keyword match ranks below any match on the label itself.
+function search(commands: Command[], query: string) {
+  return commands
+    .flatMap((command, order) => {
+      const match = fuzzyMatch(query, command.label)
+      if (match) return [{ command, order, score: match.score, indexes: match.indexes }]
+      const keyword = (command.keywords ?? [])
+        .map((word) => fuzzyMatch(query, word))
+        .find(Boolean)
+      return keyword ? [{ command, order, score: keyword.score / 2, indexes: [] }] : []
+    })
+    .sort((a, b) => b.score - a.score || a.order - b.order)
+}
+
+// Mounted while open. Focus goes back where it was when it closes, so row
+// shortcuts carry on from the same task.
+export function CommandPalette({ commands, onClose }: CommandPaletteProps) {
+  const [query, setQuery] = useState('')
+  const [active, setActive] = useState(0)
+  const [returnFocus] = useState(() => document.activeElement as HTMLElement | null)
+  const listRef = useRef<HTMLUListElement>(null)
+
+  const results = search(commands, query)
+  const activeIndex = Math.min(active, results.length - 1)
+  const activeCommand = results[activeIndex]?.command
+
+  useEffect(() => {
+    return () => {
+      if (returnFocus?.isConnected) returnFocus.focus()
+    }
+  }, [returnFocus])
+
+  useEffect(() => {
+    listRef.current
+      ?.querySelector(`[data-index="${activeIndex}"]`)
+      ?.scrollIntoView({ block: 'nearest' })
+  }, [activeIndex])
+
+  // Closing first lets focus return before the command moves it elsewhere
+  const run = (command: Command) => {
+    onClose()
+    setTimeout(command.run)
+  }
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault()
+      const step = e.key === 'ArrowDown' ? 1 : -1
+      setActive((activeIndex + step + results.length) % Math.max(results.length, 1))
+    } else if (e.key === 'Enter') {
+      e.preventDefault()
+      if (activeCommand) run(activeCommand)
+    } else if (e.key === 'Escape' || ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'k')) {
+      e.preventDefault()
+      onClose()
+    }
+  }
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-start justify-center bg-black/40 px-4 pt-[15vh]"
+      onMouseDown={(e) => e.target === e.currentTarget && onClose()}
+    >
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-label="Command palette"
+        className="w-full max-w-lg overflow-hidden rounded-lg border bg-card shadow-lg"
+      >
+        <div className="flex items-center gap-2 border-b px-3">
+          <Search className="w-4 h-4 shrink-0 text-muted-foreground" />
+          <input
+            autoFocus
+            value={query}
+            onChange={(e) => {
+              setQuery(e.target.value)
+              setActive(0)
+            }}
+            onKeyDown={handleKeyDown}
+            placeholder="Type a command…"
+            role="combobox"
+            aria-expanded="true"
+            aria-controls="command-palette-list"
+            aria-activedescendant={activeCommand && `command-${activeCommand.id}`}
+            className="h-11 flex-1 bg-transparent text-sm outline-none placeholder:text-muted-foreground"
+          />
+        </div>
+
+        <ul
+          ref={listRef}
+          id="command-palette-list"
+          role="listbox"
+          className="max-h-80 overflow-y-auto p-1"
+        >
+          {results.length === 0 && (
+            <li className="px-3 py-6 text-center text-sm text-muted-foreground">
+              No matching commands
+            </li>
+          )}
+          {results.map(({ command, indexes }, i) => (
+            <li
+              key={command.id}
+              id={`command-${command.id}`}
+              data-index={i}
+              role="option"
+              aria-selected={i === activeIndex}
+              onMouseMove={() => i !== activeIndex && setActive(i)}
+              onClick={() => run(command)}
+              className={cn(
+                "flex items-center gap-3 rounded-md px-3 py-2 text-sm cursor-pointer",
+                i === activeIndex && "bg-accent text-accent-foreground"
+              )}
+            >
+              <span className="flex-1 truncate">
+                <Highlighted text={command.label} indexes={indexes} />
+              </span>
+              {command.shortcut && (
+                <span className="flex gap-1">
+                  {command.shortcut.map((key) => (
+                    <Key key={key}>{key}</Key>
+                  ))}
+                </span>
+              )}
+              <span className="text-xs text-muted-foreground">{command.section}</span>
+            </li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  )
+}
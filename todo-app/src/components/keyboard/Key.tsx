@@ -0,0 +1,7 @@
+export function Key({ children }: { children: React.ReactNode }) {
+  return (
+    <kbd className="inline-flex min-w-5 justify-center rounded border bg-muted px-1.5 font-mono text-xs text-muted-foreground">
+      {children}
+    </kbd>
+  )
+}
@@ -0,0 +1,83 @@
+import { useEffect, useState } from 'react'
+import { X } from 'lucide-react'
+import { Button } from '../ui/button'
+import { shortcutGroups } from '@/lib/keyboard'
+import { Key } from './Key'
+
+interface ShortcutHelpProps {
+  onClose: () => void
+}
+
+// The "?" overlay. Mounted while open; Escape or a click outside closes it.
+export function ShortcutHelp({ onClose }: ShortcutHelpProps) {
+  const [returnFocus] = useState(() => document.activeElement as HTMLElement | null)
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape' || e.key === '?') {
+        e.preventDefault()
+        onClose()
+      }
+    }
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [onClose])
+
+  useEffect(() => {
+    return () => {
+      if (returnFocus?.isConnected) returnFocus.focus()
+    }
+  }, [returnFocus])
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-start justify-center bg-black/40 px-4 pt-[10vh]"
+      onMouseDown={(e) => e.target === e.currentTarget && onClose()}
+    >
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="shortcut-help-title"
+        className="w-full max-w-md rounded-lg border bg-card p-6 shadow-lg"
+      >
+        <div className="flex items-center justify-between mb-4">
+          <h2 id="shortcut-help-title" className="text-lg font-semibold">
+            Keyboard shortcuts
+          </h2>
+          <Button
+            variant="ghost"
+            size="icon-sm"
+            onClick={onClose}
+            aria-label="Close"
+            autoFocus
+            className="text-muted-foreground"
+          >
+            <X className="w-4 h-4" />
+          </Button>
+        </div>
+
+        <div className="space-y-5">
+          {shortcutGroups.map((group) => (
+            <section key={group.title}>
+              <h3 className="text-xs font-medium uppercase tracking-wide text-muted-foreground mb-2">
+                {group.title}
+              </h3>
+              <dl className="space-y-1.5 text-sm">
+                {group.shortcuts.map((shortcut) => (
+                  <div key={shortcut.description} className="flex items-center justify-between gap-4">
+                    <dt>{shortcut.description}</dt>
+                    <dd className="flex gap-1">
+                      {shortcut.keys.map((key) => (
+                        <Key key={key}>{key}</Key>
+                      ))}
+                    </dd>
+                  </div>
+                ))}
+              </dl>
+            </section>
+          ))}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,260 @@
+import { useCallback, useEffect, useState } from 'react'
+import { LogOut, Mail, X } from 'lucide-react'
+import { Button } from '../ui/button'
+import { Input } from '../ui/input'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '../ui/select'
+import {
+  cancelInvite,
+  fetchInvites,
+  fetchMembers,
+  inviteMember,
+  removeMember,
+  roleOptions,
+  updateMemberRole,
+  type InviteRole,
+} from '@/lib/sharing'
+import type { ListInvite, ListMember, ListRole } from '@/types/database'
+
+interface ListSharingProps {
+  listId: string
+  role: ListRole | undefined
+  currentUserId: string
+  onLeave: () => void
+}
+
+const inviteRoles = roleOptions.filter((opt) => opt.value !== 'owner')
+
+function getRoleLabel(role: ListRole) {
+  return roleOptions.find((opt) => opt.value === role)?.label ?? role
+}
+
+function RoleSelect({
+  value,
+  onChange,
+  label,
+}: {
+  value: InviteRole
+  onChange: (role: InviteRole) => void
+  label: string
+}) {
+  return (
+    <Select value={value} onValueChange={(value) => onChange(value as InviteRole)}>
+      <SelectTrigger size="sm" className="w-[110px]" aria-label={label}>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {inviteRoles.map((option) => (
+          <SelectItem key={option.value} value={option.value}>
+            <div>
+              <div>{option.label}</div>
+              <div className="text-xs text-muted-foreground">{option.description}</div>
+            </div>
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  )
+}
+
+export function ListSharing({ listId, role, currentUserId, onLeave }: ListSharingProps) {
+  const [members, setMembers] = useState<ListMember[]>([])
+  const [invites, setInvites] = useState<ListInvite[]>([])
+  const [email, setEmail] = useState('')
+  const [inviteRole, setInviteRole] = useState<InviteRole>('editor')
+  const [error, setError] = useState<string | null>(null)
+  const [message, setMessage] = useState<string | null>(null)
+  const [inviting, setInviting] = useState(false)
+
+  const isOwner = role === 'owner'
+
+  const load = useCallback(async () => {
+    const [membersResult, invitesResult] = await Promise.all([
+      fetchMembers(listId),
+      fetchInvites(listId),
+    ])
+
+    if (membersResult.error) {
+      console.error('Error fetching list members:', membersResult.error)
+    } else {
+      setMembers(membersResult.data)
+    }
+    if (invitesResult.error) {
+      console.error('Error fetching list invites:', invitesResult.error)
+    } else {
+      setInvites(invitesResult.data)
+    }
+  }, [listId])
+
+  useEffect(() => {
+    load()
+  }, [load])
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError(null)
+    setMessage(null)
+    setInviting(true)
+
+    const { data, error } = await inviteMember(listId, email, inviteRole)
+
+    if (error) {
+      setError(error.message)
+    } else {
+      setMessage(
+        data === 'added'
+          ? `${email} can now see this list.`
+          : `Invite sent. ${email} will get access when they sign up.`
+      )
+      setEmail('')
+      load()
+    }
+
+    setInviting(false)
+  }
+
+  const handleRoleChange = async (member: ListMember, newRole: InviteRole) => {
+    // Optimistically update UI
+    setMembers((current) =>
+      current.map((m) => (m.user_id === member.user_id ? { ...m, role: newRole } : m))
+    )
+
+    const { error } = await updateMemberRole(listId, member.user_id, newRole)
+
+    if (error) {
+      console.error('Error changing member role:', error)
+      setMembers((current) =>
+        current.map((m) => (m.user_id === member.user_id ? { ...m, role: member.role } : m))
+      )
+    }
+  }
+
+  const handleRemove = async (member: ListMember) => {
+    setMembers((current) => current.filter((m) => m.user_id !== member.user_id))
+
+    const { error } = await removeMember(listId, member.user_id)
+
+    if (error) {
+      console.error('Error removing member:', error)
+      setMembers((current) => [...current, member])
+    }
+  }
+
+  const handleCancelInvite = async (invite: ListInvite) => {
+    setInvites((current) => current.filter((i) => i.id !== invite.id))
+
+    const { error } = await cancelInvite(invite.id)
+
+    if (error) {
+      console.error('Error cancelling invite:', error)
+      setInvites((current) => [...current, invite])
+    }
+  }
+
+  const handleLeave = async () => {
+    if (!window.confirm('Leave this list? You will lose access to its todos.')) return
+
+    const { error } = await removeMember(listId, currentUserId)
+
+    if (error) {
+      setError(error.message)
+    } else {
+      onLeave()
+    }
+  }
+
+  return (
+    <div className="rounded-lg border p-4 space-y-4">
+      <h3 className="text-sm font-medium">Sharing</h3>
+
+      <ul className="space-y-2">
+        {members.map((member) => (
+          <li key={member.user_id} className="flex items-center gap-3 text-sm">
+            <span className="flex-1 truncate">
+              {member.email}
+              {member.user_id === currentUserId && (
+                <span className="text-muted-foreground"> (you)</span>
+              )}
+            </span>
+            {isOwner && member.role !== 'owner' ? (
+              <>
+                <RoleSelect
+                  value={member.role as InviteRole}
+                  onChange={(newRole) => handleRoleChange(member, newRole)}
+                  label={`Role for ${member.email}`}
+                />
+                <Button
+                  variant="ghost"
+                  size="icon-sm"
+                  aria-label={`Remove ${member.email}`}
+                  onClick={() => handleRemove(member)}
+                  className="text-muted-foreground hover:text-destructive"
+                >
+                  <X className="w-4 h-4" />
+                </Button>
+              </>
+            ) : (
+              <span className="text-xs text-muted-foreground">{getRoleLabel(member.role)}</span>
+            )}
+          </li>
+        ))}
+
+        {invites.map((invite) => (
+          <li key={invite.id} className="flex items-center gap-3 text-sm text-muted-foreground">
+            <Mail className="w-4 h-4 shrink-0" />
+            <span className="flex-1 truncate">{invite.email}</span>
+            <span className="text-xs">{getRoleLabel(invite.role)} · Pending</span>
+            <Button
+              variant="ghost"
+              size="icon-sm"
+              aria-label={`Cancel invite for ${invite.email}`}
+              onClick={() => handleCancelInvite(invite)}
+              className="hover:text-destructive"
+            >
+              <X className="w-4 h-4" />
+            </Button>
+          </li>
+        ))}
+      </ul>
+
+      {isOwner ? (
+        <form onSubmit={handleInvite} className="flex flex-wrap gap-2">
+          <Input
+            type="email"
+            placeholder="Invite by email"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            required
+            className="flex-1 min-w-[180px] h-8"
+          />
+          <RoleSelect value={inviteRole} onChange={setInviteRole} label="Role for invitee" />
+          <Button type="submit" size="sm" disabled={inviting || !email.trim()}>
+            {inviting ? 'Inviting...' : 'Invite'}
+          </Button>
+        </form>
+      ) : (
+        <Button variant="outline" size="sm" onClick={handleLeave} className="gap-2">
+          <LogOut className="w-4 h-4" />
+          Leave list
+        </Button>
+      )}
+
+      {error && (
+        <div className="text-sm text-red-500 bg-red-50 p-3 rounded-md">
+          {error}
+        </div>
+      )}
+
+      {message && (
+        <div className="text-sm text-green-600 bg-green-50 p-3 rounded-md">
+          {message}
+        </div>
+      )}
+    </div>
+  )
+}
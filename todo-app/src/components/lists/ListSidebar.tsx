@@ -0,0 +1,195 @@
+import { useRef, useState } from 'react'
+import { ChevronDown, ChevronUp, Pencil, Plus, Trash2, Users } from 'lucide-react'
+import { Button } from '../ui/button'
+import { Input } from '../ui/input'
+import { cn } from '@/lib/utils'
+import type { ListProgress } from '@/lib/todoRepository'
+import type { List, ListRole } from '@/types/database'
+
+interface ListSidebarProps {
+  lists: List[]
+  selectedId: string | undefined
+  roles: Record<string, ListRole>
+  progress: Record<string, ListProgress>
+  onSelect: (id: string) => void
+  onCreate: (name: string) => void
+  onRename: (id: string, name: string) => void
+  onMove: (id: string, direction: -1 | 1) => void
+  onDelete: (id: string) => void
+}
+
+export function ListSidebar({
+  lists,
+  selectedId,
+  roles,
+  progress,
+  onSelect,
+  onCreate,
+  onRename,
+  onMove,
+  onDelete,
+}: ListSidebarProps) {
+  const [newListName, setNewListName] = useState('')
+  const [renamingId, setRenamingId] = useState<string | null>(null)
+  const [renameValue, setRenameValue] = useState('')
+  // Escape unmounts the input, which can still fire a blur afterwards
+  const renameCancelled = useRef(false)
+
+  const startRename = (list: List) => {
+    renameCancelled.current = false
+    setRenamingId(list.id)
+    setRenameValue(list.name)
+  }
+
+  const finishRename = () => {
+    if (renamingId && !renameCancelled.current) onRename(renamingId, renameValue)
+    setRenamingId(null)
+  }
+
+  const cancelRename = () => {
+    renameCancelled.current = true
+    setRenamingId(null)
+  }
+
+  const handleCreate = () => {
+    if (newListName.trim() === '') return
+    onCreate(newListName)
+    setNewListName('')
+  }
+
+  const handleDelete = (list: List) => {
+    const count = progress[list.id]?.total ?? 0
+    const message =
+      count > 0
+        ? `Delete "${list.name}" and its ${count} ${count === 1 ? 'task' : 'tasks'}?`
+        : `Delete "${list.name}"?`
+    if (window.confirm(message)) onDelete(list.id)
+  }
+
+  return (
+    <nav aria-label="Lists" className="space-y-1">
+      {lists.map((list, index) => {
+        const { total = 0, completed = 0 } = progress[list.id] ?? {}
+        const selected = list.id === selectedId
+        // Lists shared with us can only be renamed, moved or deleted by their owner
+        const isOwner = roles[list.id] === 'owner'
+
+        return (
+          <div
+            key={list.id}
+            className={cn(
+              "group rounded-lg px-3 py-2 transition-colors",
+              selected ? "bg-accent" : "hover:bg-accent/50"
+            )}
+          >
+            {renamingId === list.id ? (
+              <Input
+                autoFocus
+                value={renameValue}
+                aria-label="List name"
+                onChange={(e) => setRenameValue(e.target.value)}
+                onBlur={finishRename}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') finishRename()
+                  if (e.key === 'Escape') cancelRename()
+                }}
+                className="h-7"
+              />
+            ) : (
+              <div className="flex items-center gap-1">
+                <button
+                  type="button"
+                  onClick={() => onSelect(list.id)}
+                  aria-current={selected ? 'page' : undefined}
+                  className="flex-1 min-w-0 flex items-center gap-1.5 text-left text-sm font-medium outline-none focus-visible:underline"
+                >
+                  <span className="truncate">{list.name}</span>
+                  {!isOwner && (
+                    <Users
+                      className="w-3.5 h-3.5 shrink-0 text-muted-foreground"
+                      aria-label="Shared with you"
+                    />
+                  )}
+                </button>
+                {isOwner && (
+                  <div className="flex opacity-0 group-hover:opacity-100 group-focus-within:opacity-100 transition-opacity">
+                    <Button
+                      variant="ghost"
+                      size="icon-sm"
+                      aria-label={`Move ${list.name} up`}
+                      disabled={index === 0}
+                      onClick={() => onMove(list.id, -1)}
+                      className="size-6"
+                    >
+                      <ChevronUp className="w-3.5 h-3.5" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon-sm"
+                      aria-label={`Move ${list.name} down`}
+                      disabled={index === lists.length - 1}
+                      onClick={() => onMove(list.id, 1)}
+                      className="size-6"
+                    >
+                      <ChevronDown className="w-3.5 h-3.5" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon-sm"
+                      aria-label={`Rename ${list.name}`}
+                      onClick={() => startRename(list)}
+                      className="size-6"
+                    >
+                      <Pencil className="w-3.5 h-3.5" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon-sm"
+                      aria-label={`Delete ${list.name}`}
+                      disabled={lists.length === 1}
+                      onClick={() => handleDelete(list)}
+                      className="size-6 hover:text-destructive"
+                    >
+                      <Trash2 className="w-3.5 h-3.5" />
+                    </Button>
+                  </div>
+                )}
+              </div>
+            )}
+
+            <div className="flex items-center gap-2 mt-1.5">
+              <div className="h-1.5 flex-1 bg-secondary rounded-full overflow-hidden">
+                <div
+                  className="h-full bg-primary transition-all duration-500 ease-out"
+                  style={{ width: total > 0 ? `${(completed / total) * 100}%` : '0%' }}
+                />
+              </div>
+              <span className="text-xs text-muted-foreground tabular-nums">
+                {completed}/{total}
+              </span>
+            </div>
+          </div>
+        )
+      })}
+
+      <div className="flex gap-2 pt-3">
+        <Input
+          placeholder="New list"
+          value={newListName}
+          onChange={(e) => setNewListName(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleCreate()}
+          className="h-8"
+        />
+        <Button
+          variant="outline"
+          size="icon-sm"
+          aria-label="Add list"
+          onClick={handleCreate}
+          disabled={!newListName.trim()}
+        >
+          <Plus className="w-4 h-4" />
+        </Button>
+      </div>
+    </nav>
+  )
+}
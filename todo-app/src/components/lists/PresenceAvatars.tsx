@@ -0,0 +1,35 @@
+import type { Viewer } from '@/hooks/usePresence'
+
+interface PresenceAvatarsProps {
+  viewers: Viewer[]
+  currentUserId: string | undefined
+}
+
+const MAX_AVATARS = 3
+
+export function PresenceAvatars({ viewers, currentUserId }: PresenceAvatarsProps) {
+  const others = viewers.filter((viewer) => viewer.userId !== currentUserId)
+  if (others.length === 0) return null
+
+  const shown = others.slice(0, MAX_AVATARS)
+  const hidden = others.length - shown.length
+  const names = others.map((viewer) => viewer.email).join(', ')
+
+  return (
+    <div className="flex -space-x-2" title={`Also viewing: ${names}`} aria-label={`Also viewing: ${names}`}>
+      {shown.map((viewer) => (
+        <div
+          key={viewer.userId}
+          className="flex items-center justify-center w-7 h-7 rounded-full border-2 border-card bg-primary text-primary-foreground text-xs font-medium uppercase"
+        >
+          {viewer.email.charAt(0) || '?'}
+        </div>
+      ))}
+      {hidden > 0 && (
+        <div className="flex items-center justify-center w-7 h-7 rounded-full border-2 border-card bg-secondary text-xs text-muted-foreground">
+          +{hidden}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,49 @@
+import { useState } from 'react'
+import { Download } from 'lucide-react'
+import { useAuth } from '../../contexts/AuthContext'
+import { Button } from '../ui/button'
+import { fetchAccountData } from '@/lib/account'
+import { dateStamp, downloadFile } from '@/lib/todoExport'
+
+export function DataExport() {
+  const { user } = useAuth()
+  const [error, setError] = useState<string | null>(null)
+  const [loading, setLoading] = useState(false)
+
+  const handleDownload = async () => {
+    if (!user) return
+    setError(null)
+    setLoading(true)
+
+    const { data, error } = await fetchAccountData(user)
+
+    if (error) {
+      console.error('Error exporting account data:', error)
+      setError(error.message)
+    } else {
+      downloadFile(JSON.stringify(data, null, 2), 'application/json', `account-data-${dateStamp()}.json`)
+    }
+
+    setLoading(false)
+  }
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-muted-foreground">
+        A JSON file with your account details, every list you can see with its tasks and tags,
+        your list memberships and the activity recorded for you.
+      </p>
+
+      {error && (
+        <div className="text-sm text-red-500 bg-red-50 p-3 rounded-md">
+          {error}
+        </div>
+      )}
+
+      <Button variant="outline" onClick={handleDownload} disabled={loading}>
+        <Download className="w-4 h-4" />
+        {loading ? 'Preparing...' : 'Download My Data'}
+      </Button>
+    </div>
+  )
+}
@@ -0,0 +1,189 @@
+import { useState } from 'react'
+import { Trash2 } from 'lucide-react'
+import { useAuth } from '../../contexts/AuthContext'
+import { Button } from '../ui/button'
+import { Input } from '../ui/input'
+import { Label } from '../ui/label'
+import { deleteAccount, signedInRecently } from '@/lib/account'
+import { getProviderLabel, oauthProviders, type OAuthProvider } from '@/lib/authProviders'
+import { paths, rememberReturnTo } from '@/lib/routes'
+
+// Two steps: the button only opens the form, and the form makes sure the
+// server will see the fresh sign-in it requires. Right after signing in
+// that's already the case; otherwise the password gives it one, and accounts
+// without a password sign in again with an email link or their provider.
+export function DeleteAccount() {
+  const { user, signIn, signInWithMagicLink, signInWithOAuth, signOut } = useAuth()
+  const [confirming, setConfirming] = useState(false)
+  const [fresh, setFresh] = useState(false)
+  const [password, setPassword] = useState('')
+  const [error, setError] = useState<string | null>(null)
+  const [linkSent, setLinkSent] = useState(false)
+  const [loading, setLoading] = useState(false)
+  // Sending a sign-in link or leaving for a provider
+  const [signingIn, setSigningIn] = useState(false)
+
+  // Providers this account can sign in with that the app offers
+  const providers = oauthProviders.filter((provider) =>
+    (user?.app_metadata.providers as string[] | undefined)?.includes(provider)
+  )
+
+  const startConfirming = async () => {
+    setFresh(await signedInRecently())
+    setConfirming(true)
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!user) return
+    setError(null)
+    setLoading(true)
+
+    if (!fresh) {
+      const verified = await signIn(user.email ?? '', password)
+      if (verified.error) {
+        setError('Your password is incorrect')
+        setLoading(false)
+        return
+      }
+    }
+
+    const { error } = await deleteAccount(user.id)
+
+    // On success there's no account left; signing out takes the app back to
+    // the sign-in screen
+    if (error) {
+      console.error('Error deleting account:', error)
+      setError(error.message)
+      setLoading(false)
+    } else {
+      await signOut()
+    }
+  }
+
+  // Both come back through /auth/callback, which then returns here
+  const sendLink = async () => {
+    if (!user?.email) return
+    setError(null)
+    setSigningIn(true)
+    rememberReturnTo(paths.settings)
+
+    const { error } = await signInWithMagicLink(user.email)
+
+    if (error) {
+      setError(error.message)
+    } else {
+      setLinkSent(true)
+    }
+    setSigningIn(false)
+  }
+
+  // On success the browser leaves for the provider, so only errors come back
+  const signInAgain = async (provider: OAuthProvider) => {
+    setError(null)
+    setSigningIn(true)
+    rememberReturnTo(paths.settings)
+
+    const { error } = await signInWithOAuth(provider)
+
+    if (error) {
+      setError(error.message)
+      setSigningIn(false)
+    }
+  }
+
+  const cancel = () => {
+    setConfirming(false)
+    setPassword('')
+    setError(null)
+    setLinkSent(false)
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="text-sm text-muted-foreground space-y-2">
+        <p>Deleting your account permanently removes:</p>
+        <ul className="list-disc pl-5 space-y-1">
+          <li>your lists, with every task and tag in them, including for people you shared them with</li>
+          <li>tasks you added to other people's lists</li>
+          <li>your memberships of shared lists and the invites you sent</li>
+        </ul>
+        <p>This can't be undone. Download your data first if you want to keep a copy.</p>
+      </div>
+
+      {confirming ? (
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {fresh ? (
+            <p className="text-sm text-muted-foreground">
+              You signed in a moment ago, so there's no need to confirm again.
+            </p>
+          ) : (
+            <>
+              <div className="space-y-2">
+                <Label htmlFor="delete-password">Enter your password to confirm</Label>
+                <Input
+                  id="delete-password"
+                  type="password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  required
+                  autoFocus
+                  autoComplete="current-password"
+                />
+              </div>
+
+              <div className="space-y-2">
+                <p className="text-sm text-muted-foreground">
+                  No password? Sign in again, then come back within 5 minutes.
+                </p>
+                <div className="flex flex-wrap gap-2">
+                  <Button type="button" variant="outline" size="sm" onClick={sendLink} disabled={loading || signingIn}>
+                    Email me a sign-in link
+                  </Button>
+                  {providers.map((provider) => (
+                    <Button
+                      key={provider}
+                      type="button"
+                      variant="outline"
+                      size="sm"
+                      onClick={() => signInAgain(provider)}
+                      disabled={loading || signingIn}
+                    >
+                      {getProviderLabel(provider)}
+                    </Button>
+                  ))}
+                </div>
+              </div>
+            </>
+          )}
+
+          {linkSent && (
+            <div className="text-sm text-green-600 bg-green-50 p-3 rounded-md">
+              Check your email for a sign-in link.
+            </div>
+          )}
+
+          {error && (
+            <div className="text-sm text-red-500 bg-red-50 p-3 rounded-md">
+              {error}
+            </div>
+          )}
+
+          <div className="flex gap-2">
+            <Button type="submit" variant="destructive" disabled={loading || signingIn}>
+              {loading ? 'Deleting...' : 'Delete My Account'}
+            </Button>
+            <Button type="button" variant="ghost" onClick={cancel} disabled={loading}>
+              Cancel
+            </Button>
+          </div>
+        </form>
+      ) : (
+        <Button variant="destructive" onClick={startConfirming}>
+          <Trash2 className="w-4 h-4" />
+          Delete Account...
+        </Button>
+      )}
+    </div>
+  )
+}
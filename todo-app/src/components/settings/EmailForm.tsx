@@ -0,0 +1,77 @@
+import { useState } from 'react'
+import { useAuth } from '../../contexts/AuthContext'
+import { Button } from '../ui/button'
+import { Input } from '../ui/input'
+import { Label } from '../ui/label'
+
+export function EmailForm() {
+  const { user, updateEmail } = useAuth()
+  const [email, setEmail] = useState('')
+  const [error, setError] = useState<string | null>(null)
+  const [sentTo, setSentTo] = useState<string | null>(null)
+  const [loading, setLoading] = useState(false)
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError(null)
+    setSentTo(null)
+
+    if (email.trim().toLowerCase() === user?.email?.toLowerCase()) {
+      setError("That's already your email")
+      return
+    }
+
+    setLoading(true)
+
+    const { error } = await updateEmail(email.trim())
+
+    if (error) {
+      setError(error.message)
+    } else {
+      setSentTo(email.trim())
+      setEmail('')
+    }
+
+    setLoading(false)
+  }
+
+  // Set by Supabase while a change is waiting for confirmation
+  const pending = sentTo ?? user?.new_email
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <p className="text-sm text-muted-foreground">
+        You sign in as <span className="font-medium text-foreground">{user?.email}</span>.
+      </p>
+
+      <div className="space-y-2">
+        <Label htmlFor="settings-email">New email</Label>
+        <Input
+          id="settings-email"
+          type="email"
+          placeholder="you@example.com"
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+          required
+        />
+      </div>
+
+      {error && (
+        <div className="text-sm text-red-500 bg-red-50 p-3 rounded-md">
+          {error}
+        </div>
+      )}
+
+      {pending && (
+        <div className="text-sm text-green-600 bg-green-50 p-3 rounded-md">
+          Confirm the change to {pending} with the link we emailed. Until then you keep signing
+          in with your current address.
+        </div>
+      )}
+
+      <Button type="submit" disabled={loading}>
+        {loading ? 'Sending...' : 'Change Email'}
+      </Button>
+    </form>
+  )
+}
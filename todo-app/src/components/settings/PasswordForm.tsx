@@ -0,0 +1,167 @@
+import { useState } from 'react'
+import { useAuth } from '../../contexts/AuthContext'
+import { Button } from '../ui/button'
+import { Input } from '../ui/input'
+import { Label } from '../ui/label'
+
+// Proves it's the account owner either with the current password or, for
+// accounts made with a magic link or OAuth that have none, a code emailed by
+// Supabase's reauthenticate
+export function PasswordForm() {
+  const { user, signIn, reauthenticate, updatePassword } = useAuth()
+  const [useCode, setUseCode] = useState(false)
+  const [codeSent, setCodeSent] = useState(false)
+  const [current, setCurrent] = useState('')
+  const [code, setCode] = useState('')
+  const [password, setPassword] = useState('')
+  const [confirm, setConfirm] = useState('')
+  const [error, setError] = useState<string | null>(null)
+  const [success, setSuccess] = useState(false)
+  const [loading, setLoading] = useState(false)
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError(null)
+    setSuccess(false)
+
+    if (password !== confirm) {
+      setError("The new passwords don't match")
+      return
+    }
+
+    setLoading(true)
+
+    // Supabase doesn't ask for the old password, so check it by signing in;
+    // the code is checked by Supabase along with the new password
+    if (!useCode) {
+      const verified = await signIn(user?.email ?? '', current)
+      if (verified.error) {
+        setError('Your current password is incorrect')
+        setLoading(false)
+        return
+      }
+    }
+
+    const { error } = await updatePassword(password, useCode ? code : undefined)
+
+    if (error) {
+      setError(error.message)
+    } else {
+      setSuccess(true)
+      setCodeSent(false)
+      setCurrent('')
+      setCode('')
+      setPassword('')
+      setConfirm('')
+    }
+
+    setLoading(false)
+  }
+
+  const sendCode = async () => {
+    setError(null)
+    setLoading(true)
+
+    const { error } = await reauthenticate()
+
+    if (error) {
+      setError(error.message)
+    } else {
+      setCodeSent(true)
+    }
+    setLoading(false)
+  }
+
+  const toggleCode = () => {
+    setUseCode(!useCode)
+    setError(null)
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      {useCode ? (
+        <div className="space-y-2">
+          <Label htmlFor="reauth-code">Code from your email</Label>
+          <div className="flex gap-2">
+            <Input
+              id="reauth-code"
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+              required
+              inputMode="numeric"
+              autoComplete="one-time-code"
+            />
+            <Button type="button" variant="outline" onClick={sendCode} disabled={loading}>
+              {codeSent ? 'Send Again' : 'Send Code'}
+            </Button>
+          </div>
+          {codeSent && (
+            <p className="text-xs text-muted-foreground">
+              We sent a code to {user?.email}.
+            </p>
+          )}
+        </div>
+      ) : (
+        <div className="space-y-2">
+          <Label htmlFor="current-password">Current password</Label>
+          <Input
+            id="current-password"
+            type="password"
+            value={current}
+            onChange={(e) => setCurrent(e.target.value)}
+            required
+            autoComplete="current-password"
+          />
+        </div>
+      )}
+
+      <Button type="button" variant="link" size="sm" className="h-auto p-0" onClick={toggleCode}>
+        {useCode ? 'Use your current password instead' : "Don't have a password? Get a code by email"}
+      </Button>
+
+      <div className="grid gap-4 sm:grid-cols-2">
+        <div className="space-y-2">
+          <Label htmlFor="settings-new-password">New password</Label>
+          <Input
+            id="settings-new-password"
+            type="password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            required
+            minLength={6}
+            autoComplete="new-password"
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="settings-confirm-password">Confirm new password</Label>
+          <Input
+            id="settings-confirm-password"
+            type="password"
+            value={confirm}
+            onChange={(e) => setConfirm(e.target.value)}
+            required
+            minLength={6}
+            autoComplete="new-password"
+          />
+        </div>
+      </div>
+
+      {error && (
+        <div className="text-sm text-red-500 bg-red-50 p-3 rounded-md">
+          {error}
+        </div>
+      )}
+
+      {success && (
+        <div className="text-sm text-green-600 bg-green-50 p-3 rounded-md">
+          Your password has been changed.
+        </div>
+      )}
+
+      <Button type="submit" disabled={loading}>
+        {loading ? 'Saving...' : 'Change Password'}
+      </Button>
+    </form>
+  )
+}
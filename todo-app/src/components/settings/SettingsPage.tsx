@@ -0,0 +1,67 @@
+import { ArrowLeft, Settings } from 'lucide-react'
+import { Button } from '../ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../ui/card'
+import { DataExport } from './DataExport'
+import { DeleteAccount } from './DeleteAccount'
+import { EmailForm } from './EmailForm'
+import { PasswordForm } from './PasswordForm'
+
+interface SettingsPageProps {
+  onBack: () => void
+}
+
+export function SettingsPage({ onBack }: SettingsPageProps) {
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="container mx-auto px-4 py-12 max-w-2xl space-y-6">
+        <div className="flex items-center gap-3">
+          <Button variant="ghost" size="icon" onClick={onBack} aria-label="Back to todos">
+            <ArrowLeft className="w-5 h-5" />
+          </Button>
+          <div className="p-2 bg-primary rounded-lg">
+            <Settings className="w-5 h-5 text-primary-foreground" />
+          </div>
+          <h1 className="text-3xl font-bold text-foreground">Settings</h1>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Email</CardTitle>
+            <CardDescription>Where we send sign-in and reset links</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <EmailForm />
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Password</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <PasswordForm />
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Your data</CardTitle>
+            <CardDescription>Everything we store about you, in one file</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <DataExport />
+          </CardContent>
+        </Card>
+
+        <Card className="border-destructive/50">
+          <CardHeader>
+            <CardTitle className="text-destructive">Delete account</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <DeleteAccount />
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,50 @@
+import { X } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import { getTagColor } from '@/lib/tags'
+import type { Tag } from '@/types/database'
+
+interface TagChipProps {
+  tag: Tag
+  selected?: boolean
+  onClick?: () => void
+  onRemove?: () => void
+  className?: string
+}
+
+export function TagChip({ tag, selected, onClick, onRemove, className }: TagChipProps) {
+  const chipClassName = cn(
+    "inline-flex items-center gap-1 rounded-full border px-2 py-0.5 text-xs font-medium",
+    getTagColor(tag.color),
+    selected && "ring-2 ring-ring/50",
+    className
+  )
+
+  if (onClick) {
+    return (
+      <button
+        type="button"
+        onClick={onClick}
+        aria-pressed={selected}
+        className={cn(chipClassName, "outline-none focus-visible:ring-[3px] focus-visible:ring-ring/50")}
+      >
+        {tag.name}
+      </button>
+    )
+  }
+
+  return (
+    <span className={chipClassName}>
+      {tag.name}
+      {onRemove && (
+        <button
+          type="button"
+          onClick={onRemove}
+          aria-label={`Remove ${tag.name}`}
+          className="-mr-1 rounded-full opacity-60 hover:opacity-100"
+        >
+          <X className="w-3 h-3" />
+        </button>
+      )}
+    </span>
+  )
+}
@@ -0,0 +1,85 @@
+import { Settings2, Tag as TagIcon, X } from 'lucide-react'
+import { Button } from '../ui/button'
+import { Tabs, TabsList, TabsTrigger } from '../ui/tabs'
+import { TagChip } from './TagChip'
+import type { TagMatch } from '@/lib/tags'
+import type { Tag } from '@/types/database'
+
+interface TagFilterProps {
+  tags: Tag[]
+  selectedIds: string[]
+  match: TagMatch
+  onSelectedChange: (ids: string[]) => void
+  onMatchChange: (match: TagMatch) => void
+  managing: boolean
+  onManagingChange?: (managing: boolean) => void
+}
+
+export function TagFilter({
+  tags,
+  selectedIds,
+  match,
+  onSelectedChange,
+  onMatchChange,
+  managing,
+  onManagingChange,
+}: TagFilterProps) {
+  const toggle = (id: string) => {
+    onSelectedChange(
+      selectedIds.includes(id) ? selectedIds.filter((s) => s !== id) : [...selectedIds, id]
+    )
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <TagIcon className="w-4 h-4 text-muted-foreground" aria-hidden />
+      {tags.map((tag) => (
+        <TagChip
+          key={tag.id}
+          tag={tag}
+          selected={selectedIds.includes(tag.id)}
+          onClick={() => toggle(tag.id)}
+          className={selectedIds.length > 0 && !selectedIds.includes(tag.id) ? "opacity-50" : undefined}
+        />
+      ))}
+
+      {selectedIds.length > 1 && (
+        <Tabs value={match} onValueChange={(value) => onMatchChange(value as TagMatch)}>
+          <TabsList className="h-7">
+            <TabsTrigger value="any" className="text-xs px-2" aria-label="Match any selected tag">
+              Any
+            </TabsTrigger>
+            <TabsTrigger value="all" className="text-xs px-2" aria-label="Match all selected tags">
+              All
+            </TabsTrigger>
+          </TabsList>
+        </Tabs>
+      )}
+
+      {selectedIds.length > 0 && (
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => onSelectedChange([])}
+          className="h-7 px-2 text-muted-foreground"
+        >
+          <X className="w-3.5 h-3.5" />
+          Clear
+        </Button>
+      )}
+
+      {onManagingChange && (
+        <Button
+          variant={managing ? 'secondary' : 'ghost'}
+          size="icon-sm"
+          aria-label="Manage tags"
+          aria-expanded={managing}
+          onClick={() => onManagingChange(!managing)}
+          className="ml-auto size-7 text-muted-foreground"
+        >
+          <Settings2 className="w-4 h-4" />
+        </Button>
+      )}
+    </div>
+  )
+}
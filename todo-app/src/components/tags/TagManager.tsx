@@ -0,0 +1,124 @@
+import { useState } from 'react'
+import { Trash2 } from 'lucide-react'
+import { Button } from '../ui/button'
+import { Input } from '../ui/input'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '../ui/select'
+import { cn } from '@/lib/utils'
+import { getTagColor, tagColors, type TagColor } from '@/lib/tags'
+import type { Tag } from '@/types/database'
+
+interface TagManagerProps {
+  tags: Tag[]
+  usage: Map<string, number>
+  onCreate: (name: string) => void
+  onUpdate: (id: string, changes: { name?: string; color?: TagColor }) => void
+  onDelete: (id: string) => void
+}
+
+function TagRow({
+  tag,
+  count,
+  onUpdate,
+  onDelete,
+}: {
+  tag: Tag
+  count: number
+  onUpdate: TagManagerProps['onUpdate']
+  onDelete: TagManagerProps['onDelete']
+}) {
+  const [name, setName] = useState(tag.name)
+
+  const handleDelete = () => {
+    const message =
+      count > 0
+        ? `Delete the "${tag.name}" tag? It will be removed from ${count} ${count === 1 ? 'task' : 'tasks'}.`
+        : `Delete the "${tag.name}" tag?`
+    if (window.confirm(message)) onDelete(tag.id)
+  }
+
+  return (
+    <li className="flex items-center gap-2">
+      <Select value={tag.color} onValueChange={(color) => onUpdate(tag.id, { color: color as TagColor })}>
+        <SelectTrigger size="sm" className="w-[110px]" aria-label={`Color for ${tag.name}`}>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {tagColors.map((option) => (
+            <SelectItem key={option.value} value={option.value}>
+              <div className="flex items-center gap-2">
+                <div className={cn("w-3 h-3 rounded-full border", getTagColor(option.value))} />
+                {option.label}
+              </div>
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Input
+        value={name}
+        aria-label="Tag name"
+        onChange={(e) => setName(e.target.value)}
+        onBlur={() => (name.trim() ? onUpdate(tag.id, { name }) : setName(tag.name))}
+        onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+        className="h-8 flex-1"
+      />
+      <span className="text-xs text-muted-foreground tabular-nums w-8 text-right">{count}</span>
+      <Button
+        variant="ghost"
+        size="icon-sm"
+        aria-label={`Delete ${tag.name}`}
+        onClick={handleDelete}
+        className="text-muted-foreground hover:text-destructive"
+      >
+        <Trash2 className="w-4 h-4" />
+      </Button>
+    </li>
+  )
+}
+
+export function TagManager({ tags, usage, onCreate, onUpdate, onDelete }: TagManagerProps) {
+  const [newTag, setNewTag] = useState('')
+
+  const handleCreate = () => {
+    if (newTag.trim() === '') return
+    onCreate(newTag)
+    setNewTag('')
+  }
+
+  return (
+    <div className="rounded-lg border p-4 space-y-3">
+      <h3 className="text-sm font-medium">Tags</h3>
+      {tags.length > 0 && (
+        <ul className="space-y-2">
+          {tags.map((tag) => (
+            // Keyed on name too so a rename from elsewhere resets the field
+            <TagRow
+              key={`${tag.id}:${tag.name}`}
+              tag={tag}
+              count={usage.get(tag.id) ?? 0}
+              onUpdate={onUpdate}
+              onDelete={onDelete}
+            />
+          ))}
+        </ul>
+      )}
+      <div className="flex gap-2">
+        <Input
+          placeholder="New tag"
+          value={newTag}
+          onChange={(e) => setNewTag(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handleCreate()}
+          className="h-8"
+        />
+        <Button size="sm" onClick={handleCreate} disabled={!newTag.trim()}>
+          Add
+        </Button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,44 @@
+import { useState } from 'react'
+import { Input } from '../ui/input'
+import { TagChip } from './TagChip'
+import type { Tag } from '@/types/database'
+
+interface TagPickerProps {
+  tags: Tag[]
+  selectedIds: Set<string>
+  onToggle: (tagId: string, selected: boolean) => void
+  onCreate: (name: string) => void
+}
+
+// Every tag in the list as a toggle, plus a field to create a new one
+export function TagPicker({ tags, selectedIds, onToggle, onCreate }: TagPickerProps) {
+  const [newTag, setNewTag] = useState('')
+
+  const handleCreate = () => {
+    if (newTag.trim() === '') return
+    onCreate(newTag)
+    setNewTag('')
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      {tags.map((tag) => (
+        <TagChip
+          key={tag.id}
+          tag={tag}
+          selected={selectedIds.has(tag.id)}
+          onClick={() => onToggle(tag.id, !selectedIds.has(tag.id))}
+          className={selectedIds.has(tag.id) ? undefined : "opacity-60"}
+        />
+      ))}
+      <Input
+        placeholder={tags.length > 0 ? 'New tag' : 'Add a tag'}
+        aria-label="New tag"
+        value={newTag}
+        onChange={(e) => setNewTag(e.target.value)}
+        onKeyDown={(e) => e.key === 'Enter' && handleCreate()}
+        className="h-7 w-32 text-xs"
+      />
+    </div>
+  )
+}
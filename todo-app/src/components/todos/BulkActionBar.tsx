@@ -0,0 +1,143 @@
+import { Check, RotateCcw, Trash2, X } from 'lucide-react'
+import { Button } from '../ui/button'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '../ui/select'
+import { TagChip } from '../tags/TagChip'
+import { cn } from '@/lib/utils'
+import { statusOptions, type TodoStatus } from '@/lib/todoStatus'
+import type { List, Tag } from '@/types/database'
+
+interface BulkActionBarProps {
+  count: number
+  // How many todos are on screen, for "Select all"
+  total: number
+  // Lists the selection can be moved to
+  lists: List[]
+  tags: Tag[]
+  // Tags every selected todo already has
+  tagIds: Set<string>
+  onSelectAll: () => void
+  onClear: () => void
+  onStatusChange: (status: TodoStatus) => void
+  onCompletedChange: (completed: boolean) => void
+  onMove: (listId: string) => void
+  onTagChange: (tagId: string, tagged: boolean) => void
+  onDelete: () => void
+  onClose: () => void
+}
+
+// Actions for every selected todo at once; the pickers reset after each use
+export function BulkActionBar({
+  count,
+  total,
+  lists,
+  tags,
+  tagIds,
+  onSelectAll,
+  onClear,
+  onStatusChange,
+  onCompletedChange,
+  onMove,
+  onTagChange,
+  onDelete,
+  onClose,
+}: BulkActionBarProps) {
+  const none = count === 0
+
+  return (
+    <div
+      role="toolbar"
+      aria-label="Bulk actions"
+      className="space-y-3 rounded-md border bg-secondary/50 p-3"
+    >
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-sm font-medium" aria-live="polite">
+          {count} selected
+        </span>
+        <Button variant="link" size="sm" onClick={onSelectAll} disabled={count === total}>
+          Select all {total}
+        </Button>
+        <Button variant="link" size="sm" onClick={onClear} disabled={none}>
+          Clear
+        </Button>
+        <div className="flex-1" />
+        <Button variant="ghost" size="icon-sm" onClick={onClose} aria-label="Stop selecting">
+          <X className="w-4 h-4" />
+        </Button>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <Select value="" onValueChange={(value) => onStatusChange(value as TodoStatus)} disabled={none}>
+          <SelectTrigger className="w-[140px]" aria-label="Set status">
+            <SelectValue placeholder="Set status" />
+          </SelectTrigger>
+          <SelectContent>
+            {statusOptions.map((option) => (
+              <SelectItem key={option.value} value={option.value}>
+                <div className="flex items-center gap-2">
+                  <div className={cn("w-2 h-2 rounded-full", option.color)} />
+                  {option.label}
+                </div>
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        <Button variant="outline" size="sm" onClick={() => onCompletedChange(true)} disabled={none}>
+          <Check className="w-4 h-4" />
+          Complete
+        </Button>
+        <Button variant="outline" size="sm" onClick={() => onCompletedChange(false)} disabled={none}>
+          <RotateCcw className="w-4 h-4" />
+          Reopen
+        </Button>
+
+        {lists.length > 0 && (
+          <Select value="" onValueChange={onMove} disabled={none}>
+            <SelectTrigger className="w-[160px]" aria-label="Move to list">
+              <SelectValue placeholder="Move to…" />
+            </SelectTrigger>
+            <SelectContent>
+              {lists.map((list) => (
+                <SelectItem key={list.id} value={list.id}>
+                  {list.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={onDelete}
+          disabled={none}
+          className="text-muted-foreground hover:text-destructive"
+        >
+          <Trash2 className="w-4 h-4" />
+          Delete
+        </Button>
+      </div>
+
+      {tags.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="text-xs text-muted-foreground">Tags</span>
+          {tags.map((tag) => (
+            <TagChip
+              key={tag.id}
+              tag={tag}
+              selected={!none && tagIds.has(tag.id)}
+              onClick={none ? undefined : () => onTagChange(tag.id, !tagIds.has(tag.id))}
+              className={!none && tagIds.has(tag.id) ? undefined : "opacity-60"}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
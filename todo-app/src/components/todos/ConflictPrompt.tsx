@@ -0,0 +1,112 @@
+import { TriangleAlert } from 'lucide-react'
+import { Button } from '../ui/button'
+import { formatDue } from '@/lib/dueDates'
+import { describeRule, parseRule } from '@/lib/recurrence'
+import { getPriorityLabel } from '@/lib/todoPriority'
+import { getStatusLabel } from '@/lib/todoStatus'
+import type { Conflict } from '@/lib/outbox'
+import type { Todo, TodoUpdate } from '@/types/database'
+
+export type ConflictChoice = 'mine' | 'theirs'
+
+interface ConflictPromptProps {
+  conflicts: Conflict[]
+  // The todo's title, for the message
+  describe: (id: string) => string
+  onResolve: (id: string, keep: ConflictChoice) => void
+}
+
+const FIELD_LABELS: Partial<Record<keyof TodoUpdate, string>> = {
+  text: 'Title',
+  status: 'Status',
+  priority: 'Priority',
+  completed: 'Completed',
+  due_at: 'Due',
+  remind_at: 'Reminder',
+  recurrence: 'Repeats',
+  notes: 'Notes',
+  position: 'Order',
+  parent_id: 'Parent',
+  list_id: 'List',
+}
+
+function formatValue(key: keyof TodoUpdate, todo: TodoUpdate) {
+  switch (key) {
+    case 'text':
+      return `“${todo.text}”`
+    case 'status':
+      return getStatusLabel(todo.status!)
+    case 'priority':
+      return getPriorityLabel(todo.priority!)
+    case 'completed':
+      return todo.completed ? 'Yes' : 'No'
+    case 'due_at':
+    case 'remind_at': {
+      const value = todo[key]
+      return value ? formatDue(value) : 'None'
+    }
+    case 'recurrence': {
+      const rule = todo.recurrence ? parseRule(todo.recurrence) : null
+      return rule ? describeRule(rule) : 'Never'
+    }
+    default:
+      // Notes and moves are too long or too opaque to show side by side
+      return 'Changed'
+  }
+}
+
+// The fields where your refused change and the server's copy disagree
+function differences(changes: TodoUpdate, theirs: Todo | undefined) {
+  return (Object.keys(changes) as (keyof TodoUpdate)[]).filter(
+    (key) => key in FIELD_LABELS && (!theirs || changes[key] !== theirs[key as keyof Todo])
+  )
+}
+
+// Shown when queued edits were refused because their todos changed on
+// another device first. The list already shows the other device's version;
+// keeping yours applies your edits on top of it.
+export function ConflictPrompt({ conflicts, describe, onResolve }: ConflictPromptProps) {
+  if (conflicts.length === 0) return null
+
+  return (
+    <div role="alert" className="space-y-3 text-sm text-amber-700 bg-amber-50 p-3 rounded-md">
+      {conflicts.map((conflict) => {
+        const fields = differences(conflict.changes, conflict.theirs)
+        return (
+          <div key={conflict.id} className="space-y-2">
+            <div className="flex items-center gap-3">
+              <TriangleAlert className="w-4 h-4 shrink-0" />
+              <span className="flex-1">{describe(conflict.id)} was changed elsewhere</span>
+              <Button variant="ghost" size="sm" onClick={() => onResolve(conflict.id, 'theirs')}>
+                Use theirs
+              </Button>
+              <Button variant="ghost" size="sm" onClick={() => onResolve(conflict.id, 'mine')}>
+                Keep mine
+              </Button>
+            </div>
+            {fields.length > 0 && (
+              <table className="ml-7 text-xs">
+                <thead>
+                  <tr className="text-left">
+                    <th className="pr-4 font-medium" />
+                    <th className="pr-4 font-medium">Yours</th>
+                    <th className="font-medium">Theirs</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {fields.map((key) => (
+                    <tr key={key}>
+                      <td className="pr-4">{FIELD_LABELS[key]}</td>
+                      <td className="pr-4">{formatValue(key, conflict.changes)}</td>
+                      <td>{conflict.theirs ? formatValue(key, conflict.theirs) : '?'}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+        )
+      })}
+    </div>
+  )
+}
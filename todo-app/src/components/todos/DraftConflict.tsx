@@ -0,0 +1,46 @@
+import { TriangleAlert } from 'lucide-react'
+import { Button } from '../ui/button'
+
+interface DraftConflictProps {
+  // The value saved elsewhere while this one was being edited
+  theirs: string
+  // Long values (notes) aren't repeated in the message
+  showValue?: boolean
+  onTakeTheirs: () => void
+  onKeepMine: () => void
+}
+
+// Shown under an editor when the value it is editing changes on another
+// device. The buttons don't take focus, so the editor doesn't blur and save.
+export function DraftConflict({
+  theirs,
+  showValue = true,
+  onTakeTheirs,
+  onKeepMine,
+}: DraftConflictProps) {
+  const keepFocus = (e: React.MouseEvent) => e.preventDefault()
+
+  return (
+    <div
+      role="alert"
+      className="flex flex-wrap items-center gap-2 text-xs text-amber-700 bg-amber-50 px-3 py-2 rounded-md"
+    >
+      <TriangleAlert className="w-3.5 h-3.5 shrink-0" />
+      <span className="flex-1 min-w-0">
+        {showValue ? (
+          <>
+            Changed on another device to “<span className="font-medium">{theirs}</span>”
+          </>
+        ) : (
+          'Changed on another device while you were editing'
+        )}
+      </span>
+      <Button size="sm" variant="ghost" className="h-6 px-2 text-xs" onMouseDown={keepFocus} onClick={onTakeTheirs}>
+        Use theirs
+      </Button>
+      <Button size="sm" variant="ghost" className="h-6 px-2 text-xs" onMouseDown={keepFocus} onClick={onKeepMine}>
+        Keep mine
+      </Button>
+    </div>
+  )
+}
@@ -0,0 +1,96 @@
+import { Bell, CalendarClock, SkipForward, X } from 'lucide-react'
+import { Button } from '../ui/button'
+import { Input } from '../ui/input'
+import { Label } from '../ui/label'
+import { RecurrenceField } from './RecurrenceField'
+import { fromLocalInputValue, toLocalInputValue } from '@/lib/dueDates'
+import { firstOccurrence, parseRule } from '@/lib/recurrence'
+import type { Todo, TodoUpdate } from '@/types/database'
+
+export type TodoDates = Pick<TodoUpdate, 'due_at' | 'remind_at' | 'recurrence'>
+
+interface DueDateFieldsProps {
+  todo: Todo
+  onChange: (changes: TodoDates) => void
+  onSkipOccurrence: () => void
+}
+
+export function DueDateFields({ todo, onChange, onSkipOccurrence }: DueDateFieldsProps) {
+  const due = todo.due_at ? new Date(todo.due_at) : null
+
+  // A series needs somewhere to start; without a due date it starts with the
+  // first matching day from today, at the end of the day
+  const changeRecurrence = (recurrence: string | null) => {
+    const rule = recurrence ? parseRule(recurrence) : null
+    if (!rule || due) {
+      onChange({ recurrence })
+      return
+    }
+    const today = new Date()
+    today.setHours(23, 59, 0, 0)
+    onChange({ recurrence, due_at: firstOccurrence(rule, today)?.toISOString() ?? null })
+  }
+
+  return (
+    <div className="flex flex-wrap items-end gap-3">
+      <div className="space-y-1">
+        <Label htmlFor={`due-${todo.id}`} className="text-xs text-muted-foreground">
+          <CalendarClock className="w-3.5 h-3.5" />
+          Due
+        </Label>
+        <Input
+          id={`due-${todo.id}`}
+          type="datetime-local"
+          value={toLocalInputValue(todo.due_at)}
+          onChange={(e) => onChange({ due_at: fromLocalInputValue(e.target.value) })}
+          className="w-[200px]"
+        />
+      </div>
+
+      <div className="space-y-1">
+        <Label htmlFor={`remind-${todo.id}`} className="text-xs text-muted-foreground">
+          <Bell className="w-3.5 h-3.5" />
+          Remind me
+        </Label>
+        <Input
+          id={`remind-${todo.id}`}
+          type="datetime-local"
+          value={toLocalInputValue(todo.remind_at)}
+          onChange={(e) => onChange({ remind_at: fromLocalInputValue(e.target.value) })}
+          className="w-[200px]"
+        />
+      </div>
+
+      <RecurrenceField
+        id={`repeat-${todo.id}`}
+        value={todo.recurrence}
+        anchor={due ?? new Date()}
+        onChange={changeRecurrence}
+      />
+
+      {todo.recurrence && !todo.completed && (
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={onSkipOccurrence}
+          className="text-muted-foreground"
+        >
+          <SkipForward className="w-4 h-4" />
+          Skip this occurrence
+        </Button>
+      )}
+
+      {(todo.due_at || todo.remind_at || todo.recurrence) && (
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => onChange({ due_at: null, remind_at: null, recurrence: null })}
+          className="text-muted-foreground"
+        >
+          <X className="w-4 h-4" />
+          Clear
+        </Button>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,317 @@
+import { useState } from 'react'
+import { Download, TriangleAlert, Upload } from 'lucide-react'
+import { Button } from '../ui/button'
+import { Checkbox } from '../ui/checkbox'
+import { Label } from '../ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '../ui/select'
+import { cn } from '@/lib/utils'
+import { formatDue } from '@/lib/dueDates'
+import { downloadExport, exportFormats, type ExportFormat } from '@/lib/todoExport'
+import {
+  buildImportRows,
+  detectFormat,
+  insertImportRows,
+  parseImport,
+  previewImport,
+  type ImportPreviewRow,
+} from '@/lib/todoImport'
+import { todoRepository } from '@/lib/todoRepository'
+import { buildTree } from '@/lib/todos'
+import { getStatusColor, getStatusLabel } from '@/lib/todoStatus'
+import type { List, Todo } from '@/types/database'
+
+interface ImportExportPanelProps {
+  listId: string
+  userId: string
+  lists: List[]
+  // Viewers can export but not import
+  canImport: boolean
+  onImported: () => void
+}
+
+type ExportScope = 'list' | 'all'
+
+interface ImportFile {
+  name: string
+  text: string
+  format: ExportFormat
+  existing: Todo[]
+  rows: ImportPreviewRow[]
+  errors: string[]
+  // Indexes into `rows`
+  selected: Set<number>
+}
+
+export function ImportExportPanel({
+  listId,
+  userId,
+  lists,
+  canImport,
+  onImported,
+}: ImportExportPanelProps) {
+  const [exportFormat, setExportFormat] = useState<ExportFormat>('json')
+  const [scope, setScope] = useState<ExportScope>('list')
+  const [exporting, setExporting] = useState(false)
+  const [file, setFile] = useState<ImportFile | null>(null)
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [message, setMessage] = useState<string | null>(null)
+
+  const handleExport = async () => {
+    setError(null)
+    setMessage(null)
+    setExporting(true)
+
+    const { data, error } =
+      scope === 'all' ? await todoRepository.listAll() : await todoRepository.list(listId)
+
+    if (error) {
+      console.error('Error exporting todos:', error)
+      setError(error.message)
+    } else if (data) {
+      downloadExport(data, exportFormat, lists)
+    }
+    setExporting(false)
+  }
+
+  // Parsing happens up front so the preview shows exactly what will be added
+  const preview = (name: string, text: string, format: ExportFormat, existing: Todo[]) => {
+    const parsed = parseImport(text, format)
+    const rows = previewImport(parsed.todos, existing)
+    const selected = new Set(rows.flatMap((row, i) => (row.duplicate ? [] : [i])))
+    setFile({ name, text, format, existing, rows, errors: parsed.errors, selected })
+  }
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const chosen = e.target.files?.[0]
+    e.target.value = ''
+    if (!chosen) return
+    setError(null)
+    setMessage(null)
+
+    const [text, { data, error }] = await Promise.all([
+      chosen.text(),
+      todoRepository.list(listId),
+    ])
+    if (error) {
+      console.error('Error fetching todos for import:', error)
+      setError(error.message)
+      return
+    }
+    preview(chosen.name, text, detectFormat(chosen.name, text), data ?? [])
+  }
+
+  const toggleRow = (index: number, checked: boolean) => {
+    if (!file) return
+    const selected = new Set(file.selected)
+    if (checked) selected.add(index)
+    else selected.delete(index)
+    setFile({ ...file, selected })
+  }
+
+  const handleImport = async () => {
+    if (!file) return
+    setError(null)
+    const todos = file.rows.filter((_, i) => file.selected.has(i)).map((row) => row.todo)
+    const roots = buildTree(file.existing).roots
+    const levels = buildImportRows(todos, {
+      userId,
+      listId,
+      lastPosition: roots[roots.length - 1]?.position ?? null,
+    })
+
+    const result = await insertImportRows(levels, (done, total) => setProgress({ done, total }))
+    setProgress(null)
+
+    if (result.error) {
+      console.error('Error importing todos:', result.error)
+      setError(
+        `Imported ${result.done} of ${result.total} tasks, then failed: ${result.error.message}`
+      )
+    } else {
+      const tasks = result.total === 1 ? 'task' : 'tasks'
+      setMessage(`Imported ${result.total} ${tasks} from ${file.name}.`)
+      setFile(null)
+    }
+    if (result.done > 0) onImported()
+  }
+
+  const duplicates = file?.rows.filter((row) => row.duplicate).length ?? 0
+  const warnings = file?.rows.filter((row) => row.todo.warnings.length > 0).length ?? 0
+
+  return (
+    <div className="rounded-lg border p-4 space-y-4">
+      <h3 className="text-sm font-medium">Import & export</h3>
+
+      <div className="flex flex-wrap items-end gap-2">
+        <div className="space-y-1">
+          <Label htmlFor="export-format" className="text-xs text-muted-foreground">
+            Export
+          </Label>
+          <Select value={exportFormat} onValueChange={(value) => setExportFormat(value as ExportFormat)}>
+            <SelectTrigger id="export-format" size="sm" className="w-[180px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {exportFormats.map((option) => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <Select value={scope} onValueChange={(value) => setScope(value as ExportScope)}>
+          <SelectTrigger size="sm" className="w-[130px]" aria-label="Tasks to export">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="list">This list</SelectItem>
+            <SelectItem value="all">All lists</SelectItem>
+          </SelectContent>
+        </Select>
+        <Button size="sm" variant="outline" onClick={handleExport} disabled={exporting}>
+          <Download className="w-4 h-4" />
+          {exporting ? 'Exporting...' : 'Download'}
+        </Button>
+
+        {canImport && (
+          <Button size="sm" variant="outline" asChild className="ml-auto">
+            <label>
+              <Upload className="w-4 h-4" />
+              Import file…
+              <input
+                type="file"
+                accept=".json,.csv,.md,.markdown,.txt,.ics"
+                onChange={handleFile}
+                className="sr-only"
+              />
+            </label>
+          </Button>
+        )}
+      </div>
+
+      {file && (
+        <div className="space-y-3">
+          <div className="flex flex-wrap items-center gap-2 text-sm">
+            <span className="font-medium truncate">{file.name}</span>
+            <Select
+              value={file.format}
+              onValueChange={(value) =>
+                preview(file.name, file.text, value as ExportFormat, file.existing)
+              }
+            >
+              <SelectTrigger size="sm" className="w-[180px]" aria-label="Read the file as">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {exportFormats.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <span className="text-muted-foreground">
+              {file.rows.length - duplicates} new
+              {duplicates > 0 && ` · ${duplicates} already in this list or repeated`}
+              {warnings > 0 && ` · ${warnings} with warnings`}
+            </span>
+          </div>
+
+          {file.errors.length > 0 && (
+            <ul className="text-sm text-red-500 bg-red-50 p-3 rounded-md space-y-1">
+              {file.errors.map((message, i) => (
+                <li key={i}>{message}</li>
+              ))}
+            </ul>
+          )}
+
+          {file.rows.length > 0 && (
+            <ul className="max-h-80 overflow-y-auto rounded-md border divide-y text-sm">
+              {file.rows.map((row, i) => (
+                <li
+                  key={i}
+                  className={cn("flex items-start gap-3 px-3 py-2", row.duplicate && "bg-muted/50")}
+                  style={{ paddingLeft: `${0.75 + row.depth * 1.5}rem` }}
+                >
+                  <Checkbox
+                    checked={file.selected.has(i)}
+                    onCheckedChange={(checked) => toggleRow(i, checked === true)}
+                    aria-label={`Import “${row.todo.text}”`}
+                    className="mt-0.5"
+                  />
+                  <div className="flex-1 min-w-0">
+                    <div className={cn("truncate", row.todo.completed && "line-through text-muted-foreground")}>
+                      {row.todo.text}
+                    </div>
+                    <div className="flex flex-wrap items-center gap-x-3 gap-y-1 text-xs text-muted-foreground">
+                      <span className="inline-flex items-center gap-1">
+                        <span className={cn("w-2 h-2 rounded-full", getStatusColor(row.todo.status))} />
+                        {getStatusLabel(row.todo.status)}
+                        {row.todo.sourceStatus && ` (from “${row.todo.sourceStatus}”)`}
+                      </span>
+                      {row.todo.due_at && <span>Due {formatDue(row.todo.due_at)}</span>}
+                      {row.duplicate && (
+                        <span className="font-medium">
+                          {row.duplicate === 'existing' ? 'Already in this list' : 'Repeated in the file'}
+                        </span>
+                      )}
+                      {row.todo.warnings.map((warning) => (
+                        <span key={warning} className="inline-flex items-center gap-1 text-amber-600">
+                          <TriangleAlert className="w-3 h-3" />
+                          {warning}
+                        </span>
+                      ))}
+                    </div>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {progress ? (
+            <div className="flex items-center gap-3">
+              <div className="h-2 flex-1 bg-secondary rounded-full overflow-hidden">
+                <div
+                  className="h-full bg-primary transition-all duration-300"
+                  style={{ width: `${progress.total ? (progress.done / progress.total) * 100 : 0}%` }}
+                />
+              </div>
+              <span className="text-xs text-muted-foreground tabular-nums" aria-live="polite">
+                Importing {progress.done} of {progress.total}…
+              </span>
+            </div>
+          ) : (
+            <div className="flex gap-2">
+              <Button size="sm" onClick={handleImport} disabled={file.selected.size === 0}>
+                Import {file.selected.size} {file.selected.size === 1 ? 'task' : 'tasks'}
+              </Button>
+              <Button size="sm" variant="ghost" onClick={() => setFile(null)}>
+                Cancel
+              </Button>
+            </div>
+          )}
+        </div>
+      )}
+
+      {error && (
+        <div className="text-sm text-red-500 bg-red-50 p-3 rounded-md">
+          {error}
+        </div>
+      )}
+
+      {message && (
+        <div className="text-sm text-green-600 bg-green-50 p-3 rounded-md">
+          {message}
+        </div>
+      )}
+    </div>
+  )
+}
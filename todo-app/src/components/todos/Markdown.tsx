@@ -0,0 +1,127 @@
+import { Checkbox } from '../ui/checkbox'
+import { cn } from '@/lib/utils'
+import { parseMarkdown, type Block, type Inline, type ListBlock } from '@/lib/markdown'
+
+interface MarkdownProps {
+  source: string
+  // Ticking a checklist item; without it the checkboxes are read-only
+  onToggleTask?: (line: number) => void
+  className?: string
+}
+
+function InlineNodes({ nodes }: { nodes: Inline[] }) {
+  return (
+    <>
+      {nodes.map((node, i) => {
+        switch (node.type) {
+          case 'text':
+            return <span key={i} className="whitespace-pre-line">{node.text}</span>
+          case 'code':
+            return (
+              <code key={i} className="rounded bg-muted px-1 py-0.5 font-mono text-[0.85em]">
+                {node.text}
+              </code>
+            )
+          case 'link':
+            return (
+              <a
+                key={i}
+                href={node.href}
+                target="_blank"
+                rel="noopener noreferrer nofollow"
+                className="text-primary underline underline-offset-2 break-words"
+              >
+                <InlineNodes nodes={node.children} />
+              </a>
+            )
+          case 'strong':
+            return <strong key={i} className="font-semibold"><InlineNodes nodes={node.children} /></strong>
+          case 'em':
+            return <em key={i}><InlineNodes nodes={node.children} /></em>
+          case 'del':
+            return <del key={i}><InlineNodes nodes={node.children} /></del>
+        }
+      })}
+    </>
+  )
+}
+
+function List({ list, onToggleTask }: { list: ListBlock; onToggleTask?: (line: number) => void }) {
+  const Tag = list.ordered ? 'ol' : 'ul'
+  const checklist = list.items.some((item) => item.checked !== null)
+
+  return (
+    <Tag className={cn("space-y-1", checklist ? "pl-1" : list.ordered ? "list-decimal pl-5" : "list-disc pl-5")}>
+      {list.items.map((item) => (
+        <li key={item.line} className={cn(item.checked !== null && "list-none")}>
+          {item.checked !== null ? (
+            <label className="inline-flex items-start gap-2">
+              <Checkbox
+                checked={item.checked}
+                onCheckedChange={() => onToggleTask?.(item.line)}
+                disabled={!onToggleTask}
+                className="mt-0.5"
+              />
+              <span className={cn(item.checked && "line-through text-muted-foreground")}>
+                <InlineNodes nodes={item.children} />
+              </span>
+            </label>
+          ) : (
+            <InlineNodes nodes={item.children} />
+          )}
+          {item.sublists.map((sublist, i) => (
+            <List key={i} list={sublist} onToggleTask={onToggleTask} />
+          ))}
+        </li>
+      ))}
+    </Tag>
+  )
+}
+
+const headingStyles = ['text-lg font-semibold', 'text-base font-semibold', 'text-sm font-semibold']
+
+function Blocks({ blocks, onToggleTask }: { blocks: Block[]; onToggleTask?: (line: number) => void }) {
+  return (
+    <>
+      {blocks.map((block, i) => {
+        switch (block.type) {
+          case 'heading': {
+            const Heading = `h${block.level}` as 'h1'
+            return (
+              <Heading key={i} className={headingStyles[Math.min(block.level, 3) - 1]}>
+                <InlineNodes nodes={block.children} />
+              </Heading>
+            )
+          }
+          case 'paragraph':
+            return <p key={i}><InlineNodes nodes={block.children} /></p>
+          case 'code':
+            return (
+              <pre key={i} className="overflow-x-auto rounded-md bg-muted p-3 font-mono text-xs">
+                <code>{block.text}</code>
+              </pre>
+            )
+          case 'quote':
+            return (
+              <blockquote key={i} className="space-y-2 border-l-2 pl-3 text-muted-foreground">
+                <Blocks blocks={block.blocks} onToggleTask={onToggleTask} />
+              </blockquote>
+            )
+          case 'rule':
+            return <hr key={i} />
+          case 'list':
+            return <List key={i} list={block} onToggleTask={onToggleTask} />
+        }
+      })}
+    </>
+  )
+}
+
+// Renders notes through the parser in lib/markdown, never as raw HTML
+export function Markdown({ source, onToggleTask, className }: MarkdownProps) {
+  return (
+    <div className={cn("space-y-2 text-sm break-words", className)}>
+      <Blocks blocks={parseMarkdown(source)} onToggleTask={onToggleTask} />
+    </div>
+  )
+}
@@ -0,0 +1,55 @@
+import { Flag } from 'lucide-react'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+} from '../ui/select'
+import { cn } from '@/lib/utils'
+import {
+  getPriorityColor,
+  getPriorityLabel,
+  priorityOptions,
+  type TodoPriority,
+} from '@/lib/todoPriority'
+
+interface PrioritySelectProps {
+  value: TodoPriority
+  onChange: (priority: TodoPriority) => void
+  disabled?: boolean
+}
+
+// A flag in the priority's color; the label is in the menu and aria-label
+export function PrioritySelect({ value, onChange, disabled }: PrioritySelectProps) {
+  return (
+    <Select
+      value={value}
+      onValueChange={(value) => onChange(value as TodoPriority)}
+      disabled={disabled}
+    >
+      <SelectTrigger
+        aria-label={`Priority: ${getPriorityLabel(value)}`}
+        title={getPriorityLabel(value)}
+        className="px-2"
+      >
+        <Flag
+          className={cn("w-4 h-4", getPriorityColor(value))}
+          fill={value === 'none' ? 'none' : 'currentColor'}
+        />
+      </SelectTrigger>
+      <SelectContent>
+        {priorityOptions.map((option) => (
+          <SelectItem key={option.value} value={option.value}>
+            <div className="flex items-center gap-2">
+              <Flag
+                className={cn("w-4 h-4", option.color)}
+                fill={option.value === 'none' ? 'none' : 'currentColor'}
+              />
+              {option.label}
+            </div>
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  )
+}
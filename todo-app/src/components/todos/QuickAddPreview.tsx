@@ -0,0 +1,71 @@
+import { CalendarClock, Repeat } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import { formatDue } from '@/lib/dueDates'
+import { describeRule, parseRule } from '@/lib/recurrence'
+import { getTagColor } from '@/lib/tags'
+import type { QuickAddResult, QuickAddTokenKind } from '@/lib/quickAdd'
+import type { Tag } from '@/types/database'
+
+interface QuickAddPreviewProps {
+  input: string
+  result: QuickAddResult
+  // Existing tags, so #tags show in their own color
+  tags: Tag[]
+}
+
+const tokenStyles: Record<QuickAddTokenKind, string> = {
+  date: 'bg-blue-100 text-blue-800',
+  recurrence: 'bg-purple-100 text-purple-800',
+  tag: 'bg-gray-100 text-gray-700',
+  priority: 'bg-orange-100 text-orange-800',
+  status: 'bg-green-100 text-green-800',
+}
+
+// The add row's text with the parts the quick-add parser picked up marked
+export function QuickAddPreview({ input, result, tags }: QuickAddPreviewProps) {
+  if (result.tokens.length === 0) return null
+  const rule = result.recurrence ? parseRule(result.recurrence) : null
+
+  const tokenStyle = (kind: QuickAddTokenKind, text: string) => {
+    if (kind !== 'tag') return tokenStyles[kind]
+    const tag = tags.find((t) => t.name.toLowerCase() === text.slice(1).toLowerCase())
+    return tag ? getTagColor(tag.color) : tokenStyles.tag
+  }
+
+  const parts: React.ReactNode[] = []
+  let from = 0
+  for (const token of result.tokens) {
+    parts.push(input.slice(from, token.start))
+    parts.push(
+      <mark
+        key={token.start}
+        className={cn("rounded px-0.5", tokenStyle(token.kind, token.text))}
+      >
+        {token.text}
+      </mark>
+    )
+    from = token.end
+  }
+  parts.push(input.slice(from))
+
+  return (
+    <div
+      aria-live="polite"
+      className="flex flex-wrap items-center gap-x-3 gap-y-1 px-1 text-sm text-muted-foreground"
+    >
+      <span className="whitespace-pre-wrap break-words">{parts}</span>
+      {result.dueAt && (
+        <span className="inline-flex items-center gap-1 text-xs">
+          <CalendarClock className="w-3 h-3" />
+          {formatDue(result.dueAt)}
+        </span>
+      )}
+      {rule && (
+        <span className="inline-flex items-center gap-1 text-xs">
+          <Repeat className="w-3 h-3" />
+          {describeRule(rule)}
+        </span>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,106 @@
+import { useState } from 'react'
+import { Repeat } from 'lucide-react'
+import { Input } from '../ui/input'
+import { Label } from '../ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '../ui/select'
+import { describeRule, formatRule, parseRule, weekdayOf } from '@/lib/recurrence'
+
+interface RecurrenceFieldProps {
+  id: string
+  value: string | null
+  // Presets follow the due date: weekly on its weekday, monthly on its day
+  anchor: Date
+  onChange: (recurrence: string | null) => void
+}
+
+function presetsFor(anchor: Date) {
+  const rules = [
+    'FREQ=DAILY',
+    'FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR',
+    `FREQ=WEEKLY;BYDAY=${weekdayOf(anchor)}`,
+    `FREQ=MONTHLY;BYMONTHDAY=${anchor.getDate()}`,
+    'FREQ=YEARLY',
+  ]
+  return rules.map((rule) => ({ value: rule, label: describeRule(parseRule(rule)!) }))
+}
+
+export function RecurrenceField({ id, value, anchor, onChange }: RecurrenceFieldProps) {
+  const presets = presetsFor(anchor)
+  const isPreset = value === null || presets.some((preset) => preset.value === value)
+  const [custom, setCustom] = useState(!isPreset)
+  const [draft, setDraft] = useState(value ?? '')
+  const [invalid, setInvalid] = useState(false)
+
+  const selected = custom || !isPreset ? 'custom' : value ?? 'none'
+
+  const select = (choice: string) => {
+    setInvalid(false)
+    if (choice === 'custom') {
+      setCustom(true)
+      setDraft(value ?? '')
+      return
+    }
+    setCustom(false)
+    onChange(choice === 'none' ? null : choice)
+  }
+
+  // Stored normalized, so "rrule:freq=weekly" saves as FREQ=WEEKLY
+  const saveDraft = () => {
+    const rule = parseRule(draft)
+    setInvalid(!rule)
+    if (rule && formatRule(rule) !== value) onChange(formatRule(rule))
+  }
+
+  const rule = value ? parseRule(value) : null
+
+  return (
+    <div className="space-y-1">
+      <Label htmlFor={id} className="text-xs text-muted-foreground">
+        <Repeat className="w-3.5 h-3.5" />
+        Repeat
+      </Label>
+      <div className="flex flex-wrap items-center gap-2">
+        <Select value={selected} onValueChange={select}>
+          <SelectTrigger id={id} className="w-[200px]">
+            <SelectValue>
+              {selected === 'none' ? 'Never' : rule ? describeRule(rule) : 'Custom'}
+            </SelectValue>
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="none">Never</SelectItem>
+            {presets.map((preset) => (
+              <SelectItem key={preset.value} value={preset.value}>
+                {preset.label}
+              </SelectItem>
+            ))}
+            <SelectItem value="custom">Custom rule…</SelectItem>
+          </SelectContent>
+        </Select>
+
+        {selected === 'custom' && (
+          <Input
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            onBlur={saveDraft}
+            onKeyDown={(e) => e.key === 'Enter' && saveDraft()}
+            placeholder="FREQ=WEEKLY;INTERVAL=2;BYDAY=MO"
+            aria-label="Recurrence rule"
+            aria-invalid={invalid}
+            className="w-[280px] font-mono text-xs"
+          />
+        )}
+      </div>
+      {selected === 'custom' && invalid && (
+        <p className="text-xs text-destructive">
+          Use FREQ with INTERVAL, BYDAY, BYMONTHDAY or UNTIL (COUNT isn't supported)
+        </p>
+      )}
+    </div>
+  )
+}
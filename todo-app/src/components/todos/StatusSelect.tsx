@@ -0,0 +1,42 @@
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '../ui/select'
+import { cn } from '@/lib/utils'
+import { getStatusColor, getStatusLabel, statusOptions, type TodoStatus } from '@/lib/todoStatus'
+
+interface StatusSelectProps {
+  value: TodoStatus
+  onChange: (status: TodoStatus) => void
+  disabled?: boolean
+}
+
+export function StatusSelect({ value, onChange, disabled }: StatusSelectProps) {
+  return (
+    <Select
+      value={value}
+      onValueChange={(value) => onChange(value as TodoStatus)}
+      disabled={disabled}
+    >
+      <SelectTrigger className="w-[140px]">
+        <div className="flex items-center gap-2">
+          <div className={cn("w-2 h-2 rounded-full", getStatusColor(value))} />
+          <SelectValue>{getStatusLabel(value)}</SelectValue>
+        </div>
+      </SelectTrigger>
+      <SelectContent>
+        {statusOptions.map((option) => (
+          <SelectItem key={option.value} value={option.value}>
+            <div className="flex items-center gap-2">
+              <div className={cn("w-2 h-2 rounded-full", option.color)} />
+              {option.label}
+            </div>
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  )
+}
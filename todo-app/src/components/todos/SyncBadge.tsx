@@ -0,0 +1,30 @@
+import { AlertCircle, Clock, TriangleAlert } from 'lucide-react'
+import type { SyncState } from '@/hooks/useOutbox'
+
+export function SyncBadge({ state }: { state: SyncState | undefined }) {
+  if (state === 'pending') {
+    return (
+      <span title="Waiting to sync" className="text-muted-foreground">
+        <Clock className="w-4 h-4" />
+      </span>
+    )
+  }
+
+  if (state === 'failed') {
+    return (
+      <span title="This change was rejected by the server" className="text-destructive">
+        <AlertCircle className="w-4 h-4" />
+      </span>
+    )
+  }
+
+  if (state === 'conflict') {
+    return (
+      <span title="Changed elsewhere before this change synced" className="text-amber-600">
+        <TriangleAlert className="w-4 h-4" />
+      </span>
+    )
+  }
+
+  return null
+}
@@ -0,0 +1,47 @@
+import { AlertCircle, CloudOff, RefreshCw } from 'lucide-react'
+import { Button } from '../ui/button'
+
+interface SyncStatusProps {
+  online: boolean
+  pendingCount: number
+  failedCount: number
+  onRetry: () => void
+  onDiscard: () => void
+}
+
+export function SyncStatus({ online, pendingCount, failedCount, onRetry, onDiscard }: SyncStatusProps) {
+  if (failedCount > 0) {
+    return (
+      <div className="flex items-center gap-3 text-sm text-red-500 bg-red-50 p-3 rounded-md">
+        <AlertCircle className="w-4 h-4 shrink-0" />
+        <span className="flex-1">
+          {failedCount} {failedCount === 1 ? 'change was' : 'changes were'} rejected by the server
+        </span>
+        <Button variant="ghost" size="sm" onClick={onRetry}>
+          Retry
+        </Button>
+        <Button variant="ghost" size="sm" onClick={onDiscard}>
+          Discard
+        </Button>
+      </div>
+    )
+  }
+
+  if (pendingCount > 0) {
+    return (
+      <div className="flex items-center gap-3 text-sm text-muted-foreground bg-secondary p-3 rounded-md">
+        {online ? (
+          <RefreshCw className="w-4 h-4 shrink-0 animate-spin" />
+        ) : (
+          <CloudOff className="w-4 h-4 shrink-0" />
+        )}
+        <span>
+          {online ? 'Syncing' : 'Offline'} · {pendingCount}{' '}
+          {pendingCount === 1 ? 'change' : 'changes'} waiting to sync
+        </span>
+      </div>
+    )
+  }
+
+  return null
+}
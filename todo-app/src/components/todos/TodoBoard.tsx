@@ -0,0 +1,257 @@
+import { useEffect, useRef, useState } from 'react'
+import { CalendarClock, CornerDownRight, Flag, ListChecks } from 'lucide-react'
+import { Checkbox } from '../ui/checkbox'
+import { SyncBadge } from './SyncBadge'
+import type { TodoSelection } from './TodoItem'
+import { TagChip } from '../tags/TagChip'
+import { cn } from '@/lib/utils'
+import { formatDue, isOverdue } from '@/lib/dueDates'
+import { rowShortcut } from '@/lib/keyboard'
+import { buildTree, subtaskProgress } from '@/lib/todos'
+import { getPriorityColor, getPriorityLabel } from '@/lib/todoPriority'
+import { getStatusLabel, statusOptions, type TodoStatus } from '@/lib/todoStatus'
+import type { SyncState } from '@/hooks/useOutbox'
+import type { Tag, Todo } from '@/types/database'
+
+interface TodoBoardProps {
+  todos: Todo[]
+  syncStates: Map<string, SyncState>
+  tags: Tag[]
+  tagIds: Map<string, Set<string>>
+  onToggle: (id: string, completed: boolean) => void
+  onStatusChange: (id: string, status: TodoStatus) => void
+  onOpenDetails: (id: string) => void
+  selection?: TodoSelection
+  readOnly?: boolean
+}
+
+// Card being moved with the keyboard and the column it would land in
+interface Grabbed {
+  id: string
+  target: TodoStatus
+}
+
+export function TodoBoard({
+  todos,
+  syncStates,
+  tags,
+  tagIds,
+  onToggle,
+  onStatusChange,
+  onOpenDetails,
+  selection,
+  readOnly = false,
+}: TodoBoardProps) {
+  const [grabbed, setGrabbed] = useState<Grabbed | null>(null)
+  const [dragOver, setDragOver] = useState<TodoStatus | null>(null)
+  const [announcement, setAnnouncement] = useState('')
+  const boardRef = useRef<HTMLDivElement>(null)
+  const refocusId = useRef<string | null>(null)
+
+  // The board is flat: parents show their roll-up, subtasks name their parent
+  const tree = buildTree(todos)
+  const todosById = new Map(todos.map((todo) => [todo.id, todo]))
+
+  // A card that changes column is remounted, so put focus back on it
+  useEffect(() => {
+    if (!refocusId.current) return
+    const card = boardRef.current?.querySelector<HTMLElement>(
+      `[data-todo-id="${refocusId.current}"]`
+    )
+    card?.focus()
+    refocusId.current = null
+  }, [todos])
+
+  const moveTodo = (todo: Todo, status: TodoStatus) => {
+    if (todo.status === status) return
+    onStatusChange(todo.id, status)
+  }
+
+  const handleCardKeyDown = (e: React.KeyboardEvent, todo: Todo) => {
+    // Leave keys alone while focus is on the checkbox inside the card
+    if (readOnly || e.target !== e.currentTarget) return
+
+    const columnIndex = (status: TodoStatus) =>
+      statusOptions.findIndex((opt) => opt.value === status)
+
+    // x and 1-3 as in the list; the board has no editing or deleting
+    const shortcut = grabbed ? null : rowShortcut(e)
+    if (shortcut?.type === 'toggle' || shortcut?.type === 'status') {
+      e.preventDefault()
+      refocusId.current = todo.id
+      if (shortcut.type === 'toggle') onToggle(todo.id, todo.completed)
+      else moveTodo(todo, shortcut.status)
+      return
+    }
+
+    if (e.key === ' ' || e.key === 'Enter') {
+      e.preventDefault()
+      if (grabbed?.id !== todo.id) {
+        setGrabbed({ id: todo.id, target: todo.status })
+        setAnnouncement(
+          `Picked up ${todo.text}. Use the left and right arrow keys to move it, space to drop, escape to cancel.`
+        )
+      } else {
+        refocusId.current = todo.id
+        moveTodo(todo, grabbed.target)
+        setGrabbed(null)
+        setAnnouncement(`Dropped ${todo.text} in ${getStatusLabel(grabbed.target)}.`)
+      }
+    } else if (grabbed?.id === todo.id && (e.key === 'ArrowLeft' || e.key === 'ArrowRight')) {
+      e.preventDefault()
+      const step = e.key === 'ArrowLeft' ? -1 : 1
+      const index = Math.min(
+        statusOptions.length - 1,
+        Math.max(0, columnIndex(grabbed.target) + step)
+      )
+      const target = statusOptions[index].value
+      setGrabbed({ id: todo.id, target })
+      setAnnouncement(`Over ${getStatusLabel(target)}.`)
+    } else if (grabbed?.id === todo.id && e.key === 'Escape') {
+      setGrabbed(null)
+      setAnnouncement(`Cancelled. ${todo.text} stays in ${getStatusLabel(todo.status)}.`)
+    }
+  }
+
+  const handleDrop = (e: React.DragEvent, status: TodoStatus) => {
+    e.preventDefault()
+    setDragOver(null)
+    if (readOnly) return
+    const todo = todos.find((t) => t.id === e.dataTransfer.getData('text/plain'))
+    if (todo) moveTodo(todo, status)
+  }
+
+  return (
+    <div ref={boardRef} className="grid grid-cols-1 sm:grid-cols-3 gap-4 mt-6">
+      {statusOptions.map((column) => {
+        const cards = todos.filter((todo) => todo.status === column.value)
+        const isTarget = dragOver === column.value || grabbed?.target === column.value
+
+        return (
+          <section
+            key={column.value}
+            aria-label={column.label}
+            onDragOver={(e) => {
+              if (readOnly) return
+              e.preventDefault()
+              setDragOver(column.value)
+            }}
+            onDragLeave={() => setDragOver(null)}
+            onDrop={(e) => handleDrop(e, column.value)}
+            className={cn(
+              "flex flex-col gap-2 rounded-lg bg-secondary/50 p-3 min-h-40 transition-colors",
+              isTarget && "bg-accent ring-2 ring-ring/30"
+            )}
+          >
+            <h3 className="flex items-center gap-2 text-sm font-medium text-foreground mb-1">
+              <div className={cn("w-2 h-2 rounded-full", column.color)} />
+              {column.label}
+              <span className="text-xs text-muted-foreground">{cards.length}</span>
+            </h3>
+
+            {cards.map((todo) => {
+              const subtasks = subtaskProgress(tree, todo.id)
+              const parent = todo.parent_id ? todosById.get(todo.parent_id) : undefined
+              const todoTags = tags.filter((tag) => tagIds.get(todo.id)?.has(tag.id))
+              const selected = selection?.selected.has(todo.id) ?? false
+
+              return (
+                <div
+                  key={todo.id}
+                  data-todo-id={todo.id}
+                  tabIndex={0}
+                  draggable={!readOnly}
+                  aria-roledescription={readOnly ? undefined : 'draggable task'}
+                  aria-pressed={grabbed?.id === todo.id}
+                  onDragStart={(e) => e.dataTransfer.setData('text/plain', todo.id)}
+                  onDragEnd={() => setDragOver(null)}
+                  onKeyDown={(e) => handleCardKeyDown(e, todo)}
+                  onDoubleClick={() => onOpenDetails(todo.id)}
+                  onBlur={() => grabbed?.id === todo.id && setGrabbed(null)}
+                  className={cn(
+                    "flex items-start gap-2 p-3 rounded-md border bg-card text-sm shadow-xs outline-none focus-visible:ring-[3px] focus-visible:ring-ring/50",
+                    !readOnly && "cursor-grab",
+                    todo.completed && "opacity-60",
+                    grabbed?.id === todo.id && "ring-2 ring-primary",
+                    selected && "bg-accent/50 ring-2 ring-primary/50"
+                  )}
+                >
+                  {selection && (
+                    <Checkbox
+                      checked={selected}
+                      onClick={(e) => selection.onSelect(todo.id, !selected, e.shiftKey)}
+                      aria-label={`Select ${todo.text}`}
+                      className="mt-0.5 shrink-0 rounded-full"
+                    />
+                  )}
+                  <Checkbox
+                    checked={todo.completed}
+                    onCheckedChange={() => onToggle(todo.id, todo.completed)}
+                    disabled={readOnly}
+                    className="mt-0.5 shrink-0"
+                  />
+                  <div className="flex-1 min-w-0">
+                    <span
+                      className={cn(
+                        "break-words",
+                        todo.completed && "line-through text-muted-foreground"
+                      )}
+                    >
+                      {todo.text}
+                    </span>
+                    {todo.priority !== 'none' && (
+                      <div
+                        className={cn(
+                          "flex items-center gap-1 mt-1 text-xs font-medium",
+                          getPriorityColor(todo.priority)
+                        )}
+                      >
+                        <Flag className="w-3 h-3" fill="currentColor" />
+                        {getPriorityLabel(todo.priority)}
+                      </div>
+                    )}
+                    {todo.due_at && (
+                      <div
+                        className={cn(
+                          "flex items-center gap-1 mt-1 text-xs text-muted-foreground",
+                          isOverdue(todo) && "text-destructive font-medium"
+                        )}
+                      >
+                        <CalendarClock className="w-3 h-3" />
+                        {formatDue(todo.due_at)}
+                      </div>
+                    )}
+                    {parent && (
+                      <div className="flex items-center gap-1 mt-1 text-xs text-muted-foreground truncate">
+                        <CornerDownRight className="w-3 h-3 shrink-0" />
+                        <span className="truncate">{parent.text}</span>
+                      </div>
+                    )}
+                    {todoTags.length > 0 && (
+                      <div className="flex flex-wrap gap-1 mt-1.5">
+                        {todoTags.map((tag) => (
+                          <TagChip key={tag.id} tag={tag} />
+                        ))}
+                      </div>
+                    )}
+                    {subtasks && (
+                      <div className="flex items-center gap-1 mt-1 text-xs text-muted-foreground tabular-nums">
+                        <ListChecks className="w-3 h-3" />
+                        {subtasks.completed}/{subtasks.total}
+                      </div>
+                    )}
+                  </div>
+                  <SyncBadge state={syncStates.get(todo.id)} />
+                </div>
+              )
+            })}
+          </section>
+        )
+      })}
+
+      <div aria-live="assertive" className="sr-only">
+        {announcement}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,244 @@
+import { useEffect, useRef, useState } from 'react'
+import { CalendarClock, Flag, Pencil, X } from 'lucide-react'
+import { Button } from '../ui/button'
+import { Tabs, TabsList, TabsTrigger } from '../ui/tabs'
+import { Textarea } from '../ui/textarea'
+import { DraftConflict } from './DraftConflict'
+import { Markdown } from './Markdown'
+import { cn } from '@/lib/utils'
+import { formatDue, isOverdue } from '@/lib/dueDates'
+import { toggleTask } from '@/lib/markdown'
+import { describeEvent, timeAgo } from '@/lib/todoEvents'
+import { getPriorityColor, getPriorityLabel } from '@/lib/todoPriority'
+import { getStatusColor, getStatusLabel } from '@/lib/todoStatus'
+import { useDraft } from '@/hooks/useDraft'
+import { useTodoEvents } from '@/hooks/useTodoEvents'
+import type { Todo, TodoEvent } from '@/types/database'
+
+interface TodoDetailProps {
+  todo: Todo
+  // Your own changes show as "You" in the activity timeline
+  currentUserId: string | undefined
+  readOnly?: boolean
+  onNotesChange: (id: string, notes: string | null) => void
+  onClose: () => void
+}
+
+type NotesTab = 'write' | 'preview'
+
+interface TimelineProps {
+  events: TodoEvent[]
+  currentUserId: string | undefined
+}
+
+function Timeline({ events, currentUserId }: TimelineProps) {
+  const actor = (event: TodoEvent) =>
+    event.actor_id === currentUserId ? 'You' : event.actor_email ?? 'Someone'
+
+  return (
+    <ol className="space-y-3 border-l pl-4">
+      {events.map((event) => (
+        <li key={event.id} className="relative text-sm">
+          <span className="absolute -left-[1.3rem] top-1.5 h-2 w-2 rounded-full bg-muted-foreground/40" />
+          <span className="font-medium">{actor(event)}</span> {describeEvent(event)}
+          <time
+            dateTime={event.created_at}
+            title={new Date(event.created_at).toLocaleString()}
+            className="block text-xs text-muted-foreground"
+          >
+            {timeAgo(event.created_at)}
+          </time>
+        </li>
+      ))}
+    </ol>
+  )
+}
+
+// Side panel with a todo's notes and activity. Mounted while open; focus goes
+// back to where it was when it closes.
+export function TodoDetail({
+  todo,
+  currentUserId,
+  readOnly = false,
+  onNotesChange,
+  onClose,
+}: TodoDetailProps) {
+  const notes = useDraft(todo.notes ?? '')
+  const history = useTodoEvents(todo.id)
+  const [tab, setTab] = useState<NotesTab>('write')
+  const [returnFocus] = useState(() => document.activeElement as HTMLElement | null)
+  const panelRef = useRef<HTMLDivElement>(null)
+
+  useEffect(() => {
+    panelRef.current?.focus()
+    return () => {
+      if (returnFocus?.isConnected) returnFocus.focus()
+    }
+  }, [returnFocus])
+
+  const startEditing = () => {
+    setTab('write')
+    notes.start()
+  }
+
+  const save = () => {
+    const next = notes.draft.trim() ? notes.draft.replace(/\s+$/, '') : null
+    if (next !== todo.notes) onNotesChange(todo.id, next)
+    notes.stop()
+  }
+
+  // Checklist items can be ticked without going into the editor
+  const tickTask = (line: number) => {
+    if (todo.notes) onNotesChange(todo.id, toggleTask(todo.notes, line))
+  }
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key !== 'Escape') return
+    e.preventDefault()
+    if (notes.editing) {
+      notes.stop()
+      panelRef.current?.focus()
+    } else {
+      onClose()
+    }
+  }
+
+  return (
+    <div
+      className="fixed inset-0 z-40 flex justify-end bg-black/20"
+      onMouseDown={(e) => e.target === e.currentTarget && onClose()}
+    >
+      <div
+        ref={panelRef}
+        role="dialog"
+        aria-modal="true"
+        aria-label={`Details for ${todo.text}`}
+        tabIndex={-1}
+        onKeyDown={handleKeyDown}
+        className="h-full w-full max-w-md overflow-y-auto border-l bg-card p-6 shadow-lg outline-none space-y-6"
+      >
+        <div className="flex items-start gap-3">
+          <h2
+            className={cn(
+              "flex-1 text-lg font-semibold break-words",
+              todo.completed && "line-through text-muted-foreground"
+            )}
+          >
+            {todo.text}
+          </h2>
+          <Button variant="ghost" size="icon-sm" onClick={onClose} aria-label="Close details">
+            <X className="w-4 h-4" />
+          </Button>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-3 text-xs text-muted-foreground">
+          <span className="inline-flex items-center gap-1">
+            <span className={cn("w-2 h-2 rounded-full", getStatusColor(todo.status))} />
+            {getStatusLabel(todo.status)}
+          </span>
+          {todo.priority !== 'none' && (
+            <span className={cn("inline-flex items-center gap-1 font-medium", getPriorityColor(todo.priority))}>
+              <Flag className="w-3 h-3" fill="currentColor" />
+              {getPriorityLabel(todo.priority)}
+            </span>
+          )}
+          {todo.due_at && (
+            <span
+              className={cn(
+                "inline-flex items-center gap-1",
+                isOverdue(todo) && "text-destructive font-medium"
+              )}
+            >
+              <CalendarClock className="w-3 h-3" />
+              {formatDue(todo.due_at)}
+            </span>
+          )}
+        </div>
+
+        <section className="space-y-3">
+          <div className="flex items-center justify-between">
+            <h3 className="text-sm font-medium">Notes</h3>
+            {notes.editing ? (
+              <Tabs value={tab} onValueChange={(value) => setTab(value as NotesTab)}>
+                <TabsList>
+                  <TabsTrigger value="write">Write</TabsTrigger>
+                  <TabsTrigger value="preview">Preview</TabsTrigger>
+                </TabsList>
+              </Tabs>
+            ) : (
+              !readOnly && (
+                <Button variant="ghost" size="sm" onClick={startEditing}>
+                  <Pencil className="w-4 h-4" />
+                  Edit
+                </Button>
+              )
+            )}
+          </div>
+
+          {notes.theirs !== null && (
+            <DraftConflict
+              theirs={notes.theirs}
+              showValue={false}
+              onTakeTheirs={notes.takeTheirs}
+              onKeepMine={notes.keepMine}
+            />
+          )}
+
+          {notes.editing ? (
+            <>
+              {tab === 'write' ? (
+                <Textarea
+                  autoFocus
+                  value={notes.draft}
+                  onChange={(e) => notes.change(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) {
+                      e.preventDefault()
+                      save()
+                    }
+                  }}
+                  placeholder="Markdown: **bold**, `code`, [links](https://…), - [ ] checklists"
+                  aria-label="Notes"
+                  className="min-h-40 font-mono text-sm"
+                />
+              ) : notes.draft.trim() ? (
+                <Markdown source={notes.draft} className="min-h-40 rounded-md border p-3" />
+              ) : (
+                <p className="min-h-40 rounded-md border p-3 text-sm text-muted-foreground">
+                  Nothing to preview
+                </p>
+              )}
+              <div className="flex gap-2">
+                <Button size="sm" onClick={save}>
+                  Save
+                </Button>
+                <Button size="sm" variant="ghost" onClick={notes.stop}>
+                  Cancel
+                </Button>
+              </div>
+            </>
+          ) : todo.notes ? (
+            <Markdown source={todo.notes} onToggleTask={readOnly ? undefined : tickTask} />
+          ) : (
+            <p className="text-sm text-muted-foreground">
+              {readOnly ? 'No notes' : 'No notes yet. Add links, code or a checklist.'}
+            </p>
+          )}
+        </section>
+
+        <section className="space-y-3">
+          <h3 className="text-sm font-medium">Activity</h3>
+          {history.error ? (
+            <div className="text-sm text-red-500 bg-red-50 p-3 rounded-md">{history.error}</div>
+          ) : history.loading ? (
+            <p className="text-sm text-muted-foreground">Loading...</p>
+          ) : history.events.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No activity recorded yet</p>
+          ) : (
+            <Timeline events={history.events} currentUserId={currentUserId} />
+          )}
+        </section>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,131 @@
+import { ArrowUpDown, Search, X } from 'lucide-react'
+import { Button } from '../ui/button'
+import { Input } from '../ui/input'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '../ui/select'
+import { cn } from '@/lib/utils'
+import { isFiltered, type CompletedFilter, type TodoFilter } from '@/lib/todoFilter'
+import { statusOptions, type TodoStatus } from '@/lib/todoStatus'
+import { sortOptions, type TodoSort } from '@/lib/todoSort'
+
+interface TodoFilterBarProps {
+  filter: TodoFilter
+  onChange: (changes: Partial<TodoFilter>) => void
+  onClear: () => void
+  sort: TodoSort
+  onSortChange: (sort: TodoSort) => void
+}
+
+const completedOptions: { value: CompletedFilter; label: string }[] = [
+  { value: 'all', label: 'Any state' },
+  { value: 'open', label: 'Open' },
+  { value: 'completed', label: 'Completed' },
+]
+
+export function TodoFilterBar({
+  filter,
+  onChange,
+  onClear,
+  sort,
+  onSortChange,
+}: TodoFilterBarProps) {
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <div className="relative flex-1 min-w-[200px]">
+        <Search className="absolute left-2.5 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground pointer-events-none" />
+        <Input
+          id="todo-search"
+          type="search"
+          placeholder="Search tasks"
+          aria-label="Search tasks"
+          value={filter.q}
+          onChange={(e) => onChange({ q: e.target.value })}
+          className="h-8 pl-8"
+        />
+      </div>
+
+      <Select
+        value={filter.status}
+        onValueChange={(value) => onChange({ status: value as TodoStatus | 'all' })}
+      >
+        <SelectTrigger size="sm" className="w-[140px]" aria-label="Filter by status">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="all">All statuses</SelectItem>
+          {statusOptions.map((option) => (
+            <SelectItem key={option.value} value={option.value}>
+              <div className="flex items-center gap-2">
+                <div className={cn("w-2 h-2 rounded-full", option.color)} />
+                {option.label}
+              </div>
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <Select
+        value={filter.completed}
+        onValueChange={(value) => onChange({ completed: value as CompletedFilter })}
+      >
+        <SelectTrigger size="sm" className="w-[120px]" aria-label="Filter by completion">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {completedOptions.map((option) => (
+            <SelectItem key={option.value} value={option.value}>
+              {option.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <div className="flex items-center gap-1 text-xs text-muted-foreground">
+        <span>Created</span>
+        <Input
+          type="date"
+          aria-label="Created from"
+          value={filter.createdFrom ?? ''}
+          max={filter.createdTo ?? undefined}
+          onChange={(e) => onChange({ createdFrom: e.target.value || null })}
+          className="h-8 w-[140px]"
+        />
+        <span>–</span>
+        <Input
+          type="date"
+          aria-label="Created to"
+          value={filter.createdTo ?? ''}
+          min={filter.createdFrom ?? undefined}
+          onChange={(e) => onChange({ createdTo: e.target.value || null })}
+          className="h-8 w-[140px]"
+        />
+      </div>
+
+      <Select value={sort} onValueChange={(value) => onSortChange(value as TodoSort)}>
+        <SelectTrigger size="sm" className="w-[170px]" aria-label="Sort tasks">
+          <ArrowUpDown className="w-3.5 h-3.5" />
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {sortOptions.map((option) => (
+            <SelectItem key={option.value} value={option.value}>
+              {option.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {isFiltered(filter) && (
+        <Button variant="ghost" size="sm" onClick={onClear} className="h-8 px-2 text-muted-foreground">
+          <X className="w-3.5 h-3.5" />
+          Clear filters
+        </Button>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,474 @@
+import { useRef, useState } from 'react'
+import {
+  Bell,
+  CalendarClock,
+  ChevronDown,
+  ChevronRight,
+  FileText,
+  Flag,
+  GripVertical,
+  ListPlus,
+  NotebookText,
+  Repeat,
+  Tag as TagIcon,
+  Trash2,
+} from 'lucide-react'
+import { Button } from '../ui/button'
+import { Checkbox } from '../ui/checkbox'
+import { Input } from '../ui/input'
+import { DraftConflict } from './DraftConflict'
+import { DueDateFields, type TodoDates } from './DueDateFields'
+import { PrioritySelect } from './PrioritySelect'
+import { StatusSelect } from './StatusSelect'
+import { SyncBadge } from './SyncBadge'
+import { TagChip } from '../tags/TagChip'
+import { TagPicker } from '../tags/TagPicker'
+import { cn } from '@/lib/utils'
+import { formatDue, isOverdue } from '@/lib/dueDates'
+import { focusAwayFrom, rowShortcut } from '@/lib/keyboard'
+import { useDraft } from '@/hooks/useDraft'
+import type { SyncState } from '@/hooks/useOutbox'
+import type { ListProgress } from '@/lib/todoRepository'
+import { getPriorityColor, getPriorityLabel, type TodoPriority } from '@/lib/todoPriority'
+import { describeRule, parseRule } from '@/lib/recurrence'
+import type { TodoStatus } from '@/lib/todoStatus'
+import type { Tag, Todo } from '@/types/database'
+
+export interface TodoActions {
+  onTextChange: (id: string, text: string) => void
+  onOpenDetails: (id: string) => void
+  onToggle: (id: string, completed: boolean) => void
+  onStatusChange: (id: string, status: TodoStatus) => void
+  onPriorityChange: (id: string, priority: TodoPriority) => void
+  onDatesChange: (id: string, changes: TodoDates) => void
+  onSkipOccurrence: (id: string) => void
+  onReorder: (id: string, position: string) => void
+  onDelete: (id: string) => void
+  onAddSubtask: (parentId: string, text: string) => void
+  onTagChange: (id: string, tagId: string, tagged: boolean) => void
+  onCreateTag: (id: string, name: string) => void
+}
+
+// Drag handle wiring for a row that can be moved among its siblings
+export interface TodoReorder {
+  canMoveUp: boolean
+  canMoveDown: boolean
+  onMove: (step: -1 | 1) => void
+  dragging: boolean
+  dropSide: 'before' | 'after' | null
+  onDragStart: (e: React.DragEvent) => void
+  onDragEnd: () => void
+  onDragOver: (e: React.DragEvent) => void
+  onDrop: (e: React.DragEvent) => void
+}
+
+// Select mode: a checkbox on every row for picking todos to change at once
+export interface TodoSelection {
+  selected: Set<string>
+  // With shift held, everything on screen since the last click goes too
+  onSelect: (id: string, selected: boolean, range: boolean) => void
+}
+
+interface TodoItemProps extends TodoActions {
+  todo: Todo
+  syncState: SyncState | undefined
+  // Every tag in the list, and the ids of the ones on this todo
+  tags: Tag[]
+  tagIds: Set<string> | undefined
+  subtasks?: ListProgress
+  collapsed?: boolean
+  onCollapsedChange?: (collapsed: boolean) => void
+  reorder?: TodoReorder
+  selection?: TodoSelection
+  readOnly?: boolean
+}
+
+export function TodoItem({
+  todo,
+  syncState,
+  onTextChange,
+  onOpenDetails,
+  onToggle,
+  onStatusChange,
+  onPriorityChange,
+  onDatesChange,
+  onSkipOccurrence,
+  onDelete,
+  onAddSubtask,
+  onTagChange,
+  onCreateTag,
+  tags,
+  tagIds,
+  subtasks,
+  collapsed = false,
+  onCollapsedChange,
+  reorder,
+  selection,
+  readOnly = false,
+}: TodoItemProps) {
+  const [editingDates, setEditingDates] = useState(false)
+  const [addingSubtask, setAddingSubtask] = useState(false)
+  const [editingTags, setEditingTags] = useState(false)
+  const [subtaskText, setSubtaskText] = useState('')
+  const text = useDraft(todo.text)
+  const rowRef = useRef<HTMLDivElement>(null)
+
+  const selected = selection?.selected.has(todo.id) ?? false
+  const todoTags = tagIds ? tags.filter((tag) => tagIds.has(tag.id)) : []
+  const hasPriority = todo.priority !== 'none'
+  const rule = todo.recurrence ? parseRule(todo.recurrence) : null
+  const hasMeta =
+    hasPriority || subtasks || todo.due_at || todo.remind_at || rule || todo.notes || todoTags.length > 0
+
+  // Blurring saves too; an emptied text is treated as a cancel
+  const saveText = () => {
+    const next = text.draft.trim()
+    if (next && next !== todo.text) onTextChange(todo.id, next)
+    text.stop()
+  }
+
+  const handleTextKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter') {
+      e.preventDefault()
+      saveText()
+      rowRef.current?.focus()
+    } else if (e.key === 'Escape') {
+      e.preventDefault()
+      text.stop()
+      rowRef.current?.focus()
+    }
+  }
+
+  // x, 1-3, Enter/e and Delete while the row has focus (j/k move it)
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    const shortcut = rowShortcut(e)
+    if (!shortcut || readOnly) return
+    e.preventDefault()
+
+    switch (shortcut.type) {
+      case 'toggle':
+        onToggle(todo.id, todo.completed)
+        break
+      case 'status':
+        onStatusChange(todo.id, shortcut.status)
+        break
+      case 'edit':
+        text.start()
+        break
+      case 'delete':
+        focusAwayFrom(e.currentTarget)
+        onDelete(todo.id)
+        break
+    }
+  }
+
+  const addSubtask = () => {
+    if (subtaskText.trim() === '') return
+    onAddSubtask(todo.id, subtaskText.trim())
+    setSubtaskText('')
+    onCollapsedChange?.(false)
+  }
+
+  return (
+    <div
+      ref={rowRef}
+      data-todo-id={todo.id}
+      tabIndex={-1}
+      onKeyDown={handleKeyDown}
+      onDragOver={reorder?.onDragOver}
+      onDrop={reorder?.onDrop}
+      className={cn(
+        "group relative rounded-lg border bg-card hover:bg-accent/50 transition-colors duration-200 outline-none focus-visible:ring-[3px] focus-visible:ring-ring/50",
+        todo.completed && "opacity-60",
+        reorder?.dragging && "opacity-40",
+        selected && "bg-accent/50 ring-2 ring-primary/50"
+      )}
+    >
+      {reorder?.dropSide && (
+        <div
+          className={cn(
+            "absolute inset-x-0 h-0.5 rounded-full bg-primary pointer-events-none",
+            reorder.dropSide === 'before' ? "-top-1.5" : "-bottom-1.5"
+          )}
+        />
+      )}
+
+      <div className="flex items-center gap-3 p-4">
+        {selection && (
+          <Checkbox
+            checked={selected}
+            onClick={(e) => selection.onSelect(todo.id, !selected, e.shiftKey)}
+            aria-label={`Select ${todo.text}`}
+            className="shrink-0 rounded-full"
+          />
+        )}
+
+        {reorder && (
+          <button
+            type="button"
+            data-reorder-handle={todo.id}
+            draggable
+            onDragStart={reorder.onDragStart}
+            onDragEnd={reorder.onDragEnd}
+            onKeyDown={(e) => {
+              if (e.key === 'ArrowUp' && reorder.canMoveUp) {
+                e.preventDefault()
+                reorder.onMove(-1)
+              } else if (e.key === 'ArrowDown' && reorder.canMoveDown) {
+                e.preventDefault()
+                reorder.onMove(1)
+              }
+            }}
+            aria-label={`Reorder ${todo.text}`}
+            aria-description="Drag, or use the up and down arrow keys to move"
+            className="-ml-2 -mr-2 flex items-center justify-center size-6 shrink-0 rounded-sm text-muted-foreground cursor-grab opacity-0 group-hover:opacity-100 focus-visible:opacity-100 outline-none focus-visible:ring-[3px] focus-visible:ring-ring/50 transition-opacity"
+          >
+            <GripVertical className="w-4 h-4" />
+          </button>
+        )}
+
+        {subtasks ? (
+          <Button
+            variant="ghost"
+            size="icon-sm"
+            onClick={() => onCollapsedChange?.(!collapsed)}
+            aria-label={collapsed ? 'Show subtasks' : 'Hide subtasks'}
+            aria-expanded={!collapsed}
+            className="-ml-2 -mr-2 size-6 text-muted-foreground"
+          >
+            {collapsed ? <ChevronRight className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+          </Button>
+        ) : (
+          <div className="-ml-2 -mr-2 size-6 shrink-0" />
+        )}
+
+        <Checkbox
+          checked={todo.completed}
+          onCheckedChange={() => onToggle(todo.id, todo.completed)}
+          disabled={readOnly}
+          className="shrink-0"
+        />
+
+        <div className="flex-1 min-w-0">
+          {text.editing ? (
+            <Input
+              autoFocus
+              value={text.draft}
+              onChange={(e) => text.change(e.target.value)}
+              onKeyDown={handleTextKeyDown}
+              onBlur={saveText}
+              aria-label="Task text"
+              className="h-8 -my-1"
+            />
+          ) : (
+            <span
+              onDoubleClick={readOnly ? undefined : text.start}
+              className={cn(
+                "text-foreground transition-all duration-200",
+                todo.completed && "line-through text-muted-foreground"
+              )}
+            >
+              {todo.text}
+            </span>
+          )}
+          {hasMeta && (
+            <div className="flex flex-wrap items-center gap-3 mt-1 text-xs text-muted-foreground">
+              {hasPriority && (
+                <span
+                  className={cn(
+                    "inline-flex items-center gap-1 font-medium",
+                    getPriorityColor(todo.priority)
+                  )}
+                >
+                  <Flag className="w-3 h-3" fill="currentColor" />
+                  {getPriorityLabel(todo.priority)}
+                </span>
+              )}
+              {todoTags.length > 0 && (
+                <span className="inline-flex flex-wrap gap-1">
+                  {todoTags.map((tag) => (
+                    <TagChip
+                      key={tag.id}
+                      tag={tag}
+                      onRemove={readOnly ? undefined : () => onTagChange(todo.id, tag.id, false)}
+                    />
+                  ))}
+                </span>
+              )}
+              {subtasks && (
+                <span
+                  className="tabular-nums"
+                  aria-label={`${subtasks.completed} of ${subtasks.total} subtasks done`}
+                >
+                  {subtasks.completed}/{subtasks.total}
+                </span>
+              )}
+              {todo.due_at && (
+                <span
+                  className={cn(
+                    "inline-flex items-center gap-1",
+                    isOverdue(todo) && "text-destructive font-medium"
+                  )}
+                >
+                  <CalendarClock className="w-3 h-3" />
+                  {formatDue(todo.due_at)}
+                </span>
+              )}
+              {todo.remind_at && (
+                <span className="inline-flex items-center gap-1">
+                  <Bell className="w-3 h-3" />
+                  {formatDue(todo.remind_at)}
+                </span>
+              )}
+              {rule && (
+                <span className="inline-flex items-center gap-1">
+                  <Repeat className="w-3 h-3" />
+                  {describeRule(rule)}
+                </span>
+              )}
+              {todo.notes && (
+                <button
+                  type="button"
+                  onClick={() => onOpenDetails(todo.id)}
+                  className="inline-flex items-center gap-1 hover:text-foreground"
+                >
+                  <NotebookText className="w-3 h-3" />
+                  Notes
+                </button>
+              )}
+            </div>
+          )}
+        </div>
+
+        <SyncBadge state={syncState} />
+
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={() => onOpenDetails(todo.id)}
+          aria-label="Details and notes"
+          className="text-muted-foreground opacity-0 group-hover:opacity-100 focus-visible:opacity-100 transition-opacity"
+        >
+          <FileText className="w-4 h-4" />
+        </Button>
+
+        {!readOnly && (
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => setEditingTags(!editingTags)}
+            aria-label="Tags"
+            aria-expanded={editingTags}
+            className={cn(
+              "text-muted-foreground transition-opacity",
+              !editingTags && "opacity-0 group-hover:opacity-100 focus-visible:opacity-100"
+            )}
+          >
+            <TagIcon className="w-4 h-4" />
+          </Button>
+        )}
+
+        {!readOnly && (
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => setAddingSubtask(!addingSubtask)}
+            aria-label="Add subtask"
+            aria-expanded={addingSubtask}
+            className={cn(
+              "text-muted-foreground transition-opacity",
+              !addingSubtask && "opacity-0 group-hover:opacity-100 focus-visible:opacity-100"
+            )}
+          >
+            <ListPlus className="w-4 h-4" />
+          </Button>
+        )}
+
+        {!readOnly && (
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => setEditingDates(!editingDates)}
+            aria-label="Due date and reminder"
+            aria-expanded={editingDates}
+            className={cn(
+              "text-muted-foreground transition-opacity",
+              !editingDates && "opacity-0 group-hover:opacity-100 focus-visible:opacity-100"
+            )}
+          >
+            <CalendarClock className="w-4 h-4" />
+          </Button>
+        )}
+
+        <PrioritySelect
+          value={todo.priority}
+          onChange={(priority) => onPriorityChange(todo.id, priority)}
+          disabled={readOnly}
+        />
+
+        <StatusSelect
+          value={todo.status}
+          onChange={(status) => onStatusChange(todo.id, status)}
+          disabled={readOnly}
+        />
+
+        {!readOnly && (
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => onDelete(todo.id)}
+            className="opacity-0 group-hover:opacity-100 transition-opacity text-muted-foreground hover:text-destructive hover:bg-destructive/10"
+          >
+            <Trash2 className="w-4 h-4" />
+          </Button>
+        )}
+      </div>
+
+      {text.editing && text.theirs !== null && (
+        <div className="px-4 pb-4 pl-16">
+          <DraftConflict theirs={text.theirs} onTakeTheirs={text.takeTheirs} onKeepMine={text.keepMine} />
+        </div>
+      )}
+
+      {editingDates && !readOnly && (
+        <div className="px-4 pb-4 pl-16">
+          <DueDateFields
+            todo={todo}
+            onChange={(changes) => onDatesChange(todo.id, changes)}
+            onSkipOccurrence={() => onSkipOccurrence(todo.id)}
+          />
+        </div>
+      )}
+
+      {editingTags && !readOnly && (
+        <div className="px-4 pb-4 pl-16">
+          <TagPicker
+            tags={tags}
+            selectedIds={tagIds ?? new Set()}
+            onToggle={(tagId, tagged) => onTagChange(todo.id, tagId, tagged)}
+            onCreate={(name) => onCreateTag(todo.id, name)}
+          />
+        </div>
+      )}
+
+      {addingSubtask && !readOnly && (
+        <div className="flex gap-2 px-4 pb-4 pl-16">
+          <Input
+            autoFocus
+            placeholder="Add a subtask"
+            value={subtaskText}
+            onChange={(e) => setSubtaskText(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') addSubtask()
+              if (e.key === 'Escape') setAddingSubtask(false)
+            }}
+            className="h-8"
+          />
+          <Button size="sm" onClick={addSubtask} disabled={!subtaskText.trim()}>
+            Add
+          </Button>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,277 @@
+import { useEffect, useRef, useState } from 'react'
+import { TodoItem, type TodoActions, type TodoReorder, type TodoSelection } from './TodoItem'
+import { groupByDue } from '@/lib/dueDates'
+import {
+  buildTree,
+  positionBetween,
+  sortByPosition,
+  subtaskProgress,
+  type TodoTree,
+} from '@/lib/todos'
+import { compareTodos, type TodoSort } from '@/lib/todoSort'
+import type { SyncState } from '@/hooks/useOutbox'
+import type { Tag, Todo } from '@/types/database'
+
+interface TodoListProps extends TodoActions {
+  todos: Todo[]
+  sort: TodoSort
+  syncStates: Map<string, SyncState>
+  tags: Tag[]
+  tagIds: Map<string, Set<string>>
+  selection?: TodoSelection
+  readOnly?: boolean
+}
+
+interface TodoNodeProps extends TodoActions {
+  todo: Todo
+  tree: TodoTree
+  syncStates: Map<string, SyncState>
+  tags: Tag[]
+  tagIds: Map<string, Set<string>>
+  collapsed: Set<string>
+  onCollapsedChange: (id: string, collapsed: boolean) => void
+  reorder?: TodoReorder
+  reorderFor: (todo: Todo, siblings: Todo[]) => TodoReorder | undefined
+  selection?: TodoSelection
+  readOnly?: boolean
+}
+
+// Row being dragged, and the order on screen when the drag began
+interface Dragging {
+  id: string
+  order: Map<string, number>
+}
+
+interface DropTarget {
+  id: string
+  side: 'before' | 'after'
+}
+
+// A todo followed by its subtasks, indented one level per depth
+function TodoNode({
+  todo,
+  tree,
+  syncStates,
+  tags,
+  tagIds,
+  collapsed,
+  onCollapsedChange,
+  reorder,
+  reorderFor,
+  selection,
+  readOnly,
+  ...actions
+}: TodoNodeProps) {
+  const children = tree.children.get(todo.id) ?? []
+  const isCollapsed = collapsed.has(todo.id)
+
+  return (
+    <div className="space-y-2">
+      <TodoItem
+        todo={todo}
+        syncState={syncStates.get(todo.id)}
+        tags={tags}
+        tagIds={tagIds.get(todo.id)}
+        subtasks={subtaskProgress(tree, todo.id)}
+        collapsed={isCollapsed}
+        onCollapsedChange={(value) => onCollapsedChange(todo.id, value)}
+        reorder={reorder}
+        selection={selection}
+        readOnly={readOnly}
+        {...actions}
+      />
+      {children.length > 0 && !isCollapsed && (
+        <div className="ml-6 pl-3 border-l space-y-2">
+          {children.map((child) => (
+            <TodoNode
+              key={child.id}
+              todo={child}
+              tree={tree}
+              syncStates={syncStates}
+              tags={tags}
+              tagIds={tagIds}
+              collapsed={collapsed}
+              onCollapsedChange={onCollapsedChange}
+              reorder={reorderFor(child, children)}
+              reorderFor={reorderFor}
+              selection={selection}
+              readOnly={readOnly}
+              {...actions}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
+
+export function TodoList({
+  todos,
+  sort,
+  syncStates,
+  tags,
+  tagIds,
+  selection,
+  readOnly,
+  ...actions
+}: TodoListProps) {
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set())
+  const [dragging, setDragging] = useState<Dragging | null>(null)
+  const [dropTarget, setDropTarget] = useState<DropTarget | null>(null)
+  const [announcement, setAnnouncement] = useState('')
+  const listRef = useRef<HTMLDivElement>(null)
+  const refocusId = useRef<string | null>(null)
+
+  // Subtasks stay under their parent whatever their own due date is
+  const compare = compareTodos(sort)
+  const tree = buildTree(todos, compare)
+
+  // While a drag is in progress the rows hold still, even if someone else
+  // reorders the list; the new order shows once the row is dropped
+  if (dragging) {
+    const rank = (todo: Todo) => dragging.order.get(todo.id) ?? dragging.order.size
+    tree.roots.sort((a, b) => rank(a) - rank(b))
+    for (const siblings of tree.children.values()) {
+      siblings.sort((a, b) => rank(a) - rank(b))
+    }
+  }
+
+  // Dated groups run soonest first unless another order was picked
+  const groups = groupByDue(tree.roots).map((group) =>
+    sort === 'manual' || group.value === 'none'
+      ? group
+      : { ...group, todos: [...group.todos].sort(compare) }
+  )
+
+  // Headings only help once at least one todo has a due date
+  const showHeadings = groups.some((group) => group.value !== 'none')
+
+  // A moved row is remounted under its new neighbours, so put focus back on
+  // its handle
+  useEffect(() => {
+    if (!refocusId.current) return
+    const handle = listRef.current?.querySelector<HTMLElement>(
+      `[data-reorder-handle="${refocusId.current}"]`
+    )
+    handle?.focus()
+    refocusId.current = null
+  }, [todos])
+
+  const handleCollapsedChange = (id: string, value: boolean) => {
+    setCollapsed((current) => {
+      const next = new Set(current)
+      if (value) next.add(id)
+      else next.delete(id)
+      return next
+    })
+  }
+
+  // Place a todo at an index among its siblings, counted without the todo
+  const moveTo = (todo: Todo, siblings: Todo[], index: number) => {
+    const others = siblings.filter((sibling) => sibling.id !== todo.id)
+    const position = positionBetween(others[index - 1], others[index])
+    if (position !== todo.position) actions.onReorder(todo.id, position)
+  }
+
+  // Rows only move among their siblings: subtasks under the same parent, or
+  // top-level todos without a due date (dated ones are ordered by due date).
+  // Other sort modes decide the order themselves.
+  const reorderFor = (todo: Todo, siblings: Todo[]): TodoReorder | undefined => {
+    if (readOnly || sort !== 'manual' || siblings.length < 2) return undefined
+    const index = siblings.findIndex((sibling) => sibling.id === todo.id)
+    const sameGroup = (id: string) => siblings.some((sibling) => sibling.id === id)
+
+    return {
+      canMoveUp: index > 0,
+      canMoveDown: index < siblings.length - 1,
+      onMove: (step) => {
+        refocusId.current = todo.id
+        moveTo(todo, siblings, index + step)
+        setAnnouncement(
+          `Moved ${todo.text} to position ${index + step + 1} of ${siblings.length}.`
+        )
+      },
+      dragging: dragging?.id === todo.id,
+      dropSide: dropTarget?.id === todo.id ? dropTarget.side : null,
+      onDragStart: (e) => {
+        e.dataTransfer.effectAllowed = 'move'
+        e.dataTransfer.setData('text/plain', todo.id)
+        const row = listRef.current?.querySelector(`[data-todo-id="${todo.id}"]`)
+        if (row) e.dataTransfer.setDragImage(row, 16, 16)
+        setDragging({
+          id: todo.id,
+          order: new Map(sortByPosition(todos).map((t, i) => [t.id, i])),
+        })
+      },
+      onDragEnd: () => {
+        setDragging(null)
+        setDropTarget(null)
+      },
+      onDragOver: (e) => {
+        if (!dragging || dragging.id === todo.id || !sameGroup(dragging.id)) return
+        e.preventDefault()
+        const rect = e.currentTarget.getBoundingClientRect()
+        const side = e.clientY < rect.top + rect.height / 2 ? 'before' : 'after'
+        if (dropTarget?.id !== todo.id || dropTarget.side !== side) {
+          setDropTarget({ id: todo.id, side })
+        }
+      },
+      onDrop: (e) => {
+        e.preventDefault()
+        const moved = siblings.find((sibling) => sibling.id === dragging?.id)
+        const side = dropTarget?.id === todo.id ? dropTarget.side : 'before'
+        setDragging(null)
+        setDropTarget(null)
+        if (!moved || moved.id === todo.id) return
+
+        const others = siblings.filter((sibling) => sibling.id !== moved.id)
+        const index = others.findIndex((sibling) => sibling.id === todo.id)
+        moveTo(moved, siblings, side === 'before' ? index : index + 1)
+      },
+    }
+  }
+
+  return (
+    <div ref={listRef} className="space-y-6 mt-6">
+      {groups.map((group) => (
+        <section key={group.value} aria-label={showHeadings ? group.label : undefined}>
+          {showHeadings && (
+            <h3
+              className={
+                group.value === 'overdue'
+                  ? "text-xs font-semibold uppercase tracking-wide text-destructive mb-2"
+                  : "text-xs font-semibold uppercase tracking-wide text-muted-foreground mb-2"
+              }
+            >
+              {group.label}
+              <span className="ml-2 font-normal">{group.todos.length}</span>
+            </h3>
+          )}
+          <div className="space-y-2">
+            {group.todos.map((todo) => (
+              <TodoNode
+                key={todo.id}
+                todo={todo}
+                tree={tree}
+                syncStates={syncStates}
+                tags={tags}
+                tagIds={tagIds}
+                collapsed={collapsed}
+                onCollapsedChange={handleCollapsedChange}
+                reorder={group.value === 'none' ? reorderFor(todo, group.todos) : undefined}
+                reorderFor={reorderFor}
+                selection={selection}
+                readOnly={readOnly}
+                {...actions}
+              />
+            ))}
+          </div>
+        </section>
+      ))}
+
+      <div aria-live="assertive" className="sr-only">
+        {announcement}
+      </div>
+    </div>
+  )
+}
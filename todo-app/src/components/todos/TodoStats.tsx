@@ -0,0 +1,178 @@
+import { Flame } from 'lucide-react'
+import {
+  burndown,
+  completionsPerDay,
+  completionsPerWeek,
+  cycleTimes,
+  formatDuration,
+  streak,
+  todoHistories,
+  STATS_DAYS,
+  STATS_WEEKS,
+  type StatsBucket,
+} from '@/lib/todoStats'
+import { isFinished } from '@/lib/todoStatus'
+import { useListEvents } from '@/hooks/useListEvents'
+import type { Todo } from '@/types/database'
+
+interface TodoStatsProps {
+  listId: string | undefined
+  todos: Todo[]
+  // With a filter on, only the matching todos are counted
+  filtered: boolean
+}
+
+const dayLabel = new Intl.DateTimeFormat(undefined, { weekday: 'narrow' })
+const dateLabel = new Intl.DateTimeFormat(undefined, { month: 'short', day: 'numeric' })
+
+function Tile({ label, value, detail }: { label: string; value: React.ReactNode; detail?: string }) {
+  return (
+    <div className="rounded-md border p-3">
+      <p className="text-xs text-muted-foreground">{label}</p>
+      <p className="text-2xl font-semibold">{value}</p>
+      {detail && <p className="text-xs text-muted-foreground">{detail}</p>}
+    </div>
+  )
+}
+
+interface ChartProps {
+  title: string
+  buckets: StatsBucket[]
+  // Tooltip for each bar, and the label under it
+  describe: (bucket: StatsBucket) => string
+  label: (bucket: StatsBucket) => string
+}
+
+function BarChart({ title, buckets, describe, label }: ChartProps) {
+  const max = Math.max(1, ...buckets.map((bucket) => bucket.count))
+  return (
+    <section className="space-y-2">
+      <h3 className="text-sm font-medium">{title}</h3>
+      <div className="flex h-32 items-end gap-1" role="img" aria-label={title}>
+        {buckets.map((bucket) => (
+          <div
+            key={bucket.start.getTime()}
+            title={describe(bucket)}
+            className="flex-1 rounded-t-sm bg-primary/80"
+            style={{ height: `${(bucket.count / max) * 100}%`, minHeight: bucket.count > 0 ? 2 : 0 }}
+          />
+        ))}
+      </div>
+      <div className="flex gap-1 text-[10px] text-muted-foreground">
+        {buckets.map((bucket) => (
+          <span key={bucket.start.getTime()} className="flex-1 text-center">
+            {label(bucket)}
+          </span>
+        ))}
+      </div>
+    </section>
+  )
+}
+
+// Open todos over time, as a line from the oldest day to now
+function BurndownChart({ buckets }: { buckets: StatsBucket[] }) {
+  const max = Math.max(1, ...buckets.map((bucket) => bucket.count))
+  const x = (i: number) => (buckets.length > 1 ? (i / (buckets.length - 1)) * 100 : 50)
+  const y = (count: number) => 100 - (count / max) * 100
+  const points = buckets.map((bucket, i) => `${x(i)},${y(bucket.count)}`).join(' ')
+
+  return (
+    <section className="space-y-2">
+      <div className="flex items-baseline justify-between">
+        <h3 className="text-sm font-medium">Open tasks</h3>
+        <span className="text-xs text-muted-foreground">
+          {buckets[0].count} → {buckets[buckets.length - 1].count}
+        </span>
+      </div>
+      <svg
+        viewBox="0 0 100 100"
+        preserveAspectRatio="none"
+        className="h-32 w-full overflow-visible"
+        role="img"
+        aria-label={`Open tasks over the last ${buckets.length} days`}
+      >
+        <polygon points={`0,100 ${points} 100,100`} className="fill-primary/10" />
+        <polyline
+          points={points}
+          fill="none"
+          vectorEffect="non-scaling-stroke"
+          className="stroke-primary"
+          strokeWidth={2}
+        />
+      </svg>
+      <div className="flex justify-between text-[10px] text-muted-foreground">
+        <span>{dateLabel.format(buckets[0].start)}</span>
+        <span>Now</span>
+      </div>
+    </section>
+  )
+}
+
+// Completions, cycle times and open work for the list. Todos on screen count
+// from their rows, so that part works offline; cleared and deleted ones come
+// from the list's activity log. A deleted todo can't be checked against a
+// filter, so with one on only the todos on screen count.
+export function TodoStats({ listId, todos, filtered }: TodoStatsProps) {
+  const events = useListEvents(listId, todos.length)
+  const histories = todoHistories(todos, filtered ? [] : events)
+  const perDay = completionsPerDay(histories)
+  const perWeek = completionsPerWeek(histories)
+  const cycle = cycleTimes(histories)
+  const days = streak(histories)
+  const open = todos.filter((todo) => !isFinished(todo)).length
+  const plural = (n: number, word: string) => `${n} ${word}${n === 1 ? '' : 's'}`
+
+  return (
+    <div className="mt-6 space-y-8">
+      {filtered && (
+        <p className="text-xs text-muted-foreground">Only tasks matching the current filters are counted.</p>
+      )}
+
+      <div className="grid grid-cols-2 gap-3 sm:grid-cols-4">
+        <Tile label="Done this week" value={perWeek[perWeek.length - 1].count} />
+        <Tile label="Open" value={open} />
+        <Tile
+          label="Streak"
+          value={
+            <span className="inline-flex items-center gap-1">
+              {days.current > 0 && <Flame className="w-5 h-5 text-orange-500" />}
+              {plural(days.current, 'day')}
+            </span>
+          }
+          detail={`Best: ${plural(days.longest, 'day')}`}
+        />
+        <Tile
+          label="Cycle time"
+          value={cycle.total === null ? '—' : formatDuration(cycle.total)}
+          detail={`Average over ${plural(cycle.count, 'task')}`}
+        />
+      </div>
+
+      <section className="space-y-2">
+        <h3 className="text-sm font-medium">Time in each status</h3>
+        <dl className="grid grid-cols-2 gap-x-4 gap-y-1 text-sm">
+          <dt className="text-muted-foreground">To Do → In Progress</dt>
+          <dd>{cycle.waiting === null ? '—' : formatDuration(cycle.waiting)}</dd>
+          <dt className="text-muted-foreground">In Progress → Done</dt>
+          <dd>{cycle.working === null ? '—' : formatDuration(cycle.working)}</dd>
+        </dl>
+      </section>
+
+      <BarChart
+        title={`Completed per day, last ${STATS_DAYS} days`}
+        buckets={perDay}
+        describe={(bucket) => `${dateLabel.format(bucket.start)}: ${bucket.count} completed`}
+        label={(bucket) => dayLabel.format(bucket.start)}
+      />
+
+      <BarChart
+        title={`Completed per week, last ${STATS_WEEKS} weeks`}
+        buckets={perWeek}
+        describe={(bucket) => `Week of ${dateLabel.format(bucket.start)}: ${bucket.count} completed`}
+        label={(bucket) => dateLabel.format(bucket.start)}
+      />
+
+      <BurndownChart buckets={burndown(histories)} />
+    </div>
+  )
+}
@@ -0,0 +1,43 @@
+import { Redo2, Undo2, X } from 'lucide-react'
+import { Button } from '../ui/button'
+import type { UndoToast as Toast } from '@/hooks/useUndoHistory'
+
+interface UndoToastProps {
+  toast: Toast | null
+  onUndo: () => void
+  onRedo: () => void
+  onDismiss: () => void
+}
+
+export function UndoToast({ toast, onUndo, onRedo, onDismiss }: UndoToastProps) {
+  return (
+    <div aria-live="polite" className="fixed bottom-4 left-1/2 -translate-x-1/2 z-50">
+      {toast && (
+        <div className="flex items-center gap-2 rounded-lg border bg-card py-2 pl-4 pr-2 text-sm shadow-lg">
+          <span className="max-w-[60vw] truncate">{toast.message}</span>
+          {toast.action === 'undo' && (
+            <Button variant="ghost" size="sm" onClick={onUndo}>
+              <Undo2 className="w-4 h-4" />
+              Undo
+            </Button>
+          )}
+          {toast.action === 'redo' && (
+            <Button variant="ghost" size="sm" onClick={onRedo}>
+              <Redo2 className="w-4 h-4" />
+              Redo
+            </Button>
+          )}
+          <Button
+            variant="ghost"
+            size="icon-sm"
+            onClick={onDismiss}
+            aria-label="Dismiss"
+            className="text-muted-foreground"
+          >
+            <X className="w-4 h-4" />
+          </Button>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -1,22 +1,46 @@
 import { createContext, useContext, useEffect, useState } from 'react'
-import { User, Session, AuthError } from '@supabase/supabase-js'
+import { User, Session, AuthError, isAuthRetryableFetchError } from '@supabase/supabase-js'
 import { supabase } from '../lib/supabase'
+import { authRedirectUrl, type OAuthProvider } from '../lib/authProviders'
 
 interface AuthContextType {
   user: User | null
   session: Session | null
   loading: boolean
+  // Signed in from a password reset link; the user has to choose a new
+  // password before going on
+  recovering: boolean
+  // The session ended by itself (e.g. its refresh token expired or was
+  // revoked). `user` is kept so the app stays open behind a sign-in prompt.
+  expired: boolean
   signUp: (email: string, password: string) => Promise<{ error: AuthError | null }>
   signIn: (email: string, password: string) => Promise<{ error: AuthError | null }>
+  signInWithMagicLink: (email: string) => Promise<{ error: AuthError | null }>
+  signInWithOAuth: (provider: OAuthProvider) => Promise<{ error: AuthError | null }>
+  resetPassword: (email: string) => Promise<{ error: AuthError | null }>
+  // Emails a one-time code that stands in for the current password when
+  // setting a new one (accounts made with a magic link or OAuth have none)
+  reauthenticate: () => Promise<{ error: AuthError | null }>
+  updatePassword: (password: string, nonce?: string) => Promise<{ error: AuthError | null }>
+  updateEmail: (email: string) => Promise<{ error: AuthError | null }>
+  // For requests the server turned down as unauthenticated
+  verifySession: () => Promise<void>
   signOut: () => Promise<void>
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined)
 
+// The user this browser is signed in as, shared by every tab. Signing out on
+// purpose clears it first, so a SIGNED_OUT event while it's still set means
+// the session ended without the user asking.
+const AUTH_USER_KEY = 'todo-app:auth-user'
+
 export function AuthProvider({ children }: { children: React.ReactNode }) {
   const [user, setUser] = useState<User | null>(null)
   const [session, setSession] = useState<Session | null>(null)
   const [loading, setLoading] = useState(true)
+  const [recovering, setRecovering] = useState(false)
+  const [expired, setExpired] = useState(false)
 
   useEffect(() => {
     // Get initial session
@@ -29,13 +53,48 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     // Listen for auth changes
     const {
       data: { subscription },
-    } = supabase.auth.onAuthStateChange((_event, session) => {
+    } = supabase.auth.onAuthStateChange((event, session) => {
+      if (event === 'PASSWORD_RECOVERY') setRecovering(true)
+      if (event === 'SIGNED_OUT') {
+        setRecovering(false)
+        if (localStorage.getItem(AUTH_USER_KEY)) {
+          setExpired(true)
+          setSession(null)
+          setLoading(false)
+          return
+        }
+      }
+      if (session) {
+        localStorage.setItem(AUTH_USER_KEY, session.user.id)
+        setExpired(false)
+        // Open realtime channels carry on with the new token rather than
+        // being rejoined
+        supabase.realtime.setAuth(session.access_token).catch((error) => {
+          console.error('Error updating realtime token:', error)
+        })
+      }
       setSession(session)
       setUser(session?.user ?? null)
       setLoading(false)
     })
 
-    return () => subscription.unsubscribe()
+    // Another tab signed out, or in as someone else. supabase-js passes auth
+    // events between tabs itself where BroadcastChannel exists; this catches
+    // the rest by reading the session the other tab stored.
+    const handleStorage = (e: StorageEvent) => {
+      if (e.key !== AUTH_USER_KEY) return
+      supabase.auth.getSession().then(({ data: { session } }) => {
+        setExpired(false)
+        setSession(session)
+        setUser(session?.user ?? null)
+      })
+    }
+    window.addEventListener('storage', handleStorage)
+
+    return () => {
+      subscription.unsubscribe()
+      window.removeEventListener('storage', handleStorage)
+    }
   }, [])
 
   const signUp = async (email: string, password: string) => {
@@ -54,16 +113,85 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     return { error }
   }
 
+  // Emails a one-time sign-in link; new addresses get an account
+  const signInWithMagicLink = async (email: string) => {
+    const { error } = await supabase.auth.signInWithOtp({
+      email,
+      options: { emailRedirectTo: authRedirectUrl() },
+    })
+    return { error }
+  }
+
+  // Leaves the page for the provider, which sends the browser back signed in
+  const signInWithOAuth = async (provider: OAuthProvider) => {
+    const { error } = await supabase.auth.signInWithOAuth({
+      provider,
+      options: { redirectTo: authRedirectUrl() },
+    })
+    return { error }
+  }
+
+  // The emailed link signs the user in and fires PASSWORD_RECOVERY
+  const resetPassword = async (email: string) => {
+    const { error } = await supabase.auth.resetPasswordForEmail(email, {
+      redirectTo: authRedirectUrl(),
+    })
+    return { error }
+  }
+
+  const reauthenticate = async () => {
+    const { error } = await supabase.auth.reauthenticate()
+    return { error }
+  }
+
+  const updatePassword = async (password: string, nonce?: string) => {
+    const { error } = await supabase.auth.updateUser({ password, nonce })
+    if (!error) setRecovering(false)
+    return { error }
+  }
+
+  // Supabase emails a confirmation link (to both addresses when secure email
+  // change is on); the address only changes once it has been followed
+  const updateEmail = async (email: string) => {
+    const { error } = await supabase.auth.updateUser(
+      { email },
+      { emailRedirectTo: authRedirectUrl() }
+    )
+    return { error }
+  }
+
+  // A refresh either fixes the token or confirms the session is gone (when
+  // it can't reach the server, there's nothing to conclude yet)
+  const verifySession = async () => {
+    const { error } = await supabase.auth.refreshSession()
+    if (error && !isAuthRetryableFetchError(error)) setExpired(true)
+  }
+
+  // Also the way out of an expired session, which has nothing left to sign
+  // out of, so the state is cleared here rather than left to the event
   const signOut = async () => {
+    localStorage.removeItem(AUTH_USER_KEY)
     await supabase.auth.signOut()
+    setExpired(false)
+    setSession(null)
+    setUser(null)
   }
 
   const value = {
     user,
     session,
     loading,
+    recovering,
+    expired,
     signUp,
     signIn,
+    signInWithMagicLink,
+    signInWithOAuth,
+    resetPassword,
+    reauthenticate,
+    updatePassword,
+    updateEmail,
+    verifySession,
     signOut,
   }
 
@@ -0,0 +1,26 @@
+import { useState } from 'react'
+
+interface Edit {
+  // The value when editing started (or was last reconciled)
+  base: string
+  draft: string
+}
+
+// An edit of a value that can change underneath it, e.g. from a realtime
+// update made on another device. The draft is never replaced behind the
+// user's back: a change since editing began shows up as `theirs` until they
+// take it or keep their own.
+export function useDraft(value: string) {
+  const [edit, setEdit] = useState<Edit | null>(null)
+
+  return {
+    editing: edit !== null,
+    draft: edit?.draft ?? value,
+    theirs: edit && value !== edit.base ? value : null,
+    start: () => setEdit({ base: value, draft: value }),
+    change: (draft: string) => setEdit((current) => current && { ...current, draft }),
+    takeTheirs: () => setEdit({ base: value, draft: value }),
+    keepMine: () => setEdit((current) => current && { ...current, base: value }),
+    stop: () => setEdit(null),
+  }
+}
@@ -0,0 +1,51 @@
+import { useEffect } from 'react'
+import { focusTodo, isEditable } from '../lib/keyboard'
+
+interface ShortcutHandlers {
+  onPalette: () => void
+  onHelp: () => void
+  onSearch: () => void
+  onNewTodo: () => void
+}
+
+// App-wide keys: Cmd/Ctrl+K works everywhere, the single-letter ones only
+// while no text field has focus. Keys for the focused todo are handled by
+// its row (see rowShortcut). `enabled` is off while a dialog has the keys.
+export function useKeyboardShortcuts(handlers: ShortcutHandlers, enabled = true) {
+  useEffect(() => {
+    if (!enabled) return
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if ((e.ctrlKey || e.metaKey) && !e.altKey && e.key.toLowerCase() === 'k') {
+        e.preventDefault()
+        handlers.onPalette()
+        return
+      }
+      if (e.ctrlKey || e.metaKey || e.altKey || e.defaultPrevented || isEditable(e.target)) return
+
+      switch (e.key) {
+        case 'j':
+          focusTodo(1)
+          break
+        case 'k':
+          focusTodo(-1)
+          break
+        case '/':
+          handlers.onSearch()
+          break
+        case 'n':
+          handlers.onNewTodo()
+          break
+        case '?':
+          handlers.onHelp()
+          break
+        default:
+          return
+      }
+      e.preventDefault()
+    }
+
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  })
+}
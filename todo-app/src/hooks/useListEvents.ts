@@ -0,0 +1,32 @@
+import { useEffect, useState } from 'react'
+import { todoEventRepository } from '../lib/todoEventRepository'
+import type { TodoEvent } from '../types/database'
+
+// A list's whole activity log, oldest first, for the statistics. Fetched
+// again whenever `refresh` changes, e.g. when todos are added or deleted.
+export function useListEvents(listId: string | undefined, refresh: unknown) {
+  const [events, setEvents] = useState<TodoEvent[]>([])
+
+  useEffect(() => {
+    if (!listId) return
+    let cancelled = false
+
+    todoEventRepository.listForList(listId).then(({ data, error }) => {
+      if (cancelled) return
+      if (error) {
+        console.error('Error fetching list activity:', error)
+      } else {
+        setEvents(data ?? [])
+      }
+    })
+
+    return () => {
+      cancelled = true
+    }
+  }, [listId, refresh])
+
+  // Another list's events don't describe this one
+  useEffect(() => setEvents([]), [listId])
+
+  return events
+}
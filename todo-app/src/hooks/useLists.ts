@@ -0,0 +1,195 @@
+import { useCallback, useEffect, useState } from 'react'
+import { listRepository } from '../lib/listRepository'
+import { isLocalMode } from '../lib/repository'
+import { acceptInvites } from '../lib/sharing'
+import type { List, ListRole } from '../types/database'
+
+const DEFAULT_LIST_NAME = 'Inbox'
+
+function sortLists(lists: List[]) {
+  return [...lists].sort((a, b) => a.position - b.position)
+}
+
+function withPositions(lists: List[], positions: Record<string, number>) {
+  return sortLists(
+    lists.map((list) => (list.id in positions ? { ...list, position: positions[list.id] } : list))
+  )
+}
+
+function newList(userId: string, name: string, position: number, id: string = crypto.randomUUID()): List {
+  const now = new Date().toISOString()
+  return {
+    id,
+    user_id: userId,
+    name,
+    position,
+    created_at: now,
+    updated_at: now,
+  }
+}
+
+export function useLists(userId: string | undefined) {
+  const [lists, setLists] = useState<List[]>([])
+  const [roles, setRoles] = useState<Record<string, ListRole>>({})
+  const [loading, setLoading] = useState(true)
+
+  const fetchLists = useCallback(async () => {
+    if (!userId) return
+
+    const [listsResult, rolesResult] = await Promise.all([
+      listRepository.list(),
+      listRepository.roles(userId),
+    ])
+    const error = listsResult.error ?? rolesResult.error
+
+    if (error) {
+      console.error('Error fetching lists:', error)
+    } else if (listsResult.data && listsResult.data.length > 0) {
+      setLists(listsResult.data)
+      setRoles(rolesResult.data ?? {})
+    } else {
+      // Every user needs at least one list to put todos in. It takes the
+      // user's id, so tabs (or devices) that both find no lists create the
+      // same one rather than an Inbox each.
+      const inbox = newList(userId, DEFAULT_LIST_NAME, 0, userId)
+      setLists([inbox])
+      setRoles({ [inbox.id]: 'owner' })
+      const { error } = await listRepository.insert(inbox)
+      if (error) console.error('Error creating default list:', error)
+    }
+    setLoading(false)
+  }, [userId])
+
+  useEffect(() => {
+    if (!userId) return
+
+    const load = async () => {
+      if (!isLocalMode) {
+        const { error } = await acceptInvites()
+        if (error) console.error('Error accepting list invites:', error)
+      }
+      await fetchLists()
+    }
+
+    load()
+
+    const unsubscribeLists = listRepository.subscribe(userId, (change) => {
+      if (change.type === 'INSERT') {
+        setLists((current) =>
+          current.some((list) => list.id === change.row.id)
+            ? current
+            : sortLists([...current, change.row])
+        )
+      } else if (change.type === 'UPDATE') {
+        setLists((current) =>
+          sortLists(current.map((list) => (list.id === change.row.id ? change.row : list)))
+        )
+      } else if (change.type === 'DELETE') {
+        setLists((current) => current.filter((list) => list.id !== change.id))
+      }
+    })
+
+    // Being added to, removed from or re-roled in a shared list
+    const unsubscribeMemberships = listRepository.subscribeMemberships(userId, fetchLists)
+
+    return () => {
+      unsubscribeLists()
+      unsubscribeMemberships()
+    }
+  }, [userId, fetchLists])
+
+  const createList = useCallback(
+    async (name: string) => {
+      if (!userId || name.trim() === '') return null
+
+      const position = lists.length > 0 ? lists[lists.length - 1].position + 1 : 0
+      const list = newList(userId, name.trim(), position)
+
+      // Optimistically add to UI
+      setLists((current) => [...current, list])
+      setRoles((current) => ({ ...current, [list.id]: 'owner' }))
+
+      const { error } = await listRepository.insert(list)
+
+      if (error) {
+        console.error('Error creating list:', error)
+        // Revert on error
+        setLists((current) => current.filter((l) => l.id !== list.id))
+        return null
+      }
+      return list
+    },
+    [userId, lists]
+  )
+
+  const renameList = useCallback(
+    async (id: string, name: string) => {
+      const oldName = lists.find((l) => l.id === id)?.name
+      if (name.trim() === '' || name.trim() === oldName) return
+
+      setLists((current) =>
+        current.map((list) => (list.id === id ? { ...list, name: name.trim() } : list))
+      )
+
+      const { error } = await listRepository.update(id, { name: name.trim() })
+
+      if (error) {
+        console.error('Error renaming list:', error)
+        if (oldName) {
+          setLists((current) =>
+            current.map((list) => (list.id === id ? { ...list, name: oldName } : list))
+          )
+        }
+      }
+    },
+    [lists]
+  )
+
+  // Swap positions with the neighbouring list
+  const moveList = useCallback(
+    async (id: string, direction: -1 | 1) => {
+      const index = lists.findIndex((l) => l.id === id)
+      const neighbour = lists[index + direction]
+      if (index === -1 || !neighbour) return
+      const list = lists[index]
+
+      setLists((current) =>
+        withPositions(current, { [list.id]: neighbour.position, [neighbour.id]: list.position })
+      )
+
+      const results = await Promise.all([
+        listRepository.update(list.id, { position: neighbour.position }),
+        listRepository.update(neighbour.id, { position: list.position }),
+      ])
+      const error = results.find((r) => r.error)?.error
+
+      if (error) {
+        console.error('Error reordering lists:', error)
+        setLists((current) =>
+          withPositions(current, { [list.id]: list.position, [neighbour.id]: neighbour.position })
+        )
+      }
+    },
+    [lists]
+  )
+
+  const deleteList = useCallback(
+    async (id: string) => {
+      // Keep at least one list around
+      const deletedList = lists.find((l) => l.id === id)
+      if (!deletedList || lists.length === 1) return
+
+      setLists((current) => current.filter((l) => l.id !== id))
+
+      const { error } = await listRepository.delete(id)
+
+      if (error) {
+        console.error('Error deleting list:', error)
+        setLists((current) => sortLists([...current, deletedList]))
+      }
+    },
+    [lists]
+  )
+
+  return { lists, roles, loading, createList, renameList, moveList, deleteList, refresh: fetchLists }
+}
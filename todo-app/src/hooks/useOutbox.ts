@@ -0,0 +1,231 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
+import {
+  addEntry,
+  affectedIds,
+  isTransientFailure,
+  listEntries,
+  putEntry,
+  removeEntry,
+  sendMutation,
+  type OutboxEntry,
+  type OutboxMutation,
+} from '../lib/outbox'
+import { CONFLICT_STATUS } from '../lib/repository'
+
+export type SyncState = 'pending' | 'failed' | 'conflict'
+
+// Which state a todo's badge shows when it has entries in several
+const SYNC_RANK: Record<SyncState, number> = { pending: 0, conflict: 1, failed: 2 }
+
+// After a network failure the queue tries again on its own, waiting twice as
+// long each time up to a limit
+const RETRY_BASE_MS = 2000
+const RETRY_MAX_MS = 5 * 60 * 1000
+
+// Every tab shares the queue in IndexedDB, so only one of them replays it at
+// a time; the others wait their turn and then find nothing left to send.
+// Browsers without Web Locks replay from each tab, as before.
+function withFlushLock(userId: string, run: () => Promise<void>) {
+  if (!('locks' in navigator)) return run()
+  return navigator.locks.request(`todo-app:outbox-flush:${userId}`, run)
+}
+
+interface OutboxCallbacks {
+  // A rejected entry that was queued with rollback
+  onRollback?: (entry: OutboxEntry, error: string) => void
+  // An entry refused because its todo changed elsewhere
+  onConflict?: (entry: OutboxEntry) => void
+  // The server wanted a valid session; the queue waits until there is one
+  onAuthFailure?: () => void
+}
+
+export function useOutbox(userId: string | undefined, callbacks: OutboxCallbacks = {}) {
+  const [entries, setEntries] = useState<OutboxEntry[]>([])
+  const [online, setOnline] = useState(() => navigator.onLine)
+  const entriesRef = useRef<OutboxEntry[]>([])
+  const flushingRef = useRef(false)
+  // Asked to flush while already flushing, so go round again afterwards
+  const againRef = useRef(false)
+  const retryRef = useRef<{ timer?: ReturnType<typeof setTimeout>; attempt: number }>({ attempt: 0 })
+  const callbacksRef = useRef(callbacks)
+  useEffect(() => {
+    callbacksRef.current = callbacks
+  })
+
+  const refresh = useCallback(async () => {
+    if (!userId) return
+    const queued = await listEntries(userId)
+    entriesRef.current = queued
+    setEntries(queued)
+  }, [userId])
+
+  // Replay pending mutations one at a time, oldest first. A network failure
+  // or an expired session stops the run (everything behind it stays queued,
+  // and after a network failure it tries again later); a server rejection
+  // marks that entry as failed, or drops it if it was queued with rollback,
+  // and moves on to the next one. An update made against an old version of
+  // its todo is set aside as a conflict for the user to settle; a bulk edit
+  // that lost the race is rejected as a whole.
+  const flush = useCallback(async (): Promise<void> => {
+    if (!userId) return
+    if (flushingRef.current) {
+      againRef.current = true
+      return
+    }
+    flushingRef.current = true
+    againRef.current = false
+    clearTimeout(retryRef.current.timer)
+    let failed = false
+
+    try {
+      await withFlushLock(userId, async () => {
+        for (;;) {
+          const next = (await listEntries(userId)).find((e) => e.state === 'pending')
+          if (!next) break
+
+          const { data, error, status } = await sendMutation(next.mutation)
+
+          if (!error) {
+            await removeEntry(next.seq!)
+          } else if (isTransientFailure(status)) {
+            failed = true
+            break
+          } else if (status === 401) {
+            callbacksRef.current.onAuthFailure?.()
+            break
+          } else if (status === CONFLICT_STATUS && next.mutation.type === 'update') {
+            const conflict: OutboxEntry = {
+              ...next,
+              state: 'conflict',
+              error: error.message,
+              theirs: data ?? undefined,
+            }
+            await putEntry(conflict)
+            callbacksRef.current.onConflict?.(conflict)
+          } else if (next.rollback) {
+            console.error('Server rejected change, rolling back:', error)
+            await removeEntry(next.seq!)
+            callbacksRef.current.onRollback?.(next, error.message)
+          } else {
+            console.error('Server rejected queued change:', error)
+            await putEntry({ ...next, state: 'failed', error: error.message })
+          }
+        }
+      })
+    } catch (error) {
+      console.error('Error replaying queued changes:', error)
+    } finally {
+      flushingRef.current = false
+      await refresh()
+    }
+
+    const retry = retryRef.current
+    if (failed) {
+      const delay = Math.min(RETRY_BASE_MS * 2 ** retry.attempt, RETRY_MAX_MS)
+      retry.attempt++
+      retry.timer = setTimeout(flush, delay)
+    } else {
+      retry.attempt = 0
+    }
+    if (againRef.current) return flush()
+  }, [userId, refresh])
+
+  // A retry scheduled for a signed-out user, or after unmounting, is dropped
+  useEffect(() => {
+    const retry = retryRef.current
+    return () => clearTimeout(retry.timer)
+  }, [flush])
+
+  useEffect(() => {
+    refresh().then(flush)
+  }, [refresh, flush])
+
+  useEffect(() => {
+    const handleOnline = () => {
+      setOnline(true)
+      flush()
+    }
+    const handleOffline = () => setOnline(false)
+
+    window.addEventListener('online', handleOnline)
+    window.addEventListener('offline', handleOffline)
+    return () => {
+      window.removeEventListener('online', handleOnline)
+      window.removeEventListener('offline', handleOffline)
+    }
+  }, [flush])
+
+  const enqueue = useCallback(
+    async (mutation: OutboxMutation, rollback = false) => {
+      if (!userId) return
+      const entry = await addEntry(userId, mutation, rollback)
+      entriesRef.current = [...entriesRef.current, entry]
+      setEntries(entriesRef.current)
+      flush()
+    },
+    [userId, flush]
+  )
+
+  const retryFailed = useCallback(async () => {
+    await Promise.all(
+      entriesRef.current
+        .filter((e) => e.state === 'failed')
+        .map((e) => putEntry({ ...e, state: 'pending', error: null }))
+    )
+    await refresh()
+    flush()
+  }, [refresh, flush])
+
+  const discardFailed = useCallback(async () => {
+    await Promise.all(
+      entriesRef.current
+        .filter((e) => e.state === 'failed')
+        .map((e) => removeEntry(e.seq!))
+    )
+    await refresh()
+  }, [refresh])
+
+  // Clear a todo's conflicts once the user has picked a side (keeping theirs
+  // or queueing their own edits again)
+  const takeConflicts = useCallback(
+    async (id: string) => {
+      await Promise.all(
+        entriesRef.current
+          .filter((e) => e.state === 'conflict' && affectedIds(e.mutation).includes(id))
+          .map((e) => removeEntry(e.seq!))
+      )
+      await refresh()
+    },
+    [refresh]
+  )
+
+  const conflicts = useMemo(() => entries.filter((e) => e.state === 'conflict'), [entries])
+
+  // Per-todo sync badge; a failure outranks a conflict, which outranks
+  // anything still pending
+  const syncStates = useMemo(() => {
+    const states = new Map<string, SyncState>()
+    for (const entry of entries) {
+      for (const id of affectedIds(entry.mutation)) {
+        const current = states.get(id)
+        if (!current || SYNC_RANK[entry.state] > SYNC_RANK[current]) states.set(id, entry.state)
+      }
+    }
+    return states
+  }, [entries])
+
+  return {
+    entries,
+    entriesRef,
+    online,
+    syncStates,
+    pendingCount: entries.filter((e) => e.state === 'pending').length,
+    failedCount: entries.filter((e) => e.state === 'failed').length,
+    conflicts,
+    enqueue,
+    flush,
+    retryFailed,
+    discardFailed,
+    takeConflicts,
+  }
+}
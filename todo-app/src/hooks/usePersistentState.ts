@@ -0,0 +1,26 @@
+import { useEffect, useState } from 'react'
+
+function read<T>(key: string, fallback: T): T {
+  try {
+    const raw = localStorage.getItem(key)
+    return raw === null ? fallback : (JSON.parse(raw) as T)
+  } catch {
+    return fallback
+  }
+}
+
+// useState backed by localStorage. Changing `key` (e.g. when another user
+// signs in) loads that key's value instead of carrying the old one over.
+export function usePersistentState<T>(key: string, fallback: T) {
+  const [state, setState] = useState(() => ({ key, value: read(key, fallback) }))
+
+  const value = state.key === key ? state.value : read(key, fallback)
+
+  useEffect(() => {
+    localStorage.setItem(key, JSON.stringify(value))
+  }, [key, value])
+
+  const setValue = (next: T) => setState({ key, value: next })
+
+  return [value, setValue] as const
+}
@@ -0,0 +1,67 @@
+import { useEffect, useState } from 'react'
+import type { RealtimeChannel, User } from '@supabase/supabase-js'
+import { supabase } from '../lib/supabase'
+import { isLocalMode } from '../lib/repository'
+
+export interface Viewer {
+  userId: string
+  email: string
+}
+
+// Presence needs every viewer of a list on the same topic, so it can't get a
+// topic of its own like the table subscriptions. realtime-js hands back a
+// channel that's still leaving when its topic is asked for again, so joining
+// waits until the last channel on the topic is gone.
+const leaving = new Map<string, Promise<unknown>>()
+
+// Who else has this list open right now, via Supabase Realtime presence
+export function usePresence(listId: string | undefined, user: User | null) {
+  const [viewers, setViewers] = useState<Viewer[]>([])
+  // A refreshed session brings a new user object; only these matter here
+  const userId = user?.id
+  const email = user?.email ?? ''
+
+  useEffect(() => {
+    if (isLocalMode || !listId || !userId) return
+
+    const topic = `list-presence:${listId}`
+    let channel: RealtimeChannel | null = null
+    let cancelled = false
+
+    const join = async () => {
+      await leaving.get(topic)
+      if (cancelled) return
+
+      const joined = supabase.channel(topic, {
+        config: { presence: { key: userId } },
+      })
+      channel = joined
+
+      joined
+        .on('presence', { event: 'sync' }, () => {
+          const state = joined.presenceState<{ email: string }>()
+          setViewers(
+            Object.entries(state).map(([userId, metas]) => ({
+              userId,
+              email: metas[0]?.email ?? '',
+            }))
+          )
+        })
+        .subscribe(async (status) => {
+          if (status === 'SUBSCRIBED') {
+            await joined.track({ email })
+          }
+        })
+    }
+
+    join()
+
+    return () => {
+      cancelled = true
+      if (channel) leaving.set(topic, supabase.removeChannel(channel))
+      setViewers([])
+    }
+  }, [listId, userId, email])
+
+  return viewers
+}
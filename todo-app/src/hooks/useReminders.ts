@@ -0,0 +1,135 @@
+import { useCallback, useEffect, useMemo, useState } from 'react'
+import { useDebouncedValue } from './useDebouncedValue'
+import { formatDue } from '../lib/dueDates'
+import { todoRepository } from '../lib/todoRepository'
+import type { Todo } from '../types/database'
+
+const NOTIFIED_KEY = 'todo-app:notified-reminders'
+
+// Reminders that came due shortly before the app was opened still fire;
+// anything older than this is considered missed
+const GRACE_MS = 60 * 60 * 1000
+
+// Reminders in the lists that aren't open only arrive by refetching
+const REFRESH_MS = 5 * 60 * 1000
+
+// setTimeout overflows past ~24.8 days
+const MAX_DELAY_MS = 2 ** 31 - 1
+
+const supported = typeof window !== 'undefined' && 'Notification' in window
+
+// Shared across tabs so two open tabs don't both notify for the same reminder
+function readNotified(): Record<string, string> {
+  try {
+    return JSON.parse(localStorage.getItem(NOTIFIED_KEY) || '{}')
+  } catch {
+    return {}
+  }
+}
+
+function markNotified(todo: Todo) {
+  const notified = readNotified()
+  notified[todo.id] = todo.remind_at!
+  localStorage.setItem(NOTIFIED_KEY, JSON.stringify(notified))
+}
+
+function isDue(todo: Todo, now: number) {
+  if (!todo.remind_at || todo.completed) return false
+  const at = new Date(todo.remind_at).getTime()
+  return at <= now && now - at < GRACE_MS && readNotified()[todo.id] !== todo.remind_at
+}
+
+function notify(todo: Todo) {
+  const notification = new Notification(todo.text, {
+    body: todo.due_at ? `Due ${formatDue(todo.due_at)}` : 'Reminder',
+    tag: `todo-reminder-${todo.id}`,
+  })
+  notification.onclick = () => {
+    window.focus()
+    notification.close()
+  }
+}
+
+// Fires browser notifications for todo reminders while the app is open, in
+// all of the user's lists. The open list's todos are live (through the
+// realtime subscription) and take precedence; the rest come from a query that
+// is refetched after the open list changes, every few minutes, and when the
+// tab comes back into view.
+export function useReminders(userId: string | undefined, todos: Todo[]) {
+  const [permission, setPermission] = useState<NotificationPermission | 'unsupported'>(
+    supported ? Notification.permission : 'unsupported'
+  )
+  const [saved, setSaved] = useState<Todo[]>([])
+  // Typing in a todo changes the list on every key; wait for it to settle
+  const settled = useDebouncedValue(todos, 1000)
+
+  const requestPermission = useCallback(async () => {
+    if (!supported || Notification.permission !== 'default') return
+    setPermission(await Notification.requestPermission())
+  }, [])
+
+  useEffect(() => {
+    if (!userId || permission !== 'granted') return
+
+    let cancelled = false
+
+    const refresh = async () => {
+      const since = new Date(Date.now() - GRACE_MS).toISOString()
+      const { data, error } = await todoRepository.reminders(since)
+      if (cancelled) return
+      if (error) {
+        console.error('Error fetching reminders:', error)
+      } else if (data) {
+        setSaved(data)
+      }
+    }
+
+    const onVisibilityChange = () => {
+      if (document.visibilityState === 'visible') refresh()
+    }
+
+    refresh()
+    const interval = setInterval(refresh, REFRESH_MS)
+    document.addEventListener('visibilitychange', onVisibilityChange)
+    return () => {
+      cancelled = true
+      clearInterval(interval)
+      document.removeEventListener('visibilitychange', onVisibilityChange)
+    }
+  }, [userId, permission, settled])
+
+  const pending = useMemo(() => {
+    const byId = new Map(saved.map((todo) => [todo.id, todo]))
+    for (const todo of todos) byId.set(todo.id, todo)
+    return [...byId.values()]
+  }, [saved, todos])
+
+  useEffect(() => {
+    if (permission !== 'granted') return
+
+    let timer: ReturnType<typeof setTimeout>
+
+    const check = () => {
+      const now = Date.now()
+      for (const todo of pending) {
+        if (isDue(todo, now)) {
+          markNotified(todo)
+          notify(todo)
+        }
+      }
+
+      const upcoming = pending
+        .filter((todo) => todo.remind_at && !todo.completed)
+        .map((todo) => new Date(todo.remind_at!).getTime())
+        .filter((at) => at > now)
+      if (upcoming.length > 0) {
+        timer = setTimeout(check, Math.min(Math.min(...upcoming) - now, MAX_DELAY_MS))
+      }
+    }
+
+    check()
+    return () => clearTimeout(timer)
+  }, [pending, permission])
+
+  return { permission, requestPermission }
+}
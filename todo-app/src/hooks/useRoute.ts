@@ -0,0 +1,11 @@
+import { useEffect, useState } from 'react'
+import { currentRoute, onNavigate } from '../lib/routes'
+
+// The route for the current URL, following navigate() and back/forward
+export function useRoute() {
+  const [route, setRoute] = useState(currentRoute)
+
+  useEffect(() => onNavigate(() => setRoute(currentRoute())), [])
+
+  return route
+}
@@ -0,0 +1,242 @@
+import { useCallback, useEffect, useState } from 'react'
+import { tagRepository } from '../lib/tagRepository'
+import { nextTagColor, sortTags, type TagColor } from '../lib/tags'
+import type { Tag, TodoTag } from '../types/database'
+
+// Tags for one list and which of its todos carry them
+export function useTags(listId: string | undefined) {
+  const [tags, setTags] = useState<Tag[]>([])
+  const [links, setLinks] = useState<TodoTag[]>([])
+
+  useEffect(() => {
+    if (!listId) return
+
+    const load = async () => {
+      const [tagsResult, linksResult] = await Promise.all([
+        tagRepository.list(listId),
+        tagRepository.links(listId),
+      ])
+      const error = tagsResult.error ?? linksResult.error
+
+      if (error) {
+        console.error('Error fetching tags:', error)
+      } else {
+        setTags(tagsResult.data ?? [])
+        setLinks(linksResult.data ?? [])
+      }
+    }
+
+    load()
+
+    const unsubscribeTags = tagRepository.subscribe(listId, (change) => {
+      if (change.type === 'INSERT') {
+        setTags((current) =>
+          current.some((tag) => tag.id === change.row.id)
+            ? current
+            : sortTags([...current, change.row])
+        )
+      } else if (change.type === 'UPDATE') {
+        setTags((current) =>
+          sortTags(current.map((tag) => (tag.id === change.row.id ? change.row : tag)))
+        )
+      } else if (change.type === 'DELETE') {
+        setTags((current) => current.filter((tag) => tag.id !== change.id))
+        setLinks((current) => current.filter((link) => link.tag_id !== change.id))
+      }
+    })
+
+    const unsubscribeLinks = tagRepository.subscribeLinks(listId, (change) => {
+      if (change.type === 'INSERT') {
+        setLinks((current) =>
+          current.some((link) => link.id === change.row.id) ? current : [...current, change.row]
+        )
+      } else if (change.type === 'DELETE') {
+        setLinks((current) => current.filter((link) => link.id !== change.id))
+      }
+    })
+
+    return () => {
+      unsubscribeTags()
+      unsubscribeLinks()
+      setTags([])
+      setLinks([])
+    }
+  }, [listId])
+
+  const createTag = useCallback(
+    async (name: string, color?: TagColor) => {
+      if (!listId || name.trim() === '') return null
+
+      const existing = tags.find((tag) => tag.name.toLowerCase() === name.trim().toLowerCase())
+      if (existing) return existing
+
+      const now = new Date().toISOString()
+      const tag: Tag = {
+        id: crypto.randomUUID(),
+        list_id: listId,
+        name: name.trim(),
+        color: color ?? nextTagColor(tags),
+        created_at: now,
+        updated_at: now,
+      }
+
+      // Optimistically add to UI
+      setTags((current) => sortTags([...current, tag]))
+
+      const { error } = await tagRepository.insert(tag)
+
+      if (error) {
+        console.error('Error creating tag:', error)
+        // Revert on error
+        setTags((current) => current.filter((t) => t.id !== tag.id))
+        return null
+      }
+      return tag
+    },
+    [listId, tags]
+  )
+
+  const updateTag = useCallback(
+    async (id: string, changes: { name?: string; color?: TagColor }) => {
+      const oldTag = tags.find((tag) => tag.id === id)
+      if (!oldTag) return
+      if (changes.name !== undefined) {
+        changes = { ...changes, name: changes.name.trim() }
+        if (changes.name === '' || changes.name === oldTag.name) delete changes.name
+      }
+      if (Object.keys(changes).length === 0) return
+
+      setTags((current) =>
+        sortTags(current.map((tag) => (tag.id === id ? { ...tag, ...changes } : tag)))
+      )
+
+      const { error } = await tagRepository.update(id, changes)
+
+      if (error) {
+        console.error('Error updating tag:', error)
+        setTags((current) => sortTags(current.map((tag) => (tag.id === id ? oldTag : tag))))
+      }
+    },
+    [tags]
+  )
+
+  const deleteTag = useCallback(
+    async (id: string) => {
+      const deletedTag = tags.find((tag) => tag.id === id)
+      if (!deletedTag) return
+      const deletedLinks = links.filter((link) => link.tag_id === id)
+
+      setTags((current) => current.filter((tag) => tag.id !== id))
+      setLinks((current) => current.filter((link) => link.tag_id !== id))
+
+      const { error } = await tagRepository.delete(id)
+
+      if (error) {
+        console.error('Error deleting tag:', error)
+        setTags((current) => sortTags([...current, deletedTag]))
+        setLinks((current) => [...current, ...deletedLinks])
+      }
+    },
+    [tags, links]
+  )
+
+  const addTag = useCallback(
+    async (todoId: string, tagId: string) => {
+      if (!listId) return
+      if (links.some((link) => link.todo_id === todoId && link.tag_id === tagId)) return
+
+      const link: TodoTag = {
+        id: crypto.randomUUID(),
+        todo_id: todoId,
+        tag_id: tagId,
+        list_id: listId,
+        created_at: new Date().toISOString(),
+      }
+
+      setLinks((current) => [...current, link])
+
+      const { error } = await tagRepository.addLink(link)
+
+      if (error) {
+        console.error('Error tagging todo:', error)
+        setLinks((current) => current.filter((l) => l.id !== link.id))
+      }
+    },
+    [listId, links]
+  )
+
+  const removeTag = useCallback(
+    async (todoId: string, tagId: string) => {
+      const link = links.find((l) => l.todo_id === todoId && l.tag_id === tagId)
+      if (!link) return
+
+      setLinks((current) => current.filter((l) => l.id !== link.id))
+
+      const { error } = await tagRepository.removeLink(link.id)
+
+      if (error) {
+        console.error('Error untagging todo:', error)
+        setLinks((current) => [...current, link])
+      }
+    },
+    [links]
+  )
+
+  // Bulk versions for multi-select, in one request; todos that already have
+  // the tag (or don't) are skipped
+  const addTagToMany = useCallback(
+    async (todoIds: string[], tagId: string) => {
+      if (!listId) return
+      const now = new Date().toISOString()
+      const added: TodoTag[] = todoIds
+        .filter((todoId) => !links.some((link) => link.todo_id === todoId && link.tag_id === tagId))
+        .map((todoId) => ({
+          id: crypto.randomUUID(),
+          todo_id: todoId,
+          tag_id: tagId,
+          list_id: listId,
+          created_at: now,
+        }))
+      if (added.length === 0) return
+
+      setLinks((current) => [...current, ...added])
+
+      const { error } = await tagRepository.addLinks(added)
+
+      if (error) {
+        console.error('Error tagging todos:', error)
+        setLinks((current) => current.filter((l) => !added.some((link) => link.id === l.id)))
+      }
+    },
+    [listId, links]
+  )
+
+  const removeTagFromMany = useCallback(
+    async (todoIds: string[], tagId: string) => {
+      const removed = links.filter((l) => l.tag_id === tagId && todoIds.includes(l.todo_id))
+      if (removed.length === 0) return
+
+      setLinks((current) => current.filter((l) => !removed.includes(l)))
+
+      const { error } = await tagRepository.removeLinks(removed.map((link) => link.id))
+
+      if (error) {
+        console.error('Error untagging todos:', error)
+        setLinks((current) => [...current, ...removed])
+      }
+    },
+    [links]
+  )
+
+  return {
+    tags,
+    links,
+    createTag,
+    updateTag,
+    deleteTag,
+    addTag,
+    removeTag,
+    addTagToMany,
+    removeTagFromMany,
+  }
+}
@@ -0,0 +1,48 @@
+import { useEffect, useState } from 'react'
+import { todoEventRepository } from '../lib/todoEventRepository'
+import { TODO_EVENT_LIMIT } from '../lib/todoEvents'
+import type { TodoEvent } from '../types/database'
+
+// A todo's activity history, newest first, kept live while it's shown
+export function useTodoEvents(todoId: string) {
+  const [events, setEvents] = useState<TodoEvent[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    setLoading(true)
+    setError(null)
+
+    todoEventRepository.list(todoId).then(({ data, error }) => {
+      if (cancelled) return
+      if (error) {
+        console.error('Error fetching todo history:', error)
+        setError(error.message)
+      } else {
+        setEvents((current) => merge(current, data ?? []))
+      }
+      setLoading(false)
+    })
+
+    const unsubscribe = todoEventRepository.subscribe(todoId, (event) => {
+      setEvents((current) => merge(current, [event]))
+    })
+
+    return () => {
+      cancelled = true
+      unsubscribe()
+      setEvents([])
+    }
+  }, [todoId])
+
+  return { events, loading, error }
+}
+
+// Live events can arrive before the initial fetch returns
+function merge(current: TodoEvent[], incoming: TodoEvent[]) {
+  const byId = new Map([...current, ...incoming].map((event) => [event.id, event]))
+  return [...byId.values()]
+    .sort((a, b) => b.created_at.localeCompare(a.created_at) || b.id - a.id)
+    .slice(0, TODO_EVENT_LIMIT)
+}
@@ -0,0 +1,29 @@
+import { useCallback, useEffect, useState } from 'react'
+import { emptyFilter, parseFilter, serializeFilter, type TodoFilter } from '../lib/todoFilter'
+
+// Filter state that lives in the query string, so a filtered view can be
+// bookmarked or shared and survives a reload
+export function useTodoFilter() {
+  const [filter, setFilterState] = useState(() => parseFilter(window.location.search))
+
+  // Back/forward to a bookmarked filter
+  useEffect(() => {
+    const handlePopState = () => setFilterState(parseFilter(window.location.search))
+    window.addEventListener('popstate', handlePopState)
+    return () => window.removeEventListener('popstate', handlePopState)
+  }, [])
+
+  useEffect(() => {
+    const { pathname, search, hash } = window.location
+    const next = serializeFilter(filter, search)
+    if (next !== search) window.history.replaceState(window.history.state, '', pathname + next + hash)
+  }, [filter])
+
+  const setFilter = useCallback((changes: Partial<TodoFilter>) => {
+    setFilterState((current) => ({ ...current, ...changes }))
+  }, [])
+
+  const clearFilter = useCallback(() => setFilterState(emptyFilter), [])
+
+  return { filter, setFilter, clearFilter }
+}
@@ -0,0 +1,105 @@
+import { useEffect, useState } from 'react'
+import type { HistoryEntry } from '../lib/history'
+import { isEditable } from '../lib/keyboard'
+
+const MAX_ENTRIES = 50
+const TOAST_MS = 5000
+
+export interface UndoToast {
+  message: string
+  // What the toast's button does
+  action: 'undo' | 'redo' | null
+}
+
+interface HistoryState {
+  scope: string | undefined
+  past: HistoryEntry[]
+  future: HistoryEntry[]
+}
+
+// Undo/redo stacks for one list, with Ctrl+Z / Ctrl+Shift+Z. `revert` runs an
+// entry's revert against the current todos and returns the entry that takes
+// it back again, or null when there was nothing left to change. Switching
+// lists (`scope`) starts a fresh history.
+export function useUndoHistory(
+  scope: string | undefined,
+  revert: (entry: HistoryEntry) => HistoryEntry | null
+) {
+  const [state, setState] = useState<HistoryState>({ scope, past: [], future: [] })
+  const [toast, setToast] = useState<UndoToast | null>(null)
+
+  const { past, future } = state.scope === scope ? state : { ...state, past: [], future: [] }
+
+  const showToast = (message: string, action: UndoToast['action']) => {
+    setToast({ message, action })
+  }
+
+  // A new action makes the undone ones unreachable, as in any editor
+  const record = (entry: HistoryEntry, notify = false) => {
+    setState((current) => ({
+      scope,
+      past: [...(current.scope === scope ? current.past : []), entry].slice(-MAX_ENTRIES),
+      future: [],
+    }))
+    if (notify) showToast(entry.label, 'undo')
+  }
+
+  const undo = () => {
+    const entry = past[past.length - 1]
+    if (!entry) return
+    const redoEntry = revert(entry)
+    setState({
+      scope,
+      past: past.slice(0, -1),
+      future: redoEntry ? [...future, redoEntry] : future,
+    })
+    if (redoEntry) showToast(`Undone: ${entry.label}`, 'redo')
+    else showToast(`Nothing to undo: ${entry.label} was already changed elsewhere`, null)
+  }
+
+  const redo = () => {
+    const entry = future[future.length - 1]
+    if (!entry) return
+    const undoEntry = revert(entry)
+    setState({
+      scope,
+      past: undoEntry ? [...past, undoEntry] : past,
+      future: future.slice(0, -1),
+    })
+    if (undoEntry) showToast(`Redone: ${entry.label}`, 'undo')
+    else showToast(`Nothing to redo: ${entry.label} was already changed elsewhere`, null)
+  }
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey || e.key.toLowerCase() !== 'z') return
+      // Text fields keep the browser's own undo
+      if (isEditable(e.target)) return
+      e.preventDefault()
+      if (e.shiftKey) redo()
+      else undo()
+    }
+
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  })
+
+  useEffect(() => {
+    if (!toast) return
+    const timer = setTimeout(() => setToast(null), TOAST_MS)
+    return () => clearTimeout(timer)
+  }, [toast])
+
+  // The toast belongs to the list it was shown for
+  useEffect(() => {
+    setToast(null)
+  }, [scope])
+
+  return {
+    record,
+    undo,
+    redo,
+    toast,
+    dismissToast: () => setToast(null),
+  }
+}
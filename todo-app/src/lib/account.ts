@@ -0,0 +1,95 @@
+import { supabase } from './supabase'
+import { listEntries, removeEntry } from './outbox'
+import { fetchAllPages } from './supabasePages'
+import type { User } from '@supabase/supabase-js'
+
+// Account management only exists with a Supabase backend; local mode has no
+// account, and its data never leaves the browser
+
+// Bumped if the export's shape changes
+export const ACCOUNT_EXPORT_VERSION = 1
+
+// Everything stored for the user: their account, every list they can see
+// with its todos and tags, their memberships and the activity they caused
+export async function fetchAccountData(user: User) {
+  const [lists, todos, tags, todoTags, memberships, events] = await Promise.all([
+    fetchAllPages((from, to) =>
+      supabase.from('lists').select('*').order('position').order('id').range(from, to)
+    ),
+    fetchAllPages((from, to) =>
+      supabase.from('todos').select('*').order('position').order('id').range(from, to)
+    ),
+    fetchAllPages((from, to) =>
+      supabase.from('tags').select('*').order('name').order('id').range(from, to)
+    ),
+    fetchAllPages((from, to) =>
+      supabase.from('todo_tags').select('*').order('id').range(from, to)
+    ),
+    fetchAllPages((from, to) =>
+      supabase.from('list_members').select('*').eq('user_id', user.id).order('list_id').range(from, to)
+    ),
+    fetchAllPages((from, to) =>
+      supabase
+        .from('todo_events')
+        .select('*')
+        .eq('actor_id', user.id)
+        .order('created_at')
+        .order('id')
+        .range(from, to)
+    ),
+  ])
+
+  const failed = [lists, todos, tags, todoTags, memberships, events].find((result) => result.error)
+  if (failed) return { data: null, error: failed.error }
+
+  return {
+    data: {
+      version: ACCOUNT_EXPORT_VERSION,
+      exported_at: new Date().toISOString(),
+      account: {
+        id: user.id,
+        email: user.email ?? null,
+        created_at: user.created_at,
+        last_sign_in_at: user.last_sign_in_at ?? null,
+        providers: user.identities?.map((identity) => identity.provider) ?? [],
+      },
+      lists: lists.data,
+      todos: todos.data,
+      tags: tags.data,
+      todo_tags: todoTags.data,
+      memberships: memberships.data,
+      activity: events.data,
+    },
+    error: null,
+  }
+}
+
+// Sign-ins delete_account counts as fresh, and for how long (seconds)
+const FRESH_SIGN_IN_METHODS = ['password', 'otp', 'magiclink', 'oauth']
+const FRESH_SIGN_IN_SECONDS = 300
+
+// Whether delete_account would accept the current session, going by the same
+// `amr` claim the server checks
+export async function signedInRecently() {
+  const { data, error } = await supabase.auth.getClaims()
+  if (error || !data) return false
+  const times = (data.claims.amr ?? []).flatMap((entry) =>
+    typeof entry !== 'string' && FRESH_SIGN_IN_METHODS.includes(entry.method)
+      ? [entry.timestamp]
+      : []
+  )
+  return times.length > 0 && Date.now() / 1000 - Math.max(...times) < FRESH_SIGN_IN_SECONDS
+}
+
+// The server only allows this shortly after signing in (see delete_account).
+// Changes still waiting in this browser's outbox are thrown away with it.
+export async function deleteAccount(userId: string) {
+  const { error } = await supabase.rpc('delete_account')
+  if (error) return { error }
+
+  const queued = await listEntries(userId).catch(() => [])
+  await Promise.all(queued.map((entry) => removeEntry(entry.seq!))).catch((error) => {
+    console.error('Error clearing queued changes:', error)
+  })
+  return { error: null }
+}
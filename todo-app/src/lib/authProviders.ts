@@ -0,0 +1,25 @@
+import type { Provider } from '@supabase/supabase-js'
+import { paths } from './routes'
+
+export type OAuthProvider = Extract<Provider, 'github' | 'google'>
+
+const PROVIDER_LABELS: Record<OAuthProvider, string> = {
+  github: 'GitHub',
+  google: 'Google',
+}
+
+// VITE_AUTH_PROVIDERS lists the providers enabled in the Supabase dashboard,
+// e.g. "github,google"; unknown names are ignored
+export const oauthProviders = (import.meta.env.VITE_AUTH_PROVIDERS ?? '')
+  .split(',')
+  .map((name) => name.trim().toLowerCase())
+  .filter((name): name is OAuthProvider => name in PROVIDER_LABELS)
+
+export function getProviderLabel(provider: OAuthProvider) {
+  return PROVIDER_LABELS[provider]
+}
+
+// Where email links and OAuth send the browser back to
+export function authRedirectUrl() {
+  return window.location.origin + paths.callback
+}
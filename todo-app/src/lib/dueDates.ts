@@ -0,0 +1,82 @@
+import type { Todo } from '../types/database'
+
+export type DueGroup = 'overdue' | 'today' | 'upcoming' | 'earlier' | 'none'
+
+export const dueGroups: { value: DueGroup; label: string }[] = [
+  { value: 'overdue', label: 'Overdue' },
+  { value: 'today', label: 'Today' },
+  { value: 'upcoming', label: 'Upcoming' },
+  { value: 'earlier', label: 'Earlier' },
+  { value: 'none', label: 'No due date' },
+]
+
+function startOfDay(date: Date) {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate())
+}
+
+function addDays(date: Date, days: number) {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() + days)
+}
+
+// <input type="datetime-local"> works in local time without a zone
+export function toLocalInputValue(iso: string | null) {
+  if (!iso) return ''
+  const date = new Date(iso)
+  const pad = (n: number) => String(n).padStart(2, '0')
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`
+}
+
+export function fromLocalInputValue(value: string) {
+  return value ? new Date(value).toISOString() : null
+}
+
+export function isOverdue(todo: Todo, now = new Date()) {
+  return !todo.completed && !!todo.due_at && new Date(todo.due_at) < now
+}
+
+export function getDueGroup(todo: Todo, now = new Date()): DueGroup {
+  if (!todo.due_at) return 'none'
+  if (isOverdue(todo, now)) return 'overdue'
+
+  const due = new Date(todo.due_at)
+  const today = startOfDay(now)
+  if (due < today) return 'earlier'
+  if (due < addDays(today, 1)) return 'today'
+  return 'upcoming'
+}
+
+// Keeps the incoming order within "No due date"; dated groups run soonest first
+export function groupByDue(todos: Todo[], now = new Date()) {
+  const groups = new Map<DueGroup, Todo[]>(dueGroups.map((g) => [g.value, []]))
+  for (const todo of todos) {
+    groups.get(getDueGroup(todo, now))!.push(todo)
+  }
+
+  return dueGroups
+    .map((group) => {
+      const items = groups.get(group.value)!
+      if (group.value !== 'none') {
+        items.sort((a, b) => a.due_at!.localeCompare(b.due_at!))
+      }
+      return { ...group, todos: items }
+    })
+    .filter((group) => group.todos.length > 0)
+}
+
+export function formatDue(iso: string, now = new Date()) {
+  const due = new Date(iso)
+  const time = due.toLocaleTimeString(undefined, { hour: 'numeric', minute: '2-digit' })
+  const today = startOfDay(now)
+
+  if (due >= today && due < addDays(today, 1)) return `Today ${time}`
+  if (due >= addDays(today, 1) && due < addDays(today, 2)) return `Tomorrow ${time}`
+  if (due >= addDays(today, -1) && due < today) return `Yesterday ${time}`
+
+  const date = due.toLocaleDateString(undefined, {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    year: due.getFullYear() === now.getFullYear() ? undefined : 'numeric',
+  })
+  return `${date} ${time}`
+}
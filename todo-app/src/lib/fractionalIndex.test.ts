@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest'
+import { generateKeyBetween } from './fractionalIndex'
+
+describe('generateKeyBetween', () => {
+  it('starts at a0 and steps the integer part at either end', () => {
+    expect(generateKeyBetween(null, null)).toBe('a0')
+    expect(generateKeyBetween('a0', null)).toBe('a1')
+    expect(generateKeyBetween(null, 'a0')).toBe('Zz')
+    expect(generateKeyBetween('az', null)).toBe('b00')
+    expect(generateKeyBetween(null, 'b00')).toBe('az')
+  })
+
+  it('adds a fraction between adjacent integers', () => {
+    expect(generateKeyBetween('a0', 'a1')).toBe('a0V')
+    expect(generateKeyBetween('Zz', 'a0')).toBe('ZzV')
+    expect(generateKeyBetween('a0V', 'a1')).toBe('a0l')
+  })
+
+  it('goes one digit deeper between adjacent fractions', () => {
+    expect(generateKeyBetween('a0', 'a01')).toBe('a00V')
+    expect(generateKeyBetween('a01', 'a02')).toBe('a01V')
+  })
+
+  it('keeps finding keys when always inserting before the same neighbour', () => {
+    const a = 'a0'
+    let b = 'a1'
+    for (let i = 0; i < 50; i++) {
+      const key = generateKeyBetween(a, b)
+      expect(key > a && key < b).toBe(true)
+      b = key
+    }
+  })
+
+  it('refuses equal or reversed bounds', () => {
+    expect(() => generateKeyBetween('a0', 'a0')).toThrow('a0 >= a0')
+    expect(() => generateKeyBetween('a1', 'a0')).toThrow('a1 >= a0')
+  })
+
+  it('refuses keys with a trailing zero or a bad head', () => {
+    expect(() => generateKeyBetween('a00', null)).toThrow('Invalid order key: a00')
+    expect(() => generateKeyBetween(null, '!0')).toThrow('Invalid order key head: !')
+  })
+})
@@ -0,0 +1,126 @@
+// Fractional indexing: order keys are strings that sort byte-wise, and a new
+// key can always be generated between any two others, so moving an item only
+// rewrites that item. Based on David Greenspan's algorithm
+// (https://observablehq.com/@dgreensp/implementing-fractional-indexing).
+//
+// A key is an integer part (a head letter giving its length, then digits)
+// followed by an optional fraction that never ends in '0'. 'a0' is the first
+// key handed out; keys before it start with 'Z', 'Y'..., keys after with 'b', 'c'...
+
+const DIGITS = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz'
+const ZERO = DIGITS[0]
+const SMALLEST_INTEGER = 'A' + ZERO.repeat(26)
+
+// Key strictly between a and b (b === null means no upper bound). Neither
+// may have a trailing zero.
+function midpoint(a: string, b: string | null): string {
+  if (b !== null) {
+    let n = 0
+    while ((a[n] || ZERO) === b[n]) n++
+    if (n > 0) return b.slice(0, n) + midpoint(a.slice(n), b.slice(n))
+  }
+
+  const digitA = a ? DIGITS.indexOf(a[0]) : 0
+  const digitB = b !== null ? DIGITS.indexOf(b[0]) : DIGITS.length
+  if (digitB - digitA > 1) {
+    return DIGITS[Math.round(0.5 * (digitA + digitB))]
+  }
+  if (b && b.length > 1) return b.slice(0, 1)
+  return DIGITS[digitA] + midpoint(a.slice(1), null)
+}
+
+function integerLength(head: string) {
+  if (head >= 'a' && head <= 'z') return head.charCodeAt(0) - 'a'.charCodeAt(0) + 2
+  if (head >= 'A' && head <= 'Z') return 'Z'.charCodeAt(0) - head.charCodeAt(0) + 2
+  throw new Error(`Invalid order key head: ${head}`)
+}
+
+function integerPart(key: string) {
+  const length = integerLength(key[0])
+  if (length > key.length) throw new Error(`Invalid order key: ${key}`)
+  return key.slice(0, length)
+}
+
+function validateKey(key: string) {
+  if (key === SMALLEST_INTEGER) throw new Error(`Invalid order key: ${key}`)
+  if (key.slice(integerPart(key).length).endsWith(ZERO)) {
+    throw new Error(`Invalid order key: ${key}`)
+  }
+}
+
+function incrementInteger(x: string): string | null {
+  const [head, ...digits] = x.split('')
+  let carry = true
+  for (let i = digits.length - 1; carry && i >= 0; i--) {
+    const d = DIGITS.indexOf(digits[i]) + 1
+    if (d === DIGITS.length) {
+      digits[i] = ZERO
+    } else {
+      digits[i] = DIGITS[d]
+      carry = false
+    }
+  }
+  if (!carry) return head + digits.join('')
+
+  if (head === 'Z') return 'a' + ZERO
+  if (head === 'z') return null
+  const next = String.fromCharCode(head.charCodeAt(0) + 1)
+  if (next > 'a') digits.push(ZERO)
+  else digits.pop()
+  return next + digits.join('')
+}
+
+function decrementInteger(x: string): string | null {
+  const [head, ...digits] = x.split('')
+  let borrow = true
+  for (let i = digits.length - 1; borrow && i >= 0; i--) {
+    const d = DIGITS.indexOf(digits[i]) - 1
+    if (d === -1) {
+      digits[i] = DIGITS[DIGITS.length - 1]
+    } else {
+      digits[i] = DIGITS[d]
+      borrow = false
+    }
+  }
+  if (!borrow) return head + digits.join('')
+
+  if (head === 'a') return 'Z' + DIGITS[DIGITS.length - 1]
+  if (head === 'A') return null
+  const next = String.fromCharCode(head.charCodeAt(0) - 1)
+  if (next < 'Z') digits.push(DIGITS[DIGITS.length - 1])
+  else digits.pop()
+  return next + digits.join('')
+}
+
+// A key that sorts after `a` and before `b`; null means the start or end
+export function generateKeyBetween(a: string | null, b: string | null): string {
+  if (a !== null) validateKey(a)
+  if (b !== null) validateKey(b)
+  if (a !== null && b !== null && a >= b) throw new Error(`${a} >= ${b}`)
+
+  if (a === null) {
+    if (b === null) return 'a' + ZERO
+    const ib = integerPart(b)
+    const fb = b.slice(ib.length)
+    if (ib === SMALLEST_INTEGER) return ib + midpoint('', fb)
+    if (ib < b) return ib
+    const key = decrementInteger(ib)
+    if (key === null) throw new Error('Cannot decrement any more')
+    return key
+  }
+
+  if (b === null) {
+    const ia = integerPart(a)
+    const fa = a.slice(ia.length)
+    return incrementInteger(ia) ?? ia + midpoint(fa, null)
+  }
+
+  const ia = integerPart(a)
+  const fa = a.slice(ia.length)
+  const ib = integerPart(b)
+  const fb = b.slice(ib.length)
+  if (ia === ib) return ia + midpoint(fa, fb)
+  const key = incrementInteger(ia)
+  if (key === null) throw new Error('Cannot increment any more')
+  return key < b ? key : ia + midpoint(fa, null)
+}
@@ -0,0 +1,55 @@
+export interface FuzzyMatch {
+  score: number
+  // Indexes of the matched characters, for highlighting
+  indexes: number[]
+}
+
+function isWordStart(text: string, index: number) {
+  return index === 0 || /[\s\-_/:“"(]/.test(text[index - 1])
+}
+
+function matchIndexes(needle: string, text: string, preferWordStarts: boolean) {
+  const haystack = text.toLowerCase()
+  const indexes: number[] = []
+  let from = 0
+  for (const char of needle) {
+    let index = haystack.indexOf(char, from)
+    if (index < 0) return null
+    // Jump ahead to a word starting with this character, unless we're in
+    // the middle of a run
+    const previous = indexes[indexes.length - 1]
+    if (preferWordStarts && index !== previous + 1) {
+      for (let i = index; i >= 0; i = haystack.indexOf(char, i + 1)) {
+        if (isWordStart(text, i)) {
+          index = i
+          break
+        }
+      }
+    }
+    indexes.push(index)
+    from = index + 1
+  }
+  return indexes
+}
+
+// Whether `query`'s characters appear in `text` in order ("clc" matches
+// "Clear completed"). Matches at word starts and runs of consecutive
+// characters score higher; gaps cost a little. Case is ignored.
+export function fuzzyMatch(query: string, text: string): FuzzyMatch | null {
+  const needle = query.toLowerCase().replace(/\s+/g, '')
+  if (!needle) return { score: 0, indexes: [] }
+
+  // Jumping to word starts can use up characters a plain left-to-right
+  // match would have needed later
+  const indexes = matchIndexes(needle, text, true) ?? matchIndexes(needle, text, false)
+  if (!indexes) return null
+
+  let score = text.toLowerCase().startsWith(query.toLowerCase()) ? 10 : 0
+  indexes.forEach((index, i) => {
+    const previous = i > 0 ? indexes[i - 1] : -1
+    if (isWordStart(text, index)) score += 8
+    if (index === previous + 1) score += 5
+    score += 1 - Math.min(index - previous - 1, 10) * 0.2
+  })
+  return { score, indexes }
+}
@@ -0,0 +1,158 @@
+import { describe, expect, it } from 'vitest'
+import { invertMutations, revertEntry, type HistoryEntry, type RestoreContext } from './history'
+import { applyMutation, type OutboxMutation } from './outbox'
+import { todoFromInsert } from './todos'
+import type { Todo } from '../types/database'
+
+function todo(id: string, fields: Partial<Todo> = {}): Todo {
+  return { ...todoFromInsert({ user_id: 'owner', list_id: 'list', text: id }), id, ...fields }
+}
+
+const restore: RestoreContext = { userId: 'me', tagIds: new Map() }
+
+function entry(todos: Todo[], applied: OutboxMutation[]): HistoryEntry {
+  return { label: 'Edit', applied, revert: invertMutations(todos, applied, restore) }
+}
+
+function run(todos: Todo[], mutations: OutboxMutation[]) {
+  return mutations.reduce(applyMutation, todos)
+}
+
+describe('invertMutations', () => {
+  it('puts changed fields back and undoes later mutations first', () => {
+    const todos = [todo('a', { text: 'old', priority: 'low' })]
+    const inverse = invertMutations(
+      todos,
+      [
+        { type: 'update', id: 'a', changes: { text: 'new' } },
+        { type: 'update', id: 'a', changes: { text: 'newer', priority: 'high' } },
+      ],
+      restore
+    )
+    expect(inverse).toEqual([
+      { type: 'update', id: 'a', changes: { text: 'new', priority: 'low' } },
+      { type: 'update', id: 'a', changes: { text: 'old' } },
+    ])
+  })
+
+  it('undoes a batch with a batch', () => {
+    const todos = [todo('a', { priority: 'low' }), todo('b', { priority: 'none' })]
+    const inverse = invertMutations(
+      todos,
+      [
+        {
+          type: 'batch',
+          updates: [
+            { type: 'update', id: 'a', changes: { priority: 'high' } },
+            { type: 'update', id: 'b', changes: { priority: 'high' } },
+            { type: 'update', id: 'gone', changes: { priority: 'high' } },
+          ],
+        },
+      ],
+      restore
+    )
+    expect(inverse).toEqual([
+      {
+        type: 'batch',
+        updates: [
+          { type: 'update', id: 'a', changes: { priority: 'low' } },
+          { type: 'update', id: 'b', changes: { priority: 'none' } },
+        ],
+      },
+    ])
+  })
+
+  it('deletes inserted rows, unless they were already there', () => {
+    const row = { id: 'new', user_id: 'owner', list_id: 'list', text: 'New' }
+    expect(invertMutations([], [{ type: 'insert', row }], restore)).toEqual([
+      { type: 'delete', ids: ['new'] },
+    ])
+    expect(invertMutations([todo('new')], [{ type: 'insert', row }], restore)).toEqual([])
+  })
+
+  it('restores deleted rows as the user undoing, parents first, with their tags', () => {
+    const parent = todo('parent', { created_at: '2026-10-01T09:00:00Z' })
+    const child = todo('child', { parent_id: 'parent' })
+    const withSearch = { ...child, search: 'child' } as Todo
+    const inverse = invertMutations(
+      [withSearch, parent],
+      [{ type: 'delete', ids: ['child', 'parent'] }],
+      { userId: 'me', tagIds: new Map([['child', new Set(['t1', 't2'])]]) }
+    )
+    expect(inverse).toEqual([
+      { type: 'insert', row: { ...parent, user_id: 'me' } },
+      { type: 'insert', row: { ...child, user_id: 'me' }, tagIds: ['t1', 't2'] },
+    ])
+  })
+})
+
+describe('revertEntry', () => {
+  it('undoes and redoes an edit', () => {
+    const before = [todo('a', { text: 'old' })]
+    const edit = entry(before, [{ type: 'update', id: 'a', changes: { text: 'new' } }])
+    const after = run(before, edit.applied)
+
+    const undo = revertEntry(after, edit, restore)!
+    expect(undo.applied).toEqual([{ type: 'update', id: 'a', changes: { text: 'old' } }])
+    const undone = run(after, undo.applied)
+
+    const redo = revertEntry(undone, undo, restore)!
+    expect(redo.applied).toEqual([{ type: 'update', id: 'a', changes: { text: 'new' } }])
+  })
+
+  it('leaves fields someone else has changed since', () => {
+    const before = [todo('a', { text: 'old', priority: 'low' })]
+    const edit = entry(before, [
+      { type: 'update', id: 'a', changes: { text: 'mine', priority: 'high' } },
+    ])
+    const elsewhere = run(before, [
+      ...edit.applied,
+      { type: 'update', id: 'a', changes: { text: 'theirs' } },
+    ])
+    expect(revertEntry(elsewhere, edit, restore)?.applied).toEqual([
+      { type: 'update', id: 'a', changes: { priority: 'low' } },
+    ])
+  })
+
+  it('gives up when nothing is left to change', () => {
+    const before = [todo('a', { text: 'old' })]
+    const edit = entry(before, [{ type: 'update', id: 'a', changes: { text: 'new' } }])
+    const reverted = run(before, [{ type: 'update', id: 'a', changes: { text: 'old' } }])
+    expect(revertEntry(reverted, edit, restore)).toBeNull()
+    expect(revertEntry([], edit, restore)).toBeNull()
+  })
+
+  it('does not restore a deleted todo that is back already', () => {
+    const before = [todo('a')]
+    const remove = entry(before, [{ type: 'delete', ids: ['a'] }])
+    expect(revertEntry(before, remove, restore)).toBeNull()
+  })
+
+  it('also deletes subtasks added since when undoing an insert', () => {
+    const row = { id: 'new', user_id: 'me', list_id: 'list', text: 'New' }
+    const add = entry([], [{ type: 'insert', row }])
+    const now = [todo('new'), todo('sub', { parent_id: 'new' }), todo('other')]
+    const undo = revertEntry(now, add, restore)!
+    expect(undo.applied).toEqual([{ type: 'delete', ids: ['new', 'sub'] }])
+    // Redo brings both back
+    expect(undo.revert.map((m) => m.type === 'insert' && m.row.id)).toEqual(['new', 'sub'])
+  })
+
+  it('restores a redone delete with the tags it had when redone', () => {
+    const before = [todo('a')]
+    const remove = entry(before, [{ type: 'delete', ids: ['a'] }])
+    const undo = revertEntry([], remove, restore)!
+    expect(undo.applied).toEqual([{ type: 'insert', row: { ...before[0], user_id: 'me' } }])
+
+    // Tagged after the undo, then deleted again by the redo
+    const restored = run([], undo.applied)
+    const redo = revertEntry(restored, undo, {
+      userId: 'me',
+      tagIds: new Map([['a', new Set(['t'])]]),
+    })!
+    expect(redo.applied).toEqual([{ type: 'delete', ids: ['a'] }])
+    expect(redo.revert).toEqual([
+      { type: 'insert', row: { ...before[0], user_id: 'me' }, tagIds: ['t'] },
+    ])
+  })
+})
@@ -0,0 +1,161 @@
+import { applyMutation, type OutboxMutation, type UpdateMutation } from './outbox'
+import { buildTree, subtreeIds, todoFields } from './todos'
+import type { Todo, TodoUpdate } from '../types/database'
+
+// One undoable action: the mutations it applied and the ones that take it
+// back. Undoing an entry yields the entry that redoes it, and vice versa.
+export interface HistoryEntry {
+  label: string
+  applied: OutboxMutation[]
+  revert: OutboxMutation[]
+}
+
+// What undoing a delete needs beyond the rows: RLS only lets editors insert
+// todos as themselves, so restored rows belong to the user undoing, and the
+// delete took the todos' tag links with it
+export interface RestoreContext {
+  userId: string
+  // Tag ids by todo id
+  tagIds: Map<string, Set<string>>
+}
+
+// Parents before their subtasks, so restored rows satisfy the foreign key
+function parentsFirst(rows: Todo[]) {
+  const byId = new Map(rows.map((row) => [row.id, row]))
+  const depth = (row: Todo): number => {
+    const parent = row.parent_id ? byId.get(row.parent_id) : undefined
+    return parent ? depth(parent) + 1 : 0
+  }
+  return [...rows].sort((a, b) => depth(a) - depth(b))
+}
+
+// The update that puts a todo's changed fields back as they are in `todos`
+function invertUpdate(todos: Todo[], update: UpdateMutation): UpdateMutation | null {
+  const todo = todos.find((t) => t.id === update.id)
+  if (!todo) return null
+  const changes: TodoUpdate = {}
+  for (const key of Object.keys(update.changes) as (keyof TodoUpdate)[]) {
+    Object.assign(changes, { [key]: todo[key as keyof Todo] })
+  }
+  return { type: 'update', id: update.id, changes }
+}
+
+// Mutations that put `todos` back the way they were before `mutations` ran.
+// Deleted rows are restored whole (every column but generated ones), keeping
+// their id, created_at and tags, and a batch is undone by a batch.
+export function invertMutations(
+  todos: Todo[],
+  mutations: OutboxMutation[],
+  restore: RestoreContext
+) {
+  const inverse: OutboxMutation[] = []
+  let current = todos
+
+  for (const mutation of mutations) {
+    switch (mutation.type) {
+      case 'insert':
+        if (!current.some((todo) => todo.id === mutation.row.id)) {
+          inverse.unshift({ type: 'delete', ids: [mutation.row.id] })
+        }
+        break
+      case 'update': {
+        const update = invertUpdate(current, mutation)
+        if (update) inverse.unshift(update)
+        break
+      }
+      case 'batch': {
+        const updates = mutation.updates
+          .map((update) => invertUpdate(current, update))
+          .filter((update) => update !== null)
+        if (updates.length > 0) inverse.unshift({ type: 'batch', updates })
+        break
+      }
+      case 'delete': {
+        const rows = current.filter((todo) => mutation.ids.includes(todo.id))
+        inverse.unshift(
+          ...parentsFirst(rows).map((row) => {
+            const tagIds = [...(restore.tagIds.get(row.id) ?? [])]
+            return {
+              type: 'insert' as const,
+              row: { ...todoFields(row), user_id: restore.userId },
+              ...(tagIds.length > 0 ? { tagIds } : {}),
+            }
+          })
+        )
+        break
+      }
+    }
+    current = applyMutation(current, mutation)
+  }
+  return inverse
+}
+
+// Fit an entry's revert to todos that may have changed since, e.g. through
+// realtime events from another device:
+// - a field is only reverted while it still holds the value we set
+// - updates to todos that are gone are dropped
+// - rows that already exist aren't inserted again
+// - deleting a todo also deletes subtasks added to it since
+function rebase(todos: Todo[], entry: HistoryEntry): OutboxMutation[] {
+  const byId = new Map(todos.map((todo) => [todo.id, todo]))
+  const tree = buildTree(todos)
+  const expected = new Map<string, TodoUpdate>()
+  for (const mutation of entry.applied) {
+    const updates =
+      mutation.type === 'update' ? [mutation] : mutation.type === 'batch' ? mutation.updates : []
+    for (const update of updates) {
+      expected.set(update.id, { ...expected.get(update.id), ...update.changes })
+    }
+  }
+
+  const rebaseUpdate = (update: UpdateMutation): UpdateMutation | null => {
+    const todo = byId.get(update.id)
+    if (!todo) return null
+    const ours = expected.get(update.id) ?? {}
+    const changes = Object.fromEntries(
+      Object.entries(update.changes).filter(([key, value]) => {
+        const now = todo[key as keyof Todo]
+        return now !== value && (!(key in ours) || now === ours[key as keyof TodoUpdate])
+      })
+    ) as TodoUpdate
+    return Object.keys(changes).length > 0 ? { ...update, changes } : null
+  }
+
+  return entry.revert.flatMap((mutation): OutboxMutation[] => {
+    switch (mutation.type) {
+      case 'insert':
+        return byId.has(mutation.row.id) ? [] : [mutation]
+      case 'update': {
+        const update = rebaseUpdate(mutation)
+        return update ? [update] : []
+      }
+      case 'batch': {
+        const updates = mutation.updates
+          .map(rebaseUpdate)
+          .filter((update) => update !== null)
+        return updates.length > 0 ? [{ type: 'batch', updates }] : []
+      }
+      case 'delete': {
+        const ids = [
+          ...new Set(
+            mutation.ids.filter((id) => byId.has(id)).flatMap((id) => subtreeIds(tree, id))
+          ),
+        ]
+        return ids.length > 0 ? [{ type: 'delete', ids }] : []
+      }
+    }
+  })
+}
+
+// Undo (or redo) an entry against the current todos. Returns the opposite
+// entry, whose `applied` mutations are the ones to run now, or null when
+// nothing is left to change.
+export function revertEntry(
+  todos: Todo[],
+  entry: HistoryEntry,
+  restore: RestoreContext
+): HistoryEntry | null {
+  const applied = rebase(todos, entry)
+  if (applied.length === 0) return null
+  return { label: entry.label, applied, revert: invertMutations(todos, applied, restore) }
+}
@@ -0,0 +1,105 @@
+import { statusOptions, type TodoStatus } from './todoStatus'
+
+// Text fields keep their own keys
+export function isEditable(target: EventTarget | null) {
+  return (
+    target instanceof HTMLElement &&
+    (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName))
+  )
+}
+
+// ⌘ on Apple keyboards, Ctrl elsewhere
+export const isMac = typeof navigator !== 'undefined' && /Mac|iPhone|iPad/.test(navigator.platform)
+export const modKey = isMac ? '⌘' : 'Ctrl'
+
+// Rows in the list and cards on the board carry data-todo-id, in the order
+// they're shown
+function todoRows() {
+  return [...document.querySelectorAll<HTMLElement>('[data-todo-id]')]
+}
+
+// Ids of the todos on screen, top to bottom, for shift-click ranges
+export function shownTodoIds() {
+  return todoRows().map((row) => row.dataset.todoId!)
+}
+
+// The todo whose row has focus, or contains it
+export function focusedTodoId() {
+  const row = document.activeElement?.closest<HTMLElement>('[data-todo-id]')
+  return row?.dataset.todoId ?? null
+}
+
+// Move focus to the next (1) or previous (-1) todo. With no todo focused, j
+// starts at the first one and k at the last.
+export function focusTodo(step: 1 | -1) {
+  const rows = todoRows()
+  if (rows.length === 0) return
+  let index = rows.findIndex((row) => row.contains(document.activeElement))
+  if (index < 0) index = step === 1 ? 0 : rows.length - 1
+  else index = Math.min(rows.length - 1, Math.max(0, index + step))
+  rows[index].focus()
+  rows[index].scrollIntoView({ block: 'nearest' })
+}
+
+// Before a row goes away, hand focus to the one after it (or before it) so
+// j/k carry on from the same place
+export function focusAwayFrom(row: HTMLElement) {
+  const rows = todoRows()
+  const index = rows.indexOf(row)
+  const next = rows.slice(index + 1).find((r) => !row.contains(r)) ?? rows[index - 1]
+  next?.focus()
+}
+
+export type RowShortcut =
+  | { type: 'toggle' }
+  | { type: 'status'; status: TodoStatus }
+  | { type: 'edit' }
+  | { type: 'delete' }
+
+// Keys for the focused todo: x, 1-3, Enter/e and Delete. Only the row itself
+// counts, so typing in a field inside it is left alone.
+export function rowShortcut(e: React.KeyboardEvent): RowShortcut | null {
+  if (e.target !== e.currentTarget || e.ctrlKey || e.metaKey || e.altKey) return null
+
+  if (e.key === 'x') return { type: 'toggle' }
+  if (e.key === 'Enter' || e.key === 'e') return { type: 'edit' }
+  if (e.key === 'Delete' || e.key === 'Backspace') return { type: 'delete' }
+  const option = /^[1-9]$/.test(e.key) ? statusOptions[Number(e.key) - 1] : undefined
+  return option ? { type: 'status', status: option.value } : null
+}
+
+export interface Shortcut {
+  keys: string[]
+  description: string
+}
+
+// For the "?" overlay
+export const shortcutGroups: { title: string; shortcuts: Shortcut[] }[] = [
+  {
+    title: 'Anywhere',
+    shortcuts: [
+      { keys: [modKey, 'K'], description: 'Open the command palette' },
+      { keys: ['j'], description: 'Next task' },
+      { keys: ['k'], description: 'Previous task' },
+      { keys: ['n'], description: 'New task' },
+      { keys: ['/'], description: 'Search' },
+      { keys: [modKey, 'Z'], description: 'Undo' },
+      { keys: [modKey, 'Shift', 'Z'], description: 'Redo' },
+      { keys: ['?'], description: 'Show these shortcuts' },
+    ],
+  },
+  {
+    title: 'Focused task',
+    shortcuts: [
+      { keys: ['x'], description: 'Complete or reopen' },
+      ...statusOptions.map((option, i) => ({
+        keys: [String(i + 1)],
+        description: `Move to ${option.label}`,
+      })),
+      { keys: ['Enter'], description: 'Edit text (or double-click it)' },
+      { keys: ['e'], description: 'Edit text' },
+      { keys: ['Delete'], description: 'Delete' },
+      { keys: ['↑', '↓'], description: 'Reorder (on the drag handle)' },
+    ],
+  },
+]
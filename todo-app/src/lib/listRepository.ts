@@ -0,0 +1,25 @@
+import { isLocalMode, type RepositoryResult, type RowChange } from './repository'
+import { createSupabaseListRepository } from './supabaseListRepository'
+import { createLocalListRepository } from './localListRepository'
+import type { List, ListInsert, ListRole, ListUpdate } from '../types/database'
+
+export type ListChange = RowChange<List>
+
+export interface ListRepository {
+  // Every list the user can see: their own and ones shared with them
+  list(): Promise<RepositoryResult<List[]>>
+  // The user's role in each of those lists, keyed by list id
+  roles(userId: string): Promise<RepositoryResult<Record<string, ListRole>>>
+  // Inserting an id that already exists does nothing
+  insert(row: ListInsert): Promise<RepositoryResult>
+  update(id: string, changes: ListUpdate): Promise<RepositoryResult>
+  // Deleting a list deletes its todos too
+  delete(id: string): Promise<RepositoryResult>
+  subscribe(userId: string, onChange: (change: ListChange) => void): () => void
+  // Fires when the user is added to or removed from a list, or their role changes
+  subscribeMemberships(userId: string, onChange: () => void): () => void
+}
+
+export const listRepository: ListRepository = isLocalMode
+  ? createLocalListRepository()
+  : createSupabaseListRepository()
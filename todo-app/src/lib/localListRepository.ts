@@ -0,0 +1,72 @@
+import { ok, readRows, subscribeToRows, writeRows } from './localStore'
+import { TAGS_KEY, TODO_TAGS_KEY } from './localTagRepository'
+import { TODOS_KEY } from './localTodoRepository'
+import type { List, Tag, Todo, TodoTag } from '../types/database'
+import type { ListRepository } from './listRepository'
+
+const LISTS_KEY = 'todo-app:lists'
+
+const readLists = () => readRows<List>(LISTS_KEY)
+const writeLists = (lists: List[]) => writeRows(LISTS_KEY, lists)
+
+export function createLocalListRepository(): ListRepository {
+  return {
+    async list() {
+      const lists = readLists().sort((a, b) => a.position - b.position)
+      return { data: lists, error: null, status: 200 }
+    },
+
+    // There is nobody to share with in local mode
+    async roles() {
+      const roles = Object.fromEntries(readLists().map((list) => [list.id, 'owner' as const]))
+      return { data: roles, error: null, status: 200 }
+    },
+
+    async insert(row) {
+      const lists = readLists()
+      if (row.id && lists.some((list) => list.id === row.id)) return ok
+      const now = new Date().toISOString()
+      writeLists([
+        ...lists,
+        { id: crypto.randomUUID(), position: 0, created_at: now, updated_at: now, ...row },
+      ])
+      return ok
+    },
+
+    async update(id, changes) {
+      const updatedAt = new Date().toISOString()
+      writeLists(
+        readLists().map((list) =>
+          list.id === id ? { ...list, ...changes, updated_at: updatedAt } : list
+        )
+      )
+      return ok
+    },
+
+    // Mirrors ON DELETE CASCADE on todos, tags and todo_tags.list_id
+    async delete(id) {
+      writeLists(readLists().filter((list) => list.id !== id))
+      writeRows(
+        TODOS_KEY,
+        readRows<Todo>(TODOS_KEY).filter((todo) => todo.list_id !== id)
+      )
+      writeRows(
+        TAGS_KEY,
+        readRows<Tag>(TAGS_KEY).filter((tag) => tag.list_id !== id)
+      )
+      writeRows(
+        TODO_TAGS_KEY,
+        readRows<TodoTag>(TODO_TAGS_KEY).filter((link) => link.list_id !== id)
+      )
+      return ok
+    },
+
+    subscribe(_userId, onChange) {
+      return subscribeToRows<List>(LISTS_KEY, onChange)
+    },
+
+    subscribeMemberships() {
+      return () => {}
+    },
+  }
+}
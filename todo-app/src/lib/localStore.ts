@@ -0,0 +1,58 @@
+import type { RowChange } from './repository'
+
+// Rows without updated_at (link tables) are only ever inserted or deleted
+interface StoredRow {
+  id: string
+  updated_at?: string
+}
+
+export function readRows<T>(key: string, raw = localStorage.getItem(key)): T[] {
+  if (!raw) return []
+  try {
+    return JSON.parse(raw) as T[]
+  } catch {
+    return []
+  }
+}
+
+export function writeRows<T>(key: string, rows: T[]) {
+  localStorage.setItem(key, JSON.stringify(rows))
+}
+
+export const ok = { data: null, error: null, status: 200 }
+
+// Work out what changed between two snapshots written by another tab
+function diffRows<T extends StoredRow>(before: T[], after: T[]): RowChange<T>[] {
+  const previous = new Map(before.map((row) => [row.id, row]))
+  const changes: RowChange<T>[] = []
+
+  for (const row of after) {
+    const old = previous.get(row.id)
+    if (!old) {
+      changes.push({ type: 'INSERT', row })
+    } else if (old.updated_at !== row.updated_at) {
+      changes.push({ type: 'UPDATE', row })
+    }
+    previous.delete(row.id)
+  }
+  for (const id of previous.keys()) {
+    changes.push({ type: 'DELETE', id })
+  }
+
+  return changes
+}
+
+// The storage event only fires in *other* tabs, which matches Supabase
+// realtime closely enough: this tab already applied its own changes
+export function subscribeToRows<T extends StoredRow>(
+  key: string,
+  onChange: (change: RowChange<T>) => void
+) {
+  const handleStorage = (event: StorageEvent) => {
+    if (event.key !== key) return
+    diffRows(readRows<T>(key, event.oldValue), readRows<T>(key, event.newValue)).forEach(onChange)
+  }
+
+  window.addEventListener('storage', handleStorage)
+  return () => window.removeEventListener('storage', handleStorage)
+}
@@ -0,0 +1,120 @@
+import { ok, readRows, subscribeToRows, writeRows } from './localStore'
+import type { Tag, TodoTag } from '../types/database'
+import type { TagRepository } from './tagRepository'
+
+export const TAGS_KEY = 'todo-app:tags'
+export const TODO_TAGS_KEY = 'todo-app:todo-tags'
+
+const readTags = () => readRows<Tag>(TAGS_KEY)
+const writeTags = (tags: Tag[]) => writeRows(TAGS_KEY, tags)
+const readLinks = () => readRows<TodoTag>(TODO_TAGS_KEY)
+const writeLinks = (links: TodoTag[]) => writeRows(TODO_TAGS_KEY, links)
+
+export function createLocalTagRepository(): TagRepository {
+  return {
+    async list(listId) {
+      const tags = readTags()
+        .filter((tag) => tag.list_id === listId)
+        .sort((a, b) => a.name.localeCompare(b.name))
+      return { data: tags, error: null, status: 200 }
+    },
+
+    // Mirrors the unique index on (list_id, lower(name))
+    async insert(row) {
+      const tags = readTags()
+      const name = row.name.toLowerCase()
+      if (tags.some((tag) => tag.list_id === row.list_id && tag.name.toLowerCase() === name)) {
+        return { data: null, error: { message: 'A tag with this name already exists' }, status: 409 }
+      }
+      const now = new Date().toISOString()
+      writeTags([
+        ...tags,
+        { id: crypto.randomUUID(), color: 'gray', created_at: now, updated_at: now, ...row },
+      ])
+      return ok
+    },
+
+    async update(id, changes) {
+      const updatedAt = new Date().toISOString()
+      writeTags(
+        readTags().map((tag) => (tag.id === id ? { ...tag, ...changes, updated_at: updatedAt } : tag))
+      )
+      return ok
+    },
+
+    // Mirrors ON DELETE CASCADE on todo_tags.tag_id
+    async delete(id) {
+      writeTags(readTags().filter((tag) => tag.id !== id))
+      writeLinks(readLinks().filter((link) => link.tag_id !== id))
+      return ok
+    },
+
+    async links(listId) {
+      return { data: readLinks().filter((link) => link.list_id === listId), error: null, status: 200 }
+    },
+
+    async addLink(row) {
+      const links = readLinks()
+      if (links.some((link) => link.todo_id === row.todo_id && link.tag_id === row.tag_id)) {
+        return { data: null, error: { message: 'This todo already has this tag' }, status: 409 }
+      }
+      writeLinks([
+        ...links,
+        { id: crypto.randomUUID(), created_at: new Date().toISOString(), ...row },
+      ])
+      return ok
+    },
+
+    async removeLink(id) {
+      writeLinks(readLinks().filter((link) => link.id !== id))
+      return ok
+    },
+
+    // One duplicate fails the whole insert, as it does in Postgres
+    async addLinks(rows) {
+      const links = readLinks()
+      const duplicate = rows.some((row) =>
+        links.some((link) => link.todo_id === row.todo_id && link.tag_id === row.tag_id)
+      )
+      if (duplicate) {
+        return { data: null, error: { message: 'A todo already has this tag' }, status: 409 }
+      }
+      const now = new Date().toISOString()
+      writeLinks([
+        ...links,
+        ...rows.map((row) => ({ id: crypto.randomUUID(), created_at: now, ...row })),
+      ])
+      return ok
+    },
+
+    async removeLinks(ids) {
+      writeLinks(readLinks().filter((link) => !ids.includes(link.id)))
+      return ok
+    },
+
+    async restoreLinks(rows) {
+      const links = readLinks()
+      const now = new Date().toISOString()
+      const added = rows.filter(
+        (row) => !links.some((link) => link.todo_id === row.todo_id && link.tag_id === row.tag_id)
+      )
+      writeLinks([
+        ...links,
+        ...added.map((row) => ({ id: crypto.randomUUID(), created_at: now, ...row })),
+      ])
+      return ok
+    },
+
+    subscribe(listId, onChange) {
+      return subscribeToRows<Tag>(TAGS_KEY, (change) => {
+        if (change.type === 'DELETE' || change.row.list_id === listId) onChange(change)
+      })
+    },
+
+    subscribeLinks(listId, onChange) {
+      return subscribeToRows<TodoTag>(TODO_TAGS_KEY, (change) => {
+        if (change.type === 'DELETE' || change.row.list_id === listId) onChange(change)
+      })
+    },
+  }
+}
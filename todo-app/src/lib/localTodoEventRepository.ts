@@ -0,0 +1,74 @@
+import { readRows, writeRows } from './localStore'
+import { LOCAL_USER_ID } from './repository'
+import { changedValues, TODO_EVENT_LIMIT } from './todoEvents'
+import type { TodoEventRepository } from './todoEventRepository'
+import type { Todo, TodoEvent } from '../types/database'
+
+export const TODO_EVENTS_KEY = 'todo-app:todo-events'
+
+// localStorage is small; the oldest events go first
+const MAX_EVENTS = 2000
+
+// Events written in this tab; other tabs hear about them from the storage event
+const listeners = new Set<(event: TodoEvent) => void>()
+
+// Mirrors the todos_record_event trigger: pass the todo before and after a
+// change (null for an insert or delete)
+export function recordTodoEvent(before: Todo | null, after: Todo | null) {
+  const values = changedValues(before, after)
+  const todo = after ?? before
+  if (!values || !todo) return
+
+  const events = readRows<TodoEvent>(TODO_EVENTS_KEY)
+  const event: TodoEvent = {
+    id: (events[events.length - 1]?.id ?? 0) + 1,
+    todo_id: todo.id,
+    list_id: todo.list_id,
+    actor_id: LOCAL_USER_ID,
+    actor_email: null,
+    action: !before ? 'insert' : !after ? 'delete' : 'update',
+    ...values,
+    created_at: new Date().toISOString(),
+  }
+  writeRows(TODO_EVENTS_KEY, [...events, event].slice(-MAX_EVENTS))
+  listeners.forEach((listener) => listener(event))
+}
+
+export function createLocalTodoEventRepository(): TodoEventRepository {
+  return {
+    async list(todoId) {
+      const data = readRows<TodoEvent>(TODO_EVENTS_KEY)
+        .filter((event) => event.todo_id === todoId)
+        .reverse()
+        .slice(0, TODO_EVENT_LIMIT)
+      return { data, error: null, status: 200 }
+    },
+
+    async listForList(listId) {
+      const data = readRows<TodoEvent>(TODO_EVENTS_KEY).filter((event) => event.list_id === listId)
+      return { data, error: null, status: 200 }
+    },
+
+    subscribe(todoId, onEvent) {
+      const listener = (event: TodoEvent) => {
+        if (event.todo_id === todoId) onEvent(event)
+      }
+
+      // Events are only ever appended, so anything past the old last id is new
+      const handleStorage = (e: StorageEvent) => {
+        if (e.key !== TODO_EVENTS_KEY) return
+        const lastId = readRows<TodoEvent>(TODO_EVENTS_KEY, e.oldValue).pop()?.id ?? 0
+        readRows<TodoEvent>(TODO_EVENTS_KEY, e.newValue)
+          .filter((event) => event.id > lastId)
+          .forEach(listener)
+      }
+
+      listeners.add(listener)
+      window.addEventListener('storage', handleStorage)
+      return () => {
+        listeners.delete(listener)
+        window.removeEventListener('storage', handleStorage)
+      }
+    },
+  }
+}
@@ -0,0 +1,194 @@
+import { CONFLICT_STATUS } from './repository'
+import { ok, readRows, subscribeToRows, writeRows } from './localStore'
+import { TODO_TAGS_KEY } from './localTagRepository'
+import { recordTodoEvent } from './localTodoEventRepository'
+import { comparePosition, countProgress, todoFromInsert } from './todos'
+import { emptyFilter, matchesFilter } from './todoFilter'
+import { stampStatusChange, statusTimes } from './todoStatus'
+import { generateKeyBetween } from './fractionalIndex'
+import type { Todo, TodoTag } from '../types/database'
+import type { TodoRepository } from './todoRepository'
+
+export const TODOS_KEY = 'todo-app:todos'
+
+const readTodos = () => readRows<Todo>(TODOS_KEY)
+const writeTodos = (todos: Todo[]) => writeRows(TODOS_KEY, todos)
+
+export function createLocalTodoRepository(): TodoRepository {
+  return {
+    async list(listId, filter = emptyFilter) {
+      let todos = readTodos()
+
+      // Todos saved before lists existed move into the first list opened
+      if (todos.some((todo) => !todo.list_id)) {
+        todos = todos.map((todo) => (todo.list_id ? todo : { ...todo, list_id: listId }))
+        writeTodos(todos)
+      }
+
+      // Todos saved before manual ordering keep their newest-first order
+      if (todos.some((todo) => !todo.position)) {
+        let position: string | null = null
+        const positions = new Map<string, string>()
+        for (const todo of [...todos].sort((a, b) => b.created_at.localeCompare(a.created_at))) {
+          position = generateKeyBetween(position, null)
+          positions.set(todo.id, position)
+        }
+        todos = todos.map((todo) => (todo.position ? todo : { ...todo, position: positions.get(todo.id)! }))
+        writeTodos(todos)
+      }
+
+      // Todos saved before priorities existed have none
+      if (todos.some((todo) => !todo.priority)) {
+        todos = todos.map((todo) => (todo.priority ? todo : { ...todo, priority: 'none' }))
+        writeTodos(todos)
+      }
+
+      // Todos saved before versioning start at the first version
+      if (todos.some((todo) => !todo.version)) {
+        todos = todos.map((todo) => (todo.version ? todo : { ...todo, version: 1 }))
+        writeTodos(todos)
+      }
+
+      // Todos saved before status times were kept date from their last change
+      if (todos.some((todo) => todo.completed_at === undefined)) {
+        todos = todos.map((todo) =>
+          todo.completed_at !== undefined ? todo : { ...todo, ...statusTimes(null, todo, todo.updated_at) }
+        )
+        writeTodos(todos)
+      }
+
+      const data = todos
+        .filter((todo) => todo.list_id === listId && matchesFilter(todo, filter))
+        .sort(comparePosition)
+      return { data, error: null, status: 200 }
+    },
+
+    async get(id) {
+      const data = readTodos().find((todo) => todo.id === id) ?? null
+      return { data, error: null, status: 200 }
+    },
+
+    async listAll() {
+      return { data: readTodos().sort(comparePosition), error: null, status: 200 }
+    },
+
+    async reminders(since) {
+      const from = new Date(since).getTime()
+      const at = (todo: Todo) => new Date(todo.remind_at!).getTime()
+      const data = readTodos()
+        .filter((todo) => !todo.completed && todo.remind_at && at(todo) >= from)
+        .sort((a, b) => at(a) - at(b))
+      return { data, error: null, status: 200 }
+    },
+
+    async progress() {
+      return { data: countProgress(readTodos()), error: null, status: 200 }
+    },
+
+    // Like the Supabase backend, an id that already exists is left alone
+    async insert(row) {
+      const todos = readTodos()
+      if (row.id && todos.some((todo) => todo.id === row.id)) return ok
+      const todo = todoFromInsert(row)
+      writeTodos([...todos, todo])
+      recordTodoEvent(null, todo)
+      return ok
+    },
+
+    async insertMany(rows) {
+      const todos = readTodos()
+      const ids = new Set(todos.map((todo) => todo.id))
+      const added = rows.filter((row) => !row.id || !ids.has(row.id)).map(todoFromInsert)
+      writeTodos([...todos, ...added])
+      added.forEach((todo) => recordTodoEvent(null, todo))
+      return ok
+    },
+
+    // Another tab can change the todo between this tab reading it and saving
+    // its own edit, so versioned updates are checked the way the server does
+    async update(id, changes, version) {
+      const todos = readTodos()
+      const before = todos.find((todo) => todo.id === id)
+      if (!before) return ok
+      if (version !== undefined && before.version !== version) {
+        return { data: before, error: { message: 'This task was changed elsewhere' }, status: CONFLICT_STATUS }
+      }
+      const after = {
+        ...before,
+        ...stampStatusChange(before, changes),
+        version: before.version + 1,
+        updated_at: new Date().toISOString(),
+      }
+      writeTodos(todos.map((todo) => (todo.id === id ? after : todo)))
+      recordTodoEvent(before, after)
+      return ok
+    },
+
+    // Checked in full before anything is written, so a stale version leaves
+    // every todo as it was. Like update_todos, moving a todo to another list
+    // drops its tags.
+    async updateMany(updates) {
+      const todos = readTodos()
+      const byId = new Map(todos.map((todo) => [todo.id, todo]))
+      const stale = updates.some(({ id, version }) => {
+        const before = byId.get(id)
+        return before && version !== undefined && before.version !== version
+      })
+      if (stale) {
+        return { data: null, error: { message: 'A task was changed elsewhere' }, status: CONFLICT_STATUS }
+      }
+
+      const now = new Date().toISOString()
+      const moved = new Set<string>()
+      for (const { id, changes } of updates) {
+        const before = byId.get(id)
+        if (!before) continue
+        const after = {
+          ...before,
+          ...stampStatusChange(before, changes, now),
+          version: before.version + 1,
+          updated_at: now,
+        }
+        byId.set(id, after)
+        recordTodoEvent(before, after)
+        if (after.list_id !== before.list_id) moved.add(id)
+      }
+
+      writeTodos(todos.map((todo) => byId.get(todo.id)!))
+      if (moved.size > 0) {
+        writeRows(
+          TODO_TAGS_KEY,
+          readRows<TodoTag>(TODO_TAGS_KEY).filter((link) => !moved.has(link.todo_id))
+        )
+      }
+      return ok
+    },
+
+    // Mirrors ON DELETE CASCADE on todos.parent_id and todo_tags.todo_id
+    async delete(ids) {
+      const todos = readTodos()
+      const deleted = new Set(ids)
+      let size
+      do {
+        size = deleted.size
+        for (const todo of todos) {
+          if (todo.parent_id && deleted.has(todo.parent_id)) deleted.add(todo.id)
+        }
+      } while (deleted.size > size)
+
+      writeTodos(todos.filter((todo) => !deleted.has(todo.id)))
+      todos.filter((todo) => deleted.has(todo.id)).forEach((todo) => recordTodoEvent(todo, null))
+      writeRows(
+        TODO_TAGS_KEY,
+        readRows<TodoTag>(TODO_TAGS_KEY).filter((link) => !deleted.has(link.todo_id))
+      )
+      return ok
+    },
+
+    subscribe(listId, onChange) {
+      return subscribeToRows<Todo>(TODOS_KEY, (change) => {
+        if (change.type === 'DELETE' || change.row.list_id === listId) onChange(change)
+      })
+    },
+  }
+}
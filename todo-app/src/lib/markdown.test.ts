@@ -0,0 +1,113 @@
+import { describe, expect, it } from 'vitest'
+import { parseInline, parseMarkdown, safeUrl, toggleTask } from './markdown'
+
+describe('safeUrl', () => {
+  it('keeps absolute http(s) and mailto links', () => {
+    expect(safeUrl('https://example.com/a?b=1')).toBe('https://example.com/a?b=1')
+    expect(safeUrl('HTTP://Example.com')).toBe('http://example.com/')
+    expect(safeUrl('mailto:me@example.com')).toBe('mailto:me@example.com')
+  })
+
+  it('drops scripts, data and relative links', () => {
+    expect(safeUrl('javascript:alert(1)')).toBeNull()
+    expect(safeUrl('JavaScript:alert(1)')).toBeNull()
+    expect(safeUrl(' javascript:alert(1)')).toBeNull()
+    expect(safeUrl('java\tscript:alert(1)')).toBeNull()
+    expect(safeUrl('data:text/html,<script>alert(1)</script>')).toBeNull()
+    expect(safeUrl('vbscript:msgbox')).toBeNull()
+    expect(safeUrl('/settings')).toBeNull()
+    expect(safeUrl('//evil.example')).toBeNull()
+  })
+})
+
+describe('parseInline links', () => {
+  it('turns safe links into link nodes', () => {
+    expect(parseInline('see [the *docs*](https://example.com "Docs")')).toEqual([
+      { type: 'text', text: 'see ' },
+      {
+        type: 'link',
+        href: 'https://example.com/',
+        children: [
+          { type: 'text', text: 'the ' },
+          { type: 'em', children: [{ type: 'text', text: 'docs' }] },
+        ],
+      },
+    ])
+  })
+
+  it('keeps only the text of unsafe links', () => {
+    expect(parseInline('[click](javascript:alert)')).toEqual([{ type: 'text', text: 'click' }])
+    expect(parseInline('[a](data:text/html;base64,PHNjcmlwdD4=)')).toEqual([
+      { type: 'text', text: 'a' },
+    ])
+  })
+
+  it('does not let a parenthesis smuggle a script through', () => {
+    const nodes = parseInline('[x](javascript:alert(1))')
+    expect(nodes.some((node) => node.type === 'link')).toBe(false)
+  })
+
+  it('links bare and angle URLs, leaving trailing punctuation out', () => {
+    expect(parseInline('Go to https://example.com/a.')).toEqual([
+      { type: 'text', text: 'Go to ' },
+      {
+        type: 'link',
+        href: 'https://example.com/a',
+        children: [{ type: 'text', text: 'https://example.com/a' }],
+      },
+      { type: 'text', text: '.' },
+    ])
+    expect(parseInline('<mailto:me@example.com>')).toEqual([
+      {
+        type: 'link',
+        href: 'mailto:me@example.com',
+        children: [{ type: 'text', text: 'mailto:me@example.com' }],
+      },
+    ])
+  })
+
+  it('leaves angle brackets around other schemes as text', () => {
+    expect(parseInline('<javascript:alert(1)>')).toEqual([
+      { type: 'text', text: '<javascript:alert(1)>' },
+    ])
+  })
+
+  it('does not link URLs inside code', () => {
+    expect(parseInline('`https://example.com`')).toEqual([
+      { type: 'code', text: 'https://example.com' },
+    ])
+  })
+
+  it('treats an escaped bracket as text, linking only the bare URL after it', () => {
+    expect(parseInline('\\[a](https://example.com)')).toEqual([
+      { type: 'text', text: '[a](' },
+      {
+        type: 'link',
+        href: 'https://example.com/',
+        children: [{ type: 'text', text: 'https://example.com' }],
+      },
+      { type: 'text', text: ')' },
+    ])
+  })
+})
+
+describe('parseMarkdown', () => {
+  it('reads checklists with their source lines', () => {
+    const [list] = parseMarkdown('- [ ] one\n- [x] two')
+    expect(list).toMatchObject({
+      type: 'list',
+      items: [
+        { checked: false, line: 0 },
+        { checked: true, line: 1 },
+      ],
+    })
+  })
+})
+
+describe('toggleTask', () => {
+  it('flips the checkbox on the given line only', () => {
+    expect(toggleTask('- [ ] one\n- [x] two', 0)).toBe('- [x] one\n- [x] two')
+    expect(toggleTask('- [ ] one\n- [X] two', 1)).toBe('- [ ] one\n- [ ] two')
+    expect(toggleTask('plain text', 0)).toBe('plain text')
+  })
+})
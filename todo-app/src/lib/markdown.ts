@@ -0,0 +1,277 @@
+// A small Markdown subset for todo notes: headings, paragraphs, lists and
+// checklists, quotes, fenced code, rules, and inline code, emphasis and
+// links. It parses to a tree that the Markdown component renders as React
+// elements, so nothing in the source is ever treated as HTML.
+
+export type Inline =
+  | { type: 'text'; text: string }
+  | { type: 'code'; text: string }
+  | { type: 'link'; href: string; children: Inline[] }
+  | { type: 'strong' | 'em' | 'del'; children: Inline[] }
+
+export interface ListItem {
+  children: Inline[]
+  // null for a plain bullet, true/false for a checklist item
+  checked: boolean | null
+  // Source line of the item, for toggling its checkbox
+  line: number
+  sublists: ListBlock[]
+}
+
+export interface ListBlock {
+  type: 'list'
+  ordered: boolean
+  items: ListItem[]
+}
+
+export type Block =
+  | { type: 'heading'; level: number; children: Inline[] }
+  | { type: 'paragraph'; children: Inline[] }
+  | { type: 'code'; lang: string; text: string }
+  | { type: 'quote'; blocks: Block[] }
+  | { type: 'rule' }
+  | ListBlock
+
+interface Line {
+  text: string
+  // Index in the original source
+  number: number
+}
+
+const HEADING = /^\s{0,3}(#{1,6})\s+(.*?)(?:\s+#+)?\s*$/
+const FENCE = /^\s{0,3}(`{3,}|~{3,})\s*([\w+-]*)/
+const QUOTE = /^\s{0,3}>\s?(.*)$/
+const RULE = /^\s{0,3}([-*_])(?:\s*\1){2,}\s*$/
+const LIST_ITEM = /^(\s*)([-*+]|\d{1,9}[.)])\s+(.*)$/
+const TASK = /^\[([ xX])\]\s+(.*)$/
+
+const SAFE_PROTOCOLS = ['http:', 'https:', 'mailto:']
+
+// Only absolute http(s) and mailto links are kept; anything else (javascript:,
+// data:, relative paths) is shown as plain text
+export function safeUrl(href: string) {
+  try {
+    const url = new URL(href)
+    return SAFE_PROTOCOLS.includes(url.protocol) ? url.href : null
+  } catch {
+    return null
+  }
+}
+
+function startsBlock(text: string) {
+  return [HEADING, FENCE, QUOTE, RULE, LIST_ITEM].some((pattern) => pattern.test(text))
+}
+
+const isBlank = (line: Line) => line.text.trim() === ''
+
+export function parseMarkdown(source: string): Block[] {
+  const lines = source.replace(/\r\n?/g, '\n').split('\n')
+  return parseBlocks(lines.map((text, number) => ({ text, number })))
+}
+
+function parseBlocks(lines: Line[]): Block[] {
+  const blocks: Block[] = []
+  let i = 0
+
+  while (i < lines.length) {
+    const { text } = lines[i]
+    let match: RegExpExecArray | null
+
+    if (isBlank(lines[i])) {
+      i++
+    } else if ((match = FENCE.exec(text))) {
+      const fence = match[1]
+      const body: string[] = []
+      i++
+      while (i < lines.length && !lines[i].text.trimStart().startsWith(fence)) {
+        body.push(lines[i].text)
+        i++
+      }
+      i++
+      blocks.push({ type: 'code', lang: match[2], text: body.join('\n') })
+    } else if ((match = HEADING.exec(text))) {
+      blocks.push({ type: 'heading', level: match[1].length, children: parseInline(match[2]) })
+      i++
+    } else if (RULE.test(text)) {
+      blocks.push({ type: 'rule' })
+      i++
+    } else if (QUOTE.test(text)) {
+      const inner: Line[] = []
+      while (i < lines.length && (match = QUOTE.exec(lines[i].text))) {
+        inner.push({ text: match[1], number: lines[i].number })
+        i++
+      }
+      blocks.push({ type: 'quote', blocks: parseBlocks(inner) })
+    } else if (LIST_ITEM.test(text)) {
+      i = parseList(lines, i, blocks)
+    } else {
+      const paragraph: string[] = []
+      while (
+        i < lines.length &&
+        !isBlank(lines[i]) &&
+        (paragraph.length === 0 || !startsBlock(lines[i].text))
+      ) {
+        paragraph.push(lines[i].text.trim())
+        i++
+      }
+      blocks.push({ type: 'paragraph', children: parseInline(paragraph.join('\n')) })
+    }
+  }
+  return blocks
+}
+
+interface RawItem {
+  indent: number
+  ordered: boolean
+  text: string
+  line: number
+}
+
+// Reads the list starting at `start` into `blocks` and returns the index after
+// it. Lines indented under an item continue it; a blank line ends the list
+// unless another item follows.
+function parseList(lines: Line[], start: number, blocks: Block[]) {
+  const items: RawItem[] = []
+  let i = start
+
+  while (i < lines.length) {
+    const match = LIST_ITEM.exec(lines[i].text)
+    if (match) {
+      items.push({
+        indent: match[1].replace(/\t/g, '    ').length,
+        ordered: !/[-*+]/.test(match[2]),
+        text: match[3],
+        line: lines[i].number,
+      })
+      i++
+    } else if (!isBlank(lines[i]) && /^\s/.test(lines[i].text) && items.length > 0) {
+      items[items.length - 1].text += '\n' + lines[i].text.trim()
+      i++
+    } else if (isBlank(lines[i]) && i + 1 < lines.length && LIST_ITEM.test(lines[i + 1].text)) {
+      i++
+    } else {
+      break
+    }
+  }
+
+  let next = 0
+  while (next < items.length) {
+    const [list, end] = buildList(items, next)
+    blocks.push(list)
+    next = end
+  }
+  return i
+}
+
+// Items deeper than the first become sublists of the item above them
+function buildList(items: RawItem[], start: number): [ListBlock, number] {
+  const indent = items[start].indent
+  const list: ListBlock = { type: 'list', ordered: items[start].ordered, items: [] }
+  let i = start
+
+  while (i < items.length && items[i].indent >= indent) {
+    const parent = list.items[list.items.length - 1]
+    if (items[i].indent > indent && parent) {
+      const [sublist, end] = buildList(items, i)
+      parent.sublists.push(sublist)
+      i = end
+      continue
+    }
+    // Switching between bullets and numbers starts a new list
+    if (items[i].indent === indent && items[i].ordered !== list.ordered) break
+
+    const task = TASK.exec(items[i].text)
+    list.items.push({
+      children: parseInline(task ? task[2] : items[i].text),
+      checked: task ? task[1] !== ' ' : null,
+      line: items[i].line,
+      sublists: [],
+    })
+    i++
+  }
+  return [list, i]
+}
+
+const ESCAPABLE = /^\\([\\`*_~[\]()#>+\-.!])/
+const CODE_SPAN = /^(`+)([^`][\s\S]*?)\1(?!`)/
+const LINK = /^\[((?:[^\]\\]|\\.)+)\]\(\s*([^)\s]+)(?:\s+"[^"]*")?\s*\)/
+const ANGLE_LINK = /^<((?:https?:\/\/|mailto:)[^>\s]+)>/
+const BARE_LINK = /^https?:\/\/[^\s<]+/
+const STRONG = /^(\*\*|__)(?=\S)([\s\S]*?\S)\1/
+const DEL = /^~~(?=\S)([\s\S]*?\S)~~/
+const EM = /^([*_])(?=\S)([\s\S]*?\S)\1(?!\1)/
+
+export function parseInline(text: string): Inline[] {
+  const nodes: Inline[] = []
+  let buffer = ''
+  const flush = () => {
+    if (buffer) nodes.push({ type: 'text', text: buffer })
+    buffer = ''
+  }
+
+  let i = 0
+  while (i < text.length) {
+    const rest = text.slice(i)
+    // Underscores and bare links only count at the start of a word
+    const wordStart = i === 0 || !/\w/.test(text[i - 1])
+    let match: RegExpExecArray | null
+
+    if ((match = ESCAPABLE.exec(rest))) {
+      buffer += match[1]
+    } else if ((match = CODE_SPAN.exec(rest))) {
+      flush()
+      const code = match[2]
+      const padded = code.length > 2 && code.startsWith(' ') && code.endsWith(' ')
+      nodes.push({ type: 'code', text: padded ? code.slice(1, -1) : code })
+    } else if ((match = LINK.exec(rest))) {
+      flush()
+      const href = safeUrl(match[2])
+      const children = parseInline(match[1])
+      if (href) nodes.push({ type: 'link', href, children })
+      else nodes.push(...children)
+    } else if ((match = ANGLE_LINK.exec(rest)) || (wordStart && (match = BARE_LINK.exec(rest)))) {
+      // Trailing punctuation belongs to the sentence, not the link
+      const url = match[1] ?? match[0].replace(/[.,;:!?)'"]+$/, '')
+      const href = safeUrl(url)
+      if (!href) {
+        buffer += match[0]
+      } else {
+        flush()
+        nodes.push({ type: 'link', href, children: [{ type: 'text', text: url }] })
+        if (!match[1]) {
+          i += url.length
+          continue
+        }
+      }
+    } else if ((match = STRONG.exec(rest)) && (match[1] === '**' || wordStart)) {
+      flush()
+      nodes.push({ type: 'strong', children: parseInline(match[2]) })
+    } else if ((match = DEL.exec(rest))) {
+      flush()
+      nodes.push({ type: 'del', children: parseInline(match[1]) })
+    } else if ((match = EM.exec(rest)) && (match[1] === '*' || wordStart)) {
+      flush()
+      nodes.push({ type: 'em', children: parseInline(match[2]) })
+    } else {
+      buffer += text[i]
+      i++
+      continue
+    }
+    i += match[0].length
+  }
+
+  flush()
+  return nodes
+}
+
+const TASK_MARKER = /^(\s*(?:>\s?)*\s*(?:[-*+]|\d{1,9}[.)])\s+)\[([ xX])\]/
+
+// Tick or untick the checklist item on `line` of the source
+export function toggleTask(source: string, line: number) {
+  const lines = source.split('\n')
+  const match = TASK_MARKER.exec(lines[line] ?? '')
+  if (!match) return source
+  const mark = match[2] === ' ' ? 'x' : ' '
+  lines[line] = `${match[1]}[${mark}]${lines[line].slice(match[0].length)}`
+  return lines.join('\n')
+}
@@ -0,0 +1,153 @@
+import { describe, expect, it } from 'vitest'
+import {
+  applyMutation,
+  applyPending,
+  groupConflicts,
+  withVersions,
+  type OutboxEntry,
+  type OutboxMutation,
+} from './outbox'
+import { todoFromInsert } from './todos'
+import type { Todo } from '../types/database'
+
+function todo(id: string, fields: Partial<Todo> = {}): Todo {
+  return { ...todoFromInsert({ user_id: 'user', list_id: 'list', text: id }), id, ...fields }
+}
+
+function entry(mutation: OutboxMutation, state: OutboxEntry['state'] = 'pending'): OutboxEntry {
+  return { userId: 'user', mutation, state, error: null, queuedAt: '2026-10-19T10:00:00Z' }
+}
+
+describe('applyMutation', () => {
+  it('adds an inserted row in front, once', () => {
+    const todos = [todo('a')]
+    const insert: OutboxMutation = {
+      type: 'insert',
+      row: { id: 'b', user_id: 'user', list_id: 'list', text: 'B' },
+    }
+    const once = applyMutation(todos, insert)
+    expect(once.map((t) => t.id)).toEqual(['b', 'a'])
+    expect(once[0]).toMatchObject({ text: 'B', status: 'todo', version: 1 })
+    expect(applyMutation(once, insert)).toBe(once)
+  })
+
+  it('sets the version from the mutation, so applying it twice is the same', () => {
+    const todos = [todo('a', { version: 3 })]
+    const update: OutboxMutation = { type: 'update', id: 'a', changes: { text: 'A2' }, version: 3 }
+    const once = applyMutation(todos, update)
+    expect(once[0]).toMatchObject({ text: 'A2', version: 4 })
+    expect(applyMutation(once, update)).toEqual(once)
+  })
+
+  it('leaves the version alone for an update without one', () => {
+    const [updated] = applyMutation([todo('a', { version: 3 })], {
+      type: 'update',
+      id: 'a',
+      changes: { priority: 'high' },
+    })
+    expect(updated.version).toBe(3)
+  })
+
+  it('applies a batch in order and ignores todos it does not have', () => {
+    const todos = [todo('a'), todo('b')]
+    const result = applyMutation(todos, {
+      type: 'batch',
+      updates: [
+        { type: 'update', id: 'a', changes: { text: 'first' } },
+        { type: 'update', id: 'a', changes: { text: 'second' } },
+        { type: 'update', id: 'gone', changes: { text: 'x' } },
+      ],
+    })
+    expect(result.map((t) => t.text)).toEqual(['second', 'b'])
+  })
+
+  it('deletes every listed id and tolerates ones already gone', () => {
+    const todos = [todo('a'), todo('b'), todo('c')]
+    const result = applyMutation(todos, { type: 'delete', ids: ['a', 'c', 'gone'] })
+    expect(result.map((t) => t.id)).toEqual(['b'])
+  })
+})
+
+describe('withVersions', () => {
+  it('pins each update to the version it was made against', () => {
+    const todos = [todo('a', { version: 2 }), todo('b', { version: 5 })]
+    const mutations = withVersions(todos, [
+      { type: 'update', id: 'a', changes: { text: 'one' } },
+      { type: 'update', id: 'a', changes: { text: 'two' } },
+      {
+        type: 'batch',
+        updates: [
+          { type: 'update', id: 'a', changes: { priority: 'low' } },
+          { type: 'update', id: 'b', changes: { priority: 'low' } },
+        ],
+      },
+    ])
+    expect(mutations).toEqual([
+      { type: 'update', id: 'a', changes: { text: 'one' }, version: 2 },
+      { type: 'update', id: 'a', changes: { text: 'two' }, version: 3 },
+      {
+        type: 'batch',
+        updates: [
+          { type: 'update', id: 'a', changes: { priority: 'low' }, version: 4 },
+          { type: 'update', id: 'b', changes: { priority: 'low' }, version: 5 },
+        ],
+      },
+    ])
+  })
+
+  it('keeps a version that is already set and skips unknown todos', () => {
+    const todos = [todo('a', { version: 2 })]
+    const mutations = withVersions(todos, [
+      { type: 'update', id: 'a', changes: { text: 'x' }, version: 7 },
+      { type: 'update', id: 'gone', changes: { text: 'y' } },
+    ])
+    expect(mutations[0]).toMatchObject({ version: 7 })
+    expect(mutations[1]).not.toHaveProperty('version')
+  })
+
+  it('pins updates to a todo inserted earlier in the same list of mutations', () => {
+    const [, update] = withVersions(
+      [],
+      [
+        { type: 'insert', row: { id: 'new', user_id: 'user', list_id: 'list', text: 'New' } },
+        { type: 'update', id: 'new', changes: { completed: true } },
+      ]
+    )
+    expect(update).toMatchObject({ version: 1 })
+  })
+})
+
+describe('applyPending', () => {
+  it('re-applies pending entries for the list only', () => {
+    const todos = [todo('a'), todo('b')]
+    const result = applyPending(
+      todos,
+      [
+        entry({ type: 'update', id: 'a', changes: { text: 'pending' } }),
+        entry({ type: 'update', id: 'b', changes: { text: 'failed' } }, 'failed'),
+        entry({ type: 'insert', row: { id: 'c', user_id: 'user', list_id: 'other', text: 'C' } }),
+        entry({ type: 'update', id: 'b', changes: { list_id: 'other' } }),
+      ],
+      'list'
+    )
+    expect(result.map((t) => [t.id, t.text])).toEqual([['a', 'pending']])
+  })
+})
+
+describe('groupConflicts', () => {
+  it('merges refused updates per todo, keeping the latest server copy', () => {
+    const theirs = todo('a', { text: 'theirs', version: 4 })
+    const conflicts = groupConflicts([
+      { ...entry({ type: 'update', id: 'a', changes: { text: 'mine' } }, 'conflict') },
+      {
+        ...entry({ type: 'update', id: 'a', changes: { priority: 'high' } }, 'conflict'),
+        theirs,
+        rollback: true,
+      },
+      entry({ type: 'update', id: 'b', changes: { text: 'fine' } }),
+    ])
+    expect(conflicts).toEqual([
+      { id: 'a', changes: { text: 'mine', priority: 'high' }, theirs, rollback: true },
+    ])
+  })
+})
@@ -0,0 +1,258 @@
+import { tagRepository } from './tagRepository'
+import { todoRepository } from './todoRepository'
+import { todoFromInsert } from './todos'
+import { stampStatusChange } from './todoStatus'
+import type { Todo, TodoInsert, TodoUpdate } from '../types/database'
+
+// `version` is the todo's version the change was made against; the server
+// refuses the update if the todo has moved on since (see withVersions)
+export type UpdateMutation = { type: 'update'; id: string; changes: TodoUpdate; version?: number }
+
+export type OutboxMutation =
+  // `tagIds` are linked once the row is in (a deleted todo brought back by undo)
+  | { type: 'insert'; row: TodoInsert & { id: string }; tagIds?: string[] }
+  | UpdateMutation
+  // Updates to several todos sent as one request, which the server saves
+  // together or not at all (bulk actions)
+  | { type: 'batch'; updates: UpdateMutation[] }
+  | { type: 'delete'; ids: string[] }
+
+export interface OutboxEntry {
+  seq?: number
+  userId: string
+  mutation: OutboxMutation
+  state: 'pending' | 'failed' | 'conflict'
+  error: string | null
+  queuedAt: string
+  // Dropped instead of kept for a retry if the server rejects it, so the
+  // todo goes back to the server's copy straight away
+  rollback?: boolean
+  // For a conflict, the todo as the server had it when it refused the change
+  theirs?: Todo
+}
+
+const DB_NAME = 'todo-app-outbox'
+const STORE = 'outbox'
+
+let dbPromise: Promise<IDBDatabase> | null = null
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, 1)
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE, {
+          keyPath: 'seq',
+          autoIncrement: true,
+        })
+        store.createIndex('userId', 'userId')
+      }
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => {
+        dbPromise = null
+        reject(request.error)
+      }
+    })
+  }
+  return dbPromise
+}
+
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDb()
+  return new Promise((resolve, reject) => {
+    const request = run(db.transaction(STORE, mode).objectStore(STORE))
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+// Entries come back in the order they were queued (by auto-increment key)
+export function listEntries(userId: string) {
+  return withStore<OutboxEntry[]>('readonly', (store) =>
+    store.index('userId').getAll(userId)
+  )
+}
+
+export async function addEntry(userId: string, mutation: OutboxMutation, rollback = false) {
+  const entry: OutboxEntry = {
+    userId,
+    mutation,
+    state: 'pending',
+    error: null,
+    queuedAt: new Date().toISOString(),
+    ...(rollback ? { rollback } : {}),
+  }
+  const seq = await withStore('readwrite', (store) => store.add(entry))
+  return { ...entry, seq: seq as number }
+}
+
+export function putEntry(entry: OutboxEntry) {
+  return withStore('readwrite', (store) => store.put(entry))
+}
+
+export function removeEntry(seq: number) {
+  return withStore('readwrite', (store) => store.delete(seq))
+}
+
+// Apply a mutation to local state. Every case is idempotent, so pending
+// mutations can be re-applied on top of fresh server data at any time.
+export function applyMutation(todos: Todo[], mutation: OutboxMutation): Todo[] {
+  switch (mutation.type) {
+    case 'insert': {
+      if (todos.some((todo) => todo.id === mutation.row.id)) return todos
+      return [todoFromInsert(mutation.row), ...todos]
+    }
+    // The version is set from the mutation's rather than counted up, so
+    // applying it twice lands on the same version the server will
+    case 'update':
+      return todos.map((todo) =>
+        todo.id === mutation.id
+          ? {
+              ...todo,
+              ...mutation.changes,
+              ...(mutation.version !== undefined ? { version: mutation.version + 1 } : {}),
+            }
+          : todo
+      )
+    case 'batch':
+      return mutation.updates.reduce<Todo[]>(applyMutation, todos)
+    case 'delete':
+      return todos.filter((todo) => !mutation.ids.includes(todo.id))
+  }
+}
+
+// Pin each update to the version of the todo it was made against, counting
+// earlier mutations in the same batch
+export function withVersions(todos: Todo[], mutations: OutboxMutation[]) {
+  let current = todos
+  const pin = (update: UpdateMutation): UpdateMutation => {
+    const todo = current.find((t) => t.id === update.id)
+    return todo && update.version === undefined ? { ...update, version: todo.version } : update
+  }
+  return mutations.map((mutation) => {
+    const versioned =
+      mutation.type === 'update'
+        ? pin(mutation)
+        : mutation.type === 'batch'
+          ? { ...mutation, updates: mutation.updates.map(pin) }
+          : mutation
+    current = applyMutation(current, versioned)
+    return versioned
+  })
+}
+
+// Status changes carry when the todo was started and finished, worked out
+// against the todos as the earlier mutations leave them
+export function withStatusTimes(todos: Todo[], mutations: OutboxMutation[]) {
+  let current = todos
+  const now = new Date().toISOString()
+  const stamp = (update: UpdateMutation): UpdateMutation => {
+    const todo = current.find((t) => t.id === update.id)
+    return todo ? { ...update, changes: stampStatusChange(todo, update.changes, now) } : update
+  }
+  return mutations.map((mutation) => {
+    let stamped = mutation
+    if (mutation.type === 'insert') {
+      stamped = { ...mutation, row: stampStatusChange(null, mutation.row, now) }
+    } else if (mutation.type === 'update') {
+      stamped = stamp(mutation)
+    } else if (mutation.type === 'batch') {
+      stamped = { ...mutation, updates: mutation.updates.map(stamp) }
+    }
+    current = applyMutation(current, stamped)
+    return stamped
+  })
+}
+
+// Re-apply queued changes for one list on top of its todos. Todos a queued
+// move sends to another list leave this one.
+export function applyPending(todos: Todo[], entries: OutboxEntry[], listId: string) {
+  return entries
+    .filter((entry) => entry.state === 'pending')
+    .filter(({ mutation }) => mutation.type !== 'insert' || mutation.row.list_id === listId)
+    .reduce((current, entry) => applyMutation(current, entry.mutation), todos)
+    .filter((todo) => todo.list_id === listId)
+}
+
+async function insertWithTags(row: TodoInsert & { id: string }, tagIds: string[]) {
+  const inserted = await todoRepository.insert(row)
+  if (inserted.error) return inserted
+  return tagRepository.restoreLinks(
+    tagIds.map((tagId) => ({ todo_id: row.id, tag_id: tagId, list_id: row.list_id }))
+  )
+}
+
+export function sendMutation(mutation: OutboxMutation) {
+  switch (mutation.type) {
+    case 'insert':
+      return mutation.tagIds?.length
+        ? insertWithTags(mutation.row, mutation.tagIds)
+        : todoRepository.insert(mutation.row)
+    case 'update':
+      return todoRepository.update(mutation.id, mutation.changes, mutation.version)
+    case 'batch':
+      return todoRepository.updateMany(
+        mutation.updates.map(({ id, changes, version }) => ({ id, changes, version }))
+      )
+    case 'delete':
+      return todoRepository.delete(mutation.ids)
+  }
+}
+
+// Status 0 means the request never reached the server (offline, DNS, CORS);
+// 5xx responses are worth retrying too. Anything else is a real rejection.
+export function isTransientFailure(status: number) {
+  return status === 0 || status >= 500
+}
+
+export function affectedIds(mutation: OutboxMutation) {
+  switch (mutation.type) {
+    case 'insert':
+      return [mutation.row.id]
+    case 'update':
+      return [mutation.id]
+    case 'batch':
+      return mutation.updates.map((update) => update.id)
+    case 'delete':
+      return mutation.ids
+  }
+}
+
+// A todo whose queued updates were refused because it changed elsewhere
+export interface Conflict {
+  id: string
+  // The refused changes merged, oldest first
+  changes: TodoUpdate
+  // The todo as the server had it at the latest refusal
+  theirs: Todo | undefined
+  rollback: boolean
+}
+
+export function groupConflicts(entries: OutboxEntry[]): Conflict[] {
+  const conflicts = new Map<string, Conflict>()
+  for (const entry of entries) {
+    const { mutation } = entry
+    if (entry.state !== 'conflict' || mutation.type !== 'update') continue
+    const current = conflicts.get(mutation.id)
+    conflicts.set(mutation.id, {
+      id: mutation.id,
+      changes: { ...current?.changes, ...mutation.changes },
+      theirs: entry.theirs ?? current?.theirs,
+      rollback: Boolean(current?.rollback || entry.rollback),
+    })
+  }
+  return [...conflicts.values()]
+}
+
+// Whether the other change already did what this one meant to, e.g. both
+// devices completed the same todo; there's nothing to settle then. When each
+// one started or finished it hardly matters.
+export function isRedundant(changes: TodoUpdate, theirs: Todo) {
+  return (Object.keys(changes) as (keyof TodoUpdate)[]).every(
+    (key) =>
+      key === 'started_at' || key === 'completed_at' || changes[key] === theirs[key as keyof Todo]
+  )
+}
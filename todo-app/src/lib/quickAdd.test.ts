@@ -0,0 +1,228 @@
+import { describe, expect, it } from 'vitest'
+import { parseQuickAdd, type QuickAddOptions } from './quickAdd'
+
+// Monday 19 October 2026, 10:00 UTC
+const options: QuickAddOptions = { now: new Date('2026-10-19T10:00:00Z'), timeZone: 'UTC' }
+
+function due(input: string, opts: QuickAddOptions = options) {
+  return parseQuickAdd(input, opts).dueAt
+}
+
+describe('parseQuickAdd', () => {
+  it('leaves plain text alone', () => {
+    expect(parseQuickAdd('Buy milk', options)).toEqual({
+      text: 'Buy milk',
+      tokens: [],
+      dueAt: null,
+      recurrence: null,
+      tags: [],
+      priority: null,
+      status: null,
+    })
+  })
+
+  describe('relative dates', () => {
+    it('reads today, tonight and tomorrow', () => {
+      expect(due('Call mom today')).toBe('2026-10-19T23:59:00.000Z')
+      expect(due('Call mom tonight')).toBe('2026-10-19T20:00:00.000Z')
+      expect(due('Call mom tomorrow')).toBe('2026-10-20T23:59:00.000Z')
+      expect(due('Call mom tmrw')).toBe('2026-10-20T23:59:00.000Z')
+    })
+
+    it('reads weekdays as the next one after today', () => {
+      expect(due('Gym friday')).toBe('2026-10-23T23:59:00.000Z')
+      expect(due('Gym monday')).toBe('2026-10-26T23:59:00.000Z')
+      expect(due('Gym next friday')).toBe('2026-10-30T23:59:00.000Z')
+      expect(due('Gym next week')).toBe('2026-10-26T23:59:00.000Z')
+    })
+
+    it('only reads short weekdays after a lead-in word', () => {
+      expect(due('Gym on fri')).toBe('2026-10-23T23:59:00.000Z')
+      expect(due('Read in the sun')).toBeNull()
+      expect(due('Wed anniversary')).toBeNull()
+    })
+
+    it('reads "in" with days, weeks, hours and minutes', () => {
+      expect(due('Renew in 3 days')).toBe('2026-10-22T23:59:00.000Z')
+      expect(due('Renew in a week')).toBe('2026-10-26T23:59:00.000Z')
+      expect(due('Check oven in 2 hours')).toBe('2026-10-19T12:00:00.000Z')
+      expect(due('Check oven in 15 mins')).toBe('2026-10-19T10:15:00.000Z')
+    })
+
+    it('reads times on their own as today, or tomorrow once passed', () => {
+      expect(due('Standup at 3pm')).toBe('2026-10-19T15:00:00.000Z')
+      expect(due('Standup 21:00')).toBe('2026-10-19T21:00:00.000Z')
+      expect(due('Standup 9am')).toBe('2026-10-20T09:00:00.000Z')
+      expect(due('Lunch noon')).toBe('2026-10-19T12:00:00.000Z')
+    })
+
+    it('reads a date and a time in either order', () => {
+      expect(due('Dentist tomorrow 9:30am')).toBe('2026-10-20T09:30:00.000Z')
+      expect(due('Dentist 9:30 am tomorrow')).toBe('2026-10-20T09:30:00.000Z')
+      expect(due('Dentist friday at noon')).toBe('2026-10-23T12:00:00.000Z')
+    })
+  })
+
+  describe('absolute dates', () => {
+    it('reads ISO dates', () => {
+      expect(due('Taxes 2026-10-25')).toBe('2026-10-25T23:59:00.000Z')
+      expect(due('Taxes 2026-02-30')).toBeNull()
+    })
+
+    it('reads month names on either side of the day', () => {
+      expect(due('Party oct 25')).toBe('2026-10-25T23:59:00.000Z')
+      expect(due('Party 25 October')).toBe('2026-10-25T23:59:00.000Z')
+      expect(due('Party Oct. 25th')).toBe('2026-10-25T23:59:00.000Z')
+      expect(due('Party sept 3')).toBe('2027-09-03T23:59:00.000Z')
+    })
+
+    it('moves dates that have passed to next year unless a year is given', () => {
+      expect(due('Party jan 5')).toBe('2027-01-05T23:59:00.000Z')
+      expect(due('Party jan 5 2026')).toBe('2026-01-05T23:59:00.000Z')
+      expect(due('Party 25 oct 2027 8pm')).toBe('2027-10-25T20:00:00.000Z')
+    })
+
+    it('rejects days a month does not have', () => {
+      const result = parseQuickAdd('Party feb 30', options)
+      expect(result.dueAt).toBeNull()
+      expect(result.text).toBe('Party feb 30')
+    })
+  })
+
+  describe('time zones', () => {
+    // Sunday 18 October, 22:00 in New York
+    const newYork = { now: new Date('2026-10-19T02:00:00Z'), timeZone: 'America/New_York' }
+
+    it('reads today in the given zone, not UTC', () => {
+      expect(due('Call today', newYork)).toBe('2026-10-19T03:59:00.000Z')
+      expect(due('Call tomorrow 9am', newYork)).toBe('2026-10-19T13:00:00.000Z')
+      expect(due('Call monday', newYork)).toBe('2026-10-20T03:59:00.000Z')
+    })
+
+    it('uses the offset of the day the todo is due across a DST change', () => {
+      // London leaves summer time on 25 October 2026
+      const london = { now: new Date('2026-10-24T12:00:00Z'), timeZone: 'Europe/London' }
+      expect(due('Call today 9pm', london)).toBe('2026-10-24T20:00:00.000Z')
+      expect(due('Call tomorrow 9am', london)).toBe('2026-10-25T09:00:00.000Z')
+      expect(due('Call in 2 days', london)).toBe('2026-10-26T23:59:00.000Z')
+
+      // New York starts summer time on 8 March 2026
+      const spring = { now: new Date('2026-03-07T15:00:00Z'), timeZone: 'America/New_York' }
+      expect(due('Call today 9pm', spring)).toBe('2026-03-08T02:00:00.000Z')
+      expect(due('Call tomorrow 9am', spring)).toBe('2026-03-08T13:00:00.000Z')
+    })
+
+    it('takes the first of a repeated hour when clocks go back', () => {
+      const fallBack = { now: new Date('2026-10-31T12:00:00Z'), timeZone: 'America/New_York' }
+      expect(due('Call tomorrow 1:30am', fallBack)).toBe('2026-11-01T05:30:00.000Z')
+    })
+  })
+
+  describe('repeats', () => {
+    it('reads frequencies and intervals', () => {
+      expect(parseQuickAdd('Standup daily', options).recurrence).toBe('FREQ=DAILY')
+      expect(parseQuickAdd('Rent monthly', options).recurrence).toBe('FREQ=MONTHLY')
+      expect(parseQuickAdd('Water plants every 2 weeks', options).recurrence).toBe(
+        'FREQ=WEEKLY;INTERVAL=2'
+      )
+      expect(parseQuickAdd('Haircut every other month', options).recurrence).toBe(
+        'FREQ=MONTHLY;INTERVAL=2'
+      )
+    })
+
+    it('reads weekdays and lists of days', () => {
+      expect(parseQuickAdd('Gym every weekday', options).recurrence).toBe(
+        'FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR'
+      )
+      const result = parseQuickAdd('Gym every mon, wed and fri', options)
+      expect(result.recurrence).toBe('FREQ=WEEKLY;BYDAY=MO,WE,FR')
+      expect(result.text).toBe('Gym')
+    })
+
+    it('leaves a trailing "and" in the text', () => {
+      const result = parseQuickAdd('Gym every monday and stretch', options)
+      expect(result.recurrence).toBe('FREQ=WEEKLY;BYDAY=MO')
+      expect(result.text).toBe('Gym and stretch')
+    })
+
+    it('starts on the first matching day', () => {
+      expect(due('Water plants every 2 weeks')).toBe('2026-10-19T23:59:00.000Z')
+      expect(due('Bins every thursday')).toBe('2026-10-22T23:59:00.000Z')
+      // Monday 9am has passed, so the series starts on Thursday
+      expect(due('Gym every mon and thu 9am')).toBe('2026-10-22T09:00:00.000Z')
+    })
+
+    it('keeps a given date as the first one', () => {
+      const result = parseQuickAdd('Review weekly from 2026-11-02', options)
+      expect(result.recurrence).toBe('FREQ=WEEKLY')
+      expect(result.dueAt).toBe('2026-11-02T23:59:00.000Z')
+    })
+  })
+
+  describe('tags, priority and status', () => {
+    it('collects tags once each, keeping the first spelling', () => {
+      const result = parseQuickAdd('Report #Work #work #q4-review', options)
+      expect(result.tags).toEqual(['Work', 'q4-review'])
+      expect(result.text).toBe('Report')
+    })
+
+    it('ignores a bare # and anything that is not a tag', () => {
+      const result = parseQuickAdd('Issue # 42 about C#', options)
+      expect(result.tags).toEqual([])
+      expect(result.text).toBe('Issue # 42 about C#')
+    })
+
+    it('reads the first priority only', () => {
+      expect(parseQuickAdd('Fix !high', options).priority).toBe('high')
+      expect(parseQuickAdd('Fix !med', options).priority).toBe('medium')
+      const result = parseQuickAdd('Fix !low !urgent', options)
+      expect(result.priority).toBe('low')
+      expect(result.text).toBe('Fix !urgent')
+      expect(parseQuickAdd('Wow !nope', options).priority).toBeNull()
+    })
+
+    it('reads the first status only', () => {
+      expect(parseQuickAdd('Draft @in-progress', options).status).toBe('in-progress')
+      expect(parseQuickAdd('Draft @doing', options).status).toBe('in-progress')
+      expect(parseQuickAdd('Draft @done @todo', options).status).toBe('done')
+      const result = parseQuickAdd('Email @bob', options)
+      expect(result.status).toBeNull()
+      expect(result.text).toBe('Email @bob')
+    })
+
+    it('reports each recognised run with its offsets', () => {
+      const result = parseQuickAdd('Pay rent tomorrow 9am #finance !high @done', options)
+      expect(result.text).toBe('Pay rent')
+      expect(result.tokens).toEqual([
+        { kind: 'date', start: 9, end: 21, text: 'tomorrow 9am' },
+        { kind: 'tag', start: 22, end: 30, text: '#finance' },
+        { kind: 'priority', start: 31, end: 36, text: '!high' },
+        { kind: 'status', start: 37, end: 42, text: '@done' },
+      ])
+    })
+  })
+
+  describe('false positives', () => {
+    it('does not read "may" and "march" as months unless meant', () => {
+      const result = parseQuickAdd('I may 2 go', options)
+      expect(result.dueAt).toBeNull()
+      expect(result.text).toBe('I may 2 go')
+      expect(due('Bands march 4 miles')).toBeNull()
+      expect(due('Trip May 2')).toBe('2027-05-02T23:59:00.000Z')
+      expect(due('Trip on may 2')).toBe('2027-05-02T23:59:00.000Z')
+      expect(due('Trip 2 March')).toBe('2027-03-02T23:59:00.000Z')
+    })
+
+    it('only matches whole month names or their abbreviations', () => {
+      expect(due('Feed octopus 5')).toBeNull()
+      expect(due('Feed 5 octopi')).toBeNull()
+      expect(due('Ju 5')).toBeNull()
+    })
+
+    it('does not read bare numbers as times', () => {
+      expect(due('Buy 2 apples')).toBeNull()
+      expect(due('Room 101')).toBeNull()
+      expect(due('Score 25:99')).toBeNull()
+    })
+  })
+})
@@ -0,0 +1,539 @@
+import { formatRule, type Frequency, type RecurrenceRule, type Weekday } from './recurrence'
+import type { TodoPriority } from './todoPriority'
+import type { TodoStatus } from './todoStatus'
+
+// Quick-add syntax for the new-todo input, e.g.
+//   "Pay rent tomorrow 9am #finance !high @in-progress"
+// - dates: today, tonight, tomorrow, monday / next monday, next week,
+//   in 3 days / 2 weeks / 4 hours, oct 25, 25 oct, 2026-10-25
+// - times: 9am, 9:30pm, 21:00, noon, midnight (optionally after "at")
+// - repeats: daily, weekly, every day, every 2 weeks, every other month,
+//   every weekday, every monday / every mon and thu
+// - #tag, !low / !medium / !high / !urgent, @todo / @in-progress / @done
+// Recognised words are taken out of the text; everything else is kept.
+
+export type QuickAddTokenKind = 'date' | 'recurrence' | 'tag' | 'priority' | 'status'
+
+// A recognised run of the input, as offsets into it
+export interface QuickAddToken {
+  kind: QuickAddTokenKind
+  start: number
+  end: number
+  text: string
+}
+
+export interface QuickAddResult {
+  text: string
+  tokens: QuickAddToken[]
+  dueAt: string | null
+  // An RRULE; without a date the todo is first due on the first matching day
+  recurrence: string | null
+  tags: string[]
+  priority: TodoPriority | null
+  status: TodoStatus | null
+}
+
+export interface QuickAddOptions {
+  now?: Date
+  // IANA zone that "today" and "9am" are read in; defaults to the browser's
+  timeZone?: string
+}
+
+// A date with no time is due at the end of that day
+const END_OF_DAY = { hour: 23, minute: 59 }
+const TONIGHT = { hour: 20, minute: 0 }
+
+const PRIORITY_WORDS: Record<string, TodoPriority> = {
+  low: 'low',
+  medium: 'medium',
+  med: 'medium',
+  high: 'high',
+  urgent: 'urgent',
+}
+
+const STATUS_WORDS: Record<string, TodoStatus> = {
+  todo: 'todo',
+  'to-do': 'todo',
+  'in-progress': 'in-progress',
+  progress: 'in-progress',
+  doing: 'in-progress',
+  done: 'done',
+}
+
+const FREQUENCY_WORDS: Record<string, Frequency> = {
+  daily: 'DAILY',
+  weekly: 'WEEKLY',
+  monthly: 'MONTHLY',
+  yearly: 'YEARLY',
+  annually: 'YEARLY',
+}
+
+const UNIT_FREQUENCIES: Record<string, Frequency> = {
+  day: 'DAILY',
+  week: 'WEEKLY',
+  month: 'MONTHLY',
+  year: 'YEARLY',
+}
+
+// RRULE codes, indexed like WEEKDAYS
+const RULE_WEEKDAYS: Weekday[] = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA']
+
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday']
+const MONTHS = [
+  'january',
+  'february',
+  'march',
+  'april',
+  'may',
+  'june',
+  'july',
+  'august',
+  'september',
+  'october',
+  'november',
+  'december',
+]
+
+interface Word {
+  text: string
+  lower: string
+  start: number
+  end: number
+}
+
+// A calendar day, free of any time zone
+interface Day {
+  year: number
+  month: number // 1-12
+  day: number
+}
+
+interface Time {
+  hour: number
+  minute: number
+}
+
+// What a date phrase resolved to: a day (with or without a time), or an
+// exact instant for "in 3 hours". `timeOnly` marks a time with no day given.
+type DateValue =
+  | { day: Day; time?: Time; defaultTime?: Time; timeOnly?: boolean }
+  | { instant: number }
+
+interface Match<T> {
+  value: T
+  length: number // words consumed
+}
+
+function localTimeZone() {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone
+}
+
+// Wall-clock fields of an instant in a zone
+function zonedParts(instant: number, timeZone: string) {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric',
+    hourCycle: 'h23',
+  }).formatToParts(new Date(instant))
+  const get = (type: string) => Number(parts.find((part) => part.type === type)?.value)
+  return {
+    year: get('year'),
+    month: get('month'),
+    day: get('day'),
+    hour: get('hour'),
+    minute: get('minute'),
+    second: get('second'),
+  }
+}
+
+// How far the zone's wall clock is ahead of UTC at an instant, in ms
+function zoneOffset(instant: number, timeZone: string) {
+  const p = zonedParts(instant, timeZone)
+  const wall = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second)
+  return wall - Math.floor(instant / 1000) * 1000
+}
+
+// The instant a wall-clock time happens in a zone. Checking the offset a
+// second time picks the right side of a daylight saving change.
+function zonedInstant(day: Day, time: Time, timeZone: string) {
+  const wall = Date.UTC(day.year, day.month - 1, day.day, time.hour, time.minute)
+  const first = wall - zoneOffset(wall, timeZone)
+  return wall - zoneOffset(first, timeZone)
+}
+
+function addDays(day: Day, days: number): Day {
+  const date = new Date(Date.UTC(day.year, day.month - 1, day.day + days))
+  return { year: date.getUTCFullYear(), month: date.getUTCMonth() + 1, day: date.getUTCDate() }
+}
+
+function weekday(day: Day) {
+  return new Date(Date.UTC(day.year, day.month - 1, day.day)).getUTCDay()
+}
+
+function compareDays(a: Day, b: Day) {
+  return a.year - b.year || a.month - b.month || a.day - b.day
+}
+
+function isValidDay(day: Day) {
+  const date = new Date(Date.UTC(day.year, day.month - 1, day.day))
+  return date.getUTCMonth() === day.month - 1 && date.getUTCDate() === day.day
+}
+
+// "friday" anywhere; short forms like "fri" or "thurs" only after "on",
+// "next" etc., since "sun", "sat" and "wed" are words too
+function weekdayIndex(word: string, allowShort: boolean) {
+  if (!allowShort || word.length < 3) return WEEKDAYS.indexOf(word)
+  return WEEKDAYS.findIndex((name) => name.startsWith(word))
+}
+
+// Month names that are ordinary words too ("I may 2 go")
+const WORD_MONTHS = ['may', 'march', 'mar']
+
+// "oct", "oct.", "sept" and "october" but not "octo" or "octopus". "may" and
+// "march" only after "on", "by" etc. or with a capital: "May 2".
+function monthIndex(word: Word | undefined, introduced: boolean) {
+  if (!word) return -1
+  const name = word.lower.replace(/\.$/, '')
+  if (WORD_MONTHS.includes(name) && !introduced && word.text === word.lower) return -1
+  return MONTHS.findIndex(
+    (month) => name === month || name === month.slice(0, 3) || (month === 'september' && name === 'sept')
+  )
+}
+
+function dayOfMonth(word: string) {
+  const match = /^(\d{1,2})(st|nd|rd|th)?,?$/.exec(word)
+  return match ? Number(match[1]) : null
+}
+
+function parseTime(words: Word[], i: number): Match<Time> | null {
+  let offset = 0
+  if (words[i]?.lower === 'at') offset = 1
+  const word = words[i + offset]?.lower
+  if (!word) return null
+
+  if (word === 'noon') return { value: { hour: 12, minute: 0 }, length: offset + 1 }
+  if (word === 'midnight') return { value: { hour: 0, minute: 0 }, length: offset + 1 }
+
+  // 9am, 9:30pm, 9 am
+  let match = /^(\d{1,2})(?::(\d{2}))?(am|pm)?$/.exec(word)
+  if (match) {
+    let meridiem = match[3]
+    let length = offset + 1
+    const next = words[i + offset + 1]?.lower
+    if (!meridiem && (next === 'am' || next === 'pm')) {
+      meridiem = next
+      length++
+    }
+    let hour = Number(match[1])
+    const minute = match[2] ? Number(match[2]) : 0
+    if (minute > 59) return null
+
+    if (meridiem) {
+      if (hour < 1 || hour > 12) return null
+      if (hour === 12) hour = 0
+      if (meridiem === 'pm') hour += 12
+      return { value: { hour, minute }, length }
+    }
+    // Bare numbers are too easy to mistake ("buy 2 apples"), so a time
+    // without am/pm needs minutes: 21:00
+    if (!match[2] || hour > 23) return null
+    return { value: { hour, minute }, length }
+  }
+
+  match = /^(\d{1,2})h(\d{2})?$/.exec(word)
+  if (match && Number(match[1]) < 24) {
+    return { value: { hour: Number(match[1]), minute: Number(match[2] ?? 0) }, length: offset + 1 }
+  }
+  return null
+}
+
+function parseDay(
+  words: Word[],
+  i: number,
+  today: Day,
+  introduced = false
+): Match<DateValue> | null {
+  const word = words[i]?.lower
+  if (!word) return null
+  const next = words[i + 1]?.lower
+
+  if (word === 'today') return { value: { day: today }, length: 1 }
+  if (word === 'tonight') return { value: { day: today, defaultTime: TONIGHT }, length: 1 }
+  if (word === 'tomorrow' || word === 'tmrw' || word === 'tmr') {
+    return { value: { day: addDays(today, 1) }, length: 1 }
+  }
+
+  // monday: the next one after today; next monday: the one after that
+  const isNext = word === 'next'
+  const weekdayWord = isNext ? next : word
+  if (weekdayWord) {
+    const index = weekdayIndex(weekdayWord, introduced || isNext)
+    if (index >= 0) {
+      const ahead = (index - weekday(today) + 7) % 7 || 7
+      return {
+        value: { day: addDays(today, ahead + (isNext ? 7 : 0)) },
+        length: isNext ? 2 : 1,
+      }
+    }
+  }
+  // next week: Monday of next week
+  if (isNext && next === 'week') {
+    const ahead = (1 - weekday(today) + 7) % 7 || 7
+    return { value: { day: addDays(today, ahead) }, length: 2 }
+  }
+
+  // in 3 days, in a week, in 2 hours
+  if (word === 'in' && next) {
+    const amount = next === 'a' || next === 'an' ? 1 : /^\d{1,3}$/.test(next) ? Number(next) : null
+    const unit = words[i + 2]?.lower.replace(/s$/, '')
+    if (amount !== null && unit) {
+      if (unit === 'day') return { value: { day: addDays(today, amount) }, length: 3 }
+      if (unit === 'week') return { value: { day: addDays(today, amount * 7) }, length: 3 }
+      const ms = unit === 'hour' || unit === 'hr' ? 3600000 : unit === 'minute' || unit === 'min' ? 60000 : 0
+      if (ms) return { value: { instant: ms * amount }, length: 3 }
+    }
+  }
+
+  // 2026-10-25
+  let match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(word)
+  if (match) {
+    const day = { year: Number(match[1]), month: Number(match[2]), day: Number(match[3]) }
+    return isValidDay(day) ? { value: { day }, length: 1 } : null
+  }
+
+  // oct 25, 25 oct, with an optional year; without one, the next such date
+  let month = monthIndex(words[i], introduced)
+  let date = next ? dayOfMonth(next) : null
+  if (month < 0 || date === null) {
+    date = dayOfMonth(word)
+    month = monthIndex(words[i + 1], introduced)
+  }
+  if (month >= 0 && date !== null) {
+    let length = 2
+    let year = today.year
+    const yearWord = words[i + 2]?.lower
+    match = yearWord ? /^(\d{4})$/.exec(yearWord) : null
+    if (match) {
+      year = Number(match[1])
+      length = 3
+    }
+    let day = { year, month: month + 1, day: date }
+    if (!match && compareDays(day, today) < 0) day = { ...day, year: year + 1 }
+    return isValidDay(day) ? { value: { day }, length } : null
+  }
+
+  return null
+}
+
+// "daily", "every 2 weeks", "every weekday", "every mon, wed and fri"
+function parseRepeat(words: Word[], i: number): Match<RecurrenceRule> | null {
+  const word = words[i]?.lower
+  if (!word) return null
+  const rule = (freq: Frequency, interval = 1, byDay: Weekday[] = []): RecurrenceRule => ({
+    freq,
+    interval,
+    byDay: byDay.map((weekday) => ({ weekday, nth: null })),
+    byMonthDay: [],
+    until: null,
+  })
+
+  if (FREQUENCY_WORDS[word]) return { value: rule(FREQUENCY_WORDS[word]), length: 1 }
+  if (word !== 'every') return null
+
+  let length = 1
+  let interval = 1
+  const count = words[i + 1]?.lower
+  if (count === 'other') {
+    interval = 2
+    length++
+  } else if (count && /^\d{1,3}$/.test(count)) {
+    interval = Number(count)
+    length++
+  }
+  if (interval < 1) return null
+
+  const unit = words[i + length]?.lower
+  if (!unit) return null
+  const freq = UNIT_FREQUENCIES[unit.replace(/s$/, '')]
+  if (freq) return { value: rule(freq, interval), length: length + 1 }
+  if ((unit === 'weekday' || unit === 'weekdays') && interval === 1) {
+    return { value: rule('WEEKLY', 1, ['MO', 'TU', 'WE', 'TH', 'FR']), length: length + 1 }
+  }
+
+  // A list of weekdays, separated by commas and "and"
+  const days: Weekday[] = []
+  while (i + length < words.length) {
+    const next = words[i + length].lower
+    if (days.length > 0 && next === 'and') {
+      length++
+      continue
+    }
+    const index = weekdayIndex(next.replace(/,$/, '').replace(/s$/, ''), true)
+    if (index < 0) break
+    if (!days.includes(RULE_WEEKDAYS[index])) days.push(RULE_WEEKDAYS[index])
+    length++
+  }
+  // Leave a trailing "and" to the text
+  if (words[i + length - 1].lower === 'and') length--
+  return days.length > 0 ? { value: rule('WEEKLY', interval, days), length } : null
+}
+
+// The first day of a series starting today
+function firstDay(rule: RecurrenceRule, today: Day) {
+  if (rule.byDay.length === 0) return today
+  const ahead = Math.min(
+    ...rule.byDay.map((d) => (RULE_WEEKDAYS.indexOf(d.weekday) - weekday(today) + 7) % 7)
+  )
+  return addDays(today, ahead)
+}
+
+// A date with an optional time, a time on its own, or a time then a date
+// ("9am tomorrow"). Lead-in words like "on", "by" and "due" are included.
+function parseDate(words: Word[], i: number, today: Day): Match<DateValue> | null {
+  const leadIn = ['on', 'by', 'due'].includes(words[i]?.lower) ? 1 : 0
+  const start = i + leadIn
+
+  const day = parseDay(words, start, today, leadIn > 0)
+  if (day) {
+    if ('instant' in day.value) return { ...day, length: day.length + leadIn }
+    const time = parseTime(words, start + day.length)
+    return {
+      value: { ...day.value, time: time?.value },
+      length: leadIn + day.length + (time?.length ?? 0),
+    }
+  }
+
+  const time = parseTime(words, start)
+  if (time) {
+    const after = parseDay(words, start + time.length, today)
+    if (after && !('instant' in after.value)) {
+      return {
+        value: { ...after.value, time: time.value },
+        length: leadIn + time.length + after.length,
+      }
+    }
+    return { value: { day: today, time: time.value, timeOnly: true }, length: leadIn + time.length }
+  }
+  return null
+}
+
+function resolveDate(value: DateValue, now: Date, timeZone: string) {
+  if ('instant' in value) return new Date(now.getTime() + value.instant)
+
+  const instant = zonedInstant(value.day, value.time ?? value.defaultTime ?? END_OF_DAY, timeZone)
+  // A bare time that has already passed today means tomorrow
+  if (value.time && instant <= now.getTime() && compareDays(value.day, todayIn(now, timeZone)) === 0) {
+    return new Date(zonedInstant(addDays(value.day, 1), value.time, timeZone))
+  }
+  return new Date(instant)
+}
+
+function todayIn(now: Date, timeZone: string): Day {
+  const { year, month, day } = zonedParts(now.getTime(), timeZone)
+  return { year, month, day }
+}
+
+export function parseQuickAdd(input: string, options: QuickAddOptions = {}): QuickAddResult {
+  const now = options.now ?? new Date()
+  const timeZone = options.timeZone ?? localTimeZone()
+  const today = todayIn(now, timeZone)
+
+  const words: Word[] = [...input.matchAll(/\S+/g)].map((match) => ({
+    text: match[0],
+    lower: match[0].toLowerCase(),
+    start: match.index!,
+    end: match.index! + match[0].length,
+  }))
+
+  const tokens: QuickAddToken[] = []
+  const tags: string[] = []
+  let priority: TodoPriority | null = null
+  let status: TodoStatus | null = null
+  let date: DateValue | null = null
+  let repeat: RecurrenceRule | null = null
+
+  const addToken = (kind: QuickAddTokenKind, from: number, count: number) => {
+    const start = words[from].start
+    const end = words[from + count - 1].end
+    tokens.push({ kind, start, end, text: input.slice(start, end) })
+  }
+
+  for (let i = 0; i < words.length; i++) {
+    const { text, lower } = words[i]
+
+    const tag = /^#([\p{L}\p{N}_-]+)$/u.exec(text)
+    if (tag) {
+      if (!tags.some((name) => name.toLowerCase() === tag[1].toLowerCase())) tags.push(tag[1])
+      addToken('tag', i, 1)
+      continue
+    }
+
+    // Only the first priority, status and date count; repeats stay as text
+    if (lower.startsWith('!') && !priority && PRIORITY_WORDS[lower.slice(1)]) {
+      priority = PRIORITY_WORDS[lower.slice(1)]
+      addToken('priority', i, 1)
+      continue
+    }
+
+    if (lower.startsWith('@') && !status && STATUS_WORDS[lower.slice(1)]) {
+      status = STATUS_WORDS[lower.slice(1)]
+      addToken('status', i, 1)
+      continue
+    }
+
+    // Before dates, so "every monday" isn't read as a due date
+    if (!repeat) {
+      const match = parseRepeat(words, i)
+      if (match) {
+        repeat = match.value
+        addToken('recurrence', i, match.length)
+        i += match.length - 1
+        continue
+      }
+    }
+
+    if (!date) {
+      const match = parseDate(words, i, today)
+      if (match) {
+        date = match.value
+        addToken('date', i, match.length)
+        i += match.length - 1
+      }
+    }
+  }
+
+  // Cut the tokens out of the text, closing up the gaps they leave
+  let text = ''
+  let from = 0
+  for (const token of tokens) {
+    text += input.slice(from, token.start)
+    from = token.end
+  }
+  text = (text + input.slice(from)).replace(/\s+/g, ' ').trim()
+
+  // A repeat without a day starts on its first matching day, at the time
+  // given if any, or the next one if that time has already passed today
+  if (repeat && (!date || ('day' in date && date.timeOnly))) {
+    const time = date && 'day' in date ? date.time : undefined
+    let day = firstDay(repeat, today)
+    if (time && compareDays(day, today) === 0 && zonedInstant(day, time, timeZone) <= now.getTime()) {
+      day = firstDay(repeat, addDays(today, 1))
+    }
+    date = { day, time }
+  }
+
+  return {
+    text,
+    tokens,
+    dueAt: date ? resolveDate(date, now, timeZone).toISOString() : null,
+    recurrence: repeat ? formatRule(repeat) : null,
+    tags,
+    priority,
+    status,
+  }
+}
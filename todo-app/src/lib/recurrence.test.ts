@@ -0,0 +1,111 @@
+import { describe, expect, it } from 'vitest'
+import { describeRule, firstOccurrence, formatRule, nextOccurrence, parseRule } from './recurrence'
+
+function rule(value: string) {
+  const parsed = parseRule(value)
+  if (!parsed) throw new Error(`Bad rule: ${value}`)
+  return parsed
+}
+
+// Local dates, since occurrences follow the browser's time zone
+function day(year: number, month: number, date: number, hours = 9) {
+  return new Date(year, month - 1, date, hours)
+}
+
+function next(value: string, current: Date) {
+  return nextOccurrence(rule(value), current)
+}
+
+describe('parseRule', () => {
+  it('reads the supported parts and writes them back', () => {
+    const value = 'FREQ=MONTHLY;INTERVAL=2;BYDAY=-1FR'
+    expect(formatRule(rule(`RRULE:${value}`))).toBe(value)
+    expect(rule('freq=weekly;byday=mo,we').byDay).toEqual([
+      { weekday: 'MO', nth: null },
+      { weekday: 'WE', nth: null },
+    ])
+  })
+
+  it('rejects parts it does not support', () => {
+    expect(parseRule('FREQ=DAILY;COUNT=3')).toBeNull()
+    expect(parseRule('FREQ=HOURLY')).toBeNull()
+    expect(parseRule('INTERVAL=2')).toBeNull()
+    expect(parseRule('FREQ=WEEKLY;BYDAY=1MO')).toBeNull()
+    expect(parseRule('FREQ=MONTHLY;BYMONTHDAY=32')).toBeNull()
+  })
+
+  it('describes ordinals and the last day', () => {
+    expect(describeRule(rule('FREQ=MONTHLY;BYDAY=-1FR'))).toBe('Monthly on the last Friday')
+    expect(describeRule(rule('FREQ=MONTHLY;BYMONTHDAY=-1'))).toBe('Monthly on the last day')
+    expect(describeRule(rule('FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR'))).toBe('Every weekday')
+  })
+})
+
+describe('nextOccurrence', () => {
+  it('finds the last Friday of each month', () => {
+    const lastFriday = 'FREQ=MONTHLY;BYDAY=-1FR'
+    expect(next(lastFriday, day(2026, 10, 30))).toEqual(day(2026, 11, 27))
+    expect(next(lastFriday, day(2026, 11, 27))).toEqual(day(2026, 12, 25))
+    // January 2027 has five Fridays
+    expect(next(lastFriday, day(2026, 12, 25))).toEqual(day(2027, 1, 29))
+  })
+
+  it('moves to the last Friday from an earlier one in the same month', () => {
+    expect(next('FREQ=MONTHLY;BYDAY=-1FR', day(2026, 10, 23))).toEqual(day(2026, 10, 30))
+  })
+
+  it('tells the fourth Friday from the last one', () => {
+    expect(next('FREQ=MONTHLY;BYDAY=4FR', day(2026, 12, 25))).toEqual(day(2027, 1, 22))
+  })
+
+  it('skips months without a 31st', () => {
+    const monthly = 'FREQ=MONTHLY'
+    expect(next(monthly, day(2027, 1, 31))).toEqual(day(2027, 3, 31))
+    expect(next(monthly, day(2027, 3, 31))).toEqual(day(2027, 5, 31))
+    expect(next('FREQ=MONTHLY;BYMONTHDAY=31', day(2027, 1, 31))).toEqual(day(2027, 3, 31))
+  })
+
+  it('lands on the last day of short months with BYMONTHDAY=-1', () => {
+    const lastDay = 'FREQ=MONTHLY;BYMONTHDAY=-1'
+    expect(next(lastDay, day(2027, 1, 31))).toEqual(day(2027, 2, 28))
+    expect(next(lastDay, day(2028, 1, 31))).toEqual(day(2028, 2, 29))
+    expect(next(lastDay, day(2027, 2, 28))).toEqual(day(2027, 3, 31))
+  })
+
+  it('keeps the time of day', () => {
+    expect(next('FREQ=DAILY', day(2026, 10, 19, 18))).toEqual(day(2026, 10, 20, 18))
+  })
+
+  it('honours intervals on weekly rules with days', () => {
+    const rule = 'FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH'
+    expect(next(rule, day(2026, 10, 19))).toEqual(day(2026, 10, 22))
+    expect(next(rule, day(2026, 10, 22))).toEqual(day(2026, 11, 2))
+  })
+
+  it('waits four years for Feb 29', () => {
+    expect(next('FREQ=YEARLY', day(2028, 2, 29))).toEqual(day(2032, 2, 29))
+  })
+
+  it('ends the series after UNTIL', () => {
+    const until = 'FREQ=MONTHLY;BYDAY=-1FR;UNTIL=20261231'
+    expect(next(until, day(2026, 11, 27))).toEqual(day(2026, 12, 25))
+    expect(next(until, day(2026, 12, 25))).toBeNull()
+  })
+})
+
+describe('firstOccurrence', () => {
+  it('keeps a start that already matches', () => {
+    const start = day(2026, 10, 30)
+    expect(firstOccurrence(rule('FREQ=MONTHLY;BYDAY=-1FR'), start)).toBe(start)
+  })
+
+  it('moves to the first matching day, ignoring the interval', () => {
+    const start = day(2026, 10, 19)
+    expect(firstOccurrence(rule('FREQ=MONTHLY;INTERVAL=3;BYDAY=-1FR'), start)).toEqual(
+      day(2026, 10, 30)
+    )
+    expect(firstOccurrence(rule('FREQ=MONTHLY;BYMONTHDAY=31'), day(2026, 11, 1))).toEqual(
+      day(2026, 12, 31)
+    )
+  })
+})
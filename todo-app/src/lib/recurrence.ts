@@ -0,0 +1,291 @@
+// Recurring todos, using a subset of RFC 5545 RRULE:
+//   FREQ=DAILY|WEEKLY|MONTHLY|YEARLY
+//   INTERVAL=n
+//   BYDAY=MO,TU,...      (MONTHLY also takes 1MO, -1FR: first Monday, last Friday)
+//   BYMONTHDAY=1,15,-1   (MONTHLY only; -1 is the last day)
+//   UNTIL=20261231 or 20261231T235959Z
+// Weeks start on Monday. Rules with other parts (COUNT, BYSETPOS...) aren't
+// supported and parse as null. Occurrences keep the time of day of the todo's
+// due date in the browser's time zone.
+
+export type Frequency = 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY'
+
+export type Weekday = 'MO' | 'TU' | 'WE' | 'TH' | 'FR' | 'SA' | 'SU'
+
+export interface ByDay {
+  weekday: Weekday
+  // Which one in the month (1, 2, -1 for the last); null means every one
+  nth: number | null
+}
+
+export interface RecurrenceRule {
+  freq: Frequency
+  interval: number
+  byDay: ByDay[]
+  byMonthDay: number[]
+  until: Date | null
+}
+
+// Indexed like Date.getDay()
+const WEEKDAYS: Weekday[] = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA']
+const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday']
+const FREQUENCIES: Frequency[] = ['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY']
+const WORKWEEK: Weekday[] = ['MO', 'TU', 'WE', 'TH', 'FR']
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export function weekdayOf(date: Date): Weekday {
+  return WEEKDAYS[date.getDay()]
+}
+
+function parseUntil(value: string) {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z?))?$/.exec(value)
+  if (!match) return null
+  const [, y, m, d, hh, mm, ss, utc] = match
+  if (!hh) return new Date(Number(y), Number(m) - 1, Number(d), 23, 59, 59)
+  const parts = [Number(y), Number(m) - 1, Number(d), Number(hh), Number(mm), Number(ss)] as const
+  return utc ? new Date(Date.UTC(...parts)) : new Date(...parts)
+}
+
+function formatUntil(date: Date) {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '')
+}
+
+// Parse an RRULE value, with or without the "RRULE:" prefix
+export function parseRule(value: string): RecurrenceRule | null {
+  const rule: RecurrenceRule = {
+    freq: 'DAILY',
+    interval: 1,
+    byDay: [],
+    byMonthDay: [],
+    until: null,
+  }
+  let hasFreq = false
+
+  for (const part of value.trim().replace(/^RRULE:/i, '').split(';')) {
+    if (!part) continue
+    const [key, val = ''] = part.toUpperCase().split('=')
+
+    switch (key) {
+      case 'FREQ':
+        if (!FREQUENCIES.includes(val as Frequency)) return null
+        rule.freq = val as Frequency
+        hasFreq = true
+        break
+      case 'INTERVAL': {
+        const interval = Number(val)
+        if (!Number.isInteger(interval) || interval < 1 || interval > 999) return null
+        rule.interval = interval
+        break
+      }
+      case 'BYDAY':
+        for (const item of val.split(',')) {
+          const match = /^([+-]?[1-5])?(MO|TU|WE|TH|FR|SA|SU)$/.exec(item)
+          if (!match) return null
+          rule.byDay.push({ weekday: match[2] as Weekday, nth: match[1] ? Number(match[1]) : null })
+        }
+        break
+      case 'BYMONTHDAY':
+        for (const item of val.split(',')) {
+          const day = Number(item)
+          if (!Number.isInteger(day) || day === 0 || day < -31 || day > 31) return null
+          rule.byMonthDay.push(day)
+        }
+        break
+      case 'UNTIL':
+        rule.until = parseUntil(val)
+        if (!rule.until) return null
+        break
+      case 'WKST':
+        if (val !== 'MO') return null
+        break
+      default:
+        return null
+    }
+  }
+
+  if (!hasFreq) return null
+  // Ordinals only mean something within a month
+  if (rule.freq !== 'MONTHLY' && rule.byDay.some((d) => d.nth !== null)) return null
+  if (rule.freq !== 'MONTHLY' && rule.byMonthDay.length > 0) return null
+  return rule
+}
+
+export function formatRule(rule: RecurrenceRule) {
+  const parts = [`FREQ=${rule.freq}`]
+  if (rule.interval !== 1) parts.push(`INTERVAL=${rule.interval}`)
+  if (rule.byDay.length > 0) {
+    parts.push(`BYDAY=${rule.byDay.map((d) => `${d.nth ?? ''}${d.weekday}`).join(',')}`)
+  }
+  if (rule.byMonthDay.length > 0) parts.push(`BYMONTHDAY=${rule.byMonthDay.join(',')}`)
+  if (rule.until) parts.push(`UNTIL=${formatUntil(rule.until)}`)
+  return parts.join(';')
+}
+
+function ordinal(n: number): string {
+  if (n === -1) return 'last'
+  if (n < 0) return `${ordinal(-n)} to last`
+  const teen = n % 100 >= 11 && n % 100 <= 13
+  const suffix = teen ? 'th' : ['th', 'st', 'nd', 'rd'][n % 10] ?? 'th'
+  return `${n}${suffix}`
+}
+
+function dayName(weekday: Weekday, short = false) {
+  const name = WEEKDAY_NAMES[WEEKDAYS.indexOf(weekday)]
+  return short ? name.slice(0, 3) : name
+}
+
+// "Every 2 weeks on Mon, Thu", "Monthly on the last Friday"
+export function describeRule(rule: RecurrenceRule) {
+  const units = { DAILY: 'day', WEEKLY: 'week', MONTHLY: 'month', YEARLY: 'year' }
+  const adverbs = { DAILY: 'Daily', WEEKLY: 'Weekly', MONTHLY: 'Monthly', YEARLY: 'Yearly' }
+  let text =
+    rule.interval === 1 ? adverbs[rule.freq] : `Every ${rule.interval} ${units[rule.freq]}s`
+
+  const days = rule.byDay.map((d) => d.weekday)
+  if (
+    rule.freq === 'WEEKLY' &&
+    rule.interval === 1 &&
+    days.length === WORKWEEK.length &&
+    WORKWEEK.every((day) => days.includes(day))
+  ) {
+    text = 'Every weekday'
+  } else if (rule.byDay.length > 0) {
+    const names = rule.byDay.map((d) =>
+      d.nth === null
+        ? dayName(d.weekday, rule.byDay.length > 1)
+        : `the ${ordinal(d.nth)} ${dayName(d.weekday)}`
+    )
+    text += ` on ${names.join(', ')}`
+  } else if (rule.byMonthDay.length > 0) {
+    const days = rule.byMonthDay.map((day) => (day === -1 ? 'last day' : ordinal(day)))
+    text += ` on the ${days.join(', ')}`
+  }
+
+  if (rule.until) {
+    const until = rule.until.toLocaleDateString(undefined, {
+      month: 'short',
+      day: 'numeric',
+      year: 'numeric',
+    })
+    text += ` until ${until}`
+  }
+  return text
+}
+
+// Days since the epoch for a local date, unaffected by daylight saving
+function dayNumber(date: Date) {
+  return Math.round(Date.UTC(date.getFullYear(), date.getMonth(), date.getDate()) / DAY_MS)
+}
+
+function mondayOf(date: Date) {
+  return dayNumber(date) - ((date.getDay() + 6) % 7)
+}
+
+function daysInMonth(date: Date) {
+  return new Date(date.getFullYear(), date.getMonth() + 1, 0).getDate()
+}
+
+function matchesMonthDay(day: number, date: Date) {
+  return day === date.getDate() || day === date.getDate() - daysInMonth(date) - 1
+}
+
+function matchesByDay(byDay: ByDay, date: Date) {
+  if (WEEKDAYS[date.getDay()] !== byDay.weekday) return false
+  if (byDay.nth === null) return true
+  const fromStart = Math.ceil(date.getDate() / 7)
+  const fromEnd = -Math.ceil((daysInMonth(date) - date.getDate() + 1) / 7)
+  return byDay.nth === fromStart || byDay.nth === fromEnd
+}
+
+// Whether `date` is an occurrence of a series that has one on `anchor`
+function matches(rule: RecurrenceRule, anchor: Date, date: Date) {
+  const byDay = rule.byDay.length === 0 || rule.byDay.some((d) => matchesByDay(d, date))
+
+  switch (rule.freq) {
+    case 'DAILY':
+      return (dayNumber(date) - dayNumber(anchor)) % rule.interval === 0 && byDay
+    case 'WEEKLY': {
+      const weeks = (mondayOf(date) - mondayOf(anchor)) / 7
+      if (weeks % rule.interval !== 0) return false
+      return rule.byDay.length > 0 ? byDay : date.getDay() === anchor.getDay()
+    }
+    case 'MONTHLY': {
+      const months =
+        (date.getFullYear() - anchor.getFullYear()) * 12 + date.getMonth() - anchor.getMonth()
+      if (months % rule.interval !== 0) return false
+      if (rule.byMonthDay.length > 0) {
+        return rule.byMonthDay.some((day) => matchesMonthDay(day, date))
+      }
+      // Months without the anchor's day (the 31st) are skipped, as in RFC 5545
+      return rule.byDay.length > 0 ? byDay : date.getDate() === anchor.getDate()
+    }
+    case 'YEARLY':
+      return (
+        (date.getFullYear() - anchor.getFullYear()) % rule.interval === 0 &&
+        date.getMonth() === anchor.getMonth() &&
+        date.getDate() === anchor.getDate() &&
+        byDay
+      )
+  }
+}
+
+// Look far enough ahead for Feb 29 every few years
+function searchLimit(rule: RecurrenceRule) {
+  return 366 * 8 * rule.interval
+}
+
+// The first occurrence strictly after `current`, which is itself taken to be
+// an occurrence. Null once the series has ended.
+export function nextOccurrence(rule: RecurrenceRule, current: Date): Date | null {
+  for (let i = 1; i <= searchLimit(rule); i++) {
+    const date = new Date(
+      current.getFullYear(),
+      current.getMonth(),
+      current.getDate() + i,
+      current.getHours(),
+      current.getMinutes()
+    )
+    if (!matches(rule, current, date)) continue
+    return rule.until && date > rule.until ? null : date
+  }
+  return null
+}
+
+// The first occurrence on or after `start`'s day, at `start`'s time, for a
+// series beginning then
+export function firstOccurrence(rule: RecurrenceRule, start: Date): Date | null {
+  if (rule.byDay.length === 0 && rule.byMonthDay.length === 0) return start
+  const matchesStart =
+    rule.byDay.some((d) => matchesByDay(d, start)) ||
+    rule.byMonthDay.some((day) => matchesMonthDay(day, start))
+  if (matchesStart) return start
+
+  // Step a day at a time; the interval only counts from the first occurrence
+  const loose = { ...rule, interval: 1 }
+  return nextOccurrence(loose, start)
+}
+
+// A stable id for the occurrence that follows a todo. Everyone who completes
+// the todo derives the same id, so the second insert of the next occurrence
+// is a no-op instead of a duplicate. (A 128-bit hash, laid out as a UUID.)
+export function occurrenceId(todoId: string) {
+  const seed = `${todoId}:next`
+  const words = [0x9e3779b9, 0x85ebca6b, 0xc2b2ae35, 0x27d4eb2f].map((salt) => {
+    let h = salt ^ seed.length
+    for (let i = 0; i < seed.length; i++) {
+      h = Math.imul(h ^ seed.charCodeAt(i), 0x5bd1e995)
+      h ^= h >>> 15
+    }
+    h = Math.imul(h ^ (h >>> 13), 0xc2b2ae35)
+    return ((h ^ (h >>> 16)) >>> 0).toString(16).padStart(8, '0')
+  })
+  const hex = words.join('')
+  // Version 8 (custom) and the RFC 4122 variant
+  return [
+    hex.slice(0, 8),
+    hex.slice(8, 12),
+    `8${hex.slice(13, 16)}`,
+    `${((parseInt(hex[16], 16) & 0x3) | 0x8).toString(16)}${hex.slice(17, 20)}`,
+    hex.slice(20, 32),
+  ].join('-')
+}
@@ -0,0 +1,27 @@
+import { hasSupabaseConfig } from './supabase'
+
+// Shaped like a PostgREST response so callers can tell network failures
+// (status 0) from server rejections regardless of the backend
+export interface RepositoryError {
+  message: string
+}
+
+export interface RepositoryResult<T = null> {
+  data: T | null
+  error: RepositoryError | null
+  status: number
+}
+
+// A compare-and-set update found the row at a different version than the one
+// the change was made against (HTTP 409 Conflict)
+export const CONFLICT_STATUS = 409
+
+export type RowChange<T> =
+  | { type: 'INSERT'; row: T }
+  | { type: 'UPDATE'; row: T }
+  | { type: 'DELETE'; id: string }
+
+// Without Supabase credentials the app runs entirely in this browser
+export const isLocalMode = !hasSupabaseConfig
+
+export const LOCAL_USER_ID = 'local-user'
@@ -0,0 +1,95 @@
+// Client-side routes. The path picks the screen; the query string belongs to
+// the todo filter (see useTodoFilter) and is carried over between the app's
+// own screens.
+export type Route =
+  | { name: 'home' }
+  | { name: 'list'; id: string }
+  | { name: 'todo'; id: string }
+  | { name: 'settings' }
+  | { name: 'login'; next: string | null }
+  | { name: 'callback' }
+  | { name: 'notFound' }
+
+export const paths = {
+  home: '/',
+  list: (id: string) => `/list/${encodeURIComponent(id)}`,
+  todo: (id: string) => `/todo/${encodeURIComponent(id)}`,
+  settings: '/settings',
+  // Where to go afterwards rides along, unless it's just the home page
+  login: (next?: string) =>
+    next && next !== '/' ? `/login?next=${encodeURIComponent(next)}` : '/login',
+  callback: '/auth/callback',
+}
+
+export function parseRoute(pathname: string, search: string): Route {
+  let segments: string[]
+  try {
+    segments = pathname.split('/').filter(Boolean).map(decodeURIComponent)
+  } catch {
+    return { name: 'notFound' }
+  }
+
+  if (segments.length === 0) return { name: 'home' }
+  if (segments.length === 2 && segments[0] === 'list') return { name: 'list', id: segments[1] }
+  if (segments.length === 2 && segments[0] === 'todo') return { name: 'todo', id: segments[1] }
+  if (segments.length === 1 && segments[0] === 'settings') return { name: 'settings' }
+  if (segments.length === 1 && segments[0] === 'login') {
+    return { name: 'login', next: safeNext(new URLSearchParams(search).get('next')) }
+  }
+  if (segments.length === 2 && segments[0] === 'auth' && segments[1] === 'callback') {
+    return { name: 'callback' }
+  }
+  return { name: 'notFound' }
+}
+
+export function currentRoute() {
+  return parseRoute(window.location.pathname, window.location.search)
+}
+
+// The current path and query, to come back to after signing in
+export function currentPath() {
+  return window.location.pathname + window.location.search
+}
+
+// Only paths on this site, so a crafted ?next= can't send anyone elsewhere
+export function safeNext(next: string | null) {
+  // "//host" and "/\host" are read as another site by browsers
+  return next && /^\/(?![/\\])/.test(next) ? next : null
+}
+
+const NAVIGATE_EVENT = 'todo-app:navigate'
+
+// Go to a path without reloading. Between the app's screens, a path without
+// a query string keeps the current one (the filter). Every useRoute hears
+// about it, as with back and forward.
+export function navigate(path: string, { replace = false } = {}) {
+  const { name } = currentRoute()
+  const keepQuery = !path.includes('?') && name !== 'login' && name !== 'callback'
+  const target = keepQuery ? path + window.location.search : path
+  if (target === currentPath()) return
+  if (replace) window.history.replaceState(null, '', target)
+  else window.history.pushState(null, '', target)
+  window.dispatchEvent(new Event(NAVIGATE_EVENT))
+}
+
+export function onNavigate(listener: () => void) {
+  window.addEventListener('popstate', listener)
+  window.addEventListener(NAVIGATE_EVENT, listener)
+  return () => {
+    window.removeEventListener('popstate', listener)
+    window.removeEventListener(NAVIGATE_EVENT, listener)
+  }
+}
+
+// Magic links and OAuth come back through /auth/callback, maybe in a new
+// tab, so the page to return to is kept in localStorage rather than the URL
+const RETURN_TO_KEY = 'todo-app:return-to'
+
+export function rememberReturnTo(path: string | null) {
+  if (path) localStorage.setItem(RETURN_TO_KEY, path)
+  else localStorage.removeItem(RETURN_TO_KEY)
+}
+
+export function returnTo() {
+  return safeNext(localStorage.getItem(RETURN_TO_KEY)) ?? paths.home
+}
@@ -0,0 +1,63 @@
+import { supabase } from './supabase'
+import type { ListRole } from '../types/database'
+
+// Sharing only exists with a Supabase backend; local mode has a single user
+
+export type InviteRole = Exclude<ListRole, 'owner'>
+
+export const roleOptions: { value: ListRole; label: string; description: string }[] = [
+  { value: 'owner', label: 'Owner', description: 'Can edit, share and delete the list' },
+  { value: 'editor', label: 'Editor', description: 'Can add, change and delete todos' },
+  { value: 'viewer', label: 'Viewer', description: 'Can only look' },
+]
+
+export function canEdit(role: ListRole | undefined) {
+  return role === 'owner' || role === 'editor'
+}
+
+export function fetchMembers(listId: string) {
+  return supabase
+    .from('list_members')
+    .select('*')
+    .eq('list_id', listId)
+    .order('created_at', { ascending: true })
+}
+
+// Only the owner can read these; RLS returns nothing for everyone else
+export function fetchInvites(listId: string) {
+  return supabase
+    .from('list_invites')
+    .select('*')
+    .eq('list_id', listId)
+    .order('created_at', { ascending: true })
+}
+
+export function inviteMember(listId: string, email: string, role: InviteRole) {
+  return supabase.rpc('invite_list_member', {
+    p_list_id: listId,
+    p_email: email,
+    p_role: role,
+  })
+}
+
+export function updateMemberRole(listId: string, userId: string, role: InviteRole) {
+  return supabase
+    .from('list_members')
+    .update({ role })
+    .eq('list_id', listId)
+    .eq('user_id', userId)
+}
+
+// Also how a member leaves a list
+export function removeMember(listId: string, userId: string) {
+  return supabase.from('list_members').delete().eq('list_id', listId).eq('user_id', userId)
+}
+
+export function cancelInvite(id: string) {
+  return supabase.from('list_invites').delete().eq('id', id)
+}
+
+// Turn invites sent to this user's email before they signed up into memberships
+export function acceptInvites() {
+  return supabase.rpc('accept_list_invites')
+}
@@ -8,7 +8,7 @@ const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY
 export const hasSupabaseConfig = !!(supabaseUrl && supabaseAnonKey)
 
 if (!hasSupabaseConfig) {
-  console.error('Missing Supabase environment variables. Please set VITE_SUPABASE_URL and VITE_SUPABASE_ANON_KEY')
+  console.warn('Missing Supabase environment variables, running in local-only mode. Set VITE_SUPABASE_URL and VITE_SUPABASE_ANON_KEY to sync todos.')
 }
 
 // Create client - will fail gracefully if env vars are missing
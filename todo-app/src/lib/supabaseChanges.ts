@@ -0,0 +1,44 @@
+import { supabase } from './supabase'
+import type { RowChange } from './repository'
+import type { Database } from '../types/database'
+
+type TableName = keyof Database['public']['Tables']
+
+// Subscribe to postgres_changes for one table. Realtime can't filter DELETE
+// events (the old record only carries the primary key), so deletes arrive
+// unfiltered; removing an id we don't have locally is a no-op. Without a
+// filter, RLS decides which rows this user hears about.
+//
+// realtime-js hands back the existing channel for a topic, even one that is
+// still leaving after removeChannel, and subscribing that does nothing. Each
+// subscription gets a topic of its own, so subscribing again straight away
+// (switching lists and back) always joins a fresh channel.
+export function subscribeToTable<T>(
+  channelName: string,
+  table: TableName,
+  filter: string | undefined,
+  onChange: (change: RowChange<T>) => void
+) {
+  const channel = supabase
+    .channel(`${channelName}:${crypto.randomUUID()}`)
+    .on(
+      'postgres_changes',
+      { event: 'INSERT', schema: 'public', table, filter },
+      (payload) => onChange({ type: 'INSERT', row: payload.new as T })
+    )
+    .on(
+      'postgres_changes',
+      { event: 'UPDATE', schema: 'public', table, filter },
+      (payload) => onChange({ type: 'UPDATE', row: payload.new as T })
+    )
+    .on(
+      'postgres_changes',
+      { event: 'DELETE', schema: 'public', table },
+      (payload) => onChange({ type: 'DELETE', id: payload.old.id as string })
+    )
+    .subscribe()
+
+  return () => {
+    supabase.removeChannel(channel)
+  }
+}
@@ -0,0 +1,50 @@
+import { supabase } from './supabase'
+import { subscribeToTable } from './supabaseChanges'
+import type { ListRepository } from './listRepository'
+import type { List, ListMember } from '../types/database'
+
+export function createSupabaseListRepository(): ListRepository {
+  return {
+    async list() {
+      return supabase.from('lists').select('*').order('position', { ascending: true })
+    },
+
+    async roles(userId) {
+      const { data, error, status } = await supabase
+        .from('list_members')
+        .select('list_id, role')
+        .eq('user_id', userId)
+      return {
+        data: data && Object.fromEntries(data.map((member) => [member.list_id, member.role])),
+        error,
+        status,
+      }
+    },
+
+    async insert(row) {
+      return supabase.from('lists').upsert(row, { onConflict: 'id', ignoreDuplicates: true })
+    },
+
+    async update(id, changes) {
+      return supabase.from('lists').update(changes).eq('id', id)
+    },
+
+    async delete(id) {
+      return supabase.from('lists').delete().eq('id', id)
+    },
+
+    // Unfiltered so renames of lists shared with this user come through too
+    subscribe(_userId, onChange) {
+      return subscribeToTable<List>('lists-changes', 'lists', undefined, onChange)
+    },
+
+    subscribeMemberships(userId, onChange) {
+      return subscribeToTable<ListMember>(
+        'memberships-changes',
+        'list_members',
+        `user_id=eq.${userId}`,
+        onChange
+      )
+    },
+  }
+}
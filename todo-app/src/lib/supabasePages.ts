@@ -0,0 +1,27 @@
+import type { PostgrestError } from '@supabase/supabase-js'
+
+// PostgREST answers with at most this many rows (its default max-rows), and
+// says nothing about the ones it left out
+const PAGE_SIZE = 1000
+
+interface PageResult<T> {
+  data: T[] | null
+  error: PostgrestError | null
+  status: number
+}
+
+// Every row of a query, fetched a page at a time until one comes back short.
+// `page` builds the query for rows `from` to `to` (inclusive) and needs an
+// order that ties can't reshuffle between requests, e.g. ending with the id.
+export async function fetchAllPages<T>(
+  page: (from: number, to: number) => PromiseLike<PageResult<T>>
+): Promise<PageResult<T>> {
+  const rows: T[] = []
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const result = await page(from, from + PAGE_SIZE - 1)
+    if (result.error) return { data: null, error: result.error, status: result.status }
+    const data = result.data ?? []
+    rows.push(...data)
+    if (data.length < PAGE_SIZE) return { data: rows, error: null, status: result.status }
+  }
+}
@@ -0,0 +1,63 @@
+import { supabase } from './supabase'
+import { subscribeToTable } from './supabaseChanges'
+import type { TagRepository } from './tagRepository'
+import type { Tag, TodoTag } from '../types/database'
+
+export function createSupabaseTagRepository(): TagRepository {
+  return {
+    async list(listId) {
+      return supabase.from('tags').select('*').eq('list_id', listId).order('name')
+    },
+
+    async insert(row) {
+      return supabase.from('tags').insert(row)
+    },
+
+    async update(id, changes) {
+      return supabase.from('tags').update(changes).eq('id', id)
+    },
+
+    async delete(id) {
+      return supabase.from('tags').delete().eq('id', id)
+    },
+
+    async links(listId) {
+      return supabase.from('todo_tags').select('*').eq('list_id', listId)
+    },
+
+    async addLink(row) {
+      return supabase.from('todo_tags').insert(row)
+    },
+
+    async removeLink(id) {
+      return supabase.from('todo_tags').delete().eq('id', id)
+    },
+
+    async addLinks(rows) {
+      return supabase.from('todo_tags').insert(rows)
+    },
+
+    async removeLinks(ids) {
+      return supabase.from('todo_tags').delete().in('id', ids)
+    },
+
+    async restoreLinks(rows) {
+      return supabase
+        .from('todo_tags')
+        .upsert(rows, { onConflict: 'todo_id,tag_id', ignoreDuplicates: true })
+    },
+
+    subscribe(listId, onChange) {
+      return subscribeToTable<Tag>(`tags-changes:${listId}`, 'tags', `list_id=eq.${listId}`, onChange)
+    },
+
+    subscribeLinks(listId, onChange) {
+      return subscribeToTable<TodoTag>(
+        `todo-tags-changes:${listId}`,
+        'todo_tags',
+        `list_id=eq.${listId}`,
+        onChange
+      )
+    },
+  }
+}
@@ -0,0 +1,42 @@
+import { supabase } from './supabase'
+import { subscribeToTable } from './supabaseChanges'
+import { fetchAllPages } from './supabasePages'
+import { TODO_EVENT_LIMIT } from './todoEvents'
+import type { TodoEventRepository } from './todoEventRepository'
+import type { TodoEvent } from '../types/database'
+
+export function createSupabaseTodoEventRepository(): TodoEventRepository {
+  return {
+    async list(todoId) {
+      return supabase
+        .from('todo_events')
+        .select('*')
+        .eq('todo_id', todoId)
+        .order('created_at', { ascending: false })
+        .order('id', { ascending: false })
+        .limit(TODO_EVENT_LIMIT)
+    },
+
+    async listForList(listId) {
+      return fetchAllPages((from, to) =>
+        supabase
+          .from('todo_events')
+          .select('*')
+          .eq('list_id', listId)
+          .order('id')
+          .range(from, to)
+      )
+    },
+
+    subscribe(todoId, onEvent) {
+      return subscribeToTable<TodoEvent>(
+        `todo-events-${todoId}`,
+        'todo_events',
+        `todo_id=eq.${todoId}`,
+        (change) => {
+          if (change.type === 'INSERT') onEvent(change.row)
+        }
+      )
+    },
+  }
+}
@@ -0,0 +1,119 @@
+import { CONFLICT_STATUS } from './repository'
+import { supabase } from './supabase'
+import { subscribeToTable } from './supabaseChanges'
+import { fetchAllPages } from './supabasePages'
+import { emptyFilter, startOfDay, toTsQuery, type TodoFilter } from './todoFilter'
+import type { TodoRepository } from './todoRepository'
+import type { Todo } from '../types/database'
+
+// Postgres errors for an undefined column or function: what searching gives
+// before the migration adding the search column has been applied
+const SEARCH_MISSING_CODES = ['42703', '42883']
+
+function listQuery(listId: string, filter: TodoFilter, fullText: boolean) {
+  let query = supabase.from('todos').select('*').eq('list_id', listId)
+
+  if (filter.status !== 'all') query = query.eq('status', filter.status)
+  if (filter.completed !== 'all') query = query.eq('completed', filter.completed === 'completed')
+  if (filter.createdFrom) query = query.gte('created_at', startOfDay(filter.createdFrom))
+  if (filter.createdTo) query = query.lt('created_at', startOfDay(filter.createdTo, 1))
+
+  const tsQuery = toTsQuery(filter.q)
+  if (fullText && tsQuery) query = query.textSearch('search', tsQuery, { config: 'simple' })
+
+  return query.order('position').order('id')
+}
+
+export function createSupabaseTodoRepository(): TodoRepository {
+  return {
+    async list(listId, filter = emptyFilter) {
+      const result = await listQuery(listId, filter, true)
+
+      // Without the search column (migration not applied), load without the
+      // search and let the caller match the text on the client
+      if (result.error && SEARCH_MISSING_CODES.includes(result.error.code) && filter.q.trim()) {
+        return listQuery(listId, filter, false)
+      }
+      return result
+    },
+
+    async get(id) {
+      return supabase.from('todos').select('*').eq('id', id).maybeSingle()
+    },
+
+    async listAll() {
+      return fetchAllPages((from, to) =>
+        supabase.from('todos').select('*').order('position').order('id').range(from, to)
+      )
+    },
+
+    async reminders(since) {
+      return supabase
+        .from('todos')
+        .select('*')
+        .eq('completed', false)
+        .gte('remind_at', since)
+        .order('remind_at')
+    },
+
+    async progress() {
+      const { data, error, status } = await supabase.rpc('list_progress')
+      const progress =
+        data &&
+        Object.fromEntries(data.map(({ list_id, total, completed }) => [list_id, { total, completed }]))
+      return { data: progress, error, status }
+    },
+
+    // Inserting an id that already exists does nothing, so replayed inserts
+    // and the next occurrence of a recurring todo can't create duplicates
+    async insert(row) {
+      return supabase.from('todos').upsert(row, { onConflict: 'id', ignoreDuplicates: true })
+    },
+
+    async insertMany(rows) {
+      return supabase.from('todos').upsert(rows, { onConflict: 'id', ignoreDuplicates: true })
+    },
+
+    async update(id, changes, version) {
+      if (version === undefined) return supabase.from('todos').update(changes).eq('id', id)
+
+      const updated = await supabase
+        .from('todos')
+        .update(changes)
+        .eq('id', id)
+        .eq('version', version)
+        .select('id')
+      if (updated.error || updated.data.length > 0) {
+        return { data: null, error: updated.error, status: updated.status }
+      }
+
+      // Nothing matched: the todo was deleted, changed by someone else, or
+      // isn't ours to change
+      const { data, error, status } = await supabase.from('todos').select('*').eq('id', id).maybeSingle()
+      if (error || !data) return { data: null, error, status }
+      if (data.version === version) {
+        return { data: null, error: { message: 'You no longer have permission to edit this task' }, status: 403 }
+      }
+      return { data, error: { message: 'This task was changed elsewhere' }, status: CONFLICT_STATUS }
+    },
+
+    // One transaction on the server (the update_todos function)
+    async updateMany(updates) {
+      const { error, status } = await supabase.rpc('update_todos', { p_updates: updates })
+      return { data: null, error, status }
+    },
+
+    async delete(ids) {
+      return supabase.from('todos').delete().in('id', ids)
+    },
+
+    subscribe(listId, onChange) {
+      return subscribeToTable<Todo>(
+        `todos-changes:${listId}`,
+        'todos',
+        `list_id=eq.${listId}`,
+        onChange
+      )
+    },
+  }
+}
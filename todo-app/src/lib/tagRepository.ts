@@ -0,0 +1,31 @@
+import { isLocalMode, type RepositoryResult, type RowChange } from './repository'
+import { createSupabaseTagRepository } from './supabaseTagRepository'
+import { createLocalTagRepository } from './localTagRepository'
+import type { Tag, TagInsert, TagUpdate, TodoTag, TodoTagInsert } from '../types/database'
+
+export type TagChange = RowChange<Tag>
+export type TodoTagChange = RowChange<TodoTag>
+
+export interface TagRepository {
+  list(listId: string): Promise<RepositoryResult<Tag[]>>
+  insert(row: TagInsert): Promise<RepositoryResult>
+  update(id: string, changes: TagUpdate): Promise<RepositoryResult>
+  // Deleting a tag removes it from every todo
+  delete(id: string): Promise<RepositoryResult>
+  // Which todos in the list carry which tags
+  links(listId: string): Promise<RepositoryResult<TodoTag[]>>
+  addLink(row: TodoTagInsert): Promise<RepositoryResult>
+  removeLink(id: string): Promise<RepositoryResult>
+  // Several at once, for bulk tagging: all of them or none
+  addLinks(rows: TodoTagInsert[]): Promise<RepositoryResult>
+  removeLinks(ids: string[]): Promise<RepositoryResult>
+  // Links for a todo brought back by undo; ones that already exist are left
+  // alone, so a replay doesn't fail
+  restoreLinks(rows: TodoTagInsert[]): Promise<RepositoryResult>
+  subscribe(listId: string, onChange: (change: TagChange) => void): () => void
+  subscribeLinks(listId: string, onChange: (change: TodoTagChange) => void): () => void
+}
+
+export const tagRepository: TagRepository = isLocalMode
+  ? createLocalTagRepository()
+  : createSupabaseTagRepository()
@@ -0,0 +1,49 @@
+import type { Tag, TodoTag } from '../types/database'
+
+export type TagColor = Tag['color']
+
+// How selected filter chips combine: todos with all of them, or any of them
+export type TagMatch = 'all' | 'any'
+
+export const tagColors: { value: TagColor; label: string; className: string }[] = [
+  { value: 'gray', label: 'Gray', className: 'bg-gray-100 text-gray-700 border-gray-200' },
+  { value: 'red', label: 'Red', className: 'bg-red-100 text-red-700 border-red-200' },
+  { value: 'orange', label: 'Orange', className: 'bg-orange-100 text-orange-700 border-orange-200' },
+  { value: 'yellow', label: 'Yellow', className: 'bg-yellow-100 text-yellow-800 border-yellow-200' },
+  { value: 'green', label: 'Green', className: 'bg-green-100 text-green-700 border-green-200' },
+  { value: 'blue', label: 'Blue', className: 'bg-blue-100 text-blue-700 border-blue-200' },
+  { value: 'purple', label: 'Purple', className: 'bg-purple-100 text-purple-700 border-purple-200' },
+  { value: 'pink', label: 'Pink', className: 'bg-pink-100 text-pink-700 border-pink-200' },
+]
+
+export function getTagColor(color: TagColor) {
+  return tagColors.find((opt) => opt.value === color)?.className || tagColors[0].className
+}
+
+// New tags cycle through the palette so neighbouring tags look different
+export function nextTagColor(tags: Tag[]): TagColor {
+  return tagColors[tags.length % tagColors.length].value
+}
+
+export function sortTags(tags: Tag[]) {
+  return [...tags].sort((a, b) => a.name.localeCompare(b.name))
+}
+
+// Tag ids on each todo, keyed by todo id
+export function tagIdsByTodo(links: TodoTag[]) {
+  const byTodo = new Map<string, Set<string>>()
+  for (const link of links) {
+    const ids = byTodo.get(link.todo_id) ?? new Set<string>()
+    ids.add(link.tag_id)
+    byTodo.set(link.todo_id, ids)
+  }
+  return byTodo
+}
+
+export function matchesTags(todoTagIds: Set<string> | undefined, selected: string[], match: TagMatch) {
+  if (selected.length === 0) return true
+  if (!todoTagIds) return false
+  return match === 'all'
+    ? selected.every((id) => todoTagIds.has(id))
+    : selected.some((id) => todoTagIds.has(id))
+}
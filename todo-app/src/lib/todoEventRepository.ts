@@ -0,0 +1,18 @@
+import { isLocalMode, type RepositoryResult } from './repository'
+import { createSupabaseTodoEventRepository } from './supabaseTodoEventRepository'
+import { createLocalTodoEventRepository } from './localTodoEventRepository'
+import type { TodoEvent } from '../types/database'
+
+// Read-only: events are written by the todos trigger (or, in local mode, by
+// the local todo repository)
+export interface TodoEventRepository {
+  // Newest first
+  list(todoId: string): Promise<RepositoryResult<TodoEvent[]>>
+  // Every event in a list, deleted todos' included, oldest first (statistics)
+  listForList(listId: string): Promise<RepositoryResult<TodoEvent[]>>
+  subscribe(todoId: string, onEvent: (event: TodoEvent) => void): () => void
+}
+
+export const todoEventRepository: TodoEventRepository = isLocalMode
+  ? createLocalTodoEventRepository()
+  : createSupabaseTodoEventRepository()
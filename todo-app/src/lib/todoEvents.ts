@@ -0,0 +1,66 @@
+import { getStatusLabel } from './todoStatus'
+import type { Todo, TodoEvent, TodoEventValues } from '../types/database'
+
+// How much of a todo's history the timeline loads
+export const TODO_EVENT_LIMIT = 50
+
+const TRACKED = ['text', 'status', 'completed'] as const
+
+// The tracked columns that differ between two versions of a todo, as the
+// todos_record_event trigger stores them; null when nothing tracked changed
+export function changedValues(before: Todo | null, after: Todo | null) {
+  const old_values: TodoEventValues = {}
+  const new_values: TodoEventValues = {}
+  for (const column of TRACKED) {
+    if (before?.[column] === after?.[column]) continue
+    if (before) Object.assign(old_values, { [column]: before[column] })
+    if (after) Object.assign(new_values, { [column]: after[column] })
+  }
+
+  if (Object.keys(old_values).length === 0 && Object.keys(new_values).length === 0) return null
+  return {
+    old_values: before ? old_values : null,
+    new_values: after ? new_values : null,
+  }
+}
+
+// What happened, without the who: "moved to In Progress", "completed this
+// task and renamed to “Ship it”"
+export function describeEvent(event: TodoEvent) {
+  if (event.action === 'insert') return 'created this task'
+  if (event.action === 'delete') return 'deleted this task'
+
+  const changes = event.new_values ?? {}
+  const parts: string[] = []
+  if (changes.completed !== undefined) {
+    parts.push(changes.completed ? 'completed this task' : 'reopened this task')
+  }
+  // Completing a task moves it to Done as well; that goes without saying
+  if (changes.status && !(changes.completed && changes.status === 'done')) {
+    parts.push(`moved to ${getStatusLabel(changes.status)}`)
+  }
+  if (changes.text !== undefined) {
+    parts.push(`renamed to “${changes.text}”`)
+  }
+  return parts.join(' and ') || 'edited this task'
+}
+
+const UNITS: [Intl.RelativeTimeFormatUnit, number][] = [
+  ['year', 365 * 24 * 60 * 60],
+  ['month', 30 * 24 * 60 * 60],
+  ['week', 7 * 24 * 60 * 60],
+  ['day', 24 * 60 * 60],
+  ['hour', 60 * 60],
+  ['minute', 60],
+]
+
+const relativeTime = new Intl.RelativeTimeFormat(undefined, { numeric: 'auto' })
+
+// "just now", "5 minutes ago", "yesterday", "2 days ago"
+export function timeAgo(iso: string, now = new Date()) {
+  const seconds = (new Date(iso).getTime() - now.getTime()) / 1000
+  for (const [unit, size] of UNITS) {
+    if (Math.abs(seconds) >= size) return relativeTime.format(Math.round(seconds / size), unit)
+  }
+  return 'just now'
+}
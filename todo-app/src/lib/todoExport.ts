@@ -0,0 +1,226 @@
+import { buildTree } from './todos'
+import type { List, Todo } from '../types/database'
+
+export type ExportFormat = 'json' | 'csv' | 'markdown' | 'ics'
+
+export const exportFormats: { value: ExportFormat; label: string; extension: string; type: string }[] = [
+  { value: 'json', label: 'JSON', extension: 'json', type: 'application/json' },
+  { value: 'csv', label: 'CSV', extension: 'csv', type: 'text/csv' },
+  { value: 'markdown', label: 'Markdown checklist', extension: 'md', type: 'text/markdown' },
+  { value: 'ics', label: 'iCalendar (VTODO)', extension: 'ics', type: 'text/calendar' },
+]
+
+// Bumped if the JSON shape changes, so imports can tell old files apart
+export const JSON_EXPORT_VERSION = 1
+
+// Every column of a todo, in the order CSV exports them
+export const TODO_COLUMNS: (keyof Todo)[] = [
+  'id',
+  'list_id',
+  'parent_id',
+  'text',
+  'notes',
+  'completed',
+  'status',
+  'priority',
+  'due_at',
+  'remind_at',
+  'recurrence',
+  'position',
+  'version',
+  'started_at',
+  'completed_at',
+  'created_at',
+  'updated_at',
+  'user_id',
+]
+
+// iCalendar priorities run 1 (highest) to 9 (lowest); 0 is undefined
+export const ICS_PRIORITIES: Record<Todo['priority'], number> = {
+  urgent: 1,
+  high: 3,
+  medium: 5,
+  low: 9,
+  none: 0,
+}
+
+// Parents before their subtasks, each list's todos in list order
+function inListOrder(todos: Todo[]) {
+  const ordered: { todo: Todo; depth: number }[] = []
+  const tree = buildTree(todos)
+  const visit = (todo: Todo, depth: number) => {
+    ordered.push({ todo, depth })
+    for (const child of tree.children.get(todo.id) ?? []) visit(child, depth + 1)
+  }
+  tree.roots.forEach((todo) => visit(todo, 0))
+  return ordered
+}
+
+function groupByList(todos: Todo[], lists: List[]) {
+  const listIds = [...new Set(todos.map((todo) => todo.list_id))]
+  const order = (id: string) => {
+    const index = lists.findIndex((list) => list.id === id)
+    return index < 0 ? lists.length : index
+  }
+  return listIds
+    .sort((a, b) => order(a) - order(b))
+    .map((id) => ({
+      name: lists.find((list) => list.id === id)?.name ?? 'Untitled list',
+      todos: todos.filter((todo) => todo.list_id === id),
+    }))
+}
+
+// List by list, each in list order
+function allInOrder(todos: Todo[], lists: List[]) {
+  return groupByList(todos, lists).flatMap((group) => inListOrder(group.todos))
+}
+
+function toJson(todos: Todo[], lists: List[]) {
+  const file = {
+    version: JSON_EXPORT_VERSION,
+    exported_at: new Date().toISOString(),
+    // The same columns as CSV; rows from Postgres also carry the generated
+    // `search` column, which doesn't belong in a file
+    todos: allInOrder(todos, lists).map(({ todo }) =>
+      Object.fromEntries(TODO_COLUMNS.map((column) => [column, todo[column]]))
+    ),
+  }
+  return JSON.stringify(file, null, 2)
+}
+
+// RFC 4180: quote fields with commas, quotes or line breaks
+function csvField(value: unknown) {
+  if (value === null || value === undefined) return ''
+  const text = String(value)
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+function toCsv(todos: Todo[], lists: List[]) {
+  const rows = allInOrder(todos, lists).map(({ todo }) =>
+    TODO_COLUMNS.map((column) => csvField(todo[column])).join(',')
+  )
+  return [TODO_COLUMNS.join(','), ...rows].join('\r\n') + '\r\n'
+}
+
+function toMarkdown(todos: Todo[], lists: List[]) {
+  const groups = groupByList(todos, lists)
+  return groups
+    .map((group) => {
+      const items = inListOrder(group.todos).map(({ todo, depth }) => {
+        const text = todo.text.replace(/\s*\n\s*/g, ' ')
+        return `${'  '.repeat(depth)}- [${todo.completed ? 'x' : ' '}] ${text}`
+      })
+      return [`## ${group.name}`, '', ...items].join('\n')
+    })
+    .join('\n\n') + '\n'
+}
+
+function icsText(value: string) {
+  return value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/([,;])/g, '\\$1')
+}
+
+function icsDate(iso: string) {
+  return new Date(iso).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '')
+}
+
+// Content lines are folded at 75 octets, continuing with a leading space
+function foldLine(line: string) {
+  const bytes = new TextEncoder().encode(line)
+  if (bytes.length <= 75) return line
+  const decoder = new TextDecoder()
+  const parts: string[] = []
+  let start = 0
+  while (start < bytes.length) {
+    let end = Math.min(start + (start === 0 ? 75 : 74), bytes.length)
+    // Don't split a multi-byte character
+    while (end < bytes.length && (bytes[end] & 0xc0) === 0x80) end--
+    parts.push(decoder.decode(bytes.slice(start, end)))
+    start = end
+  }
+  return parts.join('\r\n ')
+}
+
+function icsStatus(todo: Todo) {
+  if (todo.completed || todo.status === 'done') return 'COMPLETED'
+  return todo.status === 'in-progress' ? 'IN-PROCESS' : 'NEEDS-ACTION'
+}
+
+function toIcs(todos: Todo[], lists: List[]) {
+  const stamp = icsDate(new Date().toISOString())
+  const listNames = new Map(lists.map((list) => [list.id, list.name]))
+  const lines = ['BEGIN:VCALENDAR', 'VERSION:2.0', 'PRODID:-//Todo App//Todo export//EN']
+
+  for (const { todo } of allInOrder(todos, lists)) {
+    lines.push(
+      'BEGIN:VTODO',
+      `UID:${todo.id}`,
+      `DTSTAMP:${stamp}`,
+      `CREATED:${icsDate(todo.created_at)}`,
+      `LAST-MODIFIED:${icsDate(todo.updated_at)}`,
+      `SUMMARY:${icsText(todo.text)}`,
+      `STATUS:${icsStatus(todo)}`
+    )
+    if (todo.notes) lines.push(`DESCRIPTION:${icsText(todo.notes)}`)
+    if (ICS_PRIORITIES[todo.priority]) lines.push(`PRIORITY:${ICS_PRIORITIES[todo.priority]}`)
+    if (todo.due_at) lines.push(`DUE:${icsDate(todo.due_at)}`)
+    if (todo.completed_at) lines.push(`COMPLETED:${icsDate(todo.completed_at)}`)
+    if (todo.recurrence) lines.push(`RRULE:${todo.recurrence}`)
+    if (todo.parent_id) lines.push(`RELATED-TO;RELTYPE=PARENT:${todo.parent_id}`)
+    const listName = listNames.get(todo.list_id)
+    if (listName) lines.push(`CATEGORIES:${icsText(listName)}`)
+    if (todo.remind_at) {
+      lines.push(
+        'BEGIN:VALARM',
+        'ACTION:DISPLAY',
+        `DESCRIPTION:${icsText(todo.text)}`,
+        `TRIGGER;VALUE=DATE-TIME:${icsDate(todo.remind_at)}`,
+        'END:VALARM'
+      )
+    }
+    lines.push('END:VTODO')
+  }
+
+  lines.push('END:VCALENDAR')
+  return lines.map(foldLine).join('\r\n') + '\r\n'
+}
+
+// `lists` names the lists in Markdown headings and iCalendar categories
+export function exportTodos(todos: Todo[], format: ExportFormat, lists: List[]) {
+  switch (format) {
+    case 'json':
+      return toJson(todos, lists)
+    case 'csv':
+      return toCsv(todos, lists)
+    case 'markdown':
+      return toMarkdown(todos, lists)
+    case 'ics':
+      return toIcs(todos, lists)
+  }
+}
+
+// Today's date for file names, e.g. "2026-10-19"
+export function dateStamp(now = new Date()) {
+  const pad = (n: number) => String(n).padStart(2, '0')
+  return `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`
+}
+
+export function exportFileName(format: ExportFormat, now = new Date()) {
+  const extension = exportFormats.find((option) => option.value === format)!.extension
+  return `todos-${dateStamp(now)}.${extension}`
+}
+
+export function downloadFile(content: string, type: string, fileName: string) {
+  const blob = new Blob([content], { type: `${type};charset=utf-8` })
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = fileName
+  link.click()
+  // Some browsers start the download after click() returns
+  setTimeout(() => URL.revokeObjectURL(url))
+}
+
+export function downloadExport(todos: Todo[], format: ExportFormat, lists: List[]) {
+  const type = exportFormats.find((option) => option.value === format)!.type
+  downloadFile(exportTodos(todos, format, lists), type, exportFileName(format))
+}
@@ -0,0 +1,108 @@
+import type { TagMatch } from './tags'
+import type { TodoStatus } from './todoStatus'
+import type { Todo } from '../types/database'
+
+export type CompletedFilter = 'all' | 'open' | 'completed'
+
+export interface TodoFilter {
+  q: string
+  status: TodoStatus | 'all'
+  completed: CompletedFilter
+  // Local calendar dates (YYYY-MM-DD), inclusive
+  createdFrom: string | null
+  createdTo: string | null
+  tags: string[]
+  match: TagMatch
+}
+
+export const emptyFilter: TodoFilter = {
+  q: '',
+  status: 'all',
+  completed: 'all',
+  createdFrom: null,
+  createdTo: null,
+  tags: [],
+  match: 'any',
+}
+
+const statuses: TodoStatus[] = ['todo', 'in-progress', 'done']
+const datePattern = /^\d{4}-\d{2}-\d{2}$/
+
+// Read the filter from a query string, ignoring anything malformed
+export function parseFilter(search: string): TodoFilter {
+  const params = new URLSearchParams(search)
+  const status = params.get('status') as TodoStatus | null
+  const completed = params.get('completed')
+  const from = params.get('from')
+  const to = params.get('to')
+
+  return {
+    q: params.get('q') ?? '',
+    status: status && statuses.includes(status) ? status : 'all',
+    completed: completed === 'open' || completed === 'completed' ? completed : 'all',
+    createdFrom: from && datePattern.test(from) ? from : null,
+    createdTo: to && datePattern.test(to) ? to : null,
+    tags: params.get('tags')?.split(',').filter(Boolean) ?? [],
+    match: params.get('match') === 'all' ? 'all' : 'any',
+  }
+}
+
+// Only non-default values go into the URL, so an unfiltered view has none
+export function serializeFilter(filter: TodoFilter, search = '') {
+  const params = new URLSearchParams(search)
+  const set = (key: string, value: string | null | undefined) =>
+    value ? params.set(key, value) : params.delete(key)
+
+  set('q', filter.q.trim())
+  set('status', filter.status === 'all' ? null : filter.status)
+  set('completed', filter.completed === 'all' ? null : filter.completed)
+  set('from', filter.createdFrom)
+  set('to', filter.createdTo)
+  set('tags', filter.tags.join(','))
+  set('match', filter.tags.length > 1 && filter.match === 'all' ? 'all' : null)
+
+  const query = params.toString()
+  return query ? `?${query}` : ''
+}
+
+export function isFiltered(filter: TodoFilter) {
+  return serializeFilter(filter) !== ''
+}
+
+// Lowercased words, split the way the 'simple' text search config does
+function searchTerms(text: string) {
+  return text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []
+}
+
+// Prefix query for Postgres to_tsquery, e.g. "buy milk" -> "buy:* & milk:*"
+export function toTsQuery(q: string) {
+  return searchTerms(q)
+    .map((term) => `${term}:*`)
+    .join(' & ')
+}
+
+// Start of a local calendar day as an ISO timestamp
+export function startOfDay(date: string, offsetDays = 0) {
+  const [year, month, day] = date.split('-').map(Number)
+  return new Date(year, month - 1, day + offsetDays).toISOString()
+}
+
+// Client-side version of the server query (everything except tags), used
+// in local mode, when full-text search isn't available, and to check
+// realtime changes against the active filter
+export function matchesFilter(todo: Todo, filter: TodoFilter) {
+  if (filter.status !== 'all' && todo.status !== filter.status) return false
+  if (filter.completed !== 'all' && todo.completed !== (filter.completed === 'completed')) {
+    return false
+  }
+  const created = Date.parse(todo.created_at)
+  if (filter.createdFrom && created < Date.parse(startOfDay(filter.createdFrom))) return false
+  if (filter.createdTo && created >= Date.parse(startOfDay(filter.createdTo, 1))) return false
+
+  const terms = searchTerms(filter.q)
+  if (terms.length > 0) {
+    const words = searchTerms(todo.text)
+    return terms.every((term) => words.some((word) => word.startsWith(term)))
+  }
+  return true
+}
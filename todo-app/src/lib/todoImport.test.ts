@@ -0,0 +1,287 @@
+import { describe, expect, it } from 'vitest'
+import { buildImportRows, detectFormat, parseCsvRows, parseImport } from './todoImport'
+
+// A bare date is due at the end of that day in the local time zone
+function endOfDay(year: number, month: number, date: number) {
+  return new Date(year, month - 1, date, 23, 59).toISOString()
+}
+
+describe('parseCsvRows', () => {
+  it('reads quoted fields with commas, quotes and line breaks', () => {
+    expect(parseCsvRows('a,"b, c","say ""hi""","two\nlines"\n')).toEqual([
+      ['a', 'b, c', 'say "hi"', 'two\nlines'],
+    ])
+  })
+
+  it('takes \\r\\n, \\r and \\n as line ends and skips blank lines', () => {
+    expect(parseCsvRows('a,b\r\n1,2\r3,4\n\n,\n5,6')).toEqual([
+      ['a', 'b'],
+      ['1', '2'],
+      ['3', '4'],
+      ['5', '6'],
+    ])
+  })
+
+  it('keeps quotes inside an unquoted field and empty trailing fields', () => {
+    expect(parseCsvRows('5" screen,,')).toEqual([['5" screen', '', '']])
+  })
+
+  it('reads a last line without a line break', () => {
+    expect(parseCsvRows('a\n"b"')).toEqual([['a'], ['b']])
+  })
+})
+
+describe('parseImport csv', () => {
+  it('maps header aliases and skips a byte-order mark', () => {
+    const { todos, errors } = parseImport(
+      '﻿Title,Due Date,State,Priority,Notes\nPay rent,2026-11-01,Doing,high,  \n',
+      'csv'
+    )
+    expect(errors).toEqual([])
+    expect(todos).toHaveLength(1)
+    expect(todos[0]).toMatchObject({
+      ref: '#2',
+      text: 'Pay rent',
+      due_at: endOfDay(2026, 11, 1),
+      status: 'in-progress',
+      completed: false,
+      priority: 'high',
+      notes: null,
+      sourceStatus: 'Doing',
+      warnings: [],
+    })
+  })
+
+  it('lets completed and status follow each other', () => {
+    const { todos } = parseImport('task,done,status\nA,yes,\nB,,done\nC,no,\nD,✓,', 'csv')
+    expect(todos.map((todo) => [todo.completed, todo.status])).toEqual([
+      [true, 'done'],
+      [true, 'done'],
+      [false, 'todo'],
+      [true, 'done'],
+    ])
+  })
+
+  it('uses the first of two columns with the same meaning', () => {
+    const { todos } = parseImport('title,task\nFirst,Second', 'csv')
+    expect(todos[0].text).toBe('First')
+  })
+
+  it('reports rows without text by line, counting the header', () => {
+    const { todos, errors } = parseImport('text,notes\nA,\n,orphan note\nB,', 'csv')
+    expect(todos.map((todo) => todo.text)).toEqual(['A', 'B'])
+    expect(errors).toEqual(['Line 3 has no text'])
+  })
+
+  it('warns about values it cannot read and keeps the todo', () => {
+    const { todos } = parseImport(
+      'text,due,status,priority,rrule\nA,next tuesday,blocked,huge,FREQ=DAILY;COUNT=2',
+      'csv'
+    )
+    expect(todos[0]).toMatchObject({ due_at: null, status: 'todo', priority: 'none', recurrence: null })
+    expect(todos[0].warnings).toEqual([
+      'Unknown status “blocked”, imported as To Do',
+      'Unknown priority “huge”',
+      'Unsupported repeat rule “FREQ=DAILY;COUNT=2”',
+      "Couldn't read due date “next tuesday”",
+    ])
+  })
+
+  it('needs a text column', () => {
+    expect(parseImport('due,notes\n2026-11-01,x', 'csv').errors).toEqual([
+      'No text column (expected one named text, title, task or name)',
+    ])
+    expect(parseImport('', 'csv').errors).toEqual(['The file is empty'])
+  })
+})
+
+describe('parseImport ics', () => {
+  const calendar = (...lines: string[]) =>
+    ['BEGIN:VCALENDAR', 'VERSION:2.0', ...lines, 'END:VCALENDAR'].join('\r\n')
+
+  it('unfolds long lines and unescapes text', () => {
+    const { todos } = parseImport(
+      calendar(
+        'BEGIN:VTODO',
+        'UID:1',
+        'SUMMARY:Buy milk\\, eggs and',
+        '  bread',
+        'DESCRIPTION:From the shop\\non the corner\; cheap',
+        'END:VTODO'
+      ),
+      'ics'
+    )
+    expect(todos[0].text).toBe('Buy milk, eggs and bread')
+    expect(todos[0].notes).toBe('From the shop\non the corner; cheap')
+  })
+
+  it('reads UTC, floating and date-only times', () => {
+    const { todos } = parseImport(
+      calendar(
+        'BEGIN:VTODO',
+        'SUMMARY:A',
+        'DUE;VALUE=DATE:20261101',
+        'CREATED:20261019T101500Z',
+        'STATUS:COMPLETED',
+        'COMPLETED:20261020T090000',
+        'END:VTODO'
+      ),
+      'ics'
+    )
+    expect(todos[0]).toMatchObject({
+      ref: '#1',
+      due_at: endOfDay(2026, 11, 1),
+      created_at: '2026-10-19T10:15:00.000Z',
+      completed_at: new Date(2026, 9, 20, 9).toISOString(),
+      completed: true,
+      status: 'done',
+    })
+  })
+
+  it('finds the value after a colon inside a quoted parameter', () => {
+    const { todos } = parseImport(
+      calendar('BEGIN:VTODO', 'SUMMARY;ALTREP="http://example.com/a":Call back', 'END:VTODO'),
+      'ics'
+    )
+    expect(todos[0].text).toBe('Call back')
+  })
+
+  it('sets reminders from relative and absolute alarms', () => {
+    const { todos } = parseImport(
+      calendar(
+        'BEGIN:VTODO',
+        'SUMMARY:Relative',
+        'DUE:20261101T120000Z',
+        'BEGIN:VALARM',
+        'TRIGGER;RELATED=END:-PT1H30M',
+        'DESCRIPTION:Alarm text is not the notes',
+        'END:VALARM',
+        'END:VTODO',
+        'BEGIN:VTODO',
+        'SUMMARY:Absolute',
+        'BEGIN:VALARM',
+        'TRIGGER;VALUE=DATE-TIME:20261031T080000Z',
+        'END:VALARM',
+        'END:VTODO',
+        'BEGIN:VTODO',
+        'SUMMARY:From start',
+        'DUE:20261101T120000Z',
+        'BEGIN:VALARM',
+        'TRIGGER;RELATED=START:-P1D',
+        'END:VALARM',
+        'END:VTODO'
+      ),
+      'ics'
+    )
+    expect(todos.map((todo) => todo.remind_at)).toEqual([
+      '2026-11-01T10:30:00.000Z',
+      '2026-10-31T08:00:00.000Z',
+      null,
+    ])
+    expect(todos[0].notes).toBeNull()
+  })
+
+  it('only takes RELATED-TO as the parent when it names one', () => {
+    const { todos } = parseImport(
+      calendar(
+        'BEGIN:VTODO',
+        'UID:child',
+        'SUMMARY:Child',
+        'RELATED-TO:parent',
+        'END:VTODO',
+        'BEGIN:VTODO',
+        'UID:other',
+        'SUMMARY:Other',
+        'RELATED-TO;RELTYPE=SIBLING:parent',
+        'END:VTODO'
+      ),
+      'ics'
+    )
+    expect(todos.map((todo) => todo.parentRef)).toEqual(['parent', null])
+  })
+
+  it('reports to-dos without a summary and files without any', () => {
+    const missing = parseImport(
+      calendar('BEGIN:VTODO', 'UID:abc', 'SUMMARY:  ', 'END:VTODO'),
+      'ics'
+    )
+    expect(missing).toEqual({ todos: [], errors: ['To-do abc has no summary'] })
+    expect(parseImport(calendar('BEGIN:VEVENT', 'SUMMARY:Meeting', 'END:VEVENT'), 'ics').errors).toEqual([
+      'No to-dos (VTODO) found',
+    ])
+  })
+
+  it('maps ICS priorities and statuses', () => {
+    const { todos } = parseImport(
+      calendar(
+        'BEGIN:VTODO',
+        'SUMMARY:A',
+        'PRIORITY:1',
+        'STATUS:IN-PROCESS',
+        'END:VTODO',
+        'BEGIN:VTODO',
+        'SUMMARY:B',
+        'PRIORITY:9',
+        'STATUS:NEEDS-ACTION',
+        'END:VTODO'
+      ),
+      'ics'
+    )
+    expect(todos.map((todo) => [todo.priority, todo.status])).toEqual([
+      ['urgent', 'in-progress'],
+      ['low', 'todo'],
+    ])
+  })
+})
+
+describe('detectFormat', () => {
+  it('goes by extension, then by content', () => {
+    expect(detectFormat('todos.ICS', '')).toBe('ics')
+    expect(detectFormat('export.txt', '  [{"text":"a"}]')).toBe('json')
+    expect(detectFormat('export.txt', 'BEGIN:VCALENDAR')).toBe('ics')
+    expect(detectFormat('notes.txt', '# Week\n- [ ] a')).toBe('markdown')
+    expect(detectFormat('export.txt', 'text\na')).toBe('csv')
+  })
+})
+
+describe('buildImportRows', () => {
+  const options = { userId: 'user', listId: 'list', lastPosition: 'a0' }
+
+  it('keeps status times only when the status needs them', () => {
+    const { todos } = parseImport(
+      [
+        'text,status,started_at,completed_at',
+        'Done,done,2026-10-01T09:00:00Z,2026-10-02T09:00:00Z',
+        'Done without a time,done,2026-10-01T09:00:00Z,',
+        'Started,in-progress,2026-10-01T09:00:00Z,2026-10-02T09:00:00Z',
+        'Open,todo,2026-10-01T09:00:00Z,',
+      ].join('\n'),
+      'csv'
+    )
+    const [rows] = buildImportRows(todos, options)
+    expect(rows.map((row) => [row.started_at, row.completed_at])).toEqual([
+      ['2026-10-01T09:00:00.000Z', '2026-10-02T09:00:00.000Z'],
+      [undefined, undefined],
+      ['2026-10-01T09:00:00.000Z', null],
+      [undefined, undefined],
+    ])
+  })
+
+  it('places subtasks under their parents after the existing todos', () => {
+    const { todos } = parseImport('- [ ] Parent\n  - [x] Child\n- [ ] Next', 'markdown')
+    const [top, children] = buildImportRows(todos, options)
+    expect(top.map((row) => [row.text, row.position])).toEqual([
+      ['Parent', 'a1'],
+      ['Next', 'a2'],
+    ])
+    expect(children).toHaveLength(1)
+    expect(children[0]).toMatchObject({ text: 'Child', parent_id: top[0].id, position: 'a0' })
+  })
+
+  it('imports a subtask whose parent is missing at the top level', () => {
+    const { todos } = parseImport('id,parent_id,text\n1,99,Orphan', 'csv')
+    const levels = buildImportRows(todos, options)
+    expect(levels).toHaveLength(1)
+    expect(levels[0][0].parent_id).toBeNull()
+  })
+})
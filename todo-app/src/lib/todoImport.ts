@@ -0,0 +1,656 @@
+import { generateKeyBetween } from './fractionalIndex'
+import { formatRule, parseRule } from './recurrence'
+import { ICS_PRIORITIES, JSON_EXPORT_VERSION, type ExportFormat } from './todoExport'
+import { priorityOptions, type TodoPriority } from './todoPriority'
+import { todoRepository } from './todoRepository'
+import { isFinished, statusOptions, type TodoStatus } from './todoStatus'
+import type { Todo, TodoInsert } from '../types/database'
+
+// A todo read from an import file, before it belongs to a list
+export interface ImportedTodo {
+  // The todo's id in the file (or its line), for subtasks to point at
+  ref: string
+  parentRef: string | null
+  text: string
+  notes: string | null
+  completed: boolean
+  status: TodoStatus
+  priority: TodoPriority
+  due_at: string | null
+  remind_at: string | null
+  recurrence: string | null
+  created_at: string | null
+  started_at: string | null
+  completed_at: string | null
+  // The status as written in the file, when it had to be mapped
+  sourceStatus: string | null
+  warnings: string[]
+}
+
+export interface ParsedImport {
+  todos: ImportedTodo[]
+  // Lines or records that couldn't be read at all
+  errors: string[]
+}
+
+export type DuplicateKind = 'existing' | 'file'
+
+export interface ImportPreviewRow {
+  todo: ImportedTodo
+  depth: number
+  // Already in the list, or an earlier row of the same file
+  duplicate: DuplicateKind | null
+}
+
+// Rows per insert request
+const BATCH_SIZE = 100
+
+// Status words other apps use, on top of our own values and labels
+const STATUS_ALIASES: Record<string, TodoStatus> = {
+  open: 'todo',
+  pending: 'todo',
+  'not-started': 'todo',
+  'needs-action': 'todo',
+  backlog: 'todo',
+  doing: 'in-progress',
+  started: 'in-progress',
+  active: 'in-progress',
+  'in-process': 'in-progress',
+  completed: 'done',
+  complete: 'done',
+  finished: 'done',
+  closed: 'done',
+  cancelled: 'done',
+  canceled: 'done',
+}
+
+const TRUE_WORDS = ['true', 'yes', 'y', '1', 'x', '✓', 'done', 'completed']
+
+// CSV headers we understand, normalized to lower_snake_case
+const CSV_COLUMNS: Record<string, keyof ImportedTodo | 'id' | 'parent_id'> = {
+  id: 'id',
+  uid: 'id',
+  parent_id: 'parent_id',
+  parent: 'parent_id',
+  text: 'text',
+  title: 'text',
+  task: 'text',
+  name: 'text',
+  summary: 'text',
+  content: 'text',
+  subject: 'text',
+  completed: 'completed',
+  done: 'completed',
+  checked: 'completed',
+  status: 'status',
+  state: 'status',
+  priority: 'priority',
+  due_at: 'due_at',
+  due: 'due_at',
+  due_date: 'due_at',
+  deadline: 'due_at',
+  remind_at: 'remind_at',
+  reminder: 'remind_at',
+  recurrence: 'recurrence',
+  rrule: 'recurrence',
+  repeat: 'recurrence',
+  created_at: 'created_at',
+  created: 'created_at',
+  started_at: 'started_at',
+  started: 'started_at',
+  completed_at: 'completed_at',
+  completed_date: 'completed_at',
+  notes: 'notes',
+  note: 'notes',
+  description: 'notes',
+}
+
+function normalizeKey(value: string) {
+  return value.trim().toLowerCase().replace(/[\s-]+/g, '_')
+}
+
+// Our statuses by value or label, then common aliases
+export function mapStatus(value: string): TodoStatus | null {
+  const key = value.trim().toLowerCase().replace(/[\s_]+/g, '-')
+  const option = statusOptions.find(
+    (opt) => opt.value === key || opt.label.toLowerCase().replace(/\s+/g, '-') === key
+  )
+  return option?.value ?? STATUS_ALIASES[key] ?? null
+}
+
+function mapPriority(value: string): TodoPriority | null {
+  const key = value.trim().toLowerCase()
+  if (/^\d$/.test(key)) return icsPriority(Number(key))
+  const option = priorityOptions.find(
+    (opt) => opt.value === key || opt.label.toLowerCase() === key
+  )
+  return option?.value ?? null
+}
+
+// 1 is urgent, 2-4 high, 5 medium, 6-9 low, 0 none
+function icsPriority(value: number): TodoPriority {
+  if (value === 0) return 'none'
+  const match = priorityOptions.find((opt) => ICS_PRIORITIES[opt.value] >= value)
+  return match?.value ?? 'low'
+}
+
+// ISO timestamps, or a bare date due at the end of that (local) day
+function parseDate(value: string) {
+  const trimmed = value.trim()
+  if (!trimmed) return null
+  const day = /^(\d{4})-(\d{2})-(\d{2})$/.exec(trimmed)
+  const date = day
+    ? new Date(Number(day[1]), Number(day[2]) - 1, Number(day[3]), 23, 59)
+    : new Date(trimmed)
+  return Number.isNaN(date.getTime()) ? undefined : date.toISOString()
+}
+
+// Fills in and checks the fields every format shares. `completed` and
+// `status` follow each other when the file only has one of them.
+function finishTodo(
+  ref: string,
+  fields: {
+    parentRef?: string | null
+    text: string
+    notes?: string | null
+    completed?: boolean
+    status?: string | null
+    priority?: string | null
+    due_at?: string | null
+    remind_at?: string | null
+    recurrence?: string | null
+    created_at?: string | null
+    started_at?: string | null
+    completed_at?: string | null
+  }
+): ImportedTodo {
+  const warnings: string[] = []
+
+  let status: TodoStatus | null = null
+  let sourceStatus: string | null = null
+  if (fields.status) {
+    status = mapStatus(fields.status)
+    const option = statusOptions.find((opt) => opt.value === status)
+    const written = fields.status.trim().toLowerCase()
+    if (!option) {
+      warnings.push(`Unknown status “${fields.status}”, imported as To Do`)
+    } else if (written !== option.value && written !== option.label.toLowerCase()) {
+      sourceStatus = fields.status
+    }
+  }
+  const completed = fields.completed ?? status === 'done'
+  status ??= completed ? 'done' : 'todo'
+
+  let priority: TodoPriority = 'none'
+  if (fields.priority) {
+    const mapped = mapPriority(fields.priority)
+    if (mapped) priority = mapped
+    else warnings.push(`Unknown priority “${fields.priority}”`)
+  }
+
+  const date = (value: string | null | undefined, label: string) => {
+    if (!value) return null
+    const parsed = parseDate(value)
+    if (parsed === undefined) warnings.push(`Couldn't read ${label} “${value}”`)
+    return parsed ?? null
+  }
+
+  let recurrence: string | null = null
+  if (fields.recurrence) {
+    const rule = parseRule(fields.recurrence)
+    if (rule) recurrence = formatRule(rule)
+    else warnings.push(`Unsupported repeat rule “${fields.recurrence}”`)
+  }
+
+  return {
+    ref,
+    parentRef: fields.parentRef || null,
+    text: fields.text.trim(),
+    notes: fields.notes?.trim() || null,
+    completed,
+    status,
+    priority,
+    due_at: date(fields.due_at, 'due date'),
+    remind_at: date(fields.remind_at, 'reminder'),
+    recurrence,
+    created_at: date(fields.created_at, 'created date'),
+    started_at: date(fields.started_at, 'start date'),
+    completed_at: date(fields.completed_at, 'completion date'),
+    sourceStatus,
+    warnings,
+  }
+}
+
+function parseJson(text: string): ParsedImport {
+  let data: unknown
+  try {
+    data = JSON.parse(text)
+  } catch (error) {
+    return { todos: [], errors: [`Not valid JSON: ${(error as Error).message}`] }
+  }
+
+  const file = data as { version?: number; todos?: unknown }
+  const rows = Array.isArray(data) ? data : Array.isArray(file?.todos) ? file.todos : null
+  if (!rows) return { todos: [], errors: ['Expected a list of todos'] }
+  if (file.version && file.version > JSON_EXPORT_VERSION) {
+    return { todos: [], errors: ['This file was exported by a newer version of the app'] }
+  }
+
+  const todos: ImportedTodo[] = []
+  const errors: string[] = []
+  rows.forEach((row: Partial<Record<keyof Todo, unknown>>, index) => {
+    if (!row || typeof row.text !== 'string' || !row.text.trim()) {
+      errors.push(`Todo ${index + 1} has no text`)
+      return
+    }
+    const str = (value: unknown) => (typeof value === 'string' ? value : null)
+    todos.push(
+      finishTodo(str(row.id) ?? `#${index + 1}`, {
+        parentRef: str(row.parent_id),
+        text: row.text,
+        notes: str(row.notes),
+        completed: typeof row.completed === 'boolean' ? row.completed : undefined,
+        status: str(row.status),
+        priority: str(row.priority),
+        due_at: str(row.due_at),
+        remind_at: str(row.remind_at),
+        recurrence: str(row.recurrence),
+        created_at: str(row.created_at),
+        started_at: str(row.started_at),
+        completed_at: str(row.completed_at),
+      })
+    )
+  })
+  return { todos, errors }
+}
+
+// RFC 4180, plus a byte-order mark and bare \n line endings
+export function parseCsvRows(text: string) {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let quoted = false
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        field += char
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true
+    } else if (char === ',') {
+      row.push(field)
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++
+      row.push(field)
+      rows.push(row)
+      row = []
+      field = ''
+    } else {
+      field += char
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field)
+    rows.push(row)
+  }
+  return rows.filter((r) => r.some((value) => value.trim() !== ''))
+}
+
+function parseCsv(text: string): ParsedImport {
+  const [header, ...rows] = parseCsvRows(text.replace(/^\uFEFF/, ''))
+  if (!header) return { todos: [], errors: ['The file is empty'] }
+
+  const columns = header.map((name) => CSV_COLUMNS[normalizeKey(name)])
+  if (!columns.includes('text')) {
+    return { todos: [], errors: ['No text column (expected one named text, title, task or name)'] }
+  }
+
+  const todos: ImportedTodo[] = []
+  const errors: string[] = []
+  rows.forEach((values, index) => {
+    const record: Partial<Record<string, string>> = {}
+    columns.forEach((column, i) => {
+      if (column && values[i]?.trim() && record[column] === undefined) record[column] = values[i]
+    })
+    // Line numbers count the header
+    const line = index + 2
+    if (!record.text?.trim()) {
+      errors.push(`Line ${line} has no text`)
+      return
+    }
+    todos.push(
+      finishTodo(record.id ?? `#${line}`, {
+        parentRef: record.parent_id,
+        text: record.text,
+        notes: record.notes,
+        completed: record.completed
+          ? TRUE_WORDS.includes(record.completed.trim().toLowerCase())
+          : undefined,
+        status: record.status,
+        priority: record.priority,
+        due_at: record.due_at,
+        remind_at: record.remind_at,
+        recurrence: record.recurrence,
+        created_at: record.created_at,
+        started_at: record.started_at,
+        completed_at: record.completed_at,
+      })
+    )
+  })
+  return { todos, errors }
+}
+
+// "- [ ] task" / "- [x] task", also with * + or "1." bullets; indented
+// items become subtasks of the item above them
+function parseMarkdown(text: string): ParsedImport {
+  const todos: ImportedTodo[] = []
+  const parents: { indent: number; ref: string }[] = []
+
+  text.split(/\r?\n/).forEach((line, index) => {
+    const match = /^(\s*)(?:[-*+]|\d+[.)])\s+\[( |x|X)\]\s+(.+)$/.exec(line)
+    if (!match) return
+    const indent = match[1].replace(/\t/g, '    ').length
+    while (parents.length > 0 && parents[parents.length - 1].indent >= indent) parents.pop()
+
+    const ref = `#${index + 1}`
+    todos.push(
+      finishTodo(ref, {
+        parentRef: parents[parents.length - 1]?.ref ?? null,
+        text: match[3],
+        completed: match[2] !== ' ',
+      })
+    )
+    parents.push({ indent, ref })
+  })
+
+  return {
+    todos,
+    errors: todos.length === 0 ? ['No checklist items (lines like “- [ ] task”) found'] : [],
+  }
+}
+
+function unescapeIcs(value: string) {
+  return value.replace(/\\([\\;,nN])/g, (_, char: string) =>
+    char.toLowerCase() === 'n' ? '\n' : char
+  )
+}
+
+// 20261025T235900Z (UTC), 20261025T235900 (local) or 20261025 (a whole day,
+// due at its end)
+function parseIcsDate(value: string) {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/.exec(value.trim())
+  if (!match) return undefined
+  const [, y, m, d, hh, mm, ss, utc] = match
+  const parts = [Number(y), Number(m) - 1, Number(d)] as const
+  if (!hh) return new Date(...parts, 23, 59).toISOString()
+  const time = [Number(hh), Number(mm), Number(ss)] as const
+  return (utc ? new Date(Date.UTC(...parts, ...time)) : new Date(...parts, ...time)).toISOString()
+}
+
+// -PT15M, P1D, -P1W...
+function parseIcsDuration(value: string) {
+  const match =
+    /^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/.exec(value.trim())
+  if (!match) return null
+  const [, sign, w, d, h, m, s] = match.map((part) => part ?? '0')
+  const seconds = ((Number(w) * 7 + Number(d)) * 24 + Number(h)) * 3600 + Number(m) * 60 + Number(s)
+  return (sign === '-' ? -seconds : seconds) * 1000
+}
+
+interface IcsProperty {
+  name: string
+  params: Record<string, string>
+  value: string
+}
+
+function parseIcsLine(line: string): IcsProperty | null {
+  // The value starts at the first colon outside a quoted parameter
+  let quoted = false
+  let colon = -1
+  for (let i = 0; i < line.length && colon < 0; i++) {
+    if (line[i] === '"') quoted = !quoted
+    else if (line[i] === ':' && !quoted) colon = i
+  }
+  if (colon < 0) return null
+
+  const [name, ...rawParams] = line.slice(0, colon).split(';')
+  const params: Record<string, string> = {}
+  for (const param of rawParams) {
+    const [key, value = ''] = param.split('=')
+    params[key.toUpperCase()] = value.replace(/^"|"$/g, '')
+  }
+  return { name: name.toUpperCase(), params, value: line.slice(colon + 1) }
+}
+
+function parseIcs(text: string): ParsedImport {
+  // Unfold continuation lines first
+  const lines = text.replace(/\r?\n[ \t]/g, '').split(/\r?\n/)
+  const todos: ImportedTodo[] = []
+  const errors: string[] = []
+
+  let todo: Map<string, IcsProperty> | null = null
+  let alarm: Map<string, IcsProperty> | null = null
+  let alarms: Map<string, IcsProperty>[] = []
+
+  for (const line of lines) {
+    const prop = parseIcsLine(line)
+    if (!prop) continue
+
+    if (prop.name === 'BEGIN' && prop.value.toUpperCase() === 'VTODO') {
+      todo = new Map()
+      alarms = []
+    } else if (prop.name === 'BEGIN' && prop.value.toUpperCase() === 'VALARM' && todo) {
+      alarm = new Map()
+    } else if (prop.name === 'END' && prop.value.toUpperCase() === 'VALARM' && alarm) {
+      alarms.push(alarm)
+      alarm = null
+    } else if (prop.name === 'END' && prop.value.toUpperCase() === 'VTODO' && todo) {
+      const summary = todo.get('SUMMARY')
+      const uid = todo.get('UID')?.value ?? `#${todos.length + errors.length + 1}`
+      if (!summary?.value.trim()) {
+        errors.push(`To-do ${uid} has no summary`)
+      } else {
+        todos.push(icsTodo(uid, unescapeIcs(summary.value), todo, alarms))
+      }
+      todo = null
+    } else if (alarm) {
+      alarm.set(prop.name, prop)
+    } else if (todo && !todo.has(prop.name)) {
+      todo.set(prop.name, prop)
+    }
+  }
+
+  if (todos.length === 0 && errors.length === 0) errors.push('No to-dos (VTODO) found')
+  return { todos, errors }
+}
+
+function icsTodo(
+  uid: string,
+  text: string,
+  props: Map<string, IcsProperty>,
+  alarms: Map<string, IcsProperty>[]
+) {
+  const date = (name: string) => {
+    const value = props.get(name)?.value
+    return value ? parseIcsDate(value) ?? value : null
+  }
+  const due = date('DUE')
+
+  // The first alarm, either at a set time or relative to the due date
+  let remindAt: string | null = null
+  const trigger = alarms[0]?.get('TRIGGER')
+  if (trigger?.params.VALUE === 'DATE-TIME') {
+    remindAt = parseIcsDate(trigger.value) ?? trigger.value
+  } else if (trigger && due && trigger.params.RELATED !== 'START') {
+    const offset = parseIcsDuration(trigger.value)
+    if (offset !== null) remindAt = new Date(new Date(due).getTime() + offset).toISOString()
+  }
+
+  const status = props.get('STATUS')?.value ?? null
+  const priority = props.get('PRIORITY')?.value ?? null
+  const related = props.get('RELATED-TO')
+  const description = props.get('DESCRIPTION')?.value
+
+  return finishTodo(uid, {
+    parentRef: related && (related.params.RELTYPE ?? 'PARENT') === 'PARENT' ? related.value : null,
+    text,
+    notes: description ? unescapeIcs(description) : null,
+    completed: status ? status.toUpperCase() === 'COMPLETED' : undefined,
+    status,
+    priority,
+    due_at: due,
+    remind_at: remindAt,
+    recurrence: props.get('RRULE')?.value ?? null,
+    created_at: date('CREATED'),
+    completed_at: date('COMPLETED'),
+  })
+}
+
+export function detectFormat(fileName: string, text: string): ExportFormat {
+  const extension = fileName.toLowerCase().split('.').pop()
+  if (extension === 'json') return 'json'
+  if (extension === 'csv') return 'csv'
+  if (extension === 'ics' || extension === 'ical') return 'ics'
+  if (extension === 'md' || extension === 'markdown') return 'markdown'
+
+  const start = text.trimStart()
+  if (start.startsWith('{') || start.startsWith('[')) return 'json'
+  if (/^BEGIN:VCALENDAR/i.test(start)) return 'ics'
+  if (/^\s*(?:[-*+]|\d+[.)])\s+\[[ xX]\]/m.test(text)) return 'markdown'
+  return 'csv'
+}
+
+export function parseImport(text: string, format: ExportFormat): ParsedImport {
+  switch (format) {
+    case 'json':
+      return parseJson(text)
+    case 'csv':
+      return parseCsv(text)
+    case 'markdown':
+      return parseMarkdown(text)
+    case 'ics':
+      return parseIcs(text)
+  }
+}
+
+// Same text (ignoring case and spacing) due on the same day
+function duplicateKey(text: string, dueAt: string | null) {
+  const day = dueAt ? new Date(dueAt).toDateString() : ''
+  return `${text.trim().toLowerCase().replace(/\s+/g, ' ')}|${day}`
+}
+
+// Imported todos in file order with their depth, marking the ones the list
+// (`existing`) already has. A subtask whose parent isn't in the file is
+// imported at the top level.
+export function previewImport(todos: ImportedTodo[], existing: Todo[]): ImportPreviewRow[] {
+  const refs = new Set(todos.map((todo) => todo.ref))
+  const byRef = new Map(todos.map((todo) => [todo.ref, todo]))
+  const existingIds = new Set(existing.map((todo) => todo.id))
+  const existingKeys = new Set(existing.map((todo) => duplicateKey(todo.text, todo.due_at)))
+  const seen = new Set<string>()
+
+  const depth = (todo: ImportedTodo, visited = new Set<string>()): number => {
+    if (!todo.parentRef || !refs.has(todo.parentRef) || visited.has(todo.ref)) return 0
+    visited.add(todo.ref)
+    return depth(byRef.get(todo.parentRef)!, visited) + 1
+  }
+
+  return todos.map((todo) => {
+    const key = duplicateKey(todo.text, todo.due_at)
+    let duplicate: DuplicateKind | null = null
+    if (existingIds.has(todo.ref) || existingKeys.has(key)) duplicate = 'existing'
+    else if (seen.has(key)) duplicate = 'file'
+    seen.add(key)
+    return { todo, depth: depth(todo), duplicate }
+  })
+}
+
+// The file's start and finish times, when it has the one the todo's status
+// calls for; otherwise neither, and they're stamped with the import time as
+// for a new todo (by the todos_status_times trigger, or locally)
+function importedStatusTimes(todo: ImportedTodo) {
+  const finished = isFinished(todo)
+  if (finished ? !todo.completed_at : todo.status !== 'in-progress' || !todo.started_at) {
+    return {}
+  }
+  return { started_at: todo.started_at, completed_at: finished ? todo.completed_at : null }
+}
+
+// Rows for the selected todos with fresh ids, placed after the list's
+// current top-level todos in file order, grouped by depth so parents are
+// inserted before their subtasks
+export function buildImportRows(
+  todos: ImportedTodo[],
+  options: { userId: string; listId: string; lastPosition: string | null }
+): (TodoInsert & { id: string })[][] {
+  const ids = new Map(todos.map((todo) => [todo.ref, crypto.randomUUID()]))
+  const byRef = new Map(todos.map((todo) => [todo.ref, todo]))
+  const lastPositions = new Map<string | null, string | null>([[null, options.lastPosition]])
+  const levels: (TodoInsert & { id: string })[][] = []
+  // A batch is sent with one column list and missing keys go as null, so
+  // every row has a creation date: the file's, or the time of the import
+  const importedAt = new Date().toISOString()
+
+  const depth = (todo: ImportedTodo, visited = new Set<string>()): number => {
+    const parent = todo.parentRef ? byRef.get(todo.parentRef) : undefined
+    if (!parent || visited.has(todo.ref)) return 0
+    visited.add(todo.ref)
+    return depth(parent, visited) + 1
+  }
+
+  for (const todo of todos) {
+    const level = depth(todo)
+    const parentId = level > 0 ? ids.get(todo.parentRef!)! : null
+    const position = generateKeyBetween(lastPositions.get(parentId) ?? null, null)
+    lastPositions.set(parentId, position)
+
+    ;(levels[level] ??= []).push({
+      id: ids.get(todo.ref)!,
+      user_id: options.userId,
+      list_id: options.listId,
+      parent_id: parentId,
+      text: todo.text,
+      notes: todo.notes,
+      completed: todo.completed,
+      status: todo.status,
+      priority: todo.priority,
+      due_at: todo.due_at,
+      remind_at: todo.remind_at,
+      recurrence: todo.recurrence,
+      position,
+      created_at: todo.created_at ?? importedAt,
+      ...importedStatusTimes(todo),
+    })
+  }
+  return levels.filter(Boolean)
+}
+
+// Insert level by level in batches, reporting how many rows are done. Stops
+// at the first failed batch; rows inserted before it stay.
+export async function insertImportRows(
+  levels: TodoInsert[][],
+  onProgress: (done: number, total: number) => void
+) {
+  const total = levels.reduce((sum, rows) => sum + rows.length, 0)
+  let done = 0
+  onProgress(done, total)
+
+  for (const rows of levels) {
+    for (let i = 0; i < rows.length; i += BATCH_SIZE) {
+      const batch = rows.slice(i, i + BATCH_SIZE)
+      const { error } = await todoRepository.insertMany(batch)
+      if (error) return { done, total, error }
+      done += batch.length
+      onProgress(done, total)
+    }
+  }
+  return { done, total, error: null }
+}
@@ -0,0 +1,29 @@
+import type { Todo } from '../types/database'
+
+export type TodoPriority = Todo['priority']
+
+// Highest first; `rank` orders them when sorting by priority
+export const priorityOptions: { value: TodoPriority; label: string; color: string; rank: number }[] = [
+  { value: 'urgent', label: 'Urgent', color: 'text-red-600', rank: 4 },
+  { value: 'high', label: 'High', color: 'text-orange-500', rank: 3 },
+  { value: 'medium', label: 'Medium', color: 'text-yellow-500', rank: 2 },
+  { value: 'low', label: 'Low', color: 'text-sky-500', rank: 1 },
+  { value: 'none', label: 'No priority', color: 'text-muted-foreground', rank: 0 },
+]
+
+function getPriorityOption(priority: TodoPriority) {
+  const none = priorityOptions[priorityOptions.length - 1]
+  return priorityOptions.find((opt) => opt.value === priority) ?? none
+}
+
+export function getPriorityColor(priority: TodoPriority) {
+  return getPriorityOption(priority).color
+}
+
+export function getPriorityLabel(priority: TodoPriority) {
+  return getPriorityOption(priority).label
+}
+
+export function getPriorityRank(priority: TodoPriority) {
+  return getPriorityOption(priority).rank
+}
@@ -0,0 +1,52 @@
+import { isLocalMode, type RepositoryResult, type RowChange } from './repository'
+import { createSupabaseTodoRepository } from './supabaseTodoRepository'
+import { createLocalTodoRepository } from './localTodoRepository'
+import type { TodoFilter } from './todoFilter'
+import type { Todo, TodoInsert, TodoUpdate } from '../types/database'
+
+export type TodoChange = RowChange<Todo>
+
+// One todo's part in a bulk edit (a type rather than an interface, so it
+// passes as JSON to the update_todos function)
+export type TodoUpdateItem = {
+  id: string
+  changes: TodoUpdate
+  version?: number
+}
+
+export interface ListProgress {
+  total: number
+  completed: number
+}
+
+export interface TodoRepository {
+  // A list's todos, narrowed by the filter's search, status, completed and
+  // created date (tags are filtered by the caller)
+  list(listId: string, filter?: TodoFilter): Promise<RepositoryResult<Todo[]>>
+  // One todo by id, in any list the user can see; null if there's none
+  get(id: string): Promise<RepositoryResult<Todo>>
+  // Every todo the user can see, in all their lists (for exports)
+  listAll(): Promise<RepositoryResult<Todo[]>>
+  // Open todos in any of the user's lists with a reminder at or after `since`
+  reminders(since: string): Promise<RepositoryResult<Todo[]>>
+  // Todo counts for every list, keyed by list id
+  progress(): Promise<RepositoryResult<Record<string, ListProgress>>>
+  insert(row: TodoInsert): Promise<RepositoryResult>
+  // Many rows in one request (imports); parents must come before subtasks
+  insertMany(rows: TodoInsert[]): Promise<RepositoryResult>
+  // With a version, the update only applies if the todo is still at that
+  // version; if not it fails with CONFLICT_STATUS and `data` is the todo as it
+  // is now. Updating a todo that's gone does nothing either way.
+  update(id: string, changes: TodoUpdate, version?: number): Promise<RepositoryResult<Todo>>
+  // Several updates in one request, saved together or not at all (bulk
+  // actions). Versions are checked as in update(); if any is out of date the
+  // whole batch fails with CONFLICT_STATUS.
+  updateMany(updates: TodoUpdateItem[]): Promise<RepositoryResult>
+  delete(ids: string[]): Promise<RepositoryResult>
+  // Changes to one list's todos; returns an unsubscribe function
+  subscribe(listId: string, onChange: (change: TodoChange) => void): () => void
+}
+
+export const todoRepository: TodoRepository = isLocalMode
+  ? createLocalTodoRepository()
+  : createSupabaseTodoRepository()
@@ -0,0 +1,33 @@
+import { comparePosition } from './todos'
+import { getPriorityRank } from './todoPriority'
+import type { Todo } from '../types/database'
+
+export type TodoSort = 'manual' | 'priority' | 'created' | 'updated' | 'alphabetical'
+
+export const sortOptions: { value: TodoSort; label: string }[] = [
+  { value: 'manual', label: 'Manual order' },
+  { value: 'priority', label: 'Priority' },
+  { value: 'created', label: 'Newest first' },
+  { value: 'updated', label: 'Recently updated' },
+  { value: 'alphabetical', label: 'Alphabetical' },
+]
+
+const collator = new Intl.Collator(undefined, { sensitivity: 'base', numeric: true })
+
+// Every mode falls back to the manual order, so ties (and rows that arrive
+// over realtime) land in the same place on every client
+export function compareTodos(sort: TodoSort): (a: Todo, b: Todo) => number {
+  switch (sort) {
+    case 'manual':
+      return comparePosition
+    case 'priority':
+      return (a, b) =>
+        getPriorityRank(b.priority) - getPriorityRank(a.priority) || comparePosition(a, b)
+    case 'created':
+      return (a, b) => b.created_at.localeCompare(a.created_at) || comparePosition(a, b)
+    case 'updated':
+      return (a, b) => b.updated_at.localeCompare(a.updated_at) || comparePosition(a, b)
+    case 'alphabetical':
+      return (a, b) => collator.compare(a.text, b.text) || comparePosition(a, b)
+  }
+}
@@ -0,0 +1,124 @@
+import { describe, expect, it } from 'vitest'
+import { burndown, completionsPerDay, streak, todoHistories } from './todoStats'
+import { todoFromInsert } from './todos'
+import type { Todo, TodoEvent, TodoEventValues } from '../types/database'
+
+let nextId = 1
+
+function event(
+  todoId: string,
+  action: TodoEvent['action'],
+  createdAt: string,
+  old_values: TodoEventValues | null,
+  new_values: TodoEventValues | null
+): TodoEvent {
+  return {
+    id: nextId++,
+    todo_id: todoId,
+    list_id: 'list',
+    actor_id: null,
+    actor_email: null,
+    action,
+    old_values,
+    new_values,
+    created_at: createdAt,
+  }
+}
+
+function todo(fields: Partial<Todo>): Todo {
+  return { ...todoFromInsert({ user_id: 'user', list_id: 'list', text: 'Task' }), ...fields }
+}
+
+describe('todoHistories', () => {
+  it('keeps completions of todos that were deleted since', () => {
+    const events = [
+      event('a', 'insert', '2026-10-15T09:00:00Z', null, { text: 'A', status: 'todo', completed: false }),
+      event('a', 'update', '2026-10-16T09:00:00Z', { status: 'todo' }, { status: 'in-progress' }),
+      event('a', 'update', '2026-10-17T09:00:00Z', { status: 'in-progress', completed: false }, { status: 'done', completed: true }),
+      event('a', 'delete', '2026-10-18T09:00:00Z', { text: 'A', status: 'done', completed: true }, null),
+    ]
+    expect(todoHistories([], events)).toEqual([
+      {
+        id: 'a',
+        created_at: '2026-10-15T09:00:00Z',
+        started_at: '2026-10-16T09:00:00Z',
+        completed_at: '2026-10-17T09:00:00Z',
+        deleted_at: '2026-10-18T09:00:00Z',
+      },
+    ])
+  })
+
+  it('drops a completion that was reopened before the delete', () => {
+    const events = [
+      event('a', 'insert', '2026-10-15T09:00:00Z', null, { text: 'A', status: 'todo', completed: false }),
+      event('a', 'update', '2026-10-16T09:00:00Z', { status: 'todo', completed: false }, { status: 'done', completed: true }),
+      event('a', 'update', '2026-10-17T09:00:00Z', { status: 'done', completed: true }, { status: 'todo', completed: false }),
+      event('a', 'delete', '2026-10-18T09:00:00Z', { text: 'A', status: 'todo', completed: false }, null),
+    ]
+    expect(todoHistories([], events)[0].completed_at).toBeNull()
+  })
+
+  it('does not read a rename of a todo older than the log as reopening it', () => {
+    const events = [
+      event('a', 'update', '2026-10-16T09:00:00Z', { completed: false, status: 'todo' }, { completed: true, status: 'done' }),
+      event('a', 'update', '2026-10-17T09:00:00Z', { text: 'A' }, { text: 'B' }),
+      event('a', 'delete', '2026-10-18T09:00:00Z', { text: 'B', status: 'done', completed: true }, null),
+    ]
+    expect(todoHistories([], events)[0].completed_at).toBe('2026-10-16T09:00:00Z')
+  })
+
+  it('prefers the rows of todos that still exist and skips ones moved away', () => {
+    const row = todo({
+      id: 'a',
+      completed: true,
+      status: 'done',
+      created_at: '2026-10-10T09:00:00Z',
+      completed_at: '2026-10-12T09:00:00Z',
+    })
+    const events = [
+      event('a', 'update', '2026-10-13T09:00:00Z', { completed: false }, { completed: true }),
+      event('b', 'insert', '2026-10-13T09:00:00Z', null, { text: 'B', status: 'todo', completed: false }),
+    ]
+    const histories = todoHistories([row], events)
+    expect(histories).toHaveLength(1)
+    expect(histories[0].completed_at).toBe('2026-10-12T09:00:00Z')
+  })
+
+  it('brings a todo back when its delete is undone', () => {
+    const events = [
+      event('a', 'insert', '2026-10-15T09:00:00Z', null, { text: 'A', status: 'todo', completed: false }),
+      event('a', 'delete', '2026-10-16T09:00:00Z', { text: 'A', status: 'todo', completed: false }, null),
+      event('a', 'insert', '2026-10-16T09:01:00Z', null, { text: 'A', status: 'todo', completed: false }),
+      event('a', 'delete', '2026-10-17T09:00:00Z', { text: 'A', status: 'todo', completed: false }, null),
+    ]
+    const [history] = todoHistories([], events)
+    expect(history.created_at).toBe('2026-10-15T09:00:00Z')
+    expect(history.deleted_at).toBe('2026-10-17T09:00:00Z')
+  })
+})
+
+describe('statistics over histories', () => {
+  const now = new Date(2026, 9, 19, 12)
+  const at = (day: number, hour = 9) => new Date(2026, 9, day, hour).toISOString()
+  const histories = [
+    { id: 'a', created_at: at(14), started_at: null, completed_at: at(17), deleted_at: at(18) },
+    { id: 'b', created_at: at(14), started_at: null, completed_at: at(18), deleted_at: null },
+    { id: 'c', created_at: at(15), started_at: null, completed_at: null, deleted_at: at(16) },
+    { id: 'd', created_at: at(16), started_at: null, completed_at: null, deleted_at: null },
+  ]
+
+  it('counts completions of deleted todos per day', () => {
+    const perDay = completionsPerDay(histories, 3, now)
+    expect(perDay.map((bucket) => bucket.count)).toEqual([1, 1, 0])
+  })
+
+  it('keeps the streak going across deleted todos', () => {
+    expect(streak(histories, now)).toEqual({ current: 2, longest: 2 })
+  })
+
+  it('counts a deleted todo as open only until it was deleted', () => {
+    const open = burndown(histories, 6, now).map((bucket) => bucket.count)
+    // 14th: a, b; 15th: + c; 16th: c gone, + d; 17th: a done; 18th: b done
+    expect(open).toEqual([2, 3, 3, 2, 1, 1])
+  })
+})
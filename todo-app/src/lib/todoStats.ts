@@ -0,0 +1,217 @@
+import { isFinished } from './todoStatus'
+import type { Todo, TodoEvent, TodoEventValues } from '../types/database'
+
+// How far back the charts go
+export const STATS_DAYS = 14
+export const STATS_WEEKS = 8
+
+export interface StatsBucket {
+  start: Date
+  count: number
+}
+
+export interface CycleTimes {
+  // Averages in milliseconds, null without any todos to measure
+  waiting: number | null
+  working: number | null
+  total: number | null
+  // How many finished todos the total is over
+  count: number
+}
+
+// A todo's life as the statistics see it, whether or not it still exists
+export interface TodoHistory {
+  id: string
+  created_at: string
+  started_at: string | null
+  // Set while the todo is finished
+  completed_at: string | null
+  deleted_at: string | null
+}
+
+const finishedValues = (values: TodoEventValues) =>
+  values.completed === true || values.status === 'done'
+
+// Each todo's history, pieced together from the list's activity log (oldest
+// first) so that cleared and deleted todos keep counting. Todos that still
+// exist use their own row instead, whose times were stamped on the device
+// where the change happened. Todos that are neither in `todos` nor deleted
+// have moved to another list, or are hidden by a filter, and are left out.
+// Todos older than the log start at their first event.
+export function todoHistories(todos: Todo[], events: TodoEvent[]): TodoHistory[] {
+  const logged = new Map<string, TodoHistory & { state: TodoEventValues }>()
+
+  for (const event of [...events].sort((a, b) => a.id - b.id)) {
+    let history = logged.get(event.todo_id)
+    if (!history) {
+      history = {
+        id: event.todo_id,
+        created_at: event.created_at,
+        started_at: null,
+        completed_at: null,
+        deleted_at: null,
+        state: {},
+      }
+      logged.set(event.todo_id, history)
+    }
+
+    if (event.action === 'delete') {
+      history.deleted_at = event.created_at
+      continue
+    }
+    // Undoing a delete inserts the todo again
+    history.deleted_at = null
+
+    const before = { ...event.old_values, ...history.state }
+    const after = { ...before, ...event.new_values }
+    history.state = after
+    // A rename says nothing about the status of a todo older than the log
+    const changes = event.new_values ?? {}
+    if (event.action === 'update' && changes.status === undefined && changes.completed === undefined) {
+      continue
+    }
+
+    if (finishedValues(after)) {
+      if (!finishedValues(before) || !history.completed_at) history.completed_at = event.created_at
+    } else if (after.status === 'in-progress') {
+      history.started_at ??= event.created_at
+      history.completed_at = null
+    } else {
+      history.started_at = null
+      history.completed_at = null
+    }
+  }
+
+  const live = todos.map((todo): TodoHistory => ({
+    id: todo.id,
+    created_at: todo.created_at,
+    started_at: todo.started_at,
+    completed_at: isFinished(todo) ? todo.completed_at ?? todo.updated_at : null,
+    deleted_at: null,
+  }))
+  const ids = new Set(todos.map((todo) => todo.id))
+  const deleted = [...logged.values()]
+    .filter((history) => history.deleted_at && !ids.has(history.id))
+    .map(({ state: _state, ...history }) => history)
+  return [...live, ...deleted]
+}
+
+function startOfDay(date: Date) {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate())
+}
+
+function addDays(date: Date, days: number) {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() + days)
+}
+
+// Weeks start on Monday
+function startOfWeek(date: Date) {
+  return addDays(startOfDay(date), -((date.getDay() + 6) % 7))
+}
+
+function completionTimes(histories: TodoHistory[]) {
+  return histories
+    .filter((history) => history.completed_at)
+    .map((history) => new Date(history.completed_at!))
+}
+
+function countBetween(times: Date[], start: Date, end: Date) {
+  return times.filter((time) => time >= start && time < end).length
+}
+
+// Todos finished on each of the last `days` days, oldest first
+export function completionsPerDay(histories: TodoHistory[], days = STATS_DAYS, now = new Date()) {
+  const times = completionTimes(histories)
+  const today = startOfDay(now)
+  return Array.from({ length: days }, (_, i): StatsBucket => {
+    const start = addDays(today, i - days + 1)
+    return { start, count: countBetween(times, start, addDays(start, 1)) }
+  })
+}
+
+// Todos finished in each of the last `weeks` weeks, this one included
+export function completionsPerWeek(histories: TodoHistory[], weeks = STATS_WEEKS, now = new Date()) {
+  const times = completionTimes(histories)
+  const thisWeek = startOfWeek(now)
+  return Array.from({ length: weeks }, (_, i): StatsBucket => {
+    const start = addDays(thisWeek, (i - weeks + 1) * 7)
+    return { start, count: countBetween(times, start, addDays(start, 7)) }
+  })
+}
+
+// Open todos at the end of each of the last `days` days (now, for today)
+export function burndown(histories: TodoHistory[], days = STATS_DAYS, now = new Date()) {
+  const today = startOfDay(now)
+  const before = (iso: string | null, end: Date) => !!iso && new Date(iso) < end
+  return Array.from({ length: days }, (_, i): StatsBucket => {
+    const start = addDays(today, i - days + 1)
+    const end = i === days - 1 ? now : addDays(start, 1)
+    const count = histories.filter(
+      (history) =>
+        before(history.created_at, end) &&
+        !before(history.completed_at, end) &&
+        !before(history.deleted_at, end)
+    ).length
+    return { start, count }
+  })
+}
+
+const average = (values: number[]) =>
+  values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null
+
+// Average time from To Do to In Progress (waiting), In Progress to Done
+// (working), and from creation to finished over every finished todo. Todos
+// finished without being started only count towards the total.
+export function cycleTimes(histories: TodoHistory[]): CycleTimes {
+  const time = (iso: string) => new Date(iso).getTime()
+  const finished = histories.filter((history) => history.completed_at)
+  const started = histories.filter((history) => history.started_at)
+
+  return {
+    waiting: average(started.map((history) => time(history.started_at!) - time(history.created_at))),
+    working: average(
+      finished
+        .filter((history) => history.started_at)
+        .map((history) => time(history.completed_at!) - time(history.started_at!))
+    ),
+    total: average(finished.map((history) => time(history.completed_at!) - time(history.created_at))),
+    count: finished.length,
+  }
+}
+
+// Days in a row with something finished. Today only breaks the current
+// streak once it's over, so it counts from yesterday until the first one.
+export function streak(histories: TodoHistory[], now = new Date()) {
+  const days = new Set(completionTimes(histories).map((time) => startOfDay(time).getTime()))
+
+  let day = startOfDay(now)
+  if (!days.has(day.getTime())) day = addDays(day, -1)
+  let current = 0
+  while (days.has(day.getTime())) {
+    current++
+    day = addDays(day, -1)
+  }
+
+  let longest = 0
+  let run = 0
+  let previous: Date | null = null
+  for (const time of [...days].sort((a, b) => a - b)) {
+    const date = new Date(time)
+    run = previous && addDays(previous, 1).getTime() === time ? run + 1 : 1
+    longest = Math.max(longest, run)
+    previous = date
+  }
+
+  return { current, longest }
+}
+
+// "3d 4h", "2h 15m", "12m"
+export function formatDuration(ms: number) {
+  const minutes = Math.round(ms / 60000)
+  if (minutes < 1) return 'under a minute'
+  const days = Math.floor(minutes / 1440)
+  const hours = Math.floor((minutes % 1440) / 60)
+  if (days > 0) return hours > 0 ? `${days}d ${hours}h` : `${days}d`
+  if (hours > 0) return minutes % 60 > 0 ? `${hours}h ${minutes % 60}m` : `${hours}h`
+  return `${minutes}m`
+}
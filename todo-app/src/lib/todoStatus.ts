@@ -0,0 +1,64 @@
+import type { Todo } from '../types/database'
+
+export type TodoStatus = Todo['status']
+
+export const statusOptions: { value: TodoStatus; label: string; color: string }[] = [
+  { value: 'todo', label: 'To Do', color: 'bg-gray-500' },
+  { value: 'in-progress', label: 'In Progress', color: 'bg-blue-500' },
+  { value: 'done', label: 'Done', color: 'bg-green-500' },
+]
+
+export function getStatusColor(status: TodoStatus) {
+  return statusOptions.find((opt) => opt.value === status)?.color || 'bg-gray-500'
+}
+
+export function getStatusLabel(status: TodoStatus) {
+  return statusOptions.find((opt) => opt.value === status)?.label || status
+}
+
+type StatusFields = Pick<Todo, 'status' | 'completed' | 'started_at' | 'completed_at'>
+
+// Ticked off or moved to Done; the two are set separately
+export function isFinished(todo: Pick<Todo, 'status' | 'completed'>) {
+  return todo.completed || todo.status === 'done'
+}
+
+// When a todo was started and finished, following its status: moving it to
+// In Progress starts it, finishing it sets completed_at, and putting it back
+// in To Do clears both. The todos_status_times trigger does the same on the
+// server.
+export function statusTimes(
+  before: StatusFields | null,
+  after: Pick<Todo, 'status' | 'completed'>,
+  now = new Date().toISOString()
+): Pick<Todo, 'started_at' | 'completed_at'> {
+  if (isFinished(after)) {
+    return {
+      started_at: before?.started_at ?? null,
+      completed_at: before && isFinished(before) ? before.completed_at ?? now : now,
+    }
+  }
+  if (after.status === 'in-progress') {
+    return { started_at: before?.started_at ?? now, completed_at: null }
+  }
+  return { started_at: null, completed_at: null }
+}
+
+// Adds the times to a change that moves a todo along, unless it has them.
+// Stamped where the change is made, a change queued offline keeps the time
+// it happened rather than the time it reached the server.
+export function stampStatusChange<T extends Partial<StatusFields>>(
+  before: StatusFields | null,
+  changes: T,
+  now?: string
+): T {
+  if ('started_at' in changes || 'completed_at' in changes) return changes
+  const after = {
+    status: changes.status ?? before?.status ?? 'todo',
+    completed: changes.completed ?? before?.completed ?? false,
+  }
+  if (before && before.status === after.status && isFinished(before) === isFinished(after)) {
+    return changes
+  }
+  return { ...changes, ...statusTimes(before, after, now) }
+}
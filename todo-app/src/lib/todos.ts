@@ -0,0 +1,136 @@
+import { generateKeyBetween } from './fractionalIndex'
+import { stampStatusChange } from './todoStatus'
+import type { ListProgress } from './todoRepository'
+import type { Todo, TodoInsert } from '../types/database'
+
+// Fill in the column defaults the database would apply to an insert
+export function todoFromInsert(row: TodoInsert): Todo {
+  const now = new Date().toISOString()
+  return {
+    id: crypto.randomUUID(),
+    completed: false,
+    status: 'todo',
+    priority: 'none',
+    parent_id: null,
+    position: 'a0',
+    due_at: null,
+    remind_at: null,
+    recurrence: null,
+    notes: null,
+    version: 1,
+    started_at: null,
+    completed_at: null,
+    created_at: now,
+    updated_at: now,
+    ...stampStatusChange(null, row, now),
+  }
+}
+
+// Every column of a todo the app reads and writes. Rows from Postgres and
+// realtime also carry the generated `search` column, which an insert can't
+// set, so rows written back (undoing a delete) are cut down to these.
+const TODO_FIELDS = [
+  'id',
+  'user_id',
+  'list_id',
+  'parent_id',
+  'position',
+  'text',
+  'notes',
+  'completed',
+  'status',
+  'priority',
+  'due_at',
+  'remind_at',
+  'recurrence',
+  'version',
+  'started_at',
+  'completed_at',
+  'created_at',
+  'updated_at',
+] as const satisfies readonly (keyof Todo)[]
+
+export function todoFields(row: Todo): Todo {
+  return Object.fromEntries(TODO_FIELDS.map((field) => [field, row[field]])) as Todo
+}
+
+export function countProgress(todos: Pick<Todo, 'list_id' | 'completed'>[]) {
+  const progress: Record<string, ListProgress> = {}
+  for (const todo of todos) {
+    const entry = (progress[todo.list_id] ??= { total: 0, completed: 0 })
+    entry.total++
+    if (todo.completed) entry.completed++
+  }
+  return progress
+}
+
+export interface TodoTree {
+  roots: Todo[]
+  children: Map<string, Todo[]>
+}
+
+// Group todos under their parents. Subtasks whose parent isn't loaded are
+// shown as top-level todos rather than disappearing.
+export function buildTree(
+  todos: Todo[],
+  compare: (a: Todo, b: Todo) => number = comparePosition
+): TodoTree {
+  const ids = new Set(todos.map((todo) => todo.id))
+  const roots: Todo[] = []
+  const children = new Map<string, Todo[]>()
+
+  for (const todo of todos) {
+    if (todo.parent_id && ids.has(todo.parent_id)) {
+      const siblings = children.get(todo.parent_id) ?? []
+      siblings.push(todo)
+      children.set(todo.parent_id, siblings)
+    } else {
+      roots.push(todo)
+    }
+  }
+
+  roots.sort(compare)
+  for (const siblings of children.values()) {
+    siblings.sort(compare)
+  }
+  return { roots, children }
+}
+
+// Ids of a todo and everything nested under it
+export function subtreeIds(tree: TodoTree, id: string): string[] {
+  const ids = [id]
+  for (const child of tree.children.get(id) ?? []) {
+    ids.push(...subtreeIds(tree, child.id))
+  }
+  return ids
+}
+
+// Roll-up shown on a parent: how many of its direct subtasks are done
+export function subtaskProgress(tree: TodoTree, id: string): ListProgress | undefined {
+  const children = tree.children.get(id)
+  if (!children) return undefined
+  return {
+    total: children.length,
+    completed: children.filter((child) => child.completed).length,
+  }
+}
+
+// Manual order; ids break ties between keys generated concurrently on two
+// devices so every client settles on the same order
+export function comparePosition(a: Todo, b: Todo) {
+  if (a.position !== b.position) return a.position < b.position ? -1 : 1
+  return a.id < b.id ? -1 : 1
+}
+
+export function sortByPosition(todos: Todo[]) {
+  return [...todos].sort(comparePosition)
+}
+
+// Order key for a todo placed between two neighbours (either may be missing)
+export function positionBetween(before: Todo | undefined, after: Todo | undefined) {
+  const a = before?.position ?? null
+  const b = after?.position ?? null
+  // Neighbours that tied can't be split; land just after the first instead
+  if (a !== null && b !== null && a >= b) return generateKeyBetween(a, null)
+  return generateKeyBetween(a, b)
+}
@@ -6,45 +6,355 @@ export type Json =
   | { [key: string]: Json | undefined }
   | Json[]
 
+// The columns a todo event tracks, as stored in its JSONB old/new values
+export type TodoEventValues = {
+  text?: string
+  status?: 'todo' | 'in-progress' | 'done'
+  completed?: boolean
+}
+
 export type Database = {
   public: {
     Tables: {
+      list_invites: {
+        Row: {
+          id: string
+          list_id: string
+          email: string
+          role: 'editor' | 'viewer'
+          invited_by: string
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          list_id: string
+          email: string
+          role: 'editor' | 'viewer'
+          invited_by: string
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          list_id?: string
+          email?: string
+          role?: 'editor' | 'viewer'
+          invited_by?: string
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'list_invites_list_id_fkey'
+            columns: ['list_id']
+            isOneToOne: false
+            referencedRelation: 'lists'
+            referencedColumns: ['id']
+          },
+        ]
+      }
+      list_members: {
+        Row: {
+          list_id: string
+          user_id: string
+          email: string
+          role: 'owner' | 'editor' | 'viewer'
+          created_at: string
+        }
+        Insert: {
+          list_id: string
+          user_id: string
+          email: string
+          role: 'owner' | 'editor' | 'viewer'
+          created_at?: string
+        }
+        Update: {
+          list_id?: string
+          user_id?: string
+          email?: string
+          role?: 'owner' | 'editor' | 'viewer'
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'list_members_list_id_fkey'
+            columns: ['list_id']
+            isOneToOne: false
+            referencedRelation: 'lists'
+            referencedColumns: ['id']
+          },
+        ]
+      }
+      lists: {
+        Row: {
+          id: string
+          user_id: string
+          name: string
+          position: number
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          name: string
+          position?: number
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          name?: string
+          position?: number
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      tags: {
+        Row: {
+          id: string
+          list_id: string
+          name: string
+          color: 'gray' | 'red' | 'orange' | 'yellow' | 'green' | 'blue' | 'purple' | 'pink'
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          list_id: string
+          name: string
+          color?: 'gray' | 'red' | 'orange' | 'yellow' | 'green' | 'blue' | 'purple' | 'pink'
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          list_id?: string
+          name?: string
+          color?: 'gray' | 'red' | 'orange' | 'yellow' | 'green' | 'blue' | 'purple' | 'pink'
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'tags_list_id_fkey'
+            columns: ['list_id']
+            isOneToOne: false
+            referencedRelation: 'lists'
+            referencedColumns: ['id']
+          },
+        ]
+      }
+      todo_events: {
+        Row: {
+          id: number
+          todo_id: string
+          list_id: string
+          actor_id: string | null
+          actor_email: string | null
+          action: 'insert' | 'update' | 'delete'
+          old_values: TodoEventValues | null
+          new_values: TodoEventValues | null
+          created_at: string
+        }
+        // Written by the todos_record_event trigger only
+        Insert: {
+          id?: never
+          todo_id: string
+          list_id: string
+          actor_id?: string | null
+          actor_email?: string | null
+          action: 'insert' | 'update' | 'delete'
+          old_values?: TodoEventValues | null
+          new_values?: TodoEventValues | null
+          created_at?: string
+        }
+        Update: {
+          id?: never
+          todo_id?: string
+          list_id?: string
+          actor_id?: string | null
+          actor_email?: string | null
+          action?: 'insert' | 'update' | 'delete'
+          old_values?: TodoEventValues | null
+          new_values?: TodoEventValues | null
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'todo_events_list_id_fkey'
+            columns: ['list_id']
+            isOneToOne: false
+            referencedRelation: 'lists'
+            referencedColumns: ['id']
+          },
+        ]
+      }
+      todo_tags: {
+        Row: {
+          id: string
+          todo_id: string
+          tag_id: string
+          list_id: string
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          todo_id: string
+          tag_id: string
+          list_id: string
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          todo_id?: string
+          tag_id?: string
+          list_id?: string
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'todo_tags_todo_id_fkey'
+            columns: ['todo_id']
+            isOneToOne: false
+            referencedRelation: 'todos'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'todo_tags_tag_id_fkey'
+            columns: ['tag_id']
+            isOneToOne: false
+            referencedRelation: 'tags'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'todo_tags_list_id_fkey'
+            columns: ['list_id']
+            isOneToOne: false
+            referencedRelation: 'lists'
+            referencedColumns: ['id']
+          },
+        ]
+      }
       todos: {
         Row: {
           id: string
           user_id: string
+          list_id: string
+          parent_id: string | null
+          position: string
           text: string
+          notes: string | null
           completed: boolean
           status: 'todo' | 'in-progress' | 'done'
+          priority: 'none' | 'low' | 'medium' | 'high' | 'urgent'
+          due_at: string | null
+          remind_at: string | null
+          recurrence: string | null
+          version: number
+          started_at: string | null
+          completed_at: string | null
           created_at: string
           updated_at: string
         }
         Insert: {
           id?: string
           user_id: string
+          list_id: string
+          parent_id?: string | null
+          position?: string
           text: string
+          notes?: string | null
           completed?: boolean
           status?: 'todo' | 'in-progress' | 'done'
+          priority?: 'none' | 'low' | 'medium' | 'high' | 'urgent'
+          due_at?: string | null
+          remind_at?: string | null
+          recurrence?: string | null
+          version?: number
+          started_at?: string | null
+          completed_at?: string | null
           created_at?: string
           updated_at?: string
         }
         Update: {
           id?: string
           user_id?: string
+          list_id?: string
+          parent_id?: string | null
+          position?: string
           text?: string
+          notes?: string | null
           completed?: boolean
           status?: 'todo' | 'in-progress' | 'done'
+          priority?: 'none' | 'low' | 'medium' | 'high' | 'urgent'
+          due_at?: string | null
+          remind_at?: string | null
+          recurrence?: string | null
+          version?: number
+          started_at?: string | null
+          completed_at?: string | null
           created_at?: string
           updated_at?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: 'todos_list_id_fkey'
+            columns: ['list_id']
+            isOneToOne: false
+            referencedRelation: 'lists'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'todos_parent_id_fkey'
+            columns: ['parent_id']
+            isOneToOne: false
+            referencedRelation: 'todos'
+            referencedColumns: ['id']
+          },
+        ]
       }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      accept_list_invites: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      delete_account: {
+        Args: Record<PropertyKey, never>
+        Returns: undefined
+      }
+      invite_list_member: {
+        Args: {
+          p_list_id: string
+          p_email: string
+          p_role: 'editor' | 'viewer'
+        }
+        Returns: 'added' | 'invited'
+      }
+      list_progress: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          list_id: string
+          total: number
+          completed: number
+        }[]
+      }
+      list_role: {
+        Args: {
+          p_list_id: string
+        }
+        Returns: 'owner' | 'editor' | 'viewer' | null
+      }
+      update_todos: {
+        Args: {
+          p_updates: Json
+        }
+        Returns: undefined
+      }
     }
     Enums: {
       [_ in never]: never
@@ -56,3 +366,17 @@ export type Database = {
 }
 
 export type Todo = Database['public']['Tables']['todos']['Row']
+export type TodoInsert = Database['public']['Tables']['todos']['Insert']
+export type TodoUpdate = Database['public']['Tables']['todos']['Update']
+export type List = Database['public']['Tables']['lists']['Row']
+export type ListInsert = Database['public']['Tables']['lists']['Insert']
+export type ListUpdate = Database['public']['Tables']['lists']['Update']
+export type ListMember = Database['public']['Tables']['list_members']['Row']
+export type ListInvite = Database['public']['Tables']['list_invites']['Row']
+export type ListRole = ListMember['role']
+export type Tag = Database['public']['Tables']['tags']['Row']
+export type TagInsert = Database['public']['Tables']['tags']['Insert']
+export type TagUpdate = Database['public']['Tables']['tags']['Update']
+export type TodoTag = Database['public']['Tables']['todo_tags']['Row']
+export type TodoTagInsert = Database['public']['Tables']['todo_tags']['Insert']
+export type TodoEvent = Database['public']['Tables']['todo_events']['Row']
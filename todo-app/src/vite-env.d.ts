@@ -3,6 +3,8 @@
 interface ImportMetaEnv {
   readonly VITE_SUPABASE_URL: string
   readonly VITE_SUPABASE_ANON_KEY: string
+  // Comma-separated OAuth providers to offer on the sign-in screen
+  readonly VITE_AUTH_PROVIDERS?: string
 }
 
 interface ImportMeta {
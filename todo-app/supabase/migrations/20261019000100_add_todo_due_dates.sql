@@ -0,0 +1,7 @@
+-- Due dates and reminders
+ALTER TABLE todos
+  ADD COLUMN due_at TIMESTAMPTZ,
+  ADD COLUMN remind_at TIMESTAMPTZ;
+
+-- Overdue / Today / Upcoming grouping sorts on due_at
+CREATE INDEX idx_todos_due_at ON todos(user_id, due_at);
@@ -0,0 +1,65 @@
+-- Named lists (projects) that todos belong to
+CREATE TABLE lists (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (length(trim(name)) > 0),
+  position INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now()
+);
+
+ALTER TABLE lists ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own lists"
+  ON lists FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own lists"
+  ON lists FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own lists"
+  ON lists FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own lists"
+  ON lists FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE INDEX idx_lists_user_id ON lists(user_id, position);
+
+-- Existing todos move into an "Inbox" list per user
+ALTER TABLE todos ADD COLUMN list_id UUID REFERENCES lists(id) ON DELETE CASCADE;
+
+INSERT INTO lists (user_id, name)
+SELECT DISTINCT user_id, 'Inbox' FROM todos;
+
+UPDATE todos
+SET list_id = lists.id
+FROM lists
+WHERE lists.user_id = todos.user_id;
+
+ALTER TABLE todos ALTER COLUMN list_id SET NOT NULL;
+
+CREATE INDEX idx_todos_list_id ON todos(list_id, created_at DESC);
+
+-- A todo can only be put in one of the user's own lists
+DROP POLICY "Users can insert own todos" ON todos;
+DROP POLICY "Users can update own todos" ON todos;
+
+CREATE POLICY "Users can insert own todos"
+  ON todos FOR INSERT
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (SELECT 1 FROM lists WHERE lists.id = list_id AND lists.user_id = auth.uid())
+  );
+
+CREATE POLICY "Users can update own todos"
+  ON todos FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (
+    EXISTS (SELECT 1 FROM lists WHERE lists.id = list_id AND lists.user_id = auth.uid())
+  );
+
+-- Sidebar changes sync between devices
+ALTER PUBLICATION supabase_realtime ADD TABLE lists;
@@ -0,0 +1,173 @@
+-- Collaborators on a list. The email is copied in so members can be shown
+-- without exposing auth.users to the client.
+CREATE TABLE list_members (
+  list_id UUID NOT NULL REFERENCES lists(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  email TEXT NOT NULL,
+  role TEXT NOT NULL CHECK (role IN ('owner', 'editor', 'viewer')),
+  created_at TIMESTAMPTZ DEFAULT now(),
+  PRIMARY KEY (list_id, user_id)
+);
+
+CREATE INDEX idx_list_members_user_id ON list_members(user_id);
+
+-- Invites for people who don't have an account yet; turned into memberships
+-- by accept_list_invites() once they sign in
+CREATE TABLE list_invites (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  list_id UUID NOT NULL REFERENCES lists(id) ON DELETE CASCADE,
+  email TEXT NOT NULL,
+  role TEXT NOT NULL CHECK (role IN ('editor', 'viewer')),
+  invited_by UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  UNIQUE (list_id, email)
+);
+
+CREATE INDEX idx_list_invites_email ON list_invites(email);
+
+-- Role of the current user in a list, or NULL. SECURITY DEFINER so the
+-- policies on list_members can call it without recursing into themselves.
+CREATE FUNCTION list_role(p_list_id UUID) RETURNS TEXT
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public AS $$
+  SELECT role FROM list_members WHERE list_id = p_list_id AND user_id = auth.uid()
+$$;
+
+-- Whoever creates a list owns it
+CREATE FUNCTION add_list_owner() RETURNS TRIGGER
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+BEGIN
+  INSERT INTO list_members (list_id, user_id, email, role)
+  SELECT NEW.id, NEW.user_id, lower(users.email), 'owner'
+  FROM auth.users
+  WHERE users.id = NEW.user_id;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER lists_add_owner
+  AFTER INSERT ON lists
+  FOR EACH ROW EXECUTE FUNCTION add_list_owner();
+
+INSERT INTO list_members (list_id, user_id, email, role)
+SELECT lists.id, lists.user_id, lower(users.email), 'owner'
+FROM lists
+JOIN auth.users ON users.id = lists.user_id;
+
+-- Invite by email: adds the member straight away if they have an account,
+-- otherwise leaves a pending invite
+CREATE FUNCTION invite_list_member(p_list_id UUID, p_email TEXT, p_role TEXT) RETURNS TEXT
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+  v_email TEXT := lower(trim(p_email));
+  v_user_id UUID;
+BEGIN
+  IF list_role(p_list_id) IS DISTINCT FROM 'owner' THEN
+    RAISE EXCEPTION 'Only the list owner can invite people' USING ERRCODE = '42501';
+  END IF;
+  IF p_role NOT IN ('editor', 'viewer') THEN
+    RAISE EXCEPTION 'Invalid role: %', p_role USING ERRCODE = '22023';
+  END IF;
+
+  SELECT id INTO v_user_id FROM auth.users WHERE lower(email) = v_email;
+
+  IF v_user_id IS NOT NULL THEN
+    INSERT INTO list_members (list_id, user_id, email, role)
+    VALUES (p_list_id, v_user_id, v_email, p_role)
+    ON CONFLICT (list_id, user_id) DO UPDATE SET role = EXCLUDED.role
+    WHERE list_members.role <> 'owner';
+    RETURN 'added';
+  END IF;
+
+  INSERT INTO list_invites (list_id, email, role, invited_by)
+  VALUES (p_list_id, v_email, p_role, auth.uid())
+  ON CONFLICT (list_id, email) DO UPDATE SET role = EXCLUDED.role;
+  RETURN 'invited';
+END;
+$$;
+
+CREATE FUNCTION accept_list_invites() RETURNS INTEGER
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+  v_count INTEGER;
+BEGIN
+  INSERT INTO list_members (list_id, user_id, email, role)
+  SELECT list_id, auth.uid(), email, role
+  FROM list_invites
+  WHERE email = lower(auth.email())
+  ON CONFLICT (list_id, user_id) DO NOTHING;
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+
+  DELETE FROM list_invites WHERE email = lower(auth.email());
+  RETURN v_count;
+END;
+$$;
+
+-- lists: any member can see a list, only its owner can change it
+DROP POLICY "Users can view own lists" ON lists;
+DROP POLICY "Users can update own lists" ON lists;
+DROP POLICY "Users can delete own lists" ON lists;
+
+CREATE POLICY "Members can view lists"
+  ON lists FOR SELECT
+  USING (list_role(id) IS NOT NULL);
+
+CREATE POLICY "Owners can update lists"
+  ON lists FOR UPDATE
+  USING (list_role(id) = 'owner');
+
+CREATE POLICY "Owners can delete lists"
+  ON lists FOR DELETE
+  USING (list_role(id) = 'owner');
+
+-- todos: members can read, owners and editors can write
+DROP POLICY "Users can view own todos" ON todos;
+DROP POLICY "Users can insert own todos" ON todos;
+DROP POLICY "Users can update own todos" ON todos;
+DROP POLICY "Users can delete own todos" ON todos;
+
+CREATE POLICY "Members can view todos"
+  ON todos FOR SELECT
+  USING (list_role(list_id) IS NOT NULL);
+
+CREATE POLICY "Editors can insert todos"
+  ON todos FOR INSERT
+  WITH CHECK (auth.uid() = user_id AND list_role(list_id) IN ('owner', 'editor'));
+
+CREATE POLICY "Editors can update todos"
+  ON todos FOR UPDATE
+  USING (list_role(list_id) IN ('owner', 'editor'))
+  WITH CHECK (list_role(list_id) IN ('owner', 'editor'));
+
+CREATE POLICY "Editors can delete todos"
+  ON todos FOR DELETE
+  USING (list_role(list_id) IN ('owner', 'editor'));
+
+-- list_members: rows are added by the trigger and RPCs above
+ALTER TABLE list_members ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view fellow members"
+  ON list_members FOR SELECT
+  USING (list_role(list_id) IS NOT NULL);
+
+CREATE POLICY "Owners can change roles"
+  ON list_members FOR UPDATE
+  USING (list_role(list_id) = 'owner' AND role <> 'owner')
+  WITH CHECK (role IN ('editor', 'viewer'));
+
+CREATE POLICY "Owners can remove members and members can leave"
+  ON list_members FOR DELETE
+  USING (role <> 'owner' AND (list_role(list_id) = 'owner' OR user_id = auth.uid()));
+
+-- list_invites: only visible to the owner of the list
+ALTER TABLE list_invites ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Owners can view invites"
+  ON list_invites FOR SELECT
+  USING (list_role(list_id) = 'owner');
+
+CREATE POLICY "Owners can cancel invites"
+  ON list_invites FOR DELETE
+  USING (list_role(list_id) = 'owner');
+
+-- New memberships make shared lists appear in the sidebar
+ALTER PUBLICATION supabase_realtime ADD TABLE list_members;
@@ -0,0 +1,24 @@
+-- Subtasks: a todo can belong to a parent todo in the same list.
+-- Deleting a parent deletes its whole subtree.
+ALTER TABLE todos
+  ADD COLUMN parent_id UUID REFERENCES todos(id) ON DELETE CASCADE,
+  ADD CONSTRAINT todos_parent_not_self CHECK (parent_id <> id);
+
+CREATE INDEX idx_todos_parent_id ON todos(parent_id);
+
+-- Keep subtasks in their parent's list so a list never shows half a tree
+CREATE FUNCTION check_todo_parent_list() RETURNS TRIGGER
+LANGUAGE plpgsql AS $$
+BEGIN
+  IF NEW.parent_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM todos WHERE id = NEW.parent_id AND list_id = NEW.list_id
+  ) THEN
+    RAISE EXCEPTION 'A subtask must be in the same list as its parent' USING ERRCODE = '23514';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER todos_check_parent_list
+  BEFORE INSERT OR UPDATE OF parent_id, list_id ON todos
+  FOR EACH ROW EXECUTE FUNCTION check_todo_parent_list();
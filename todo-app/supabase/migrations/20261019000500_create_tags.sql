@@ -0,0 +1,67 @@
+-- Tags belong to a list, so everyone sharing the list sees the same tags
+CREATE TABLE tags (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  list_id UUID NOT NULL REFERENCES lists(id) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (length(trim(name)) > 0),
+  color TEXT NOT NULL DEFAULT 'gray'
+    CHECK (color IN ('gray', 'red', 'orange', 'yellow', 'green', 'blue', 'purple', 'pink')),
+  created_at TIMESTAMPTZ DEFAULT now(),
+  updated_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE UNIQUE INDEX idx_tags_list_id_name ON tags(list_id, lower(name));
+
+-- Which todos carry which tags. list_id is copied in so realtime can filter
+-- links by list; it must match both the todo and the tag.
+CREATE TABLE todo_tags (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  todo_id UUID NOT NULL REFERENCES todos(id) ON DELETE CASCADE,
+  tag_id UUID NOT NULL REFERENCES tags(id) ON DELETE CASCADE,
+  list_id UUID NOT NULL REFERENCES lists(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ DEFAULT now(),
+  UNIQUE (todo_id, tag_id)
+);
+
+CREATE INDEX idx_todo_tags_list_id ON todo_tags(list_id);
+CREATE INDEX idx_todo_tags_tag_id ON todo_tags(tag_id);
+
+-- Members can read, owners and editors can write
+ALTER TABLE tags ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view tags"
+  ON tags FOR SELECT
+  USING (list_role(list_id) IS NOT NULL);
+
+CREATE POLICY "Editors can insert tags"
+  ON tags FOR INSERT
+  WITH CHECK (list_role(list_id) IN ('owner', 'editor'));
+
+CREATE POLICY "Editors can update tags"
+  ON tags FOR UPDATE
+  USING (list_role(list_id) IN ('owner', 'editor'))
+  WITH CHECK (list_role(list_id) IN ('owner', 'editor'));
+
+CREATE POLICY "Editors can delete tags"
+  ON tags FOR DELETE
+  USING (list_role(list_id) IN ('owner', 'editor'));
+
+ALTER TABLE todo_tags ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view todo tags"
+  ON todo_tags FOR SELECT
+  USING (list_role(list_id) IS NOT NULL);
+
+CREATE POLICY "Editors can tag todos"
+  ON todo_tags FOR INSERT
+  WITH CHECK (
+    list_role(list_id) IN ('owner', 'editor')
+    AND EXISTS (SELECT 1 FROM todos WHERE todos.id = todo_id AND todos.list_id = todo_tags.list_id)
+    AND EXISTS (SELECT 1 FROM tags WHERE tags.id = tag_id AND tags.list_id = todo_tags.list_id)
+  );
+
+CREATE POLICY "Editors can untag todos"
+  ON todo_tags FOR DELETE
+  USING (list_role(list_id) IN ('owner', 'editor'));
+
+ALTER PUBLICATION supabase_realtime ADD TABLE tags;
+ALTER PUBLICATION supabase_realtime ADD TABLE todo_tags;
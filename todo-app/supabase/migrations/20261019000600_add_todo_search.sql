@@ -0,0 +1,6 @@
+-- Full-text search on todo text. The 'simple' config skips stemming so
+-- prefix searches behave like the client-side fallback.
+ALTER TABLE todos
+  ADD COLUMN search TSVECTOR GENERATED ALWAYS AS (to_tsvector('simple', text)) STORED;
+
+CREATE INDEX idx_todos_search ON todos USING GIN (search);
@@ -0,0 +1,22 @@
+-- Manual ordering with fractional index keys (see src/lib/fractionalIndex.ts).
+-- Keys compare byte-wise, hence the "C" collation. The default only catches
+-- inserts from clients that predate this column.
+ALTER TABLE todos ADD COLUMN position TEXT COLLATE "C" NOT NULL DEFAULT 'a0';
+
+-- Keep the existing newest-first order: key 'c' + three base-62 digits
+-- per todo, counting up from the newest in each list
+WITH ordered AS (
+  SELECT id, row_number() OVER (PARTITION BY list_id ORDER BY created_at DESC) - 1 AS n
+  FROM todos
+), digits AS (
+  SELECT '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz' AS d
+)
+UPDATE todos
+SET position = 'c'
+  || substr(d, (n / 3844 % 62)::int + 1, 1)
+  || substr(d, (n / 62 % 62)::int + 1, 1)
+  || substr(d, (n % 62)::int + 1, 1)
+FROM ordered, digits
+WHERE todos.id = ordered.id;
+
+CREATE INDEX idx_todos_position ON todos(list_id, position);
@@ -0,0 +1,20 @@
+-- Priority levels
+ALTER TABLE todos
+  ADD COLUMN priority TEXT NOT NULL DEFAULT 'none'
+    CHECK (priority IN ('none', 'low', 'medium', 'high', 'urgent'));
+
+-- Sorting by "last updated" needs updated_at to move on every change, which
+-- until now only the local backend did
+CREATE OR REPLACE FUNCTION set_updated_at()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  NEW.updated_at := now();
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_todos_updated_at
+  BEFORE UPDATE ON todos
+  FOR EACH ROW EXECUTE FUNCTION set_updated_at();
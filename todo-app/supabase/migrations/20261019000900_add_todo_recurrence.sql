@@ -0,0 +1,7 @@
+-- Recurring todos: an RRULE (RFC 5545 subset, see src/lib/recurrence.ts).
+-- Completing a recurring todo inserts the next occurrence with an id derived
+-- from the completed todo's, so concurrent completions insert the same row
+-- and the primary key turns the second into a no-op.
+ALTER TABLE todos
+  ADD COLUMN recurrence TEXT
+    CHECK (recurrence ~ '^FREQ=(DAILY|WEEKLY|MONTHLY|YEARLY)(;[A-Z]+=[^;]+)*$');
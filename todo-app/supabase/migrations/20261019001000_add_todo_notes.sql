@@ -0,0 +1,4 @@
+-- Free-form notes on a todo, written in Markdown and rendered on the client
+-- (see src/lib/markdown.ts). Not part of the search column.
+ALTER TABLE todos
+  ADD COLUMN notes TEXT CHECK (char_length(notes) <= 20000);
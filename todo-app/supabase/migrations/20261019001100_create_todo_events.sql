@@ -0,0 +1,82 @@
+-- Activity history: one row per insert, update or delete of a todo, written
+-- by a trigger so every client (and SQL run by hand) is covered. Only the
+-- text, status and completed columns are tracked. Events have no foreign key
+-- to todos so they outlive the todo they describe.
+CREATE TABLE todo_events (
+  id BIGINT GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+  todo_id UUID NOT NULL,
+  list_id UUID NOT NULL REFERENCES lists(id) ON DELETE CASCADE,
+  -- Who made the change; the email is copied in as on list_members
+  actor_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  actor_email TEXT,
+  action TEXT NOT NULL CHECK (action IN ('insert', 'update', 'delete')),
+  -- The tracked columns that changed: their values before (NULL for an
+  -- insert) and after (NULL for a delete)
+  old_values JSONB,
+  new_values JSONB,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_todo_events_todo_id ON todo_events(todo_id, created_at DESC);
+CREATE INDEX idx_todo_events_list_id ON todo_events(list_id);
+
+CREATE FUNCTION record_todo_event() RETURNS TRIGGER
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+  v_old JSONB := '{}';
+  v_new JSONB := '{}';
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    v_new := jsonb_build_object('text', NEW.text, 'status', NEW.status, 'completed', NEW.completed);
+  ELSIF TG_OP = 'DELETE' THEN
+    -- Deleting a list cascades to its todos; there is no list left to log to
+    IF NOT EXISTS (SELECT 1 FROM lists WHERE id = OLD.list_id) THEN
+      RETURN OLD;
+    END IF;
+    v_old := jsonb_build_object('text', OLD.text, 'status', OLD.status, 'completed', OLD.completed);
+  ELSE
+    IF NEW.text IS DISTINCT FROM OLD.text THEN
+      v_old := v_old || jsonb_build_object('text', OLD.text);
+      v_new := v_new || jsonb_build_object('text', NEW.text);
+    END IF;
+    IF NEW.status IS DISTINCT FROM OLD.status THEN
+      v_old := v_old || jsonb_build_object('status', OLD.status);
+      v_new := v_new || jsonb_build_object('status', NEW.status);
+    END IF;
+    IF NEW.completed IS DISTINCT FROM OLD.completed THEN
+      v_old := v_old || jsonb_build_object('completed', OLD.completed);
+      v_new := v_new || jsonb_build_object('completed', NEW.completed);
+    END IF;
+    -- Reordering, dates, priority and so on aren't tracked
+    IF v_new = '{}' THEN
+      RETURN NEW;
+    END IF;
+  END IF;
+
+  INSERT INTO todo_events (todo_id, list_id, actor_id, actor_email, action, old_values, new_values)
+  SELECT
+    COALESCE(NEW.id, OLD.id),
+    COALESCE(NEW.list_id, OLD.list_id),
+    auth.uid(),
+    (SELECT lower(email) FROM auth.users WHERE id = auth.uid()),
+    lower(TG_OP),
+    NULLIF(v_old, '{}'),
+    NULLIF(v_new, '{}');
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$;
+
+CREATE TRIGGER todos_record_event
+  AFTER INSERT OR UPDATE OR DELETE ON todos
+  FOR EACH ROW EXECUTE FUNCTION record_todo_event();
+
+-- Members of the list can read its history; only the trigger writes to it
+ALTER TABLE todo_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view todo events"
+  ON todo_events FOR SELECT
+  USING (list_role(list_id) IS NOT NULL);
+
+-- The detail view's timeline picks up new events as they happen
+ALTER PUBLICATION supabase_realtime ADD TABLE todo_events;
@@ -0,0 +1,22 @@
+-- Every todo carries a version that goes up by one with each update. Clients
+-- send the version their change was made against and only update the row if
+-- it still matches (compare-and-set), so an edit based on a stale copy is
+-- refused instead of silently overwriting someone else's. Realtime events
+-- carry it too, which lets clients drop events that arrive out of order.
+ALTER TABLE todos
+  ADD COLUMN version INTEGER NOT NULL DEFAULT 1;
+
+-- Set here rather than by clients, so the count can't be skipped or reset
+CREATE FUNCTION bump_todo_version()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  NEW.version := OLD.version + 1;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER todos_bump_version
+  BEFORE UPDATE ON todos
+  FOR EACH ROW EXECUTE FUNCTION bump_todo_version();
@@ -0,0 +1,31 @@
+-- Lets users delete their own account. Removing the auth.users row cascades
+-- to everything that references it: the lists they own (and every todo, tag,
+-- membership and event in them), todos they added to lists shared with them,
+-- their memberships and the invites they sent. Events they left on other
+-- people's lists stay, without their id (ON DELETE SET NULL) or email.
+--
+-- Only allowed within five minutes of signing in, so a session left open on
+-- some other device can't be used for it. The `amr` claim records when each
+-- sign-in method was used and, unlike `iat`, isn't renewed when the token is
+-- refreshed.
+CREATE FUNCTION delete_account() RETURNS VOID
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+  v_signed_in_at BIGINT;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not signed in' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT max((method ->> 'timestamp')::BIGINT) INTO v_signed_in_at
+  FROM jsonb_array_elements(auth.jwt() -> 'amr') AS method;
+
+  IF v_signed_in_at IS NULL OR v_signed_in_at < extract(epoch FROM now()) - 300 THEN
+    RAISE EXCEPTION 'Sign in again to delete your account' USING ERRCODE = '42501';
+  END IF;
+
+  UPDATE todo_events SET actor_email = NULL WHERE actor_id = auth.uid();
+  DELETE FROM list_invites WHERE email = lower(auth.email());
+  DELETE FROM auth.users WHERE id = auth.uid();
+END;
+$$;
@@ -0,0 +1,55 @@
+-- When each todo was started and finished, for cycle times and burndown.
+-- started_at is set when a todo moves to In Progress and completed_at when
+-- it's finished (ticked off or moved to Done); moving it back to To Do
+-- clears both, and reopening it clears completed_at.
+ALTER TABLE todos
+  ADD COLUMN started_at TIMESTAMPTZ,
+  ADD COLUMN completed_at TIMESTAMPTZ;
+
+-- Existing todos are dated from their last change, the closest there is.
+-- Triggers are off meanwhile so this doesn't bump versions or record events.
+ALTER TABLE todos DISABLE TRIGGER USER;
+
+UPDATE todos SET started_at = updated_at WHERE status = 'in-progress';
+UPDATE todos SET completed_at = updated_at WHERE completed OR status = 'done';
+
+ALTER TABLE todos ENABLE TRIGGER USER;
+
+-- Clients stamp status changes themselves, so a change queued offline keeps
+-- the time it was made; this fills the times in for any that don't
+CREATE FUNCTION set_todo_status_times()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_finished BOOLEAN := COALESCE(NEW.completed, false) OR NEW.status = 'done';
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.started_at IS NOT NULL OR NEW.completed_at IS NOT NULL THEN
+      RETURN NEW;
+    END IF;
+  ELSIF NEW.started_at IS DISTINCT FROM OLD.started_at
+    OR NEW.completed_at IS DISTINCT FROM OLD.completed_at
+    OR (NEW.status = OLD.status
+      AND v_finished = (COALESCE(OLD.completed, false) OR OLD.status = 'done')) THEN
+    RETURN NEW;
+  END IF;
+
+  IF v_finished THEN
+    IF TG_OP = 'INSERT' OR NOT (COALESCE(OLD.completed, false) OR OLD.status = 'done') THEN
+      NEW.completed_at := now();
+    END IF;
+  ELSIF NEW.status = 'in-progress' THEN
+    NEW.started_at := COALESCE(NEW.started_at, now());
+    NEW.completed_at := NULL;
+  ELSE
+    NEW.started_at := NULL;
+    NEW.completed_at := NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER todos_status_times
+  BEFORE INSERT OR UPDATE ON todos
+  FOR EACH ROW EXECUTE FUNCTION set_todo_status_times();
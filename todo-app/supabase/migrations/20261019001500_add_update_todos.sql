@@ -0,0 +1,57 @@
+-- Bulk edits from multi-select: many todos updated in one request and one
+-- transaction, so either every change is saved or none is. Each update is
+-- {id, changes, version?} and is checked against its version like a single
+-- update; one that lost the race fails the whole batch with status 409
+-- (PostgREST turns SQLSTATE 'PTxyz' into HTTP status xyz).
+--
+-- Runs as the caller, so RLS decides what they may change. A todo moved to
+-- another list loses its tags, which belong to the old list.
+CREATE FUNCTION update_todos(p_updates JSONB) RETURNS VOID
+LANGUAGE plpgsql SET search_path = public AS $$
+DECLARE
+  v_update JSONB;
+  v_todo todos;
+  v_list_id UUID;
+BEGIN
+  FOR v_update IN SELECT value FROM jsonb_array_elements(p_updates) LOOP
+    SELECT * INTO v_todo FROM todos WHERE id = (v_update ->> 'id')::UUID;
+    -- Deleted meanwhile, which a single update lets go too
+    CONTINUE WHEN NOT FOUND;
+
+    IF v_update ? 'version' AND v_todo.version <> (v_update ->> 'version')::INTEGER THEN
+      RAISE EXCEPTION 'A task was changed elsewhere' USING ERRCODE = 'PT409';
+    END IF;
+
+    v_list_id := v_todo.list_id;
+    v_todo := jsonb_populate_record(v_todo, v_update -> 'changes');
+
+    UPDATE todos SET
+      list_id = v_todo.list_id,
+      parent_id = v_todo.parent_id,
+      position = v_todo.position,
+      text = v_todo.text,
+      notes = v_todo.notes,
+      completed = v_todo.completed,
+      status = v_todo.status,
+      priority = v_todo.priority,
+      due_at = v_todo.due_at,
+      remind_at = v_todo.remind_at,
+      recurrence = v_todo.recurrence,
+      started_at = v_todo.started_at,
+      completed_at = v_todo.completed_at
+    WHERE id = v_todo.id AND version = v_todo.version;
+
+    -- Nothing matched: it changed after all, or it isn't the caller's to edit
+    IF NOT FOUND THEN
+      IF EXISTS (SELECT 1 FROM todos WHERE id = v_todo.id AND version <> v_todo.version) THEN
+        RAISE EXCEPTION 'A task was changed elsewhere' USING ERRCODE = 'PT409';
+      END IF;
+      RAISE EXCEPTION 'You no longer have permission to edit these tasks' USING ERRCODE = '42501';
+    END IF;
+
+    IF v_todo.list_id <> v_list_id THEN
+      DELETE FROM todo_tags WHERE todo_id = v_todo.id;
+    END IF;
+  END LOOP;
+END;
+$$;
@@ -0,0 +1,92 @@
+-- Deleting an account could fail: the cascade from auth.users deletes the
+-- user's todos, and record_todo_event logged each of those deletes with the
+-- user as the actor, pointing todo_events.actor_id at the row being deleted.
+-- delete_account now deletes their todos and lists itself before the user,
+-- with event logging switched off for the rest of its transaction through the
+-- todo_app.skip_events setting.
+--
+-- It also only counts the sign-in methods the app offers towards a fresh
+-- sign-in: a password, an email link or code, or OAuth. Accounts without a
+-- password confirm by signing in again with a link or their provider.
+CREATE OR REPLACE FUNCTION record_todo_event() RETURNS TRIGGER
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+  v_old JSONB := '{}';
+  v_new JSONB := '{}';
+BEGIN
+  -- Set by delete_account while it clears out the account
+  IF current_setting('todo_app.skip_events', true) = 'on' THEN
+    RETURN COALESCE(NEW, OLD);
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    v_new := jsonb_build_object('text', NEW.text, 'status', NEW.status, 'completed', NEW.completed);
+  ELSIF TG_OP = 'DELETE' THEN
+    -- Deleting a list cascades to its todos; there is no list left to log to
+    IF NOT EXISTS (SELECT 1 FROM lists WHERE id = OLD.list_id) THEN
+      RETURN OLD;
+    END IF;
+    v_old := jsonb_build_object('text', OLD.text, 'status', OLD.status, 'completed', OLD.completed);
+  ELSE
+    IF NEW.text IS DISTINCT FROM OLD.text THEN
+      v_old := v_old || jsonb_build_object('text', OLD.text);
+      v_new := v_new || jsonb_build_object('text', NEW.text);
+    END IF;
+    IF NEW.status IS DISTINCT FROM OLD.status THEN
+      v_old := v_old || jsonb_build_object('status', OLD.status);
+      v_new := v_new || jsonb_build_object('status', NEW.status);
+    END IF;
+    IF NEW.completed IS DISTINCT FROM OLD.completed THEN
+      v_old := v_old || jsonb_build_object('completed', OLD.completed);
+      v_new := v_new || jsonb_build_object('completed', NEW.completed);
+    END IF;
+    -- Reordering, dates, priority and so on aren't tracked
+    IF v_new = '{}' THEN
+      RETURN NEW;
+    END IF;
+  END IF;
+
+  INSERT INTO todo_events (todo_id, list_id, actor_id, actor_email, action, old_values, new_values)
+  SELECT
+    COALESCE(NEW.id, OLD.id),
+    COALESCE(NEW.list_id, OLD.list_id),
+    auth.uid(),
+    (SELECT lower(email) FROM auth.users WHERE id = auth.uid()),
+    lower(TG_OP),
+    NULLIF(v_old, '{}'),
+    NULLIF(v_new, '{}');
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION delete_account() RETURNS VOID
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+  v_signed_in_at BIGINT;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not signed in' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT max((method ->> 'timestamp')::BIGINT) INTO v_signed_in_at
+  FROM jsonb_array_elements(auth.jwt() -> 'amr') AS method
+  WHERE method ->> 'method' IN ('password', 'otp', 'magiclink', 'oauth');
+
+  IF v_signed_in_at IS NULL OR v_signed_in_at < extract(epoch FROM now()) - 300 THEN
+    RAISE EXCEPTION 'Sign in again to delete your account' USING ERRCODE = '42501';
+  END IF;
+
+  -- Local to this transaction, so logging is back on once it's over
+  PERFORM set_config('todo_app.skip_events', 'on', true);
+
+  -- Their todos in other people's lists, then their own lists with
+  -- everything in them
+  DELETE FROM todos WHERE user_id = auth.uid();
+  DELETE FROM lists WHERE user_id = auth.uid();
+
+  UPDATE todo_events SET actor_email = NULL WHERE actor_id = auth.uid();
+  DELETE FROM list_invites WHERE email = lower(auth.email());
+  DELETE FROM auth.users WHERE id = auth.uid();
+END;
+$$;
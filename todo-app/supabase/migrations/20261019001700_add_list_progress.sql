@@ -0,0 +1,10 @@
+-- Todo counts for every list the user can see, for the sidebar. Counting in
+-- the database saves downloading every todo, and runs as the caller so RLS
+-- decides which lists are counted.
+CREATE FUNCTION list_progress()
+RETURNS TABLE (list_id UUID, total INTEGER, completed INTEGER)
+LANGUAGE sql STABLE SET search_path = public AS $$
+  SELECT todos.list_id, count(*)::INTEGER, (count(*) FILTER (WHERE todos.completed))::INTEGER
+  FROM todos
+  GROUP BY todos.list_id;
+$$;